@@ -0,0 +1,1127 @@
+/**
+ * Tests for the embeddable executor API
+ * Runs real plans in a temp directory with injected git, RLHF and logger adapters
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import fs from 'fs-extra';
+import os from 'os';
+import path from 'path';
+import * as yaml from 'yaml';
+import { EnhancedStepExecutor, executePlan } from '../execute-steps';
+import { StepTypeRegistry } from '../core/step-registry';
+import { acquireExecutionLock, getLockPath } from '../utils/execution-lock';
+import type { GitAdapter, LoggerAdapter, RLHFAdapter } from '../core/executor-api';
+import { cleanupExecutionEnvVars } from './helpers/env-cleanup';
+
+const prompts = vi.hoisted(() => ({ chooseOption: vi.fn(), confirmAction: vi.fn() }));
+vi.mock('../utils/prompt-utils', () => prompts);
+
+const EXECUTE_CONFIG = `
+commit:
+  enabled: true
+  quality_checks:
+    lint: false
+    test: false
+`;
+
+function createStep(id: string, extra: Record<string, unknown> = {}) {
+  return {
+    id,
+    type: 'create_file',
+    path: `src/${id}.ts`,
+    template: `export const ${id.replace(/-/g, '_')} = true;\n`,
+    status: 'PENDING',
+    rlhf_score: null,
+    execution_log: '',
+    ...extra,
+  };
+}
+
+describe('EnhancedStepExecutor API', () => {
+  let tempDir: string;
+  let originalCwd: string;
+  let gitCommands: string[][];
+  let git: GitAdapter;
+  let logger: LoggerAdapter;
+  let rlhf: RLHFAdapter;
+
+  const writePlan = async (steps: unknown[]) => {
+    const planPath = path.join(tempDir, 'implementation.yaml');
+    await fs.writeFile(planPath, yaml.stringify({ steps }));
+    return planPath;
+  };
+
+  beforeEach(async () => {
+    cleanupExecutionEnvVars();
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    originalCwd = process.cwd();
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'executor-api-'));
+    await fs.outputFile(path.join(tempDir, '.regent/config/execute.yml'), EXECUTE_CONFIG);
+    process.chdir(tempDir);
+
+    gitCommands = [];
+    git = {
+      run: vi.fn(async (args: string[]) => {
+        gitCommands.push(args);
+        if (args[0] === 'rev-parse' && args.includes('HEAD')) return 'abc1234\n';
+        if (args[0] === 'cat-file') throw new Error('does not exist');
+        return '';
+      }),
+    };
+    logger = { log: vi.fn(), error: vi.fn(), close: vi.fn() };
+    rlhf = {
+      analyzeExecution: vi.fn(async () => {}),
+      calculateLayerScore: vi.fn(async (_type: string, success: boolean) => (success ? 1 : -1)),
+    };
+  });
+
+  afterEach(async () => {
+    process.chdir(originalCwd);
+    await fs.remove(tempDir);
+    cleanupExecutionEnvVars();
+    vi.restoreAllMocks();
+  });
+
+  it('should return a SUCCESS result and emit lifecycle events', async () => {
+    const planPath = await writePlan([createStep('first'), createStep('second')]);
+    const executor = new EnhancedStepExecutor(
+      planPath,
+      { nonInteractive: true, autoConfirm: true },
+      { git, logger, rlhf, handleSignals: false }
+    );
+
+    const events: string[] = [];
+    executor.on('stepStart', ({ step }) => events.push(`start:${step.id}`));
+    executor.on('commit', ({ step, hash }) => events.push(`commit:${step.id}:${hash}`));
+    executor.on('stepComplete', ({ step }) => events.push(`complete:${step.id}`));
+    executor.on('scoreCalculated', ({ step, score }) => events.push(`score:${step ? step.id : 'plan'}:${score}`));
+
+    const result = await executor.run();
+
+    expect(result.status).toBe('SUCCESS');
+    expect(result.commitHashes).toEqual(['abc1234', 'abc1234']);
+    expect(result.steps.map(step => [step.id, step.status])).toEqual([['first', 'SUCCESS'], ['second', 'SUCCESS']]);
+    expect(result.finalScore).toBe(2);
+    expect(events).toEqual([
+      'start:first', 'score:first:1', 'commit:first:abc1234', 'complete:first',
+      'start:second', 'score:second:1', 'commit:second:abc1234', 'complete:second',
+      'score:plan:2',
+    ]);
+    expect(gitCommands).toContainEqual(['add', 'src/first.ts']);
+    expect(await fs.readFile(path.join(tempDir, 'src/second.ts'), 'utf-8')).toContain('second');
+    expect(logger.close).toHaveBeenCalled();
+  });
+
+  it('should return a FAILED result instead of exiting the process', async () => {
+    const exitSpy = vi.spyOn(process, 'exit').mockImplementation((() => {
+      throw new Error('process.exit called');
+    }) as never);
+    const planPath = await writePlan([
+      createStep('first'),
+      createStep('broken', { validation_script: 'exit 1' }),
+      createStep('never-run'),
+    ]);
+
+    const failures: string[] = [];
+    const result = await executePlan(planPath, {
+      options: { nonInteractive: true, autoConfirm: true },
+      dependencies: { git, logger, rlhf, handleSignals: false },
+      listeners: { stepFailed: ({ step, error }) => failures.push(`${step.id}: ${error}`) },
+    });
+
+    expect(exitSpy).not.toHaveBeenCalled();
+    expect(result.status).toBe('FAILED');
+    expect(result.failedStepId).toBe('broken');
+    expect(result.error).toBe("Step 'broken' failed");
+    expect(result.steps.map(step => step.status)).toEqual(['SUCCESS', 'FAILED', 'PENDING']);
+    expect(failures).toHaveLength(1);
+    expect(failures[0]).toContain('broken: Validation script');
+    expect(rlhf.analyzeExecution).toHaveBeenCalledWith(planPath, undefined);
+  });
+
+  it('should send progress, warnings and errors to the output adapter instead of the console', async () => {
+    const planPath = await writePlan([
+      createStep('first'),
+      createStep('broken', { validation_script: 'exit 1' }),
+    ]);
+    const lines: Record<'info' | 'warn' | 'error', string[]> = { info: [], warn: [], error: [] };
+    const output = {
+      info: vi.fn((message: string) => lines.info.push(message)),
+      warn: vi.fn((message: string) => lines.warn.push(message)),
+      error: vi.fn((message: string) => lines.error.push(message)),
+    };
+
+    const result = await executePlan(planPath, {
+      options: { nonInteractive: true, autoConfirm: true },
+      dependencies: { git, logger, rlhf, output, handleSignals: false },
+    });
+
+    expect(result.status).toBe('FAILED');
+    expect(lines.info.some(line => line.includes('Running in non-interactive mode'))).toBe(true);
+    expect(lines.info.some(line => line.includes("Step 'first' completed successfully"))).toBe(true);
+    expect(lines.error.some(line => line.includes("Step 'broken' failed"))).toBe(true);
+    expect(console.log).not.toHaveBeenCalled();
+    expect(console.warn).not.toHaveBeenCalled();
+  });
+
+  it('should fail a step whose file imports from an outer layer without writing it', async () => {
+    const planPath = await writePlan([
+      createStep('user', {
+        path: 'src/domain/models/user.ts',
+        template: "import { db } from '../../infra/db/client';\nexport type User = { id: string };\n",
+      }),
+    ]);
+
+    const failures: string[] = [];
+    const result = await executePlan(planPath, {
+      options: { nonInteractive: true, autoConfirm: true },
+      dependencies: { git, logger, rlhf, handleSignals: false },
+      listeners: { stepFailed: ({ error }) => failures.push(error) },
+    });
+
+    expect(result.status).toBe('FAILED');
+    expect(result.failedStepId).toBe('user');
+    expect(failures[0]).toContain("src/domain/models/user.ts:1 import '../../infra/db/client' (infra)");
+    expect(await fs.pathExists(path.join(tempDir, 'src/domain/models/user.ts'))).toBe(false);
+  });
+
+  it('should retry a failing step and record it as passed after retries', async () => {
+    const planPath = await writePlan([
+      createStep('flaky', {
+        validation_script: 'test -f .second-attempt || { touch .second-attempt; exit 1; }',
+        policy: { retries: 2, backoff_ms: 0 },
+      }),
+      createStep('stable'),
+    ]);
+
+    const retries: number[] = [];
+    const result = await executePlan(planPath, {
+      options: { nonInteractive: true, autoConfirm: true },
+      dependencies: { git, logger, rlhf, handleSignals: false },
+      listeners: { stepRetry: ({ attempt }) => retries.push(attempt) },
+    });
+    const plan = yaml.parse(await fs.readFile(planPath, 'utf-8'));
+
+    expect(result.status).toBe('SUCCESS');
+    expect(retries).toEqual([1]);
+    expect(result.steps[0]).toMatchObject({ id: 'flaky', status: 'SUCCESS', attempts: 2 });
+    expect(plan.evaluation.step_summary).toEqual({
+      passed: 1,
+      passed_after_retries: 1,
+      failed: 0,
+      skipped: 0,
+      pending: 0,
+      retried_steps: ['flaky'],
+    });
+  });
+
+  it('should skip the dependents of a failed skip_dependents step and run the rest', async () => {
+    const planPath = await writePlan([
+      createStep('entity', { validation_script: 'exit 1', policy: { on_failure: 'skip_dependents' } }),
+      createStep('usecase', { depends_on: ['entity'] }),
+      createStep('readme'),
+    ]);
+
+    const result = await executePlan(planPath, {
+      options: { nonInteractive: true, autoConfirm: true },
+      dependencies: { git, logger, rlhf, handleSignals: false },
+    });
+    const plan = yaml.parse(await fs.readFile(planPath, 'utf-8'));
+
+    expect(result.status).toBe('PARTIAL');
+    expect(result.steps.map(step => [step.id, step.status])).toEqual([
+      ['entity', 'FAILED'], ['usecase', 'PENDING'], ['readme', 'SUCCESS'],
+    ]);
+    expect(plan.steps[1].execution_log).toContain("depends on failed step 'entity'");
+    expect(await fs.pathExists(path.join(tempDir, 'src/entity.ts'))).toBe(false);
+    expect(rlhf.analyzeExecution).toHaveBeenCalled();
+  });
+
+  it('should put back the files of the other steps of a wave when one of them aborts', async () => {
+    await fs.outputFile(path.join(tempDir, 'src/a.ts'), 'export const name = "a";\n');
+    const planPath = await writePlan([
+      createStep('model'),
+      createStep('rename', {
+        type: 'refactor_file',
+        path: 'src/a.ts',
+        template: '<<<REPLACE>>>\n"a"\n<<</REPLACE>>>\n<<<WITH>>>\n"renamed"\n<<</WITH>>>',
+        depends_on: ['model'],
+      }),
+      createStep('broken', { validation_script: 'exit 1', depends_on: ['model'] }),
+    ]);
+
+    const result = await executePlan(planPath, {
+      options: { nonInteractive: true, autoConfirm: true },
+      dependencies: { git, logger, rlhf, handleSignals: false },
+    });
+
+    expect(result.status).toBe('FAILED');
+    expect(result.steps.map(step => [step.id, step.status])).toEqual([
+      ['model', 'SUCCESS'], ['rename', 'PENDING'], ['broken', 'FAILED'],
+    ]);
+    expect(await fs.readFile(path.join(tempDir, 'src/a.ts'), 'utf-8')).toBe('export const name = "a";\n');
+  });
+
+  it('should put back the failed step and the uncommitted rest of a wave when a commit fails', async () => {
+    let commits = 0;
+    vi.mocked(git.run).mockImplementation(async (args: string[]) => {
+      gitCommands.push(args);
+      if (args[0] === 'rev-parse' && args.includes('HEAD')) return 'abc1234\n';
+      if (args[0] === 'commit' && ++commits === 2) throw new Error('pre-commit hook failed');
+      if (args[0] === 'cat-file') throw new Error('does not exist');
+      return '';
+    });
+    const planPath = await writePlan([createStep('model'), createStep('users'), createStep('orders')]);
+
+    const result = await executePlan(planPath, {
+      options: { nonInteractive: true, autoConfirm: true },
+      dependencies: { git, logger, rlhf, handleSignals: false },
+    });
+
+    expect(result.status).toBe('FAILED');
+    expect(yaml.parse(await fs.readFile(planPath, 'utf-8')).steps.map((step: { id: string; status: string }) => [step.id, step.status])).toEqual([
+      ['model', 'SUCCESS'], ['users', 'FAILED'], ['orders', 'PENDING'],
+    ]);
+    expect(await fs.pathExists(path.join(tempDir, 'src/model.ts'))).toBe(true);
+    expect(await fs.pathExists(path.join(tempDir, 'src/users.ts'))).toBe(false);
+    expect(await fs.pathExists(path.join(tempDir, 'src/orders.ts'))).toBe(false);
+  });
+
+  it('should run dependents after a failed continue step', async () => {
+    const planPath = await writePlan([
+      createStep('optional', { validation_script: 'exit 1' }),
+      createStep('next', { depends_on: ['optional'] }),
+    ]);
+    const plan = yaml.parse(await fs.readFile(planPath, 'utf-8'));
+    await fs.writeFile(planPath, yaml.stringify({ ...plan, step_defaults: { policy: { on_failure: 'continue' } } }));
+
+    const result = await executePlan(planPath, {
+      options: { nonInteractive: true, autoConfirm: true },
+      dependencies: { git, logger, rlhf, handleSignals: false },
+    });
+
+    expect(result.status).toBe('PARTIAL');
+    expect(result.steps.map(step => step.status)).toEqual(['FAILED', 'SUCCESS']);
+  });
+
+  it('should fail a step that exceeds its policy timeout', async () => {
+    const planPath = await writePlan([createStep('hanging', { validation_script: 'sleep 5', policy: { timeout_ms: 300 } })]);
+
+    const failures: string[] = [];
+    const startedAt = Date.now();
+    const result = await executePlan(planPath, {
+      options: { nonInteractive: true, autoConfirm: true },
+      dependencies: { git, logger, rlhf, handleSignals: false },
+      listeners: { stepFailed: ({ error }) => failures.push(error) },
+    });
+
+    expect(result.status).toBe('FAILED');
+    expect(failures[0]).toMatch(/timed out/);
+    expect(Date.now() - startedAt).toBeLessThan(4000);
+  });
+
+  it('should kill a timed-out attempt and ignore its result', async () => {
+    const planPath = await writePlan([
+      createStep('slow', {
+        validation_script: 'echo attempt >> attempts.log\nsleep 0.6\ntouch finished.log',
+        script_timeout_ms: 5000,
+        policy: { timeout_ms: 400, retries: 1, backoff_ms: 0 },
+      }),
+    ]);
+
+    const result = await executePlan(planPath, {
+      options: { nonInteractive: true, autoConfirm: true },
+      dependencies: { git, logger, rlhf, handleSignals: false },
+    });
+    await new Promise(resolve => setTimeout(resolve, 1500));
+
+    const [step] = yaml.parse(await fs.readFile(planPath, 'utf-8')).steps;
+    expect(result.status).toBe('FAILED');
+    expect(step.status).toBe('FAILED');
+    expect(await fs.readFile(path.join(tempDir, 'attempts.log'), 'utf-8')).toBe('attempt\nattempt\n');
+    expect(await fs.pathExists(path.join(tempDir, 'finished.log'))).toBe(false);
+  });
+
+  it('should run plan and step hooks around the step and log their output separately', async () => {
+    await fs.writeJson(path.join(tempDir, 'package.json'), {
+      name: 'hooks-test',
+      private: true,
+      scripts: {
+        'prepare:env': 'echo preparing',
+        codegen: 'echo generating',
+        'lint:fix': 'echo fixing',
+      },
+    });
+    const planPath = await writePlan([
+      createStep('entity', {
+        hooks: { before: 'codegen', after: ['lint:fix'] },
+        validation_script: 'echo validated',
+      }),
+    ]);
+    const plan = yaml.parse(await fs.readFile(planPath, 'utf-8'));
+    await fs.writeFile(planPath, yaml.stringify({ ...plan, hooks: { before_each: 'prepare:env' } }));
+
+    const result = await executePlan(planPath, {
+      options: { nonInteractive: true, autoConfirm: true },
+      dependencies: { git, logger, rlhf, handleSignals: false },
+    });
+    const log: string = yaml.parse(await fs.readFile(planPath, 'utf-8')).steps[0].execution_log;
+
+    expect(result.status).toBe('SUCCESS');
+    const sections = ['--- BEFORE HOOK: prepare:env ---', '--- BEFORE HOOK: codegen ---', '--- AFTER HOOK: lint:fix ---', '--- SCRIPT OUTPUT ---'];
+    const positions = sections.map(section => log.indexOf(section));
+    expect(positions.every(position => position >= 0)).toBe(true);
+    expect([...positions].sort((a, b) => a - b)).toEqual(positions);
+    expect(log).toContain('generating');
+    expect(log.slice(log.indexOf('--- SCRIPT OUTPUT ---'))).not.toContain('fixing');
+  });
+
+  it('should reject unsafe hooks before running any step', async () => {
+    const planPath = await writePlan([createStep('first', { hooks: { after: 'lint && rm -rf src' } })]);
+
+    const result = await executePlan(planPath, {
+      options: { nonInteractive: true, autoConfirm: true },
+      dependencies: { git, logger, rlhf, handleSignals: false },
+    });
+
+    expect(result.status).toBe('FAILED');
+    expect(result.error).toContain("Invalid hooks for step 'first': Unsafe script detected");
+    expect(await fs.pathExists(path.join(tempDir, 'src/first.ts'))).toBe(false);
+  });
+
+  it('should reject invalid step policies before running any step', async () => {
+    const planPath = await writePlan([createStep('first', { policy: { on_failure: 'ignore' } })]);
+
+    const result = await executePlan(planPath, {
+      options: { nonInteractive: true, autoConfirm: true },
+      dependencies: { git, logger, rlhf, handleSignals: false },
+    });
+
+    expect(result.status).toBe('FAILED');
+    expect(result.error).toContain("Invalid policy for step 'first'");
+    expect(result.steps[0].status).toBe('PENDING');
+  });
+
+  it('should write every file of a multi-file step and commit them together', async () => {
+    const planPath = await writePlan([
+      createStep('user-feature', {
+        path: undefined,
+        template: undefined,
+        files: [
+          { path: 'src/domain/models/user.ts', template: 'export type User = { id: string };\n' },
+          { path: 'src/domain/usecases/add-user.ts', template: "import type { User } from '../models/user';\n" },
+        ],
+      }),
+    ]);
+
+    const result = await executePlan(planPath, {
+      options: { nonInteractive: true, autoConfirm: true },
+      dependencies: { git, logger, rlhf, handleSignals: false },
+    });
+
+    expect(result.status).toBe('SUCCESS');
+    expect(result.steps[0].files).toEqual(['src/domain/models/user.ts', 'src/domain/usecases/add-user.ts']);
+    expect(result.commitHashes).toHaveLength(1);
+    expect(gitCommands).toContainEqual(['add', 'src/domain/models/user.ts', 'src/domain/usecases/add-user.ts']);
+    expect(await fs.pathExists(path.join(tempDir, 'src/domain/usecases/add-user.ts'))).toBe(true);
+  });
+
+  it('should leave every file untouched when one file of a multi-file step fails', async () => {
+    await fs.outputFile(path.join(tempDir, 'src/user.ts'), 'export const name = "user";\n');
+    await fs.outputFile(path.join(tempDir, 'src/order.ts'), 'export const name = "order";\n');
+    const planPath = await writePlan([
+      createStep('rename', {
+        type: 'refactor_file',
+        path: undefined,
+        template: undefined,
+        files: [
+          { path: 'src/user.ts', template: '<<<REPLACE>>>\n"user"\n<<</REPLACE>>>\n<<<WITH>>>\n"account"\n<<</WITH>>>' },
+          { path: 'src/order.ts', template: '<<<REPLACE>>>\n"missing"\n<<</REPLACE>>>\n<<<WITH>>>\n"purchase"\n<<</WITH>>>' },
+        ],
+        policy: { on_failure: 'continue' },
+      }),
+      createStep('created', {
+        path: undefined,
+        template: undefined,
+        files: [
+          { path: 'src/a.ts', template: 'export const a = 1;\n' },
+          { path: 'src/b.ts', template: 'export const b = 2;\n' },
+        ],
+        validation_script: 'exit 1',
+        policy: { on_failure: 'continue' },
+      }),
+    ]);
+
+    const result = await executePlan(planPath, {
+      options: { nonInteractive: true, autoConfirm: true },
+      dependencies: { git, logger, rlhf, handleSignals: false },
+    });
+
+    expect(result.steps.map(step => step.status)).toEqual(['FAILED', 'FAILED']);
+    expect(await fs.readFile(path.join(tempDir, 'src/user.ts'), 'utf-8')).toBe('export const name = "user";\n');
+    expect(await fs.pathExists(path.join(tempDir, 'src/a.ts'))).toBe(false);
+    expect(await fs.pathExists(path.join(tempDir, 'src/b.ts'))).toBe(false);
+  });
+
+  it('should apply a unified diff patch step and commit the patched file', async () => {
+    await fs.outputFile(path.join(tempDir, 'src/user.ts'), '// moved down\n\nexport type User = {\n  id: string;\n};\n');
+    const planPath = await writePlan([
+      createStep('add-email', {
+        type: 'patch',
+        path: undefined,
+        template: '--- a/src/user.ts\n+++ b/src/user.ts\n@@ -1,3 +1,4 @@\n export type User = {\n   id: string;\n+  email: string;\n };\n',
+      }),
+    ]);
+
+    const result = await executePlan(planPath, {
+      options: { nonInteractive: true, autoConfirm: true },
+      dependencies: { git, logger, rlhf, handleSignals: false },
+    });
+
+    expect(result.status).toBe('SUCCESS');
+    expect(gitCommands).toContainEqual(['add', 'src/user.ts']);
+    expect(await fs.readFile(path.join(tempDir, 'src/user.ts'), 'utf-8')).toContain('  id: string;\n  email: string;\n};');
+  });
+
+  it('should fail a patch step listing the hunks that did not apply', async () => {
+    const original = 'export type User = {\n  id: string;\n};\n';
+    await fs.outputFile(path.join(tempDir, 'src/user.ts'), original);
+    const planPath = await writePlan([
+      createStep('add-email', {
+        type: 'patch',
+        path: 'src/user.ts',
+        template: '@@ -1,2 +1,2 @@\n-export type User = {\n+export type Account = {\n   id: string;\n@@ -3 +3,2 @@\n-}\n+};\n+export type Id = string;\n',
+      }),
+    ]);
+
+    const failures: string[] = [];
+    const result = await executePlan(planPath, {
+      options: { nonInteractive: true, autoConfirm: true },
+      dependencies: { git, logger, rlhf, handleSignals: false },
+      listeners: { stepFailed: ({ error }) => failures.push(error) },
+    });
+
+    expect(result.status).toBe('FAILED');
+    expect(failures[0]).toContain('Patch failed for src/user.ts: 1 of 2 hunk(s) did not apply');
+    expect(failures[0]).toContain('hunk 2 @@ -3 +3,2 @@');
+    expect(await fs.readFile(path.join(tempDir, 'src/user.ts'), 'utf-8')).toBe(original);
+  });
+
+  it('should move a file, rewrite its importers and stage the move', async () => {
+    await fs.outputFile(path.join(tempDir, 'src/domain/models/user.ts'), 'export type User = { id: string };\n');
+    await fs.outputFile(path.join(tempDir, 'src/domain/models/index.ts'), "export * from './user';\n");
+    await fs.outputFile(path.join(tempDir, 'src/main/factory.ts'), "import type { User } from '@/domain/models/user';\n");
+    const planPath = await writePlan([
+      createStep('move-user', {
+        type: 'move_file',
+        path: 'src/domain/models/user.ts',
+        destination: 'src/features/user/domain/user.ts',
+        template: undefined,
+      }),
+    ]);
+
+    const result = await executePlan(planPath, {
+      options: { nonInteractive: true, autoConfirm: true },
+      dependencies: { git, logger, rlhf, handleSignals: false },
+    });
+
+    expect(result.status).toBe('SUCCESS');
+    expect(await fs.pathExists(path.join(tempDir, 'src/domain/models/user.ts'))).toBe(false);
+    expect(await fs.readFile(path.join(tempDir, 'src/domain/models/index.ts'), 'utf-8')).toBe("export * from '../../features/user/domain/user';\n");
+    expect(await fs.readFile(path.join(tempDir, 'src/main/factory.ts'), 'utf-8')).toContain("'@/features/user/domain/user'");
+    expect(gitCommands).toContainEqual(['add', 'src/features/user/domain/user.ts', 'src/domain/models/index.ts', 'src/main/factory.ts']);
+    expect(gitCommands).toContainEqual(['rm', '--cached', '--quiet', '--ignore-unmatch', '--', 'src/domain/models/user.ts']);
+  });
+
+  it('should move binaries, executables and dot directories of a folder as they are', async () => {
+    const image = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x00, 0xff, 0xfe, 0x80]);
+    await fs.outputFile(path.join(tempDir, 'src/assets/logo.png'), image);
+    await fs.outputFile(path.join(tempDir, 'src/assets/build.sh'), '#!/bin/sh\necho build\n', { mode: 0o755 });
+    await fs.outputFile(path.join(tempDir, 'src/assets/.cache/meta.json'), '{}\n');
+    const planPath = await writePlan([
+      createStep('move-assets', {
+        type: 'move_file',
+        path: 'src/assets',
+        destination: 'public/assets',
+        template: undefined,
+      }),
+    ]);
+
+    const result = await executePlan(planPath, {
+      options: { nonInteractive: true, autoConfirm: true },
+      dependencies: { git, logger, rlhf, handleSignals: false },
+    });
+
+    expect(result.status).toBe('SUCCESS');
+    expect(await fs.readFile(path.join(tempDir, 'public/assets/logo.png'))).toEqual(image);
+    expect((await fs.stat(path.join(tempDir, 'public/assets/build.sh'))).mode & 0o777).toBe(0o755);
+    expect(await fs.readFile(path.join(tempDir, 'public/assets/.cache/meta.json'), 'utf-8')).toBe('{}\n');
+    expect(await fs.pathExists(path.join(tempDir, 'src/assets'))).toBe(false);
+  });
+
+  it('should put every file back when a move_file step fails', async () => {
+    await fs.outputFile(path.join(tempDir, 'src/users/list.ts'), 'export const list = [];\n');
+    await fs.outputFile(path.join(tempDir, 'src/main/factory.ts'), "import { list } from '../users/list';\n");
+    const planPath = await writePlan([
+      createStep('move-users', {
+        type: 'move_file',
+        path: 'src/users',
+        destination: 'src/features/users',
+        template: undefined,
+        validation_script: 'exit 1',
+        policy: { on_failure: 'continue' },
+      }),
+    ]);
+
+    const result = await executePlan(planPath, {
+      options: { nonInteractive: true, autoConfirm: true },
+      dependencies: { git, logger, rlhf, handleSignals: false },
+    });
+
+    expect(result.steps[0].status).toBe('FAILED');
+    expect(await fs.readFile(path.join(tempDir, 'src/users/list.ts'), 'utf-8')).toBe('export const list = [];\n');
+    expect(await fs.readFile(path.join(tempDir, 'src/main/factory.ts'), 'utf-8')).toBe("import { list } from '../users/list';\n");
+    expect(await fs.pathExists(path.join(tempDir, 'src/features/users'))).toBe(false);
+  });
+
+  it('should ask before each step and skip or edit steps as the user chooses', async () => {
+    vi.stubEnv('VISUAL', "sed -i 's/true/false/'");
+    prompts.chooseOption
+      .mockResolvedValueOnce('Skip')
+      .mockResolvedValueOnce('Edit template')
+      .mockResolvedValueOnce('Approve');
+    const planPath = await writePlan([createStep('first'), createStep('second')]);
+
+    const result = await executePlan(planPath, {
+      options: { nonInteractive: false, autoConfirm: true, interactiveSteps: true },
+      dependencies: { git, logger, rlhf, handleSignals: false },
+    });
+    vi.unstubAllEnvs();
+
+    expect(result.status).toBe('SUCCESS');
+    expect(result.steps.map(step => [step.id, step.status])).toEqual([['first', 'SKIPPED'], ['second', 'SUCCESS']]);
+    expect(prompts.chooseOption).toHaveBeenCalledTimes(3);
+    expect(prompts.chooseOption).toHaveBeenCalledWith(
+      "What do you want to do with step 'first'?", ['Approve', 'Skip', 'Edit template', 'Abort'], 'Approve'
+    );
+    expect(await fs.pathExists(path.join(tempDir, 'src/first.ts'))).toBe(false);
+    expect(await fs.readFile(path.join(tempDir, 'src/second.ts'), 'utf-8')).toBe('export const second = false;\n');
+    const saved = yaml.parse(await fs.readFile(planPath, 'utf-8'));
+    expect(saved.steps[1].template).toBe('export const second = false;\n');
+  });
+
+  it('should stop the run when the user aborts at a step', async () => {
+    prompts.chooseOption.mockResolvedValueOnce('Abort');
+    prompts.confirmAction.mockResolvedValueOnce(true);
+    const planPath = await writePlan([createStep('first')]);
+
+    const result = await executePlan(planPath, {
+      options: { nonInteractive: false, autoConfirm: true, interactiveSteps: true },
+      dependencies: { git, logger, rlhf, handleSignals: false },
+    });
+
+    expect(result.status).toBe('FAILED');
+    expect(result.failedStepId).toBe('first');
+    expect(result.error).toBe("Execution aborted by user at step 'first'");
+    expect(await fs.pathExists(path.join(tempDir, 'src/first.ts'))).toBe(false);
+  });
+
+  it('should keep run state in a sidecar file and leave the plan untouched', async () => {
+    await fs.appendFile(path.join(tempDir, '.regent/config/execute.yml'), 'state:\n  store: sidecar\n');
+    const planPath = path.join(tempDir, 'implementation.yaml');
+    const plan = `# Reviewed plan\n${yaml.stringify({ steps: [createStep('first')] })}`;
+    await fs.writeFile(planPath, plan);
+    const run = () => executePlan(planPath, {
+      options: { nonInteractive: true, autoConfirm: true },
+      dependencies: { git, logger, rlhf, handleSignals: false },
+    });
+
+    const result = await run();
+
+    expect(result.status).toBe('SUCCESS');
+    expect(await fs.readFile(planPath, 'utf-8')).toBe(plan);
+    const state = await fs.readJson(path.join(tempDir, '.regent/state/implementation.state.json'));
+    expect(state.plan).toBe('implementation.yaml');
+    expect(state.steps.first.status).toBe('SUCCESS');
+    expect(state.evaluation.final_status).toBe('SUCCESS');
+
+    // The next run reads the statuses back and has nothing left to do
+    const rerun = await run();
+    expect(rerun.steps[0].status).toBe('SUCCESS');
+    expect(rerun.commitHashes).toEqual([]);
+  });
+
+  it('should write run state into the plan without dropping its comments', async () => {
+    const planPath = path.join(tempDir, 'implementation.yaml');
+    await fs.writeFile(planPath, `# Reviewed plan\nsteps:\n  # Entity first\n${yaml.stringify([createStep('first')]).replace(/^/gm, '  ')}`);
+
+    const result = await executePlan(planPath, {
+      options: { nonInteractive: true, autoConfirm: true },
+      dependencies: { git, logger, rlhf, handleSignals: false },
+    });
+
+    expect(result.status).toBe('SUCCESS');
+    const written = await fs.readFile(planPath, 'utf-8');
+    expect(written).toContain('# Reviewed plan');
+    expect(written).toContain('  # Entity first');
+    expect(yaml.parse(written).steps[0].status).toBe('SUCCESS');
+  });
+
+  it('should detect steps edited after they succeeded and re-execute, mark stale or abort', async () => {
+    const planPath = await writePlan([createStep('first'), createStep('second')]);
+    const run = (options: Record<string, boolean>) => executePlan(planPath, {
+      options: { nonInteractive: true, ...options },
+      dependencies: { git, logger, rlhf, handleSignals: false },
+    });
+    expect((await run({ autoConfirm: true })).status).toBe('SUCCESS');
+
+    const editFirst = async (template: string) => {
+      const plan = yaml.parse(await fs.readFile(planPath, 'utf-8'));
+      plan.steps[0].template = template;
+      await fs.writeFile(planPath, yaml.stringify(plan));
+    };
+
+    await editFirst('export const first = 2;\n');
+    const strict = await run({ strict: true });
+    expect(strict.status).toBe('FAILED');
+    expect(strict.error).toBe('Plan changed since its last run: first');
+
+    const stale = await run({});
+    expect(stale.steps[0].status).toBe('SUCCESS');
+    expect(stale.commitHashes).toEqual([]);
+    expect(await fs.readFile(path.join(tempDir, 'src/first.ts'), 'utf-8')).toBe('export const first = true;\n');
+    expect(yaml.parse(await fs.readFile(planPath, 'utf-8')).steps[0].execution_log).toContain('Marked stale at');
+
+    // The drift is kept until the step runs again
+    expect((await run({ strict: true })).error).toBe('Plan changed since its last run: first');
+    await run({});
+    const stalePlan = yaml.parse(await fs.readFile(planPath, 'utf-8'));
+    expect(stalePlan.steps[0].stale).toBe(true);
+    expect(stalePlan.steps[0].execution_log.match(/Marked stale at/g)).toHaveLength(1);
+    expect(stalePlan.evaluation.stale_steps).toEqual(['first']);
+
+    await editFirst('export const first = 3;\n');
+    const rerun = await run({ autoConfirm: true });
+    expect(rerun.steps.map(step => step.status)).toEqual(['SUCCESS', 'SUCCESS']);
+    expect(rerun.commitHashes).toHaveLength(1);
+    expect(await fs.readFile(path.join(tempDir, 'src/first.ts'), 'utf-8')).toBe('export const first = 3;\n');
+    const rerunPlan = yaml.parse(await fs.readFile(planPath, 'utf-8'));
+    expect(rerunPlan.steps[0].stale).toBeUndefined();
+    expect(rerunPlan.evaluation.stale_steps).toBeUndefined();
+  });
+
+  it('should not run while another process holds the execution lock unless forced', async () => {
+    const planPath = await writePlan([createStep('first')]);
+    const lockPath = path.join(tempDir, '.regent/state/execute.lock');
+    const holder = { pid: process.ppid, host: os.hostname(), started_at: new Date().toISOString(), plan: 'other.yaml' };
+    await fs.outputJson(lockPath, holder);
+    const run = (options: Record<string, boolean>) => executePlan(planPath, {
+      options: { nonInteractive: true, autoConfirm: true, ...options },
+      dependencies: { git, logger, rlhf, handleSignals: false },
+    });
+
+    const locked = await run({});
+    expect(locked.status).toBe('FAILED');
+    expect(locked.error).toContain(`PID ${process.ppid} on ${os.hostname()}`);
+    expect(locked.error).toContain('--force-unlock');
+    expect(await fs.pathExists(path.join(tempDir, 'src/first.ts'))).toBe(false);
+    expect(await fs.readJson(lockPath)).toEqual(holder);
+
+    const forced = await run({ forceUnlock: true });
+    expect(forced.status).toBe('SUCCESS');
+    expect(await fs.pathExists(lockPath)).toBe(false);
+  });
+
+  it('should not run while another run of the same process holds the lock, unless it hands it over', async () => {
+    const planPath = await writePlan([createStep('first')]);
+    const lock = acquireExecutionLock(getLockPath(planPath), 'templates/*.yaml');
+    try {
+      const locked = await executePlan(planPath, {
+        options: { nonInteractive: true, autoConfirm: true },
+        dependencies: { git, logger, rlhf, handleSignals: false },
+      });
+      expect(locked.status).toBe('FAILED');
+      expect(locked.error).toContain('Another execution in this process holds the lock');
+      expect(await fs.pathExists(path.join(tempDir, 'src/first.ts'))).toBe(false);
+
+      const shared = await executePlan(planPath, {
+        options: { nonInteractive: true, autoConfirm: true },
+        dependencies: { git, logger, rlhf, handleSignals: false, executionLock: lock },
+      });
+      expect(shared.status).toBe('SUCCESS');
+      expect(await fs.readJson(lock.path)).toMatchObject({ pid: process.pid, plan: 'templates/*.yaml' });
+    } finally {
+      lock.release();
+    }
+  });
+
+  it('should keep the execution lock and the run state out of git', async () => {
+    await fs.outputFile(path.join(tempDir, '.git/info/exclude'), '# local excludes');
+    vi.mocked(git.run).mockImplementation(async (args: string[]) => {
+      gitCommands.push(args);
+      if (args[0] === 'rev-parse' && args.includes('HEAD')) return 'abc1234\n';
+      if (args[0] === 'status') return `?? .regent/state/\n${fs.existsSync('src/models') ? '?? src/models/\n' : ''}`;
+      if (args[0] === 'cat-file') throw new Error('does not exist');
+      return '';
+    });
+    const planPath = await writePlan([{
+      id: 'models-folder',
+      type: 'folder',
+      action: { create_folders: { basePath: 'src', folders: ['models'] } },
+      status: 'PENDING',
+      rlhf_score: null,
+      execution_log: '',
+    }]);
+
+    const result = await executePlan(planPath, {
+      options: { nonInteractive: true, strict: true },
+      dependencies: { git, logger, rlhf, handleSignals: false },
+    });
+
+    expect(result.status).toBe('SUCCESS');
+    expect(await fs.readFile(path.join(tempDir, '.git/info/exclude'), 'utf-8')).toBe('# local excludes\n.regent/state/\n');
+    expect(gitCommands.filter(args => args[0] === 'add')).toEqual([['add', 'src/models/']]);
+  });
+
+  it('should run steps of a plugin type from .regent/plugins with its commit type and score hook', async () => {
+    await fs.outputFile(path.join(tempDir, '.regent/plugins/stamp.mjs'), `import fs from 'fs';
+export default {
+  type: 'stamp',
+  commitType: 'feat',
+  execute: (step, context) => {
+    fs.writeFileSync(step.path, step.text);
+    context.log('stamped ' + step.path);
+    return 'stamped';
+  },
+  score: score => score + 1,
+};
+`);
+    const planPath = await writePlan([{ id: 'stamp-version', type: 'stamp', path: 'VERSION', text: '1.0.0\n', status: 'PENDING', rlhf_score: null, execution_log: '' }]);
+
+    const result = await executePlan(planPath, {
+      options: { nonInteractive: true, autoConfirm: true },
+      dependencies: { git, logger, rlhf, handleSignals: false },
+    });
+
+    expect(result.status).toBe('SUCCESS');
+    expect(await fs.readFile(path.join(tempDir, 'VERSION'), 'utf-8')).toBe('1.0.0\n');
+    expect(gitCommands).toContainEqual(['add', 'VERSION']);
+    expect(gitCommands.find(args => args[0] === 'commit')?.[2]).toMatch(/^feat/);
+    const step = yaml.parse(await fs.readFile(planPath, 'utf-8')).steps[0];
+    expect(step.rlhf_score).toBe(2);
+    expect(step.execution_log).toContain('stamped');
+  });
+
+  it('should restore the files of a failed plugin step and call its rollback when the run goes on', async () => {
+    const stepTypes = new StepTypeRegistry();
+    const rollback = vi.fn();
+    stepTypes.register({
+      type: 'generate_client',
+      paths: step => [`src/${step.id}.ts`],
+      execute: async step => {
+        await fs.outputFile(`src/${step.id}.ts`, 'partial');
+        throw new Error('generator crashed');
+      },
+      rollback,
+    });
+    const planPath = await writePlan([
+      { id: 'api-client', type: 'generate_client', policy: { on_failure: 'continue' }, status: 'PENDING', rlhf_score: null, execution_log: '' },
+    ]);
+
+    const result = await executePlan(planPath, {
+      options: { nonInteractive: true, autoConfirm: true },
+      dependencies: { git, logger, rlhf, handleSignals: false, stepTypes },
+    });
+
+    expect(result.steps[0].status).toBe('FAILED');
+    expect(await fs.pathExists(path.join(tempDir, 'src/api-client.ts'))).toBe(false);
+    expect(rollback).toHaveBeenCalledWith(expect.objectContaining({ id: 'api-client' }), expect.objectContaining({ layerInfo: null }));
+  });
+
+  it('should lint and test only the files of the step, then run the full checks at the end of the layer', async () => {
+    await fs.outputFile(path.join(tempDir, '.regent/config/execute.yml'), `
+commit:
+  enabled: true
+  quality_checks:
+    lint: true
+    test: true
+    mode: incremental
+    lint_files_command: 'check-files'
+    related_tests_command: 'related-tests --run'
+`);
+    await fs.writeJson(path.join(tempDir, 'package.json'), {
+      scripts: { lint: 'echo full-lint >> checks.log', test: 'echo full-test >> checks.log' },
+    });
+    for (const bin of ['check-files', 'related-tests']) {
+      await fs.outputFile(path.join(tempDir, 'node_modules/.bin', bin), `#!/bin/sh\necho "${bin} $@" >> checks.log\n`, { mode: 0o755 });
+    }
+    vi.mocked(git.run).mockImplementation(async (args: string[]) => {
+      gitCommands.push(args);
+      if (args[0] === 'rev-parse' && args.includes('HEAD')) return 'abc1234\n';
+      if (args[0] === 'diff' && args.includes('HEAD')) return 'src/first.ts\nREADME.md\nsrc/removed.ts\n';
+      if (args[0] === 'cat-file') throw new Error('does not exist');
+      return '';
+    });
+    const planPath = await writePlan([createStep('first')]);
+
+    const result = await executePlan(planPath, {
+      options: { nonInteractive: true, autoConfirm: true },
+      dependencies: { git, logger, rlhf, handleSignals: false },
+    });
+
+    expect(result.status).toBe('SUCCESS');
+    expect((await fs.readFile(path.join(tempDir, 'checks.log'), 'utf-8')).trim().split('\n').sort()).toEqual([
+      'check-files src/first.ts',
+      'full-lint',
+      'full-test --run',
+      'related-tests --run src/first.ts',
+    ]);
+  }, 30000);
+
+  it('should run the project-wide gates and the tests of deleted files when no changed file can be linted', async () => {
+    await fs.outputFile(path.join(tempDir, '.regent/config/execute.yml'), `
+commit:
+  enabled: true
+  quality_checks:
+    lint: true
+    test: true
+    mode: incremental
+    full_suite_at_layer_end: false
+    lint_files_command: 'check-files'
+    related_tests_command: 'related-tests --run'
+    gates:
+      typecheck:
+        command: 'type-check'
+`);
+    for (const bin of ['check-files', 'related-tests', 'type-check']) {
+      await fs.outputFile(path.join(tempDir, 'node_modules/.bin', bin), `#!/bin/sh\necho "${bin} $@" >> checks.log\n`, { mode: 0o755 });
+    }
+    vi.mocked(git.run).mockImplementation(async (args: string[]) => {
+      gitCommands.push(args);
+      if (args[0] === 'rev-parse' && args.includes('HEAD')) return 'abc1234\n';
+      if (args[0] === 'diff' && args.includes('HEAD')) return 'src/unrelated.ts\n';
+      if (args[0] === 'cat-file') throw new Error('does not exist');
+      return '';
+    });
+    await fs.outputFile(path.join(tempDir, 'src/removed.ts'), 'export const removed = true;\n');
+    const planPath = await writePlan([
+      createStep('readme', { path: 'docs/README.md', template: '# App\n' }),
+      createStep('remove', {
+        type: 'patch',
+        path: undefined,
+        template: '--- a/src/removed.ts\n+++ /dev/null\n@@ -1 +0,0 @@\n-export const removed = true;\n',
+      }),
+    ]);
+
+    const result = await executePlan(planPath, {
+      options: { nonInteractive: true, autoConfirm: true },
+      dependencies: { git, logger, rlhf, handleSignals: false },
+    });
+
+    expect(result.status).toBe('SUCCESS');
+    expect((await fs.readFile(path.join(tempDir, 'checks.log'), 'utf-8')).trim().split('\n').map(line => line.trim()).sort()).toEqual([
+      'related-tests --run src/removed.ts',
+      'type-check',
+      'type-check',
+    ]);
+  }, 30000);
+
+  describe('quality gates', () => {
+    const writeGates = async (gates: string) => {
+      await fs.outputFile(path.join(tempDir, '.regent/config/execute.yml'), `
+commit:
+  enabled: true
+  quality_checks:
+    lint: false
+    test: false
+    gates:
+${gates}`);
+      await fs.writeJson(path.join(tempDir, 'package.json'), { scripts: { 'arch:validate': 'echo "  error domain-not-to-infra: src/first.ts → src/infra.ts" && exit 1' } });
+      await fs.outputFile(path.join(tempDir, 'node_modules/.bin/format-check'), '#!/bin/sh\necho "src/first.ts"\nexit 1\n', { mode: 0o755 });
+    };
+
+    it('should roll the steps back and cap their score when a required gate fails', async () => {
+      await writeGates('      arch: {}\n');
+      const planPath = await writePlan([createStep('first')]);
+      const events: Record<string, string[]>[] = [];
+
+      const result = await executePlan(planPath, {
+        options: { nonInteractive: true, autoConfirm: true },
+        dependencies: { git, logger, rlhf, handleSignals: false },
+        listeners: { qualityCheck: ({ errors }) => events.push(errors) },
+      });
+
+      const [step] = yaml.parse(await fs.readFile(planPath, 'utf-8')).steps;
+      expect(result.status).toBe('FAILED');
+      expect(step.status).toBe('FAILED');
+      expect(step.rlhf_score).toBe(-2);
+      expect(step.execution_log).toContain('arch: ❌');
+      expect(step.execution_log).toContain('--- ARCH ERRORS ---\nerror domain-not-to-infra: src/first.ts → src/infra.ts');
+      expect(events).toEqual([{ arch: ['error domain-not-to-infra: src/first.ts → src/infra.ts'] }]);
+      expect(await fs.pathExists(path.join(tempDir, 'src/first.ts'))).toBe(false);
+      expect(gitCommands.some(args => args[0] === 'commit')).toBe(false);
+    }, 30000);
+
+    it('should put back the files of refactor and patch steps when a required gate fails', async () => {
+      await writeGates('      arch: {}\n');
+      await fs.outputFile(path.join(tempDir, 'src/user.ts'), 'export const name = "user";\n');
+      await fs.outputFile(path.join(tempDir, 'src/order.ts'), 'export const name = "order";\n');
+      await fs.outputFile(path.join(tempDir, 'src/item.ts'), 'export const name = "item";\n');
+      // Every file is in HEAD and none is staged before the commit
+      git.run = vi.fn(async (args: string[]) => {
+        gitCommands.push(args);
+        return args[0] === 'rev-parse' ? 'abc1234\n' : '';
+      });
+      const planPath = await writePlan([
+        createStep('rename', {
+          type: 'refactor_file',
+          path: undefined,
+          template: undefined,
+          files: [
+            { path: 'src/user.ts', template: '<<<REPLACE>>>\n"user"\n<<</REPLACE>>>\n<<<WITH>>>\n"account"\n<<</WITH>>>' },
+            { path: 'src/order.ts', template: '<<<REPLACE>>>\n"order"\n<<</REPLACE>>>\n<<<WITH>>>\n"purchase"\n<<</WITH>>>' },
+          ],
+          policy: { on_failure: 'continue' },
+        }),
+        createStep('patch-item', {
+          type: 'patch',
+          path: undefined,
+          template: '--- a/src/item.ts\n+++ b/src/item.ts\n@@ -1 +1 @@\n-export const name = "item";\n+export const name = "product";\n',
+          policy: { on_failure: 'continue' },
+        }),
+      ]);
+
+      const result = await executePlan(planPath, {
+        options: { nonInteractive: true, autoConfirm: true },
+        dependencies: { git, logger, rlhf, handleSignals: false },
+      });
+
+      expect(result.steps.map(step => step.status)).toEqual(['FAILED', 'FAILED']);
+      expect(await fs.readFile(path.join(tempDir, 'src/user.ts'), 'utf-8')).toBe('export const name = "user";\n');
+      expect(await fs.readFile(path.join(tempDir, 'src/order.ts'), 'utf-8')).toBe('export const name = "order";\n');
+      expect(await fs.readFile(path.join(tempDir, 'src/item.ts'), 'utf-8')).toBe('export const name = "item";\n');
+    }, 30000);
+
+    it('should commit the steps with a capped score when only an optional gate fails', async () => {
+      await writeGates('      format:\n        command: format-check\n        max_score: 0\n');
+      const planPath = await writePlan([createStep('first')]);
+
+      const result = await executePlan(planPath, {
+        options: { nonInteractive: true, autoConfirm: true },
+        dependencies: { git, logger, rlhf, handleSignals: false },
+      });
+
+      const [step] = yaml.parse(await fs.readFile(planPath, 'utf-8')).steps;
+      expect(result.status).toBe('SUCCESS');
+      expect(step.rlhf_score).toBe(0);
+      expect(step.execution_log).toContain('--- OPTIONAL QUALITY GATES FAILED ---\nformat (RLHF score capped at 0)');
+      expect(gitCommands.some(args => args[0] === 'commit')).toBe(true);
+    }, 30000);
+
+    it('should ask for JSON reports only from scripts running the tool, and drop reporter options a tool rejects', async () => {
+      await fs.outputFile(path.join(tempDir, '.regent/config/execute.yml'), `
+commit:
+  enabled: true
+  quality_checks:
+    lint: true
+    test: true
+    gates:
+      style:
+        command: 'strict-lint'
+        parser: eslint
+        json_reporter: true
+`);
+      await fs.writeJson(path.join(tempDir, 'package.json'), { scripts: { lint: 'eslint src && echo linted', test: 'vitest' } });
+      for (const bin of ['eslint', 'vitest']) {
+        await fs.outputFile(path.join(tempDir, 'node_modules/.bin', bin), `#!/bin/sh\necho "${bin} $@" >> checks.log\n`, { mode: 0o755 });
+      }
+      await fs.outputFile(
+        path.join(tempDir, 'node_modules/.bin/strict-lint'),
+        '#!/bin/sh\necho "strict-lint $@" >> checks.log\nif [ -n "$1" ]; then echo "error: unknown option \'$1\'" >&2; exit 2; fi\n',
+        { mode: 0o755 }
+      );
+      const planPath = await writePlan([createStep('first')]);
+
+      const result = await executePlan(planPath, {
+        options: { nonInteractive: true, autoConfirm: true },
+        dependencies: { git, logger, rlhf, handleSignals: false },
+      });
+
+      expect(result.status).toBe('SUCCESS');
+      expect((await fs.readFile(path.join(tempDir, 'checks.log'), 'utf-8')).trim().split('\n').map(line => line.trim()).sort()).toEqual([
+        'eslint src',
+        'strict-lint',
+        'strict-lint --format json',
+        'vitest --run --reporter=json',
+      ]);
+    }, 30000);
+
+    it('should read the ESLint JSON report and give each step the issues of its files', async () => {
+      await fs.outputFile(path.join(tempDir, '.regent/config/execute.yml'), `
+commit:
+  enabled: true
+  quality_checks:
+    lint: true
+    lint_command: 'report-lint'
+    test: false
+    gates:
+      lint:
+        json_reporter: true
+`);
+      const eslintIssue = (file: string, ruleId: string) => ({ ruleId, severity: 2, message: `${ruleId} in ${file}`, line: 1, column: 14 });
+      await fs.writeJson(path.join(tempDir, 'lint-report.json'), [
+        { filePath: path.join(process.cwd(), 'src/first.ts'), messages: [eslintIssue('first', 'no-unused-vars')] },
+        { filePath: path.join(process.cwd(), 'src/second.ts'), messages: [eslintIssue('second', 'no-explicit-any')] },
+        { filePath: path.join(process.cwd(), 'src/shared.ts'), messages: [eslintIssue('shared', 'no-undef')] },
+      ]);
+      // Lint fails once both steps of the second wave wrote their file
+      await fs.outputFile(
+        path.join(tempDir, 'node_modules/.bin/report-lint'),
+        '#!/bin/sh\necho "$@" > lint-args.log\nif [ -f src/second.ts ]; then cat lint-report.json; exit 1; fi\n',
+        { mode: 0o755 }
+      );
+      const planPath = await writePlan([
+        createStep('model'),
+        createStep('first', { depends_on: ['model'], policy: { on_failure: 'continue' } }),
+        createStep('second', { depends_on: ['model'], policy: { on_failure: 'continue' } }),
+      ]);
+
+      await executePlan(planPath, {
+        options: { nonInteractive: true, autoConfirm: true },
+        dependencies: { git, logger, rlhf, handleSignals: false },
+      });
+
+      const [, first, second] = yaml.parse(await fs.readFile(planPath, 'utf-8')).steps;
+      const record = (file: string, rule: string) => ({ file: `src/${file}.ts`, line: 1, column: 14, rule, message: `${rule} in ${file}`, severity: 'error' });
+      expect((await fs.readFile(path.join(tempDir, 'lint-args.log'), 'utf-8')).trim()).toBe('--format json');
+      expect(first.status).toBe('FAILED');
+      expect(first.execution_log).toContain(
+        `--- LINT ISSUES ---\n${JSON.stringify(record('first', 'no-unused-vars'))}\n${JSON.stringify(record('shared', 'no-undef'))}`
+      );
+      expect(first.execution_log).not.toContain('no-explicit-any');
+      expect(second.execution_log).toContain(
+        `--- LINT ISSUES ---\n${JSON.stringify(record('second', 'no-explicit-any'))}\n${JSON.stringify(record('shared', 'no-undef'))}`
+      );
+      expect(rlhf.calculateLayerScore).toHaveBeenCalledWith('create_file', false, undefined, expect.any(String), expect.objectContaining({ id: 'first' }), {
+        lint: [record('first', 'no-unused-vars'), record('shared', 'no-undef')],
+      });
+    }, 30000);
+  });
+
+  it('should report invalid dependencies as a FAILED result', async () => {
+    const planPath = await writePlan([createStep('first', { depends_on: ['missing'] })]);
+
+    const result = await executePlan(planPath, {
+      options: { nonInteractive: true, autoConfirm: true },
+      dependencies: { git, logger, rlhf, handleSignals: false },
+    });
+
+    expect(result.status).toBe('FAILED');
+    expect(result.error).toContain('Invalid step dependencies');
+    expect(result.failedStepId).toBeUndefined();
+  });
+});
@@ -90,7 +90,7 @@ describe('Init Command - Directory Structure', () => {
 
       // Should import from ../core/ (one level up)
       expect(content).toContain("import Logger from '../core/logger'");
-      expect(content).toContain("import { EnhancedRLHFSystem, LayerInfo } from '../core/rlhf-system'");
+      expect(content).toContain("import { EnhancedRLHFSystem, type LayerInfo } from '../core/rlhf-system'");
 
       // Should import from ../utils/ (one level up)
       expect(content).toContain("import { resolveLogDirectory } from '../utils/log-path-resolver'");
@@ -100,7 +100,7 @@ describe('Init Command - Directory Structure', () => {
 
       // Should NOT have old incorrect paths
       expect(content).not.toContain("import Logger from './core/logger'");
-      expect(content).not.toContain("import { EnhancedRLHFSystem, LayerInfo } from './core/rlhf-system'");
+      expect(content).not.toContain("import { EnhancedRLHFSystem, type LayerInfo } from './core/rlhf-system'");
       expect(content).not.toContain("import { resolveLogDirectory } from './utils/log-path-resolver'");
     });
   });
@@ -0,0 +1,85 @@
+/**
+ * Render Command
+ * Fill the `__PLACEHOLDER__` variables of a .regent template and write a ready-to-execute plan
+ */
+
+import fs from 'fs-extra';
+import path from 'path';
+import chalk from 'chalk';
+import yaml from 'yaml';
+import { renderPlaceholders } from '../../utils/placeholder-engine.js';
+
+export interface RenderOptions {
+  vars?: string;
+  output?: string;
+  strict?: boolean;
+}
+
+/**
+ * Load the variables file (a flat YAML/JSON mapping)
+ */
+async function loadVariables(varsPath: string): Promise<Record<string, unknown>> {
+  if (!await fs.pathExists(varsPath)) {
+    throw new Error(`Variables file not found: ${varsPath}`);
+  }
+
+  const parsed = yaml.parse(await fs.readFile(varsPath, 'utf-8'));
+  if (parsed === null || parsed === undefined) {
+    return {};
+  }
+  if (typeof parsed !== 'object' || Array.isArray(parsed)) {
+    throw new Error(`Variables file must contain a mapping of names to values: ${varsPath}`);
+  }
+
+  return parsed as Record<string, unknown>;
+}
+
+export async function renderCommand(template: string, options: RenderOptions): Promise<void> {
+  try {
+    if (!await fs.pathExists(template)) {
+      throw new Error(`Template not found: ${template}`);
+    }
+
+    // Keep the template file name so execute-steps can still detect target and layer
+    const outputPath = options.output || path.join(process.cwd(), path.basename(template));
+    if (path.resolve(outputPath) === path.resolve(template)) {
+      throw new Error('Output would overwrite the template. Use --output <file> to choose another path.');
+    }
+
+    const variables = options.vars ? await loadVariables(options.vars) : {};
+    const result = renderPlaceholders(await fs.readFile(template, 'utf-8'), variables);
+
+    try {
+      yaml.parse(result.content);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      throw new Error(`Rendered plan is not valid YAML (check values containing quotes): ${message}`);
+    }
+
+    console.log(chalk.cyan.bold(`\n🧩 Rendering ${template}\n`));
+    console.log(chalk.green(`✅ Resolved ${result.resolved.length} placeholder(s)`));
+
+    if (result.unresolved.length > 0) {
+      console.log(chalk.yellow(`\n⚠️  ${result.unresolved.length} placeholder(s) are still unresolved:`));
+      result.unresolved.forEach(({ name, occurrences }) => {
+        console.log(chalk.yellow(`   • __${name}__ (${occurrences} occurrence${occurrences === 1 ? '' : 's'})`));
+      });
+      console.log(chalk.dim('\n💡 Add them to the variables file (e.g. FEATURE_NAME: user account)'));
+
+      if (options.strict) {
+        console.error(chalk.red('\n❌ Strict mode: plan not written because placeholders are unresolved'));
+        process.exit(1);
+      }
+    }
+
+    await fs.ensureDir(path.dirname(path.resolve(outputPath)));
+    await fs.writeFile(outputPath, result.content, 'utf-8');
+
+    console.log(chalk.green(`\n📄 Plan written to ${outputPath}`));
+    console.log(chalk.dim(`   Execute with: npx tsx .regent/config/execute-steps.ts ${outputPath}\n`));
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    console.error(chalk.red(`❌ Render failed: ${message}`));
+    process.exit(1);
+  }
+}
@@ -10,6 +10,7 @@ import chalk from 'chalk';
 import { initCommand } from './commands/init.js';
 import { checkCommand } from './commands/check.js';
 import { setupMcpCommand } from './commands/setup-mcp.js';
+import { renderCommand } from './commands/render.js';
 import { showBanner } from './utils/banner.js';
 import { readFileSync } from 'fs';
 import { fileURLToPath } from 'url';
@@ -61,6 +62,15 @@ program
   .option('--all', 'Configure all MCP servers without prompting')
   .action(setupMcpCommand);
 
+program
+  .command('render')
+  .description('Fill template placeholders and write a ready-to-execute plan')
+  .argument('<template>', 'Path to the .regent template')
+  .option('--vars <file>', 'YAML/JSON file with placeholder values (e.g. FEATURE_NAME: user account)')
+  .option('-o, --output <file>', 'Output path (default: template file name in the current directory)')
+  .option('--strict', 'Fail without writing when placeholders remain unresolved')
+  .action(renderCommand);
+
 // Handle case where no command is provided
 program.action(() => {
   showBanner();
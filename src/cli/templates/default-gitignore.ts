@@ -55,5 +55,6 @@ export const REGENT_GITIGNORE_ENTRIES = [
   '.logs/',
   '.regent/templates/*-template.regent',
   '!.regent/templates/parts/',
-  '.regent-backups/'
+  '.regent-backups/',
+  '.regent/state/'
 ];
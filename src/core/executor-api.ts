@@ -0,0 +1,196 @@
+/**
+ * Step Executor API
+ * Types for embedding the step executor: injectable adapters, lifecycle events
+ * and the result returned by `run()` instead of exiting the process
+ */
+
+import { $ } from 'zx';
+import type { LayerInfo } from './rlhf-system';
+import type { QualityCheckResult } from '../utils/commit-generator';
+import type { ExecutionLock } from '../utils/execution-lock';
+import type { QualityIssue } from '../utils/quality-reports';
+import type { StepTypeRegistry } from './step-registry';
+
+/**
+ * Minimal view of a plan step exposed to API consumers
+ */
+export interface ExecutedStep {
+  id: string;
+  type: string;
+  path?: string;
+  /** Paths written together by a multi-file step */
+  files?: string[];
+  status: 'PENDING' | 'SUCCESS' | 'FAILED' | 'SKIPPED';
+  rlhf_score: number | null;
+  /** Number of attempts, when the step was retried under its policy */
+  attempts?: number;
+}
+
+/**
+ * Runs git commands for the executor
+ * The default adapter shells out with zx; tests can record or fake commands
+ */
+export interface GitAdapter {
+  /**
+   * Run `git <args>` and return its stdout
+   * @throws {Error} If git exits with a non-zero code (zx errors keep `stderr`)
+   */
+  run(args: string[]): Promise<string>;
+}
+
+/**
+ * File logger used for script output and execution details
+ */
+export interface LoggerAdapter {
+  log(message: string): void;
+  error(message: string): void;
+  close(): void;
+}
+
+/**
+ * Where the executor tells the user about its progress, warnings and errors
+ * The default adapter writes to the console; embedders can silence or capture it
+ */
+export interface OutputAdapter {
+  info(message: string): void;
+  warn(message: string): void;
+  error(message: string): void;
+}
+
+/**
+ * RLHF scoring and learning system
+ */
+export interface RLHFAdapter {
+  analyzeExecution(yamlPath: string, layerInfo?: LayerInfo): Promise<void>;
+  calculateLayerScore(
+    stepType: string,
+    success: boolean,
+    layerInfo?: LayerInfo,
+    errorMessage?: string,
+    stepData?: { template?: string },
+    /** Lint and test issues of the step, by quality gate */
+    qualityIssues?: Record<string, QualityIssue[]>
+  ): Promise<number>;
+}
+
+/**
+ * Dependencies that can be injected into the executor
+ * Anything omitted falls back to the default implementation
+ */
+export interface ExecutorDependencies {
+  logger?: LoggerAdapter;
+  /** User-facing output (default: the console) */
+  output?: OutputAdapter;
+  rlhf?: RLHFAdapter;
+  git?: GitAdapter;
+  /** Plugin step types (default: the plugins in `.regent/plugins`) */
+  stepTypes?: StepTypeRegistry;
+  /**
+   * Install SIGINT/SIGTERM handlers that reset staged changes and exit (default: true)
+   * Embedders managing their own process lifecycle should disable this
+   */
+  handleSignals?: boolean;
+  /**
+   * Execution lock the caller already holds, e.g. a batch run starting one executor per template
+   * Used instead of taking the project lock, and left for the caller to release
+   */
+  executionLock?: ExecutionLock;
+}
+
+/**
+ * Final status of a run
+ * - SUCCESS: every step is complete
+ * - PARTIAL: the selected steps completed but others are pending or failed, or steps
+ *   failed under an `on_failure: continue | skip_dependents` policy
+ * - FAILED: a step failed (or the plan could not run) and execution stopped
+ * - DRY_RUN: changes were only previewed
+ * - NOTHING_TO_DO: the plan or the step selection contains no steps
+ */
+export type ExecutionStatus = 'SUCCESS' | 'PARTIAL' | 'FAILED' | 'DRY_RUN' | 'NOTHING_TO_DO';
+
+/**
+ * Outcome of an `--isolated` run in a temporary git worktree
+ */
+export interface IsolationSummary {
+  branch: string;
+  worktreePath: string;
+  /** How the branch was merged back (absent when it was not merged) */
+  merge?: 'fast-forward' | 'merge' | 'up-to-date';
+  /** Whether the worktree and branch were kept for inspection */
+  kept: boolean;
+}
+
+/**
+ * Result of `EnhancedStepExecutor.run()`
+ */
+export interface ExecutionResult {
+  status: ExecutionStatus;
+  implementationPath: string;
+  layerInfo: LayerInfo | null;
+  steps: ExecutedStep[];
+  commitHashes: string[];
+  /** Final layer-aware RLHF score (only when every selected step ran) */
+  finalScore: number | null;
+  /** Step that stopped the run, when status is FAILED */
+  failedStepId?: string;
+  /** Reason the run failed, when status is FAILED */
+  error?: string;
+  /** Worktree details, for isolated runs */
+  isolation?: IsolationSummary;
+  durationMs: number;
+}
+
+/**
+ * Lifecycle events emitted by the executor (listener arguments by event name)
+ */
+export interface ExecutorEvents {
+  stepStart: [{ step: ExecutedStep; index: number; total: number }];
+  stepComplete: [{ step: ExecutedStep; durationMs: number }];
+  stepFailed: [{ step: ExecutedStep; error: string; durationMs: number }];
+  stepRetry: [{ step: ExecutedStep; attempt: number; error: string; delayMs: number }];
+  qualityCheck: [{ steps: ExecutedStep[]; result: QualityCheckResult; errors: Record<string, string[]> }];
+  commit: [{ step: ExecutedStep; hash: string; message: string }];
+  rollback: [{ step: ExecutedStep; success: boolean }];
+  scoreCalculated: [{ step: ExecutedStep | null; score: number }];
+}
+
+/**
+ * Error that stops an execution run
+ * `run()` turns it into a FAILED result instead of exiting the process
+ */
+export class ExecutionError extends Error {
+  constructor(message: string, public readonly stepId?: string) {
+    super(message);
+    this.name = 'ExecutionError';
+  }
+}
+
+/**
+ * Default output adapter: progress to stdout, warnings and errors to stderr
+ */
+export const consoleOutput: OutputAdapter = {
+  info: message => console.log(message),
+  warn: message => console.warn(message),
+  error: message => console.error(message),
+};
+
+/**
+ * Output adapter keeping stdout free for machine-readable records: everything goes to stderr
+ */
+export const stderrOutput: OutputAdapter = {
+  info: message => console.error(message),
+  warn: message => console.error(message),
+  error: message => console.error(message),
+};
+
+/**
+ * Default git adapter running commands through zx
+ */
+export function createGitAdapter(): GitAdapter {
+  return {
+    async run(args: string[]): Promise<string> {
+      const result = await $`git ${args}`;
+      return result.stdout;
+    },
+  };
+}
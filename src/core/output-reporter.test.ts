@@ -0,0 +1,125 @@
+/**
+ * Unit tests for the machine-readable output reporter
+ */
+
+import { describe, it, expect } from 'vitest';
+import { EventEmitter } from 'events';
+import { getExitCode, MachineOutputReporter, parseOutputFormat } from './output-reporter';
+import type { ExecutedStep, ExecutionResult, ExecutorEvents } from './executor-api';
+
+const NOW = new Date('2025-10-19T12:00:00.000Z');
+
+const step: ExecutedStep = { id: 'create-entity', type: 'create_file', path: 'src/user.ts', status: 'SUCCESS', rlhf_score: 2 };
+
+const result: ExecutionResult = {
+  status: 'SUCCESS',
+  implementationPath: 'implementation.yaml',
+  layerInfo: null,
+  steps: [step],
+  commitHashes: ['abc1234'],
+  finalScore: 2,
+  durationMs: 42,
+};
+
+function emitRun(emitter: EventEmitter<ExecutorEvents>): void {
+  emitter.emit('stepStart', { step: { ...step, status: 'PENDING', rlhf_score: null }, index: 0, total: 1 });
+  emitter.emit('qualityCheck', {
+    steps: [step],
+    result: {
+      gates: [
+        { name: 'lint', passed: false, required: true, output: '', maxScore: -1 },
+        { name: 'test', passed: true, required: true, output: '', maxScore: -1 },
+        { name: 'format', passed: false, required: false, output: '', maxScore: 1 },
+      ],
+      overallPassed: false,
+    },
+    errors: { lint: ['1:1 error Unexpected any'], test: [], format: ['src/user.ts'] },
+  });
+  emitter.emit('commit', { step, hash: 'abc1234', message: 'feat(domain): add user\n\nbody' });
+  emitter.emit('stepComplete', { step, durationMs: 10 });
+}
+
+describe('parseOutputFormat', () => {
+  it('should default to human output', () => {
+    expect(parseOutputFormat(undefined)).toBe('human');
+  });
+
+  it('should accept supported formats', () => {
+    expect(parseOutputFormat('json')).toBe('json');
+    expect(parseOutputFormat('NDJSON')).toBe('ndjson');
+  });
+
+  it('should reject unknown formats', () => {
+    expect(() => parseOutputFormat('xml')).toThrow("Invalid --output format 'xml'");
+  });
+});
+
+describe('getExitCode', () => {
+  it('should only fail for FAILED runs', () => {
+    expect(getExitCode(result)).toBe(0);
+    expect(getExitCode({ ...result, status: 'PARTIAL' })).toBe(0);
+    expect(getExitCode({ ...result, status: 'FAILED' })).toBe(1);
+  });
+});
+
+describe('MachineOutputReporter', () => {
+  it('should stream one ndjson record per event', () => {
+    const lines: string[] = [];
+    const emitter = new EventEmitter<ExecutorEvents>();
+    const reporter = new MachineOutputReporter('ndjson', text => lines.push(text), () => NOW);
+
+    reporter.attach(emitter);
+    emitRun(emitter);
+    expect(lines).toHaveLength(4);
+
+    reporter.finish(result, 0);
+    const records = lines.map(line => JSON.parse(line));
+
+    expect(lines.every(line => line.endsWith('\n'))).toBe(true);
+    expect(records.map(record => record.type)).toEqual(['step_start', 'quality_check', 'commit', 'step_end', 'evaluation']);
+    expect(records[1]).toEqual({
+      type: 'quality_check',
+      timestamp: NOW.toISOString(),
+      stepIds: ['create-entity'],
+      passed: false,
+      gates: {
+        lint: { passed: false, required: true, errors: ['1:1 error Unexpected any'] },
+        test: { passed: true, required: true, errors: [] },
+        format: { passed: false, required: false, errors: ['src/user.ts'] },
+      },
+    });
+    expect(records[2].subject).toBe('feat(domain): add user');
+    expect(records[3]).toMatchObject({ stepId: 'create-entity', status: 'SUCCESS', durationMs: 10, rlhfScore: 2 });
+    expect(records[4]).toMatchObject({ status: 'SUCCESS', exitCode: 0, commitHashes: ['abc1234'], finalScore: 2 });
+  });
+
+  it('should record retries and the attempts a step needed', () => {
+    const lines: string[] = [];
+    const emitter = new EventEmitter<ExecutorEvents>();
+    const reporter = new MachineOutputReporter('ndjson', text => lines.push(text), () => NOW);
+
+    reporter.attach(emitter);
+    emitter.emit('stepRetry', { step, attempt: 1, error: 'flaky', delayMs: 1000 });
+    emitter.emit('stepComplete', { step: { ...step, attempts: 2 }, durationMs: 1500 });
+    const records = lines.map(line => JSON.parse(line));
+
+    expect(records[0]).toMatchObject({ type: 'step_retry', stepId: 'create-entity', attempt: 1, error: 'flaky', delayMs: 1000 });
+    expect(records[1]).toMatchObject({ type: 'step_end', status: 'SUCCESS', attempts: 2 });
+  });
+
+  it('should write a single json document when the run ends', () => {
+    const output: string[] = [];
+    const emitter = new EventEmitter<ExecutorEvents>();
+    const reporter = new MachineOutputReporter('json', text => output.push(text), () => NOW);
+
+    reporter.attach(emitter);
+    emitRun(emitter);
+    expect(output).toEqual([]);
+
+    reporter.finish({ ...result, status: 'FAILED', failedStepId: 'create-entity', error: 'boom' }, 1);
+    const document = JSON.parse(output.join(''));
+
+    expect(document.events).toHaveLength(4);
+    expect(document.evaluation).toMatchObject({ type: 'evaluation', status: 'FAILED', failedStepId: 'create-entity', exitCode: 1 });
+  });
+});
@@ -0,0 +1,171 @@
+/**
+ * Machine-Readable Output Reporter
+ * Turns executor lifecycle events into JSON records for CI pipelines and orchestrators
+ *
+ * - ndjson: one record per line on stdout as events happen
+ * - json: a single `{ events, evaluation }` document on stdout when the run ends
+ *
+ * Human-readable output goes to stderr in both modes.
+ */
+
+import type { EventEmitter } from 'events';
+import { EXIT_CODES } from '../utils/constants';
+import type { ExecutedStep, ExecutionResult, ExecutorEvents } from './executor-api';
+
+export type OutputFormat = 'human' | 'json' | 'ndjson';
+
+const OUTPUT_FORMATS: OutputFormat[] = ['human', 'json', 'ndjson'];
+
+/**
+ * One structured output record
+ */
+export interface OutputRecord {
+  type: 'step_start' | 'step_retry' | 'step_end' | 'quality_check' | 'commit' | 'rollback' | 'evaluation';
+  timestamp: string;
+  [key: string]: unknown;
+}
+
+/**
+ * Parse the `--output` flag value
+ * @throws {Error} If the format is not supported
+ */
+export function parseOutputFormat(value: unknown): OutputFormat {
+  if (value === undefined || value === null || value === false) {
+    return 'human';
+  }
+
+  const format = String(value).trim().toLowerCase();
+  if (!OUTPUT_FORMATS.includes(format as OutputFormat)) {
+    throw new Error(`Invalid --output format '${value}'. Expected one of: ${OUTPUT_FORMATS.join(', ')}`);
+  }
+
+  return format as OutputFormat;
+}
+
+/**
+ * Process exit code for a run result
+ * PARTIAL, DRY_RUN and NOTHING_TO_DO are successful runs
+ */
+export function getExitCode(result: ExecutionResult): number {
+  return result.status === 'FAILED' ? EXIT_CODES.ERROR : EXIT_CODES.SUCCESS;
+}
+
+/**
+ * Send everything written to stdout to stderr
+ * The executor reports through `stderrOutput`; this catches what the logger, RLHF system and tools still print
+ * @returns A writer for the original stdout, reserved for machine-readable records
+ */
+export function redirectStdoutToStderr(): (text: string) => void {
+  const writeStdout = process.stdout.write.bind(process.stdout);
+  process.stdout.write = process.stderr.write.bind(process.stderr) as typeof process.stdout.write;
+  return (text: string) => {
+    writeStdout(text);
+  };
+}
+
+/**
+ * Collects executor events as output records
+ */
+export class MachineOutputReporter {
+  private records: OutputRecord[] = [];
+
+  /**
+   * @param format - `json` buffers records until `finish`, `ndjson` writes them immediately
+   * @param write - Destination for serialized output (stdout in the CLI)
+   * @param now - Clock (injectable for tests)
+   */
+  constructor(
+    private format: 'json' | 'ndjson',
+    private write: (text: string) => void,
+    private now: () => Date = () => new Date()
+  ) {}
+
+  /**
+   * Subscribe to the lifecycle events of an executor
+   */
+  attach(executor: EventEmitter<ExecutorEvents>): void {
+    executor.on('stepStart', ({ step, index, total }) => {
+      this.record('step_start', { ...this.describeStep(step), index, total });
+    });
+
+    executor.on('stepRetry', ({ step, attempt, error, delayMs }) => {
+      this.record('step_retry', { ...this.describeStep(step), attempt, error, delayMs });
+    });
+
+    executor.on('stepComplete', ({ step, durationMs }) => {
+      this.record('step_end', { ...this.describeOutcome(step), durationMs });
+    });
+
+    executor.on('stepFailed', ({ step, error, durationMs }) => {
+      this.record('step_end', { ...this.describeOutcome(step), durationMs, error });
+    });
+
+    executor.on('qualityCheck', ({ steps, result, errors }) => {
+      this.record('quality_check', {
+        stepIds: steps.map(step => step.id),
+        passed: result.overallPassed,
+        gates: Object.fromEntries(result.gates.map(gate => [
+          gate.name,
+          { passed: gate.passed, required: gate.required, errors: errors[gate.name] || [] },
+        ])),
+      });
+    });
+
+    executor.on('commit', ({ step, hash, message }) => {
+      this.record('commit', { stepId: step.id, hash, subject: message.split('\n')[0] });
+    });
+
+    executor.on('rollback', ({ step, success }) => {
+      this.record('rollback', { stepId: step.id, success });
+    });
+  }
+
+  /**
+   * Record the final evaluation and flush the output
+   */
+  finish(result: ExecutionResult, exitCode: number): void {
+    const { steps, ...summary } = result;
+    const evaluation = this.createRecord('evaluation', {
+      ...summary,
+      exitCode,
+      steps: steps.map(step => this.describeOutcome(step)),
+    });
+
+    if (this.format === 'ndjson') {
+      this.write(`${JSON.stringify(evaluation)}\n`);
+    } else {
+      this.write(`${JSON.stringify({ events: this.records, evaluation }, null, 2)}\n`);
+    }
+  }
+
+  private record(type: OutputRecord['type'], data: Record<string, unknown>): void {
+    const record = this.createRecord(type, data);
+    this.records.push(record);
+
+    if (this.format === 'ndjson') {
+      this.write(`${JSON.stringify(record)}\n`);
+    }
+  }
+
+  private createRecord(type: OutputRecord['type'], data: Record<string, unknown>): OutputRecord {
+    return { type, timestamp: this.now().toISOString(), ...data };
+  }
+
+  private describeStep(step: ExecutedStep): Record<string, unknown> {
+    return {
+      stepId: step.id,
+      stepType: step.type,
+      ...(step.path ? { path: step.path } : {}),
+      ...(step.files ? { files: step.files } : {}),
+    };
+  }
+
+  private describeOutcome(step: ExecutedStep): Record<string, unknown> {
+    return {
+      ...this.describeStep(step),
+      status: step.status,
+      rlhfScore: step.rlhf_score,
+      ...(step.attempts ? { attempts: step.attempts } : {}),
+    };
+  }
+}
@@ -7,6 +7,8 @@ import { createHash } from 'crypto';
 import chalk from 'chalk';
 import Logger from './logger';
 import { resolveRLHFDirectory, resolveLogDirectory } from '../utils/log-path-resolver';
+import { applyExecutionState, getStatePath, readExecutionState } from '../utils/execution-state';
+import { formatQualityIssue, getQualityErrorType, parseQualityIssueLog, type QualityIssue } from '../utils/quality-reports';
 
 /**
  * Enhanced RLHF System with Layer-Aware Scoring
@@ -111,7 +113,8 @@ class EnhancedRLHFSystem {
   private progressFile: string;
 
   constructor(contextPath?: string, cacheExpiry?: number) {
-    this.dataDir = resolveRLHFDirectory(contextPath);
+    // Resolved once so a later chdir (isolated runs in a git worktree) keeps using the same data
+    this.dataDir = path.resolve(resolveRLHFDirectory(contextPath));
     this.metricsFile = path.join(this.dataDir, 'metrics.json');
     this.patternsFile = path.join(this.dataDir, 'patterns.json');
     this.improvementsFile = path.join(this.dataDir, 'improvements.json');
@@ -172,6 +175,11 @@ class EnhancedRLHFSystem {
 
     const content = await fs.readFile(yamlPath, 'utf-8');
     const plan = yaml.parse(content);
+    // Runs keeping their state in a sidecar file leave the plan statuses untouched
+    const state = await readExecutionState(getStatePath(yamlPath));
+    if (state) {
+      applyExecutionState(plan, state);
+    }
     this.reportProgress('Parsing YAML file', 10);
 
     const metrics: ExecutionMetrics[] = [];
@@ -256,7 +264,8 @@ class EnhancedRLHFSystem {
     success: boolean,
     layerInfo?: LayerInfo,
     errorMessage?: string,
-    stepData?: StepData
+    stepData?: StepData,
+    qualityIssues?: Record<string, QualityIssue[]>
   ): Promise<number> {
     this.logger.log(`🧮 Calculating layer-aware RLHF score`);
     if (layerInfo) {
@@ -264,7 +273,7 @@ class EnhancedRLHFSystem {
     }
 
     // Base score calculation
-    let score = await this.calculateScore(stepType, success, errorMessage, stepData);
+    let score = await this.calculateScore(stepType, success, errorMessage, stepData, qualityIssues);
 
     // Apply layer-specific patterns if available
     if (layerInfo && stepData?.template) {
@@ -363,8 +372,16 @@ class EnhancedRLHFSystem {
 
   /**
    * Extract error information
+   * Lint and test issues recorded by the executor give the most precise type
    */
   private extractErrorInfo(log: string): { type: string; message: string } {
+    for (const [gate, issues] of Object.entries(parseQualityIssueLog(log))) {
+      const issue = issues.find(candidate => candidate.severity === 'error') || issues[0];
+      if (issue) {
+        return { type: getQualityErrorType(gate, issue), message: formatQualityIssue(issue).substring(0, 500) };
+      }
+    }
+
     const errorPatterns = [
       { regex: /LINT FAILED/i, type: 'lint' },
       { regex: /TESTS FAILED/i, type: 'test' },
@@ -496,7 +513,8 @@ class EnhancedRLHFSystem {
       'clean_architecture': 'Follow clean architecture principles'
     };
 
-    let suggestion = baseSuggestions[errorType] || 'Review and debug the failing step';
+    // Quality error types name their rule, e.g. 'lint:no-unused-vars'
+    let suggestion = baseSuggestions[errorType] || baseSuggestions[errorType.split(':')[0]] || 'Review and debug the failing step';
 
     // Add layer-specific context
     if (layerInfo) {
@@ -672,11 +690,17 @@ class EnhancedRLHFSystem {
   /**
    * Original calculateScore method (kept for compatibility)
    */
-  async calculateScore(stepType: string, success: boolean, errorMessage?: string, stepData?: StepData): Promise<number> {
+  async calculateScore(
+    stepType: string,
+    success: boolean,
+    errorMessage?: string,
+    stepData?: StepData,
+    qualityIssues?: Record<string, QualityIssue[]>
+  ): Promise<number> {
     this.logger.log(`🧮 Calculating base RLHF score for ${stepType} (${success ? 'success' : 'failure'})`);
 
     if (!success && errorMessage) {
-      const score = this.analyzeFailureSeverity(errorMessage, stepType, stepData);
+      const score = this.analyzeFailureSeverity(errorMessage, stepType, stepData, qualityIssues);
       this.logger.log(`❌ Failure analysis: Score ${score}`);
       return score;
     }
@@ -694,7 +718,12 @@ class EnhancedRLHFSystem {
   /**
    * Analyze failure severity
    */
-  private analyzeFailureSeverity(errorMessage: string, stepType: string, stepData?: StepData): number {
+  private analyzeFailureSeverity(
+    errorMessage: string,
+    stepType: string,
+    stepData?: StepData,
+    qualityIssues?: Record<string, QualityIssue[]>
+  ): number {
     // -2: Catastrophic errors
     const catastrophicPatterns = [
       /replace.*with.*format/i,
@@ -717,6 +746,15 @@ class EnhancedRLHFSystem {
       }
     }
 
+    // -1: Lint errors and failed tests reported by the quality gates
+    const qualityErrorTypes = Object.entries(qualityIssues || {}).flatMap(([gate, issues]) =>
+      issues.filter(issue => issue.severity === 'error').map(issue => getQualityErrorType(gate, issue))
+    );
+    if (qualityErrorTypes.length > 0) {
+      this.logger.log(`   Quality errors: ${[...new Set(qualityErrorTypes)].join(', ')}`);
+      return -1;
+    }
+
     // -1: Runtime errors
     const runtimePatterns = [
       /lint.*failed/i,
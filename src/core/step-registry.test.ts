@@ -0,0 +1,71 @@
+/**
+ * Unit tests for the step type registry and plugin loading
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import fs from 'fs-extra';
+import os from 'os';
+import path from 'path';
+import { defineStepType, loadStepPlugins, StepTypeRegistry } from './step-registry';
+
+const execute = async () => {};
+
+describe('StepTypeRegistry', () => {
+  it('should register plugin step types and map them to their commit type', () => {
+    const registry = new StepTypeRegistry();
+    registry.register(defineStepType({ type: 'openapi_client', execute, commitType: 'feat' }));
+    registry.register(defineStepType({ type: 'seed_data', execute }));
+    registry.register(defineStepType({ type: 'notify', execute, commitType: null }));
+
+    expect(registry.get('openapi_client')?.commitType).toBe('feat');
+    expect(registry.list().map(definition => definition.type)).toEqual(['openapi_client', 'seed_data', 'notify']);
+    expect(registry.getCommitTypeMapping()).toEqual({ openapi_client: 'feat', seed_data: 'regent', notify: null });
+  });
+
+  it('should reject built-in, duplicate, invalid and incomplete step types', () => {
+    const registry = new StepTypeRegistry();
+    registry.register({ type: 'seed_data', execute });
+
+    expect(() => registry.register({ type: 'create_file', execute })).toThrow("Step type 'create_file' is built in");
+    expect(() => registry.register({ type: 'seed_data', execute })).toThrow("Step type 'seed_data' is already registered");
+    expect(() => registry.register({ type: 'Seed Data', execute })).toThrow("Invalid step type name 'Seed Data'");
+    expect(() => registry.register({ type: 'no_handler' } as never)).toThrow("Step type 'no_handler' has no execute() handler");
+  });
+});
+
+describe('loadStepPlugins', () => {
+  let tempDir: string;
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'step-plugins-'));
+  });
+
+  afterEach(async () => {
+    await fs.remove(tempDir);
+  });
+
+  it('should register the default exports of every plugin file', async () => {
+    await fs.outputFile(
+      path.join(tempDir, '.regent/plugins/seed.mjs'),
+      "export default { type: 'seed_data', execute: async () => 'seeded' };\n"
+    );
+    await fs.outputFile(
+      path.join(tempDir, '.regent/plugins/clients.ts'),
+      "export default [{ type: 'openapi_client', execute: () => {} }, { type: 'graphql_client', execute: () => {} }];\n"
+    );
+    await fs.outputFile(path.join(tempDir, '.regent/plugins/seed.test.ts'), 'throw new Error("not a plugin");\n');
+    const registry = new StepTypeRegistry();
+
+    expect(await loadStepPlugins(registry, tempDir)).toEqual(['.regent/plugins/clients.ts', '.regent/plugins/seed.mjs']);
+    expect(registry.list().map(definition => definition.type)).toEqual(['openapi_client', 'graphql_client', 'seed_data']);
+  });
+
+  it('should name the plugin that failed to load', async () => {
+    await fs.outputFile(path.join(tempDir, '.regent/plugins/broken.mjs'), "export default { type: 'patch', execute() {} };\n");
+
+    await expect(loadStepPlugins(new StepTypeRegistry(), tempDir)).rejects.toThrow(
+      "Failed to load step plugin .regent/plugins/broken.mjs: Step type 'patch' is built in and cannot be replaced"
+    );
+    expect(await loadStepPlugins(new StepTypeRegistry(), path.join(tempDir, 'missing'))).toEqual([]);
+  });
+});
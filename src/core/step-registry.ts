@@ -0,0 +1,187 @@
+/**
+ * Step Type Registry
+ * Step types added by a project on top of the built-in ones
+ *
+ * Plugins live in `.regent/plugins/*.ts` and default-export one step type definition
+ * (or an array of them). The executor and the template validator load them on their
+ * own: a plugin declares everything a step type needs — the schema of its steps, the
+ * handler running them, how to undo them, the commit type of their commits and how
+ * they are scored.
+ */
+
+import fs from 'fs-extra';
+import * as path from 'path';
+import { pathToFileURL } from 'url';
+import type { LayerInfo } from './rlhf-system';
+import type { ConventionalCommitType } from '../utils/commit-generator';
+
+/**
+ * Step types handled by the executor itself
+ */
+export const BUILT_IN_STEP_TYPES = [
+  'create_file',
+  'refactor_file',
+  'patch',
+  'move_file',
+  'delete_file',
+  'folder',
+  'branch',
+  'pull_request',
+  'validation',
+  'test',
+  'conditional_file',
+] as const;
+
+export type BuiltInStepType = typeof BUILT_IN_STEP_TYPES[number];
+
+/**
+ * Where a project keeps its step type plugins
+ */
+export const PLUGIN_DIRECTORY = '.regent/plugins';
+
+/**
+ * A plan step as a plugin sees it: the common fields plus its own
+ */
+export interface PluginStep {
+  id: string;
+  type: string;
+  path?: string;
+  template?: string;
+  [key: string]: unknown;
+}
+
+/**
+ * What a plugin handler knows about the run
+ */
+export interface StepTypeContext {
+  layerInfo: LayerInfo | null;
+  /** `metadata` section of the plan */
+  metadata: Record<string, unknown>;
+  /** Print a line under the step and record it in the execution logs */
+  log(message: string): void;
+}
+
+/**
+ * What a plugin scoring hook knows about the step outcome
+ */
+export interface StepScoreContext extends StepTypeContext {
+  success: boolean;
+  /** Handler output on success, error message on failure */
+  output?: string;
+}
+
+/**
+ * Everything the executor and the validator need to know about a plugin step type
+ */
+export interface StepTypeDefinition {
+  /** Value of `type` in the plan, e.g. 'openapi_client' */
+  type: string;
+  description?: string;
+  /** JSON schema a step of this type must match, checked by the template validator */
+  schema?: Record<string, unknown>;
+  /**
+   * Run the step; throwing fails it
+   * @returns Output recorded in the execution log
+   */
+  execute(step: PluginStep, context: StepTypeContext): Promise<string | void> | string | void;
+  /**
+   * Files the step writes (default: its `path`)
+   * They are snapshotted before each attempt, restored when it fails and scope its commit
+   */
+  paths?(step: PluginStep): string[];
+  /** Undo what the step did besides writing its files, after those are restored */
+  rollback?(step: PluginStep, context: StepTypeContext): Promise<void> | void;
+  /**
+   * Conventional commit type of the step commit, null for no commit (default: 'regent')
+   * `commit.conventional_commits.type_mapping` in execute.yml takes precedence
+   */
+  commitType?: ConventionalCommitType;
+  /**
+   * Adjust the RLHF score of the step (the result is kept within -2..2)
+   */
+  score?(score: number, step: PluginStep, context: StepScoreContext): number;
+}
+
+/**
+ * Typed helper for plugin files
+ * @example
+ * export default defineStepType({ type: 'openapi_client', execute: async step => generateClient(step.path) })
+ */
+export function defineStepType(definition: StepTypeDefinition): StepTypeDefinition {
+  return definition;
+}
+
+/**
+ * Step types registered by plugins, looked up by the executor and the validator
+ */
+export class StepTypeRegistry {
+  private definitions = new Map<string, StepTypeDefinition>();
+
+  /**
+   * @throws {Error} If the definition is incomplete, or its type is built in or already registered
+   */
+  register(definition: StepTypeDefinition): void {
+    if (!definition || typeof definition.type !== 'string' || !/^[a-z][a-z0-9_]*$/.test(definition.type)) {
+      throw new Error(`Invalid step type name '${definition?.type}': use lowercase letters, digits and underscores`);
+    }
+    if ((BUILT_IN_STEP_TYPES as readonly string[]).includes(definition.type)) {
+      throw new Error(`Step type '${definition.type}' is built in and cannot be replaced`);
+    }
+    if (this.definitions.has(definition.type)) {
+      throw new Error(`Step type '${definition.type}' is already registered`);
+    }
+    if (typeof definition.execute !== 'function') {
+      throw new Error(`Step type '${definition.type}' has no execute() handler`);
+    }
+    this.definitions.set(definition.type, definition);
+  }
+
+  get(type: string): StepTypeDefinition | undefined {
+    return this.definitions.get(type);
+  }
+
+  list(): StepTypeDefinition[] {
+    return [...this.definitions.values()];
+  }
+
+  /**
+   * Commit type of every registered step type, to merge under the configured mapping
+   */
+  getCommitTypeMapping(): Record<string, ConventionalCommitType> {
+    return Object.fromEntries(this.list().map(definition => [definition.type, definition.commitType === undefined ? 'regent' : definition.commitType]));
+  }
+}
+
+/**
+ * Register the step types of every plugin of a project
+ * Test files and type declarations in the plugin directory are ignored
+ * @returns Plugin files loaded, relative to the project root
+ * @throws {Error} Naming the plugin that failed to load or register
+ */
+export async function loadStepPlugins(registry: StepTypeRegistry, projectRoot: string = process.cwd()): Promise<string[]> {
+  const directory = path.join(projectRoot, PLUGIN_DIRECTORY);
+  if (!await fs.pathExists(directory)) {
+    return [];
+  }
+
+  const files = (await fs.readdir(directory))
+    .filter(file => /\.(ts|mts|js|mjs)$/.test(file) && !/\.(test|spec|d)\.[a-z]+$/.test(file))
+    .sort();
+
+  for (const file of files) {
+    try {
+      const plugin = await import(pathToFileURL(path.join(directory, file)).href);
+      if (!plugin.default) {
+        throw new Error('no default export');
+      }
+      for (const definition of Array.isArray(plugin.default) ? plugin.default : [plugin.default]) {
+        registry.register(definition);
+      }
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      throw new Error(`Failed to load step plugin ${PLUGIN_DIRECTORY}/${file}: ${message}`);
+    }
+  }
+
+  return files.map(file => `${PLUGIN_DIRECTORY}/${file}`);
+}
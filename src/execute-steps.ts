@@ -6,14 +6,41 @@
  * Integrates best practices from the template validation system
  */
 
+import { spawnSync } from 'child_process';
 import * as crypto from 'crypto';
+import { EventEmitter } from 'events';
 import * as os from 'os';
 import * as path from 'path';
+import { fileURLToPath } from 'url';
 import * as yaml from 'yaml';
 import { $, chalk, argv } from 'zx';
 import fs from 'fs-extra';
 import Logger from './core/logger';
-import { EnhancedRLHFSystem, LayerInfo } from './core/rlhf-system';
+import { EnhancedRLHFSystem, type LayerInfo } from './core/rlhf-system';
+import {
+  consoleOutput,
+  createGitAdapter,
+  ExecutionError,
+  stderrOutput,
+  type ExecutedStep,
+  type ExecutionResult,
+  type ExecutionStatus,
+  type ExecutorDependencies,
+  type ExecutorEvents,
+  type GitAdapter,
+  type IsolationSummary,
+  type LoggerAdapter,
+  type OutputAdapter,
+  type RLHFAdapter,
+} from './core/executor-api';
+import {
+  getExitCode,
+  MachineOutputReporter,
+  parseOutputFormat,
+  redirectStdoutToStderr,
+  type OutputFormat,
+} from './core/output-reporter';
+import { loadStepPlugins, StepTypeRegistry, type PluginStep, type StepTypeContext } from './core/step-registry';
 import { resolveLogDirectory } from './utils/log-path-resolver';
 import { EnhancedTemplateValidator } from './validate-template';
 import type { ValidationResult } from './validate-template';
@@ -23,15 +50,129 @@ import {
   type CommitConfig,
   DEFAULT_COMMIT_CONFIG,
   type QualityCheckResult,
+  type QualityGateResult,
+  type StepType,
   createQualityCheckResult,
 } from './utils/commit-generator';
-import { validateConfig } from './utils/config-validator';
-import { EXIT_CODES, RATE_LIMITS, RETRY, TIMING } from './utils/constants';
+import { validateConfig, validateFilePath } from './utils/config-validator';
+import { evaluateCondition } from './utils/condition-evaluator';
+import { buildExecutionWaves, KeyedLock } from './utils/step-scheduler';
+import { hasStepSelection, parseStepSelectionArgs, resolveStepSelection } from './utils/step-selection';
+import {
+  applyRefactorBlocks,
+  applyRefactorOperations,
+  parseRefactorBlocks,
+  type RefactorOperation,
+} from './utils/refactor-engine';
+import { applyFilePatch, formatHunkFailures, listPatchFiles, parsePatch } from './utils/patch-engine';
+import { isEmptyDirectory, listFolderFiles, listProjectFiles, planMove, type MoveChange } from './utils/import-rewriter';
+import { checkPlanIntegrity, getStepOrder, hashStep } from './utils/plan-integrity';
+import { parseChangedFiles, selectCheckableFiles } from './utils/incremental-checks';
+import {
+  getFailedGatesMaxScore,
+  isRejectedOptionOutput,
+  parseGateErrors,
+  resolveQualityGates,
+  runsGateTool,
+  type QualityGate,
+} from './utils/quality-gates';
+import {
+  attributeQualityIssues,
+  formatQualityIssue,
+  formatQualityIssueLog,
+  JSON_REPORTER_ARGS,
+  parseGateReport,
+  type QualityIssue,
+} from './utils/quality-reports';
+import {
+  formatBatchSummary,
+  getBlockingReason,
+  loadMinFinalScore,
+  orderTemplatesByLayer,
+  parseTemplateLayer,
+  type BatchErrorMode,
+  type BatchOutcome,
+} from './utils/batch-execution';
+import {
+  acquireExecutionLock,
+  ExecutionLockError,
+  formatLockHolder,
+  getLockPath,
+  type ExecutionLock,
+  type LockHolder,
+} from './utils/execution-lock';
+import {
+  applyExecutionState,
+  collectExecutionState,
+  excludeStateDirectory,
+  findProjectRoot,
+  getPlanKey,
+  getStatePath,
+  isRunStatePath,
+  isStateFile,
+  parsePlanDocument,
+  readExecutionState,
+  updatePlanDocument,
+  writeExecutionState,
+  writeStateIntoPlan,
+  type StateStore,
+} from './utils/execution-state';
+import {
+  DEFAULT_SCRIPT_POLICY,
+  findDeniedCommands,
+  resolveScriptCwd,
+  runSandboxedScript,
+  type ScriptPolicy,
+} from './utils/script-sandbox';
+import {
+  analyzeImports,
+  DEFAULT_ARCHITECTURE_POLICY,
+  formatViolationReport,
+  type ArchitecturePolicy,
+  type ImportViolation,
+} from './utils/import-analyzer';
+import {
+  DEFAULT_STEP_POLICY,
+  findDependents,
+  getRetryDelay,
+  resolveStepPolicy,
+  summarizeStepOutcomes,
+  withTimeout,
+  type StepOutcomeSummary,
+  type StepPolicy,
+  type StepPolicyConfig,
+} from './utils/step-policy';
+import {
+  hasHooks,
+  resolveStepHooks,
+  type HookPhase,
+  type PlanHooksConfig,
+  type StepHooks,
+  type StepHooksConfig,
+} from './utils/step-hooks';
+import {
+  createWorktree,
+  linkDependencies,
+  mergeWorktreeBranch,
+  removeWorktree,
+  type WorktreeInfo,
+} from './utils/worktree';
+import { createUnifiedDiff, summarizeDiff, colorizeDiff } from './utils/diff-preview';
+import { EXIT_CODES, RATE_LIMITS, RETRY, SCHEDULING, TIMING } from './utils/constants';
 import { ExecutionOptions, parseExecutionOptions } from './utils/execution-options.js';
 
 $.verbose = true;
 $.shell = '/bin/bash';
 
+/**
+ * Change the working directory of this process and of zx commands
+ * (zx does not follow process.chdir on its own)
+ */
+function changeDirectory(directory: string): void {
+  process.chdir(directory);
+  $.cwd = directory;
+}
+
 /**
  * Extract error message from various error types consistently
  * @param error - Error object from git, shell commands, or JS errors
@@ -73,6 +214,16 @@ function extractErrorMessage(error: unknown, fallback = 'Unknown error'): string
   return fallback;
 }
 
+/**
+ * Paths listed by `git status --porcelain`
+ */
+function parsePorcelainPaths(statusOutput: string): string[] {
+  return statusOutput
+    .split('\n')
+    .filter(line => line.trim())
+    .map(line => line.substring(3).trim());
+}
+
 /**
  * Extract combined output from shell command errors
  * @param error - Error object from shell command
@@ -100,14 +251,37 @@ function extractCommandOutput(error: unknown): string {
   return (stdout + stderr).trim();
 }
 
+/**
+ * One file of a multi-file create_file/refactor_file step
+ */
+interface StepFile {
+  path: string;
+  template?: string;
+  operations?: RefactorOperation[];
+}
+
+/**
+ * Content of a file before a step touched it, null when the file did not exist
+ */
+interface FileSnapshot {
+  path: string;
+  content: Buffer | null;
+  /** Permission bits, restored with the content */
+  mode?: number;
+}
+
 interface Step {
   id: string;
-  type: 'create_file' | 'refactor_file' | 'delete_file' | 'folder' | 'branch' | 'pull_request' | 'validation' | 'test' | 'conditional_file';
+  type: StepType;
   status: 'PENDING' | 'SUCCESS' | 'FAILED' | 'SKIPPED';
   rlhf_score: number | null;
   execution_log: string;
   path?: string;
+  /** Where a move_file step moves `path` to */
+  destination?: string;
   template?: string;
+  /** Files written together by a create_file/refactor_file step, all or none */
+  files?: StepFile[];
   action?: {
     create_folders?: {
       basePath?: string;
@@ -119,6 +293,23 @@ interface Step {
     title?: string;
   };
   validation_script?: string;
+  script_timeout_ms?: number;
+  operations?: RefactorOperation[];
+  depends_on?: string[];
+  condition?: string;
+  expected_result?: 'pass' | 'fail';
+  run_scripts?: {
+    description?: string;
+    scripts: Array<{ name?: string; command: string; workingDirectory?: string }>;
+  };
+  policy?: StepPolicyConfig;
+  hooks?: StepHooksConfig;
+  /** Attempts used by the last run, recorded when the step was retried */
+  attempts?: number;
+  /** Hash of the step content when it last ran, to detect later edits */
+  content_hash?: string;
+  /** Edited after it ran and kept as is: its hash stays the one of the content that ran */
+  stale?: boolean;
 }
 
 interface ImplementationPlan {
@@ -133,33 +324,125 @@ interface ImplementationPlan {
     project_type?: string;
     architecture_style?: string;
   };
+  hooks?: PlanHooksConfig;
+  step_defaults?: {
+    policy?: StepPolicyConfig;
+    [key: string]: unknown;
+  };
   evaluation?: {
     final_rlhf_score?: number;
     final_status?: string;
     commit_hashes?: string[];
+    step_summary?: StepOutcomeSummary;
+    /** Steps edited after they ran and not executed again */
+    stale_steps?: string[];
   };
+  execution_log?: string;
+  /** Ids of the steps that ran, in plan order */
+  step_order?: string[];
   [key: string]: unknown;
 }
 
-class EnhancedStepExecutor {
+/**
+ * Paths a step writes: the files named by a patch, every entry of `files`, or its single `path`
+ * A move_file step only names its destination and source here: the importers it
+ * rewrites are known once it ran
+ */
+function getStepPaths(step: Step): string[] {
+  if (step.type === 'patch') {
+    return listPatchFiles(step.template || '', step.path);
+  }
+  if (step.type === 'move_file') {
+    return [step.destination, step.path].filter((filePath): filePath is string => Boolean(filePath));
+  }
+  if (Array.isArray(step.files)) {
+    return step.files.map(file => file?.path).filter((filePath): filePath is string => typeof filePath === 'string');
+  }
+  return step.path ? [step.path] : [];
+}
+
+/**
+ * Content of a file, or null when it does not exist
+ */
+async function readFileIfExists(filePath: string): Promise<string | null> {
+  return (await fs.pathExists(filePath)) ? fs.readFile(filePath, 'utf-8') : null;
+}
+
+/**
+ * Split a multi-file step into one single-file step per entry of `files`
+ * @throws {Error} If `files` is empty, is combined with `path`, or has an entry without a path or a duplicate path
+ */
+function expandStepFiles(step: Step): Step[] {
+  if (!Array.isArray(step.files) || step.files.length === 0) {
+    throw new Error(`Step '${step.id}' has an empty 'files' list.`);
+  }
+  if (step.path) {
+    throw new Error(`Step '${step.id}' declares both 'path' and 'files'.`);
+  }
+
+  const seen = new Set<string>();
+  return step.files.map((file, index) => {
+    if (!file || typeof file.path !== 'string' || !file.path) {
+      throw new Error(`Entry ${index + 1} of 'files' in step '${step.id}' is missing 'path'.`);
+    }
+    if (seen.has(file.path)) {
+      throw new Error(`Step '${step.id}' lists ${file.path} more than once in 'files'.`);
+    }
+    seen.add(file.path);
+
+    return { ...step, files: undefined, path: file.path, template: file.template, operations: file.operations };
+  });
+}
+
+class EnhancedStepExecutor extends EventEmitter<ExecutorEvents> {
   private plan: ImplementationPlan;
-  private logger: Logger;
-  private rlhf: EnhancedRLHFSystem;
+  private logger: LoggerAdapter;
+  private output: OutputAdapter;
+  private rlhf: RLHFAdapter;
+  private git: GitAdapter;
   private validator: EnhancedTemplateValidator;
-  private startTime: number = 0;
   private layerInfo: LayerInfo | null = null;
   private validationResult: ValidationResult | null = null;
   private executionCache: Map<string, unknown> = new Map();
   private commitConfig: CommitConfig;
+  private scriptPolicy: ScriptPolicy;
+  private architecturePolicy: ArchitecturePolicy;
   private commitHashes: string[] = [];
   private cachedPackageManager: 'npm' | 'yarn' | 'pnpm' | null = null;
   private lastKnownCommitHash: string | null = null;
   private cleanupHandlers: Array<{ signal: NodeJS.Signals; handler: () => void }> = [];
+  /** Validation scripts still running, each killed with its process group when aborted */
+  private activeScripts = new Set<AbortController>();
   private gitOpTimestamps: number[] = [];
   private lastGitOpTime: number = 0;
   private rateLimitLock: Promise<void> = Promise.resolve();
   private auditLog: Array<{ timestamp: string; event: string; details: Record<string, unknown> }> = [];
   private executionOptions: ExecutionOptions;
+  private fileLocks = new KeyedLock();
+  /** Every file a move_file step touched, as it was before the move, by step id */
+  private moveSnapshots = new Map<string, FileSnapshot[]>();
+  private selectedSteps: Set<number> | null = null;
+  private savePlanLock: Promise<void> = Promise.resolve();
+  /** The plan as parsed, so saves keep its comments and formatting */
+  private planDocument: yaml.Document | null = null;
+  /** Plan YAML as last read or written, to skip writes that change nothing */
+  private planContent: string | null = null;
+  private stateStore: StateStore;
+  /** Project lock held while the run may commit or save the plan */
+  private executionLock: ExecutionLock | null = null;
+  /** Lock handed over by a batch run, released by the batch */
+  private sharedLock: ExecutionLock | null;
+  /** Sidecar state file and plan key, resolved up front so isolated runs keep them in the main tree */
+  private statePath: string;
+  private planKey: string;
+  private steps: Step[] = [];
+  private stepPolicies = new Map<Step, StepPolicy>();
+  private stepHooks = new Map<Step, StepHooks>();
+  private blockedSteps = new Map<Step, string>();
+  private toleratedFailures: Step[] = [];
+  /** Step types added by plugins, loaded from the project unless injected */
+  private stepTypes: StepTypeRegistry;
+  private loadsStepPlugins: boolean;
 
   /**
    * Create a new EnhancedStepExecutor instance
@@ -168,37 +451,55 @@ class EnhancedStepExecutor {
    * - Logger for detailed execution logs
    * - RLHF system for scoring and learning
    * - Template validator for pre-execution checks
-   * - Commit configuration from .regent/config/execute.yml
+   * - Commit configuration, script policy and import rules from .regent/config/execute.yml
    * - Signal handlers for graceful cleanup on interrupts
    *
    * @param {string} implementationPath - Path to the YAML implementation file
    *                                      (e.g., './spec/001-feature/domain/implementation.yaml')
    * @param {ExecutionOptions} options - Execution options for non-interactive mode
+   * @param {ExecutorDependencies} dependencies - Logger, output, RLHF and git adapters and plugin step types replacing the defaults
    *
    * @example
    * ```typescript
    * const executor = new EnhancedStepExecutor('./spec/001-auth/domain/implementation.yaml');
-   * await executor.run();
+   * executor.on('stepFailed', ({ step, error }) => report(step.id, error));
+   * const result = await executor.run();
    * ```
    */
-  constructor(private implementationPath: string, options: ExecutionOptions = {}) {
+  constructor(
+    private implementationPath: string,
+    options: ExecutionOptions = {},
+    dependencies: ExecutorDependencies = {}
+  ) {
+    super();
     this.plan = { steps: [] };
+    this.output = dependencies.output ?? consoleOutput;
 
     // Parse execution options (CLI flags, env vars, config)
-    this.executionOptions = parseExecutionOptions(options);
+    this.executionOptions = parseExecutionOptions(options, this.output);
 
     // Use the utility function to resolve log directory
-    const logDir = resolveLogDirectory(implementationPath);
-    this.logger = new Logger(logDir);
-    this.rlhf = new EnhancedRLHFSystem(implementationPath);
-    this.validator = new EnhancedTemplateValidator();
+    this.logger = dependencies.logger ?? new Logger(resolveLogDirectory(implementationPath));
+    this.rlhf = dependencies.rlhf ?? new EnhancedRLHFSystem(implementationPath);
+    this.git = dependencies.git ?? createGitAdapter();
+    this.stepTypes = dependencies.stepTypes ?? new StepTypeRegistry();
+    this.loadsStepPlugins = !dependencies.stepTypes;
+    this.sharedLock = dependencies.executionLock ?? null;
+    this.validator = new EnhancedTemplateValidator(this.stepTypes);
     this.commitConfig = this.loadCommitConfig();
+    this.scriptPolicy = this.loadScriptPolicy();
+    this.architecturePolicy = this.loadArchitecturePolicy();
+    this.stateStore = this.loadStateStore();
+    this.statePath = getStatePath(implementationPath);
+    this.planKey = getPlanKey(implementationPath);
 
     // Detect layer from filename
     this.layerInfo = this.detectLayerInfo(implementationPath);
 
     // Setup cleanup handlers
-    this.setupCleanupHandlers();
+    if (dependencies.handleSignals !== false) {
+      this.setupCleanupHandlers();
+    }
   }
 
 
@@ -208,12 +509,15 @@ class EnhancedStepExecutor {
    */
   private setupCleanupHandlers(): void {
     const cleanup = async () => {
-      console.log(chalk.yellow('\n\n⚠️  Execution interrupted. Cleaning up...'));
+      this.output.info(chalk.yellow('\n\n⚠️  Execution interrupted. Cleaning up...'));
+
+      // Scripts run in their own process group and would outlive process.exit
+      this.killActiveScripts();
 
       try {
         // Reset any staged changes
-        await $`git reset HEAD`.catch(() => {});
-        console.log(chalk.green('   ✅ Staged changes reset'));
+        await this.git.run(['reset', 'HEAD']).catch(() => {});
+        this.output.info(chalk.green('   ✅ Staged changes reset'));
       } catch {
         // Ignore cleanup errors
       }
@@ -243,6 +547,16 @@ class EnhancedStepExecutor {
     this.cleanupHandlers = [];
   }
 
+  /**
+   * Kill every validation script still running, with the processes it started
+   */
+  private killActiveScripts(): void {
+    for (const controller of this.activeScripts) {
+      controller.abort();
+    }
+    this.activeScripts.clear();
+  }
+
   /**
    * Log security-relevant events for audit trail
    *
@@ -253,6 +567,8 @@ class EnhancedStepExecutor {
    * - auto_confirm_git_dirty: When --yes bypasses git dirty check
    * - auto_confirm_validation_errors: When --yes bypasses validation errors
    * - script_validation: When scripts are validated for security
+   * - validation_script_denied/_cwd_rejected/_timeout/_output_truncated: Script policy violations
+   * - import_boundary_violation: Generated file imports from a layer it may not depend on
    * - git_operation: Git operations performed
    * - rollback_started: When rollback is initiated
    * - rollback_success/rollback_failed: Rollback results
@@ -274,7 +590,7 @@ class EnhancedStepExecutor {
 
     // Log to console in verbose mode
     if (process.env.AUDIT_LOG === 'true') {
-      console.log(chalk.gray(`   [AUDIT] ${event}: ${JSON.stringify(details)}`));
+      this.output.info(chalk.gray(`   [AUDIT] ${event}: ${JSON.stringify(details)}`));
     }
 
     // Keep only last 100 entries to prevent memory bloat
@@ -318,7 +634,7 @@ class EnhancedStepExecutor {
         const waitTime = 60000 - (Date.now() - oldestTimestamp);
 
         if (waitTime > 0) {
-          console.log(chalk.yellow(`   ⏱️  Rate limit reached, waiting ${Math.ceil(waitTime / 1000)}s...`));
+          this.output.info(chalk.yellow(`   ⏱️  Rate limit reached, waiting ${Math.ceil(waitTime / 1000)}s...`));
           await new Promise(resolve => setTimeout(resolve, waitTime));
 
           // Clean up again after waiting
@@ -369,7 +685,7 @@ class EnhancedStepExecutor {
         this.cachedPackageManager = 'pnpm';
         return 'pnpm';
       }
-      console.log(chalk.yellow('   ⚠️  pnpm-lock.yaml found but pnpm is not installed'));
+      this.output.info(chalk.yellow('   ⚠️  pnpm-lock.yaml found but pnpm is not installed'));
     }
 
     if (fs.existsSync('yarn.lock')) {
@@ -377,7 +693,7 @@ class EnhancedStepExecutor {
         this.cachedPackageManager = 'yarn';
         return 'yarn';
       }
-      console.log(chalk.yellow('   ⚠️  yarn.lock found but yarn is not installed'));
+      this.output.info(chalk.yellow('   ⚠️  yarn.lock found but yarn is not installed'));
     }
 
     // Default to npm (should always be available with Node.js)
@@ -401,6 +717,9 @@ class EnhancedStepExecutor {
     const configuredScripts = [
       this.commitConfig.qualityChecks.lintCommand || 'lint',
       this.commitConfig.qualityChecks.testCommand || 'test --run',
+      this.commitConfig.qualityChecks.lintFilesCommand,
+      this.commitConfig.qualityChecks.relatedTestsCommand,
+      ...Object.values(this.commitConfig.qualityChecks.gates || {}).map(gate => gate.command),
     ];
 
     if (configuredScripts.includes(script)) {
@@ -474,15 +793,40 @@ class EnhancedStepExecutor {
     // Split script into parts for safe execution
     const scriptParts = script.split(/\s+/);
 
+    // npm only forwards script arguments placed after `--` (e.g. `test --run`)
+    const [scriptName, ...scriptArgs] = scriptParts;
+    const npmArgs = ['run', scriptName, ...(scriptArgs.length > 0 ? ['--', ...scriptArgs] : [])];
+
     switch (pm) {
       case 'pnpm':
         return { command: 'pnpm', args: scriptParts };
       case 'yarn':
         return { command: 'yarn', args: scriptParts };
       case 'npm':
-        return { command: 'npm', args: ['run', ...scriptParts] };
+        return { command: 'npm', args: npmArgs };
+      default:
+        return { command: 'npm', args: npmArgs };
+    }
+  }
+
+  /**
+   * Get the package manager command running a binary of the project on files
+   * @param commandLine - Binary and its arguments (e.g. 'vitest related --run'), validated like scripts
+   * @param files - Appended as separate arguments, never parsed by a shell
+   */
+  private async getPackageManagerExecCommand(commandLine: string, files: string[]): Promise<{ command: string; args: string[] }> {
+    this.validateScript(commandLine);
+
+    const pm = await this.detectPackageManager();
+    const commandParts = commandLine.split(/\s+/);
+
+    switch (pm) {
+      case 'pnpm':
+        return { command: 'pnpm', args: ['exec', ...commandParts, ...files] };
+      case 'yarn':
+        return { command: 'yarn', args: [...commandParts, ...files] };
       default:
-        return { command: 'npm', args: ['run', ...scriptParts] };
+        return { command: 'npx', args: ['--no-install', ...commandParts, ...files] };
     }
   }
 
@@ -492,16 +836,16 @@ class EnhancedStepExecutor {
   private async checkGitSafety(): Promise<boolean> {
     try {
       // Check if we're in a git repository
-      await $`git rev-parse --git-dir`;
+      await this.git.run(['rev-parse', '--git-dir']);
 
-      // Check for uncommitted changes
-      const statusResult = await $`git status --porcelain`;
-      const hasUncommittedChanges = statusResult.stdout.trim().length > 0;
+      // Check for uncommitted changes, leaving out the run state of regent itself
+      const statusOutput = await this.git.run(['status', '--porcelain']);
+      const hasUncommittedChanges = parsePorcelainPaths(statusOutput).some(filePath => !isStateFile(filePath));
 
       if (hasUncommittedChanges) {
-        console.log(chalk.yellow('⚠️  Warning: You have uncommitted changes in your working directory.'));
-        console.log(chalk.yellow('   The execute command will create commits. Please commit or stash your changes first.'));
-        console.log(chalk.gray('   Run: git status to see your changes'));
+        this.output.info(chalk.yellow('⚠️  Warning: You have uncommitted changes in your working directory.'));
+        this.output.info(chalk.yellow('   The execute command will create commits. Please commit or stash your changes first.'));
+        this.output.info(chalk.gray('   Run: git status to see your changes'));
 
         // Check execution mode
         const isInteractive = !this.executionOptions.nonInteractive && this.commitConfig.interactiveSafety !== false;
@@ -515,34 +859,34 @@ class EnhancedStepExecutor {
           );
 
           if (!shouldContinue) {
-            console.log(chalk.yellow('⏸️  Execution aborted by user. Please commit or stash your changes first.'));
+            this.output.info(chalk.yellow('⏸️  Execution aborted by user. Please commit or stash your changes first.'));
             return false;
           }
         } else if (this.executionOptions.autoConfirm) {
           // Auto-confirm mode: Proceed automatically
-          console.log(chalk.yellow('   ✅ Auto-confirming (--yes flag)'));
+          this.output.info(chalk.yellow('   ✅ Auto-confirming (--yes flag)'));
           this.logAuditEvent('auto_confirm_git_dirty', {
             reason: 'Uncommitted changes detected',
             autoConfirm: true,
           });
         } else if (this.executionOptions.strict) {
           // Strict non-interactive mode: Fail immediately with actionable guidance
-          console.log(chalk.red('   ❌ Strict mode: Uncommitted changes detected'));
-          console.log(chalk.gray('   To proceed, choose one of these options:'));
-          console.log(chalk.gray('   • Run: git status          (see uncommitted changes)'));
-          console.log(chalk.gray('   • Run: git commit -am "msg" (commit changes)'));
-          console.log(chalk.gray('   • Run: git stash           (temporarily save changes)'));
-          console.log(chalk.gray('   • Remove --strict flag     (allow execution with uncommitted changes)'));
+          this.output.info(chalk.red('   ❌ Strict mode: Uncommitted changes detected'));
+          this.output.info(chalk.gray('   To proceed, choose one of these options:'));
+          this.output.info(chalk.gray('   • Run: git status          (see uncommitted changes)'));
+          this.output.info(chalk.gray('   • Run: git commit -am "msg" (commit changes)'));
+          this.output.info(chalk.gray('   • Run: git stash           (temporarily save changes)'));
+          this.output.info(chalk.gray('   • Remove --strict flag     (allow execution with uncommitted changes)'));
           return false;
         } else {
           // Non-interactive mode: Proceed without confirmation
-          console.log(chalk.yellow('   ▶️  Proceeding in non-interactive mode'));
+          this.output.info(chalk.yellow('   ▶️  Proceeding in non-interactive mode'));
         }
       }
 
       return true;
     } catch {
-      console.log(chalk.red('❌ Not in a git repository or git is not available'));
+      this.output.info(chalk.red('❌ Not in a git repository or git is not available'));
       return false;
     }
   }
@@ -556,7 +900,7 @@ class EnhancedStepExecutor {
     try {
       // Check if config file exists
       if (!fs.existsSync(configPath)) {
-        console.log(chalk.gray('   ℹ️  No execute config found, using defaults'));
+        this.output.info(chalk.gray('   ℹ️  No execute config found, using defaults'));
         return { ...DEFAULT_COMMIT_CONFIG };
       }
 
@@ -568,9 +912,9 @@ class EnhancedStepExecutor {
       const validation = validateConfig(loadedConfig);
 
       if (!validation.success) {
-        console.log(chalk.yellow('   ⚠️  Configuration validation errors:'));
-        validation.errors?.forEach(err => console.log(chalk.yellow(`      • ${err}`)));
-        console.log(chalk.yellow('   Using default configuration'));
+        this.output.info(chalk.yellow('   ⚠️  Configuration validation errors:'));
+        validation.errors?.forEach(err => this.output.info(chalk.yellow(`      • ${err}`)));
+        this.output.info(chalk.yellow('   Using default configuration'));
         return { ...DEFAULT_COMMIT_CONFIG };
       }
 
@@ -585,6 +929,19 @@ class EnhancedStepExecutor {
           lintCommand: validatedData.commit.quality_checks.lint_command || 'lint',
           test: validatedData.commit.quality_checks.test,
           testCommand: validatedData.commit.quality_checks.test_command || 'test --run',
+          mode: validatedData.commit.quality_checks.mode ?? DEFAULT_COMMIT_CONFIG.qualityChecks.mode,
+          lintFilesCommand: validatedData.commit.quality_checks.lint_files_command ?? DEFAULT_COMMIT_CONFIG.qualityChecks.lintFilesCommand,
+          relatedTestsCommand: validatedData.commit.quality_checks.related_tests_command ?? DEFAULT_COMMIT_CONFIG.qualityChecks.relatedTestsCommand,
+          fullSuiteAtLayerEnd: validatedData.commit.quality_checks.full_suite_at_layer_end ?? DEFAULT_COMMIT_CONFIG.qualityChecks.fullSuiteAtLayerEnd,
+          gates: Object.fromEntries(Object.entries(validatedData.commit.quality_checks.gates || {}).map(([name, gate]) => [name, {
+            enabled: gate.enabled,
+            command: gate.command,
+            parser: gate.parser,
+            jsonReporter: gate.json_reporter,
+            timeoutMs: gate.timeout_ms,
+            required: gate.required,
+            maxScore: gate.max_score,
+          }])),
         },
         conventionalCommits: {
           enabled: validatedData.commit.conventional_commits.enabled,
@@ -598,69 +955,128 @@ class EnhancedStepExecutor {
         interactiveSafety: validatedData.commit.interactive_safety ?? true,
       };
 
-      console.log(chalk.cyan('   ✅ Loaded commit configuration from .regent/config/execute.yml'));
+      this.output.info(chalk.cyan('   ✅ Loaded commit configuration from .regent/config/execute.yml'));
       return mergedConfig;
     } catch (error) {
       const message = error instanceof Error ? error.message : String(error);
-      console.log(chalk.yellow(`   ⚠️  Failed to load config: ${message}, using defaults`));
+      this.output.info(chalk.yellow(`   ⚠️  Failed to load config: ${message}, using defaults`));
       return { ...DEFAULT_COMMIT_CONFIG };
     }
   }
 
   /**
-   * Detect target and layer from template filename
+   * Load the validation script policy from the `validation_scripts` section of execute.yml
+   * Validation errors are already reported by loadCommitConfig, so defaults are used silently
    */
-  private detectLayerInfo(templatePath: string): LayerInfo | null {
-    const fileName = path.basename(templatePath, '.regent');
-    const match = fileName.match(/^(backend|frontend|fullstack)-(domain|data|infra|presentation|main)-template$/);
+  private loadScriptPolicy(): ScriptPolicy {
+    const configPath = '.regent/config/execute.yml';
+
+    try {
+      if (!fs.existsSync(configPath)) {
+        return { ...DEFAULT_SCRIPT_POLICY };
+      }
+
+      const validation = validateConfig(yaml.parse(fs.readFileSync(configPath, 'utf-8')));
+      const policy = validation.success ? validation.data!.validation_scripts : undefined;
 
-    if (match) {
-      const [, target, layer] = match;
       return {
-        target: target as 'backend' | 'frontend' | 'fullstack',
-        layer: layer as 'domain' | 'data' | 'infra' | 'presentation' | 'main'
+        timeoutMs: policy?.timeout_ms ?? DEFAULT_SCRIPT_POLICY.timeoutMs,
+        envAllowlist: policy?.env_allowlist ?? DEFAULT_SCRIPT_POLICY.envAllowlist,
+        maxOutputSize: policy?.max_output_size ?? DEFAULT_SCRIPT_POLICY.maxOutputSize,
+        deniedCommands: policy?.denied_commands ?? DEFAULT_SCRIPT_POLICY.deniedCommands,
       };
+    } catch {
+      return { ...DEFAULT_SCRIPT_POLICY };
     }
+  }
 
-    // Try to detect from plan metadata if filename doesn't match
-    return null;
+  /**
+   * Load the import boundary rules from the `architecture` section of execute.yml
+   * Validation errors are already reported by loadCommitConfig, so defaults are used silently
+   */
+  private loadArchitecturePolicy(): ArchitecturePolicy {
+    const configPath = '.regent/config/execute.yml';
+
+    try {
+      if (!fs.existsSync(configPath)) {
+        return { ...DEFAULT_ARCHITECTURE_POLICY };
+      }
+
+      const validation = validateConfig(yaml.parse(fs.readFileSync(configPath, 'utf-8')));
+      const architecture = validation.success ? validation.data!.architecture : undefined;
+
+      return {
+        enforceImports: architecture?.enforce_imports ?? DEFAULT_ARCHITECTURE_POLICY.enforceImports,
+        allowedDependencies: architecture?.allowed_dependencies ?? DEFAULT_ARCHITECTURE_POLICY.allowedDependencies,
+        forbiddenPackages: architecture?.forbidden_packages ?? DEFAULT_ARCHITECTURE_POLICY.forbiddenPackages,
+        pathAliases: architecture?.path_aliases ?? DEFAULT_ARCHITECTURE_POLICY.pathAliases,
+      };
+    } catch {
+      return { ...DEFAULT_ARCHITECTURE_POLICY };
+    }
+  }
+
+  /**
+   * Load where run state is kept from the `state` section of execute.yml
+   * Validation errors are already reported by loadCommitConfig, so the default is used silently
+   */
+  private loadStateStore(): StateStore {
+    const configPath = '.regent/config/execute.yml';
+
+    try {
+      if (!fs.existsSync(configPath)) {
+        return 'plan';
+      }
+
+      const validation = validateConfig(yaml.parse(fs.readFileSync(configPath, 'utf-8')));
+      return (validation.success ? validation.data!.state?.store : undefined) ?? 'plan';
+    } catch {
+      return 'plan';
+    }
+  }
+
+  /**
+   * Detect target and layer from template filename
+   */
+  private detectLayerInfo(templatePath: string): LayerInfo | null {
+    return parseTemplateLayer(templatePath);
   }
 
   /**
    * Pre-validate template before execution
    */
   private async preValidate(): Promise<boolean> {
-    console.log(chalk.blue.bold('🔍 Pre-validating template with schema...'));
+    this.output.info(chalk.blue.bold('🔍 Pre-validating template with schema...'));
 
     try {
       this.validationResult = await this.validator.validateTemplate(this.implementationPath);
 
       if (!this.validationResult.valid) {
-        console.error(chalk.red.bold('❌ Template validation failed!'));
-        console.error(chalk.red('Errors found:'));
+        this.output.error(chalk.red.bold('❌ Template validation failed!'));
+        this.output.error(chalk.red('Errors found:'));
         this.validationResult.errors.forEach(error => {
-          console.error(chalk.red(`   • ${error}`));
+          this.output.error(chalk.red(`   • ${error}`));
         });
 
         if (this.validationResult.warnings.length > 0) {
-          console.warn(chalk.yellow('\nWarnings:'));
+          this.output.warn(chalk.yellow('\nWarnings:'));
           this.validationResult.warnings.forEach(warning => {
-            console.warn(chalk.yellow(`   • ${warning}`));
+            this.output.warn(chalk.yellow(`   • ${warning}`));
           });
         }
 
         // Check execution mode
         if (this.executionOptions.strict) {
           // Strict mode: Fail on validation errors with actionable guidance
-          console.log(chalk.red('   ❌ Strict mode: Validation errors detected'));
-          console.log(chalk.gray('   To proceed, choose one of these options:'));
-          console.log(chalk.gray('   • Fix the validation errors listed above'));
-          console.log(chalk.gray('   • Run: npx tsx src/validate-template.ts <template>  (validate template)'));
-          console.log(chalk.gray('   • Remove --strict flag  (allow execution with warnings)'));
+          this.output.info(chalk.red('   ❌ Strict mode: Validation errors detected'));
+          this.output.info(chalk.gray('   To proceed, choose one of these options:'));
+          this.output.info(chalk.gray('   • Fix the validation errors listed above'));
+          this.output.info(chalk.gray('   • Run: npx tsx src/validate-template.ts <template>  (validate template)'));
+          this.output.info(chalk.gray('   • Remove --strict flag  (allow execution with warnings)'));
           return false;
         } else if (this.executionOptions.autoConfirm) {
           // Auto-confirm mode: Proceed despite errors
-          console.log(chalk.yellow('   ⚠️  Continuing despite validation errors (--yes flag)'));
+          this.output.info(chalk.yellow('   ⚠️  Continuing despite validation errors (--yes flag)'));
           this.logAuditEvent('auto_confirm_validation_errors', {
             errorCount: this.validationResult.errors.length,
             warningCount: this.validationResult.warnings.length,
@@ -669,24 +1085,24 @@ class EnhancedStepExecutor {
           return true;
         } else if (this.executionOptions.nonInteractive) {
           // Non-interactive mode: Proceed with warning
-          console.log(chalk.yellow('   ⚠️  Continuing despite validation errors (non-interactive mode)'));
+          this.output.info(chalk.yellow('   ⚠️  Continuing despite validation errors (non-interactive mode)'));
           return true;
         } else {
           // Interactive mode: Wait for user decision
-          console.log(chalk.yellow('\n⚠️  Template has validation errors.'));
-          console.log(chalk.yellow('Do you want to continue anyway? (not recommended)'));
-          console.log(chalk.gray('Press Ctrl+C to abort, or wait 5 seconds to continue...'));
+          this.output.info(chalk.yellow('\n⚠️  Template has validation errors.'));
+          this.output.info(chalk.yellow('Do you want to continue anyway? (not recommended)'));
+          this.output.info(chalk.gray('Press Ctrl+C to abort, or wait 5 seconds to continue...'));
           await new Promise(resolve => setTimeout(resolve, 5000));
           return true;
         }
       }
 
-      console.log(chalk.green('✅ Template validation passed!'));
+      this.output.info(chalk.green('✅ Template validation passed!'));
 
       if (this.validationResult.warnings.length > 0) {
-        console.warn(chalk.yellow('\n⚠️  Warnings:'));
+        this.output.warn(chalk.yellow('\n⚠️  Warnings:'));
         this.validationResult.warnings.forEach(warning => {
-          console.warn(chalk.yellow(`   • ${warning}`));
+          this.output.warn(chalk.yellow(`   • ${warning}`));
         });
       }
 
@@ -697,22 +1113,36 @@ class EnhancedStepExecutor {
           layer: this.validationResult.layerValidated as 'domain' | 'data' | 'infra' | 'presentation' | 'main'
         };
 
-        console.log(chalk.cyan(`📊 Detected: ${this.layerInfo.target} / ${this.layerInfo.layer} layer`));
+        this.output.info(chalk.cyan(`📊 Detected: ${this.layerInfo.target} / ${this.layerInfo.layer} layer`));
       }
 
       return true;
     } catch (error) {
       const message = error instanceof Error ? error.message : String(error);
-      console.error(chalk.red(`❌ Validation error: ${message}`));
+      this.output.error(chalk.red(`❌ Validation error: ${message}`));
       return false;
     }
   }
 
   private async loadPlan(): Promise<void> {
-    console.log(chalk.magenta.bold(`🚀 Loading implementation file: ${this.implementationPath}`));
+    this.output.info(chalk.magenta.bold(`🚀 Loading implementation file: ${this.implementationPath}`));
     try {
       const fileContent = await fs.readFile(this.implementationPath, 'utf-8');
-      this.plan = yaml.parse(fileContent);
+      this.planDocument = parsePlanDocument(fileContent);
+      this.planContent = fileContent;
+      this.plan = this.planDocument.toJS();
+
+      // Run state of earlier sidecar runs overrides what the plan says
+      if (this.stateStore === 'sidecar') {
+        const state = await readExecutionState(this.statePath);
+        if (state) {
+          applyExecutionState(this.plan, state);
+          this.output.info(chalk.gray(`   ℹ️  Run state loaded from ${this.statePath}`));
+        }
+      } else if (await fs.pathExists(this.statePath)) {
+        this.output.info(chalk.yellow(`   ⚠️  Ignoring sidecar run state ${this.statePath} (state.store is 'plan')`));
+        this.output.info(chalk.gray('      Write it into the plan first with --write-state'));
+      }
 
       // Update layer info from metadata if available
       if (!this.layerInfo && this.plan.metadata) {
@@ -727,15 +1157,35 @@ class EnhancedStepExecutor {
 
     } catch (error) {
       const message = error instanceof Error ? error.message : String(error);
-      console.error(chalk.red.bold(`❌ Error: Could not read or parse the YAML file.`));
-      console.error(chalk.red(`   Reason: ${message}`));
-      process.exit(1);
+      this.output.error(chalk.red.bold(`❌ Error: Could not read or parse the YAML file.`));
+      this.output.error(chalk.red(`   Reason: ${message}`));
+      throw new ExecutionError(`Could not read or parse the YAML file: ${message}`);
     }
   }
 
+  /**
+   * Persist the plan and its run state
+   * Run state goes to the sidecar file or into the plan YAML depending on `state.store`;
+   * the YAML is only rewritten where values changed, keeping comments and formatting
+   */
   private async savePlan(): Promise<void> {
-    const yamlString = yaml.stringify(this.plan);
-    await fs.writeFile(this.implementationPath, yamlString, 'utf-8');
+    // Steps of a parallel wave save concurrently: queue writes so they never interleave
+    const write = this.savePlanLock.then(async () => {
+      const sidecar = this.stateStore === 'sidecar';
+      this.planDocument = this.planDocument ?? new yaml.Document({});
+      updatePlanDocument(this.planDocument, this.plan, sidecar ? isRunStatePath : undefined);
+
+      const yamlString = String(this.planDocument);
+      if (yamlString !== this.planContent) {
+        await fs.writeFile(this.implementationPath, yamlString, 'utf-8');
+        this.planContent = yamlString;
+      }
+      if (sidecar) {
+        await writeExecutionState(this.statePath, collectExecutionState(this.plan, this.planKey));
+      }
+    });
+    this.savePlanLock = write.catch(() => undefined);
+    await write;
   }
 
   /**
@@ -746,7 +1196,7 @@ class EnhancedStepExecutor {
     if (this.layerInfo) {
       const layerStepsKey = `${this.layerInfo.layer}_steps`;
       if (this.plan[layerStepsKey] && Array.isArray(this.plan[layerStepsKey])) {
-        console.log(chalk.cyan(`📋 Using layer-specific steps: ${layerStepsKey}`));
+        this.output.info(chalk.cyan(`📋 Using layer-specific steps: ${layerStepsKey}`));
         return this.plan[layerStepsKey] as Step[];
       }
     }
@@ -767,235 +1217,1367 @@ class EnhancedStepExecutor {
    * 6. Creates conventional commits with automatic scope detection
    * 7. Calculates RLHF scores for learning
    *
-   * @throws {Error} If git safety check fails or critical errors occur
-   * @returns {Promise<void>} Resolves when all steps complete successfully
+   * Failures never exit the process: they are reported as a FAILED result.
+   * The executor releases its resources when the run ends, so create one per run.
+   *
+   * @throws {Error} Only for unexpected errors (not step or plan failures)
+   * @returns {Promise<ExecutionResult>} Final status, step statuses, commits and score
    *
    * @example
    * ```typescript
    * const executor = new EnhancedStepExecutor('./spec/001-feature/implementation.yaml');
-   * await executor.run();
+   * const result = await executor.run();
+   * if (result.status === 'FAILED') console.error(result.failedStepId, result.error);
    * ```
    */
-  public async run(): Promise<void> {
-    await this.loadPlan();
+  public async run(): Promise<ExecutionResult> {
+    const startTime = Date.now();
+    const implementationPath = this.implementationPath;
+    const originalCwd = process.cwd();
+    let outcome: { status: ExecutionStatus; finalScore: number | null };
+    let failure: ExecutionError | null = null;
+    let worktree: WorktreeInfo | null = null;
+
+    try {
+      // Dry runs neither commit nor save the plan, so they may run alongside another run
+      if (!this.executionOptions.dryRun) {
+        this.acquireLock();
+      }
+      if (this.executionOptions.isolated) {
+        worktree = await this.enterWorktree();
+      }
+      outcome = await this.executePlan();
+    } catch (error) {
+      if (!(error instanceof ExecutionError)) {
+        if (worktree) changeDirectory(originalCwd);
+        this.destroy();
+        throw error;
+      }
+      failure = error;
+      outcome = { status: 'FAILED', finalScore: null };
+    }
 
-    // Check git safety before starting
-    const gitSafe = await this.checkGitSafety();
-    if (!gitSafe) {
-      console.error(chalk.red('❌ Git safety check failed. Aborting execution.'));
-      process.exit(1);
+    if (worktree) {
+      changeDirectory(originalCwd);
     }
 
-    // Pre-validate template
-    const validationPassed = await this.preValidate();
-    if (!validationPassed) {
-      console.log(chalk.yellow('⚠️  Continuing despite validation issues...'));
+    let isolation: IsolationSummary | undefined;
+    if (worktree) {
+      try {
+        isolation = await this.leaveWorktree(worktree, outcome.status);
+      } catch (error) {
+        failure = error instanceof ExecutionError ? error : new ExecutionError(extractErrorMessage(error));
+        outcome = { ...outcome, status: 'FAILED' };
+        isolation = { branch: worktree.branch, worktreePath: worktree.path, kept: true };
+      }
     }
 
-    const steps = this.getSteps();
+    const result: ExecutionResult = {
+      status: outcome.status,
+      implementationPath,
+      layerInfo: this.layerInfo,
+      steps: this.steps.map(step => this.toExecutedStep(step)),
+      commitHashes: [...this.commitHashes],
+      finalScore: outcome.finalScore,
+      ...(failure ? { failedStepId: failure.stepId, error: failure.message } : {}),
+      ...(isolation ? { isolation } : {}),
+      durationMs: Date.now() - startTime,
+    };
 
-    if (!steps || !Array.isArray(steps)) {
-      console.warn(chalk.yellow("Warning: No steps found. Nothing to execute."));
-      return;
-    }
+    // Cleanup resources
+    this.destroy();
+    return result;
+  }
 
-    // Display execution context
-    if (this.layerInfo) {
-      console.log(chalk.cyan.bold(`\n🏗️  Executing ${this.layerInfo.target} / ${this.layerInfo.layer} layer`));
-      console.log(chalk.cyan(`📦 Total steps: ${steps.length}`));
-    } else {
-      console.log(chalk.magenta.bold(`\n🚀 Starting execution of ${steps.length} steps...`));
+  /**
+   * Take the project execution lock so no other run commits or saves plans meanwhile
+   * Stale locks, and any lock under --force-unlock, are taken over with a warning
+   * A lock handed over by a batch run is used as is when it covers the project of the plan
+   * @throws {ExecutionError} If another run holds the lock
+   */
+  private acquireLock(): void {
+    excludeStateDirectory(findProjectRoot(this.implementationPath));
+    const lockPath = getLockPath(this.implementationPath);
+    if (this.sharedLock?.path === lockPath) return;
+    try {
+      this.executionLock = acquireExecutionLock(lockPath, this.planKey, {
+        force: this.executionOptions.forceUnlock,
+        onTakeOver: (holder, reason) => warnLockTakeOver(holder, reason, this.output),
+      });
+    } catch (error) {
+      this.output.error(chalk.red(`❌ ${extractErrorMessage(error)}`));
+      throw new ExecutionError(extractErrorMessage(error));
     }
+  }
 
-    for (const [index, step] of steps.entries()) {
-      const stepId = step.id || `Unnamed Step ${index + 1}`;
-      console.log(chalk.blue.bold(`\n▶️  Processing Step ${index + 1}/${steps.length}: ${stepId}`));
+  /**
+   * Create the worktree for an isolated run and move into it
+   * The plan file stays in the main working tree so its progress remains visible there
+   * @throws {ExecutionError} If the worktree cannot be created
+   */
+  private async enterWorktree(): Promise<WorktreeInfo> {
+    const git = (args: string[]) => this.git.run(args);
 
-      // Save current git state before executing step (for safe rollback)
-      try {
-        const hashResult = await $`git rev-parse HEAD`;
-        this.lastKnownCommitHash = hashResult.stdout.trim();
-      } catch {
-        // If git not available, set to null
-        this.lastKnownCommitHash = null;
-      }
+    let worktree: WorktreeInfo;
+    try {
+      const status = await git(['status', '--porcelain']);
+      worktree = await createWorktree(git, this.implementationPath);
 
-      // Skip completed steps
-      if (step.status === 'SUCCESS' || step.status === 'SKIPPED') {
-        console.log(chalk.gray(`   ⏭️  Skipping step with status '${step.status}'.`));
-        continue;
+      this.output.info(chalk.cyan(`🌳 Isolated run in worktree ${worktree.path}`));
+      this.output.info(chalk.gray(`   Branch: ${worktree.branch}`));
+      if (parsePorcelainPaths(status).some(filePath => !isStateFile(filePath))) {
+        this.output.info(chalk.gray('   ℹ️  Uncommitted changes in your working tree are not part of the isolated run'));
+      }
+      if (!await linkDependencies(worktree)) {
+        this.output.info(chalk.yellow('   ⚠️  No node_modules found to share with the worktree: quality checks may fail'));
       }
+    } catch (error) {
+      this.output.error(chalk.red(`❌ Could not create isolated worktree: ${extractErrorMessage(error)}`));
+      throw new ExecutionError(`Could not create isolated worktree: ${extractErrorMessage(error)}`);
+    }
 
-      try {
-        // Track execution time
-        this.startTime = Date.now();
+    this.implementationPath = path.resolve(this.implementationPath);
+    changeDirectory(worktree.cwd);
+    return worktree;
+  }
 
-        // Apply layer-specific validations before executing
-        this.validateStepForLayer(step);
+  /**
+   * Bring the work of an isolated run back into the main working tree
+   * Successful runs are merged and the worktree removed; failed runs keep it for inspection
+   * @throws {ExecutionError} If the branch cannot be merged (the worktree is kept)
+   */
+  private async leaveWorktree(worktree: WorktreeInfo, status: ExecutionStatus): Promise<IsolationSummary> {
+    const git = (args: string[]) => this.git.run(args);
+    const summary: IsolationSummary = { branch: worktree.branch, worktreePath: worktree.path, kept: false };
+
+    if (status === 'FAILED') {
+      this.output.info(chalk.yellow(`\n🌳 Worktree kept for inspection: ${worktree.path}`));
+      this.output.info(chalk.gray(`   Branch: ${worktree.branch}`));
+      this.output.info(chalk.gray(`   Remove with: git worktree remove --force ${worktree.path} && git branch -D ${worktree.branch}`));
+      return { ...summary, kept: true };
+    }
 
-        // Execute the main step action
-        await this.executeStepAction(step);
+    try {
+      summary.merge = await mergeWorktreeBranch(git, worktree);
+    } catch (error) {
+      this.output.error(chalk.red(`\n❌ Could not merge ${worktree.branch}: ${extractErrorMessage(error)}`));
+      this.output.info(chalk.yellow(`   Worktree kept: ${worktree.path}`));
+      this.output.info(chalk.gray(`   Merge manually with: git merge ${worktree.branch}`));
+      throw new ExecutionError(`Could not merge isolated branch ${worktree.branch}: ${extractErrorMessage(error)}`);
+    }
 
-        // Execute validation script if present
-        if (step.validation_script) {
-          const scriptOutput = await this.runValidationScript(step.validation_script, step.id);
+    if (summary.merge !== 'up-to-date') {
+      this.output.info(chalk.green(`\n🌳 Merged ${worktree.branch} (${summary.merge})`));
+    }
 
-          const duration = Date.now() - this.startTime;
+    try {
+      await removeWorktree(git, worktree);
+    } catch (error) {
+      this.output.info(chalk.yellow(`   ⚠️  Could not remove worktree ${worktree.path}: ${extractErrorMessage(error)}`));
+      return { ...summary, kept: true };
+    }
 
-          // Calculate RLHF score with layer awareness
-          step.rlhf_score = await this.calculateLayerAwareScore(step, true, scriptOutput);
+    return summary;
+  }
 
-          step.status = 'SUCCESS';
-          step.execution_log = `Completed successfully at ${new Date().toISOString()} (${duration}ms).\nRLHF Score: ${step.rlhf_score}\n\n--- SCRIPT OUTPUT ---\n${scriptOutput}`;
-          await this.savePlan();
-        } else {
-          const duration = Date.now() - this.startTime;
-          step.rlhf_score = await this.calculateLayerAwareScore(step, true, undefined);
-          step.status = 'SUCCESS';
-          step.execution_log = `Action completed successfully at ${new Date().toISOString()} (${duration}ms). RLHF Score: ${step.rlhf_score}. No validation script provided.`;
-          await this.savePlan();
-        }
+  /**
+   * Load, validate and execute the plan
+   * @throws {ExecutionError} When the plan cannot run or a step fails
+   */
+  private async executePlan(): Promise<{ status: ExecutionStatus; finalScore: number | null }> {
+    await this.loadStepTypes();
+    await this.loadPlan();
+
+    // Check git safety before starting (dry runs never touch git)
+    if (!this.executionOptions.dryRun) {
+      const gitSafe = await this.checkGitSafety();
+      if (!gitSafe) {
+        this.output.error(chalk.red('❌ Git safety check failed. Aborting execution.'));
+        throw new ExecutionError('Git safety check failed');
+      }
+    }
+
+    // Pre-validate template
+    const validationPassed = await this.preValidate();
+    if (!validationPassed) {
+      this.output.info(chalk.yellow('⚠️  Continuing despite validation issues...'));
+    }
 
-        // Run quality checks before committing
-        const qualityCheckResult = await this.runQualityChecks();
+    const steps = this.getSteps();
 
-        if (!qualityCheckResult.overallPassed) {
-          // Quality checks failed - rollback changes
-          await this.rollbackStep(step);
+    if (!steps || !Array.isArray(steps)) {
+      this.output.warn(chalk.yellow("Warning: No steps found. Nothing to execute."));
+      return { status: 'NOTHING_TO_DO', finalScore: null };
+    }
+    this.steps = steps;
 
-          // Update status
-          step.status = 'FAILED';
-          step.rlhf_score = -1; // Runtime error
-          step.execution_log += `\n\n--- QUALITY CHECKS FAILED ---\nLint: ${qualityCheckResult.lint.passed ? 'PASSED' : 'FAILED'}\nTest: ${qualityCheckResult.test.passed ? 'PASSED' : 'FAILED'}`;
-          await this.savePlan();
+    // Resolve timeout/retry/failure policies and hooks up front so a typo fails before any step runs
+    const validatedHooks = new Set<string>();
+    for (const step of steps) {
+      try {
+        this.stepPolicies.set(step, resolveStepPolicy(step.policy, this.plan.step_defaults?.policy));
+      } catch (error) {
+        this.output.error(chalk.red(`❌ Invalid policy for step '${step.id}': ${extractErrorMessage(error)}`));
+        throw new ExecutionError(`Invalid policy for step '${step.id}': ${extractErrorMessage(error)}`);
+      }
 
-          throw new Error(
-            `Quality checks failed. Changes have been rolled back.\n` +
-            `Lint: ${qualityCheckResult.lint.passed ? '✅' : '❌'}\n` +
-            `Test: ${qualityCheckResult.test.passed ? '✅' : '❌'}`
-          );
+      try {
+        const hooks = resolveStepHooks(step.hooks, this.plan.hooks);
+        // Hooks are package scripts: same safety rules as lint/test
+        for (const script of [...hooks.before, ...hooks.after]) {
+          if (!validatedHooks.has(script)) {
+            this.validateScript(script);
+            validatedHooks.add(script);
+          }
         }
+        this.stepHooks.set(step, hooks);
+      } catch (error) {
+        this.output.error(chalk.red(`❌ Invalid hooks for step '${step.id}': ${extractErrorMessage(error)}`));
+        throw new ExecutionError(`Invalid hooks for step '${step.id}': ${extractErrorMessage(error)}`);
+      }
+    }
 
-        // Commit the step if quality checks passed
-        await this.commitStep(step, stepId);
+    await this.verifyPlanIntegrity(steps);
 
-        // Visual feedback with layer context
-        const scoreEmoji = this.getScoreEmoji(step.rlhf_score || 0);
-        const scoreColor = this.getScoreColor(step.rlhf_score || 0);
-        console.log(scoreColor(`${scoreEmoji} Step '${stepId}' completed successfully. RLHF Score: ${step.rlhf_score}`));
+    // Display execution context
+    if (this.layerInfo) {
+      this.output.info(chalk.cyan.bold(`\n🏗️  Executing ${this.layerInfo.target} / ${this.layerInfo.layer} layer`));
+      this.output.info(chalk.cyan(`📦 Total steps: ${steps.length}`));
+    } else {
+      this.output.info(chalk.magenta.bold(`\n🚀 Starting execution of ${steps.length} steps...`));
+    }
 
+    // Restrict execution to the steps requested with --from/--only/--until/--retry-failed
+    const selection = this.executionOptions.stepSelection;
+    if (hasStepSelection(selection)) {
+      let resolved;
+      try {
+        resolved = resolveStepSelection(steps, selection);
       } catch (error) {
-        const duration = Date.now() - this.startTime;
+        this.output.error(chalk.red(`❌ Invalid step selection: ${extractErrorMessage(error)}`));
+        throw new ExecutionError(`Invalid step selection: ${extractErrorMessage(error)}`);
+      }
+
+      this.output.info(chalk.cyan(`🎯 Step selection: ${resolved.description}`));
 
-        step.status = 'FAILED';
-        const errorMessage = this.enhanceErrorMessageWithLayerContext(error, step);
+      if (resolved.indexes.size === 0) {
+        this.output.info(chalk.yellow('⚠️  No steps match the selection. Nothing to execute.'));
+        return { status: 'NOTHING_TO_DO', finalScore: null };
+      }
 
-        // Calculate RLHF score with layer-specific penalties
-        step.rlhf_score = await this.calculateLayerAwareScore(step, false, errorMessage);
+      this.selectedSteps = resolved.indexes;
 
-        step.execution_log = `Failed at ${new Date().toISOString()} (${duration}ms).\nRLHF Score: ${step.rlhf_score}\n\n--- ERROR LOG ---\n${errorMessage}`;
+      if (!this.executionOptions.dryRun) {
+        const entry = `[${new Date().toISOString()}] Step selection: ${resolved.description}`;
+        this.plan.execution_log = this.plan.execution_log ? `${this.plan.execution_log}\n${entry}` : entry;
         await this.savePlan();
+      }
+    }
 
-        const scoreEmoji = this.getScoreEmoji(step.rlhf_score || 0);
-        const scoreColor = this.getScoreColor(step.rlhf_score || 0);
-
-        console.error(scoreColor(`\n${scoreEmoji} ERROR: Step '${stepId}' failed. RLHF Score: ${step.rlhf_score}`));
-        console.error(chalk.red(errorMessage));
+    // Order steps by depends_on (plans without dependencies run sequentially)
+    let waves: Step[][];
+    try {
+      waves = buildExecutionWaves(steps, {
+        // Steps without a path may stage any changed file, and hooks may touch any file,
+        // so such steps never share a wave
+        // Interactive steps are reviewed one at a time against the files as they are now
+        isExclusive: step => this.executionOptions.interactiveSteps === true
+          || step.type === 'move_file' || this.getTargetPaths(step).length === 0 || hasHooks(this.getStepHooks(step)),
+        maxConcurrency: SCHEDULING.MAX_PARALLEL_STEPS,
+      });
+    } catch (error) {
+      this.output.error(chalk.red(`❌ Invalid step dependencies: ${extractErrorMessage(error)}`));
+      throw new ExecutionError(`Invalid step dependencies: ${extractErrorMessage(error)}`);
+    }
 
-        // Layer-specific guidance
-        this.provideLayerSpecificGuidance();
+    if (this.executionOptions.dryRun) {
+      await this.previewSteps(waves.flat(), steps);
+      return { status: 'DRY_RUN', finalScore: null };
+    }
 
-        console.error(chalk.red.bold('Aborting execution. The YAML file has been updated with the failure details.'));
+    for (const wave of waves) {
+      await this.executeWave(wave, steps);
+    }
 
-        // Trigger RLHF analysis with layer context
-        await this.rlhf.analyzeExecution(this.implementationPath, this.layerInfo || undefined);
+    await this.runLayerEndChecks();
 
-        process.exit(1);
-      }
+    // A selection or a step failing under a continue/skip_dependents policy can leave steps pending or failed
+    const incomplete = steps.some(step => step.status !== 'SUCCESS' && step.status !== 'SKIPPED');
+    if (this.toleratedFailures.length > 0) {
+      this.output.info(chalk.yellow.bold(`\n⚠️  Execution finished with ${this.toleratedFailures.length} failed step(s): ${this.toleratedFailures.map(step => this.getStepLabel(step, steps)).join(', ')}`));
+    } else {
+      this.output.info(chalk.green.bold(this.selectedSteps
+        ? '\n🎉 All selected steps completed successfully!'
+        : '\n🎉 All steps completed successfully!'));
     }
 
-    console.log(chalk.green.bold('\n🎉 All steps completed successfully!'));
+    const stepSummary = summarizeStepOutcomes(steps);
+    this.displayStepSummary(stepSummary, steps);
 
     // Display commit summary
     if (this.commitHashes.length > 0) {
-      console.log(chalk.cyan.bold(`\n💾 Commits created: ${this.commitHashes.length}`));
+      this.output.info(chalk.cyan.bold(`\n💾 Commits created: ${this.commitHashes.length}`));
       this.commitHashes.forEach((hash, index) => {
-        console.log(chalk.gray(`   ${index + 1}. ${hash}`));
+        this.output.info(chalk.gray(`   ${index + 1}. ${hash}`));
       });
     }
 
     // Display layer-specific summary
     if (this.layerInfo) {
-      console.log(chalk.cyan(`\n📊 ${this.layerInfo.target} / ${this.layerInfo.layer} layer execution complete!`));
+      this.output.info(chalk.cyan(`\n📊 ${this.layerInfo.target} / ${this.layerInfo.layer} layer execution complete!`));
     }
 
     // Perform final RLHF analysis with layer context
-    console.log(chalk.blue.bold('\n🤖 Running layer-aware RLHF analysis...'));
+    this.output.info(chalk.blue.bold('\n🤖 Running layer-aware RLHF analysis...'));
     await this.rlhf.analyzeExecution(this.implementationPath, this.layerInfo || undefined);
 
     // Calculate final score with layer awareness
     const finalScore = await this.calculateFinalLayerAwareScore();
+    const status: ExecutionStatus = incomplete ? 'PARTIAL' : 'SUCCESS';
     this.plan.evaluation = this.plan.evaluation || {};
     this.plan.evaluation.final_rlhf_score = finalScore;
-    this.plan.evaluation.final_status = 'SUCCESS';
+    this.plan.evaluation.final_status = status;
     this.plan.evaluation.commit_hashes = this.commitHashes;
+    this.plan.evaluation.step_summary = stepSummary;
+    this.recordStaleSteps(steps);
     await this.savePlan();
+    this.emit('scoreCalculated', { step: null, score: finalScore });
 
-    console.log(chalk.cyan.bold(`\n📊 Final RLHF Score: ${finalScore}/2`));
-    console.log(chalk.cyan('Run `npx tsx rlhf-system.ts report` to see learning insights'));
+    this.output.info(chalk.cyan.bold(`\n📊 Final RLHF Score: ${finalScore}/2`));
+    this.output.info(chalk.cyan('Run `npx tsx rlhf-system.ts report` to see learning insights'));
 
-    // Cleanup resources
-    this.destroy();
+    return { status, finalScore };
   }
 
   /**
-   * Destructor pattern - cleanup all resources
-   * Should be called when execution completes or errors
-   * Ensures no resource leaks (signal handlers, file descriptors, etc)
+   * Public view of a step for events and results
    */
-  public destroy(): void {
-    // Remove signal handlers to prevent memory leaks
-    this.removeCleanupHandlers();
-
-    // Close logger file descriptors
-    this.logger.close();
-
-    // Clear caches
-    this.executionCache.clear();
-    this.cachedPackageManager = null;
-    this.lastKnownCommitHash = null;
-
-    // Clear commit hashes
-    this.commitHashes = [];
+  private toExecutedStep(step: Step): ExecutedStep {
+    return {
+      id: step.id,
+      type: step.type,
+      ...(step.path ? { path: step.path } : {}),
+      ...(step.files ? { files: this.getTargetPaths(step) } : {}),
+      status: step.status,
+      rlhf_score: step.rlhf_score,
+      ...(step.attempts ? { attempts: step.attempts } : {}),
+    };
   }
 
   /**
-   * Validate step based on architectural layer rules
+   * Print step outcomes, listing the steps that only passed after retries
    */
-  private validateStepForLayer(step: Step): void {
-    if (!this.layerInfo || step.type !== 'create_file') return;
+  private displayStepSummary(summary: StepOutcomeSummary, steps: Step[]): void {
+    this.output.info(chalk.cyan(
+      `\n📋 Steps: ${summary.passed} passed, ${summary.passed_after_retries} passed after retries, ` +
+      `${summary.failed} failed, ${summary.skipped} skipped, ${summary.pending} pending`
+    ));
+
+    for (const step of steps.filter(step => summary.retried_steps.includes(step.id))) {
+      this.output.info(chalk.yellow(`   🔁 ${this.getStepLabel(step, steps)} (${step.attempts} attempts)`));
+    }
+    for (const step of steps.filter(step => step.stale)) {
+      this.output.info(chalk.yellow(`   🕸️  ${this.getStepLabel(step, steps)} is stale: edited after it ran and not executed again`));
+    }
+  }
 
-    const template = step.template || '';
+  /**
+   * Effective timeout/retry/failure policy of a step
+   */
+  private getStepPolicy(step: Step): StepPolicy {
+    return this.stepPolicies.get(step) ?? DEFAULT_STEP_POLICY;
+  }
 
-    switch (this.layerInfo.layer) {
-      case 'domain':
-        // Domain layer: No external dependencies
-        if (template.match(/import\s+(?:axios|fetch|prisma|redis|mongodb)/)) {
-          throw new Error(`Domain layer violation: External dependencies not allowed in step '${step.id}'`);
+  /**
+   * Package scripts to run around a step
+   */
+  private getStepHooks(step: Step): StepHooks {
+    return this.stepHooks.get(step) ?? { before: [], after: [] };
+  }
+
+  /**
+   * Run the package scripts hooked to one phase of a step
+   * @returns Output sections for the execution log, kept apart from the validation script output
+   * @throws {Error} With the hook output when a script fails
+   */
+  private async runHooks(step: Step, phase: HookPhase, scripts: string[], signal?: AbortSignal): Promise<string> {
+    let log = '';
+
+    for (const script of scripts) {
+      const { command, args } = await this.getPackageManagerCommand(script);
+      const section = `--- ${phase.toUpperCase()} HOOK: ${script} ---`;
+
+      this.output.info(chalk.blue(`   🪝 Running ${phase} hook: ${script}`));
+      this.logger.log(`--- Running ${phase} hook '${script}' for '${step.id}' ---`);
+
+      let output: string;
+      try {
+        $.verbose = false;
+        // Like validation scripts, hooks run in the project root
+        const result = await $({ cwd: process.cwd(), timeout: this.getStepPolicy(step).timeoutMs, signal })`${[command, ...args]}`;
+        output = result.stdout + result.stderr;
+      } catch (error) {
+        output = extractCommandOutput(error);
+        this.logger.error(output);
+        throw new Error(`The ${phase} hook '${script}' failed for step '${step.id}'\n\n${section}\n${output}`);
+      } finally {
+        $.verbose = true;
+      }
+
+      this.logger.log(output);
+      log += `\n\n${section}\n${output}`;
+    }
+
+    return log;
+  }
+
+  /**
+   * Timeout of the scripts a step runs: `script_timeout_ms`, then the step policy
+   * (undefined falls back to the validation script policy)
+   */
+  private getScriptTimeout(step: Step): number | undefined {
+    return step.script_timeout_ms ?? this.getStepPolicy(step).timeoutMs;
+  }
+
+  /**
+   * Keep running after a step failed under an `on_failure: continue | skip_dependents` policy
+   * Dependents of a skip_dependents step stay PENDING so a later run picks them up
+   */
+  private async tolerateFailure(step: Step, steps: Step[]): Promise<void> {
+    const { onFailure } = this.getStepPolicy(step);
+    this.toleratedFailures.push(step);
+    this.output.info(chalk.yellow(`   ↪️  Continuing after failed step '${this.getStepLabel(step, steps)}' (on_failure: ${onFailure})`));
+
+    if (onFailure !== 'skip_dependents') return;
+
+    for (const dependent of findDependents(steps, step.id)) {
+      if (this.blockedSteps.has(dependent)) continue;
+      this.blockedSteps.set(dependent, `Not run: depends on failed step '${step.id}'.`);
+      dependent.execution_log = `Not run at ${new Date().toISOString()}: depends on failed step '${step.id}'.`;
+    }
+    await this.savePlan();
+  }
+
+  /**
+   * Execute a wave of independent steps
+   *
+   * Actions run concurrently (steps writing the same file are serialized), then
+   * quality checks run once for the whole wave and steps are committed in plan order.
+   * A wave of a single step behaves exactly like sequential execution.
+   */
+  private async executeWave(wave: Step[], steps: Step[]): Promise<void> {
+    // Save current git state before executing the wave (for safe rollback)
+    try {
+      this.lastKnownCommitHash = (await this.git.run(['rev-parse', 'HEAD'])).trim();
+    } catch {
+      // If git not available, set to null
+      this.lastKnownCommitHash = null;
+    }
+
+    const pending: Step[] = [];
+    for (const step of wave) {
+      this.output.info(chalk.blue.bold(`\n▶️  Processing Step ${steps.indexOf(step) + 1}/${steps.length}: ${this.getStepLabel(step, steps)}`));
+
+      const skipReason = this.getSkipReason(step, steps);
+      if (skipReason) {
+        this.output.info(chalk.gray(`   ⏭️  ${skipReason}`));
+        continue;
+      }
+      if (this.executionOptions.interactiveSteps && !(await this.reviewStep(step))) {
+        continue;
+      }
+      pending.push(step);
+    }
+
+    if (pending.length === 0) return;
+
+    if (pending.length > 1) {
+      this.output.info(chalk.cyan(`\n⚡ Running ${pending.length} independent steps in parallel: ${pending.map(step => this.getStepLabel(step, steps)).join(', ')}`));
+    }
+
+    const results = await Promise.allSettled(
+      pending.map(step => this.fileLocks.run(this.getTargetPaths(step), () => this.applyStep(step, steps)))
+    );
+
+    const applied: Array<{ step: Step; startTime: number; snapshot: FileSnapshot[] }> = [];
+    const failedSteps: Step[] = [];
+    for (const [index, result] of results.entries()) {
+      if (result.status === 'rejected') {
+        failedSteps.push(pending[index]);
+      } else if (!result.value.skipped) {
+        applied.push({ step: pending[index], startTime: result.value.startTime, snapshot: result.value.snapshot });
+      }
+    }
+
+    const failedStep = failedSteps.find(step => this.getStepPolicy(step).onFailure === 'abort');
+    if (failedStep) {
+      await this.resetWaveSteps(applied, 'another step in the same parallel wave failed');
+      await this.abortExecution(failedStep);
+    }
+
+    for (const step of failedSteps) {
+      await this.tolerateFailure(step, steps);
+    }
+
+    // Validation steps only run scripts: there is nothing to lint, test or commit
+    for (const { step, startTime } of applied.filter(({ step }) => step.type === 'validation')) {
+      this.output.info(this.getScoreColor(step.rlhf_score || 0)(`${this.getScoreEmoji(step.rlhf_score || 0)} Step '${this.getStepLabel(step, steps)}' completed successfully. RLHF Score: ${step.rlhf_score}`));
+      this.emit('stepComplete', { step: this.toExecutedStep(step), durationMs: Date.now() - startTime });
+    }
+
+    const toCommit = applied.filter(({ step }) => step.type !== 'validation');
+    if (toCommit.length === 0) return;
+
+    // Run quality checks before committing
+    // TDD RED test steps are expected to fail, so the test suite is not a gate for them
+    const qualityCheckResult = await this.runQualityChecks({
+      skipTests: toCommit.some(({ step }) => step.type === 'test' && step.expected_result === 'fail'),
+      files: this.commitConfig.qualityChecks.mode === 'incremental' ? await this.getStepChangedFiles(toCommit.map(({ step }) => step)) : undefined,
+    });
+    const gateErrors = this.getQualityGateErrors(qualityCheckResult);
+    this.emit('qualityCheck', {
+      steps: toCommit.map(({ step }) => this.toExecutedStep(step)),
+      result: qualityCheckResult,
+      errors: gateErrors,
+    });
+
+    // Each failed gate caps the RLHF score of the steps, whether they are rolled back or committed
+    const maxScore = getFailedGatesMaxScore(qualityCheckResult.gates);
+    // Lint and test issues go to the steps that wrote their file
+    const stepIssues = this.attributeQualityIssues(qualityCheckResult, toCommit.map(({ step }) => step));
+
+    if (!qualityCheckResult.overallPassed) {
+      // A required gate failed - rollback changes
+      for (const { step, snapshot } of [...toCommit].reverse()) {
+        await this.rollbackStep(step, snapshot);
+      }
+
+      for (const [index, { step, startTime }] of toCommit.entries()) {
+        const qualityError = new Error(
+          `Quality checks failed. Changes have been rolled back.\n` +
+          this.formatQualityGateStatus(qualityCheckResult, '\n') +
+          this.formatQualityGateFailures(qualityCheckResult, gateErrors, stepIssues[index])
+        );
+        await this.recordStepFailure(step, steps, qualityError, startTime, { maxScore, issues: stepIssues[index] });
+      }
+
+      const abortingStep = toCommit.find(({ step }) => this.getStepPolicy(step).onFailure === 'abort');
+      if (abortingStep) {
+        await this.abortExecution(abortingStep.step);
+      }
+      for (const { step } of toCommit) {
+        await this.tolerateFailure(step, steps);
+      }
+      return;
+    }
+
+    // Only optional gates failed: the steps are committed with a lower score
+    if (maxScore !== undefined) {
+      const failedGates = qualityCheckResult.gates.filter(gate => !gate.passed).map(gate => gate.name).join(', ');
+      this.output.info(chalk.yellow(`   ⚠️  Optional quality gates failed (${failedGates}): RLHF score capped at ${maxScore}`));
+      for (const [index, { step }] of toCommit.entries()) {
+        step.rlhf_score = Math.min(step.rlhf_score ?? maxScore, maxScore);
+        step.execution_log += `\n\n--- OPTIONAL QUALITY GATES FAILED ---\n${failedGates} (RLHF score capped at ${maxScore})` +
+          this.formatQualityGateFailures(qualityCheckResult, gateErrors, stepIssues[index]);
+      }
+      await this.savePlan();
+    }
+
+    // Commit in plan order so history is deterministic
+    for (const [index, { step, startTime, snapshot }] of toCommit.entries()) {
+      const stepId = this.getStepLabel(step, steps);
+      try {
+        await this.commitStep(step, stepId);
+        // Later rollbacks in this wave start from the new commit
+        this.lastKnownCommitHash = (await this.git.run(['rev-parse', 'HEAD'])).trim();
+      } catch (error) {
+        await this.recordStepFailure(step, steps, error, startTime);
+        await this.rollbackStep(step, snapshot);
+        if (this.getStepPolicy(step).onFailure === 'abort') {
+          await this.resetWaveSteps(toCommit.slice(index + 1), 'another step in the same parallel wave failed to commit');
+          await this.abortExecution(step);
         }
-        break;
+        await this.tolerateFailure(step, steps);
+        continue;
+      }
+
+      // Visual feedback with layer context
+      const scoreEmoji = this.getScoreEmoji(step.rlhf_score || 0);
+      const scoreColor = this.getScoreColor(step.rlhf_score || 0);
+      this.output.info(scoreColor(`${scoreEmoji} Step '${stepId}' completed successfully. RLHF Score: ${step.rlhf_score}`));
+      this.emit('stepComplete', { step: this.toExecutedStep(step), durationMs: Date.now() - startTime });
+    }
+  }
+
+  /**
+   * Put the files of steps of an aborted wave back as they were and reset them to
+   * PENDING, so the next run executes them again instead of skipping them
+   */
+  private async resetWaveSteps(entries: Array<{ step: Step; snapshot: FileSnapshot[] }>, reason: string): Promise<void> {
+    for (const { step, snapshot } of [...entries].reverse()) {
+      if (step.type === 'validation') continue;
+      await this.rollbackStep(step, snapshot);
+      step.status = 'PENDING';
+      step.rlhf_score = null;
+      step.execution_log = `Rolled back at ${new Date().toISOString()}: ${reason}.`;
+    }
+    await this.savePlan();
+  }
 
+  /**
+   * Run a step under its policy and mark it SUCCESS
+   * Failed attempts are retried with backoff after restoring the step's file;
+   * the last failure is recorded on the step before being rethrown
+   * @returns Whether the step was skipped, when it started and its files before the first attempt
+   */
+  private async applyStep(step: Step, steps: Step[]): Promise<{ skipped: boolean; startTime: number; snapshot: FileSnapshot[] }> {
+    // Track execution time
+    const startTime = Date.now();
+    delete step.attempts;
+    this.recordStepContent(step);
+    this.emit('stepStart', { step: this.toExecutedStep(step), index: steps.indexOf(step), total: steps.length });
+
+    const policy = this.getStepPolicy(step);
+    let snapshot: FileSnapshot[] | null = null;
+
+    for (let attempt = 1; ; attempt++) {
+      let running: { promise: Promise<void>; controller: AbortController } | null = null;
+      try {
+        // Conditional files are only created when their condition holds
+        if (step.type === 'conditional_file' && !this.evaluateStepCondition(step)) {
+          step.status = 'SKIPPED';
+          step.execution_log = `Skipped at ${new Date().toISOString()}: condition not met (${step.condition}).`;
+          await this.savePlan();
+          this.output.info(chalk.gray(`   ⏭️  Condition not met, skipping: ${step.condition}`));
+          return { skipped: true, startTime, snapshot: [] };
+        }
+
+        snapshot = snapshot ?? await this.snapshotStepFiles(step);
+        const controller = new AbortController();
+        running = { promise: this.runStepAttempt(step, startTime, controller.signal), controller };
+        await withTimeout(
+          running.promise,
+          policy.timeoutMs,
+          `Step '${step.id}' timed out after ${policy.timeoutMs}ms`,
+          controller
+        );
+
+        return { skipped: false, startTime, snapshot };
+      } catch (error) {
+        // A timed-out attempt was aborted: let it stop before its files are restored
+        if (running?.controller.signal.aborted) {
+          await withTimeout(running.promise, TIMING.TIMED_OUT_ATTEMPT_GRACE, 'Timed-out attempt still running').catch(() => {});
+        }
+
+        if (attempt > policy.retries) {
+          // Leave nothing behind for later steps to commit when the run goes on without this one
+          if (policy.onFailure !== 'abort') {
+            await this.restoreStepFiles(step, snapshot);
+          }
+          await this.recordStepFailure(step, steps, error, startTime);
+          throw error;
+        }
+
+        const delayMs = getRetryDelay(policy, attempt);
+        const message = extractErrorMessage(error);
+        this.output.info(chalk.yellow(`   🔁 Attempt ${attempt}/${policy.retries + 1} failed: ${message.split('\n')[0]}`));
+        this.output.info(chalk.gray(`      Retrying in ${delayMs}ms...`));
+        this.logger.log(`Step '${step.id}' attempt ${attempt} failed, retrying in ${delayMs}ms: ${message}`);
+        this.emit('stepRetry', { step: this.toExecutedStep(step), attempt, error: message, delayMs });
+
+        await this.restoreStepFiles(step, snapshot);
+        await new Promise(resolve => setTimeout(resolve, delayMs));
+        step.attempts = attempt + 1;
+      }
+    }
+  }
+
+  /**
+   * Run the hooks, action and validation script of a step once and mark it SUCCESS
+   * @param signal - Aborted when the attempt timed out: its processes are killed and it stops
+   *                 before touching more files or the plan
+   */
+  private async runStepAttempt(step: Step, startTime: number, signal: AbortSignal): Promise<void> {
+    // Apply layer-specific validations before executing
+    this.validateStepForLayer(step);
+
+    const hooks = this.getStepHooks(step);
+    const beforeHooksLog = await this.runHooks(step, 'before', hooks.before, signal);
+    signal.throwIfAborted();
+
+    // Execute the main step action
+    const actionOutput = await this.executeStepAction(step, signal);
+    signal.throwIfAborted();
+
+    // After hooks run before the validation script, so it checks generated or fixed files
+    const afterHooksLog = await this.runHooks(step, 'after', hooks.after, signal);
+    signal.throwIfAborted();
+    const actionLog = beforeHooksLog + (actionOutput
+      ? `\n\n--- ${step.type === 'test' ? 'TEST' : 'ACTION'} OUTPUT ---\n${actionOutput}`
+      : '') + afterHooksLog;
+    const attemptsNote = step.attempts ? `, ${step.attempts} attempts` : '';
+
+    // Execute validation script if present
+    if (step.validation_script) {
+      const scriptOutput = await this.runValidationScript(step.validation_script, step.id, {
+        timeoutMs: this.getScriptTimeout(step),
+        signal,
+      });
+      signal.throwIfAborted();
+
+      const duration = Date.now() - startTime;
+
+      // Calculate RLHF score with layer awareness
+      const score = await this.calculateLayerAwareScore(step, true, scriptOutput);
+      signal.throwIfAborted();
+
+      step.rlhf_score = score;
+      step.status = 'SUCCESS';
+      step.execution_log = `Completed successfully at ${new Date().toISOString()} (${duration}ms${attemptsNote}).\nRLHF Score: ${step.rlhf_score}${actionLog}\n\n--- SCRIPT OUTPUT ---\n${scriptOutput}`;
+      await this.savePlan();
+    } else {
+      const duration = Date.now() - startTime;
+      const score = await this.calculateLayerAwareScore(step, true, actionOutput);
+      signal.throwIfAborted();
+
+      step.rlhf_score = score;
+      step.status = 'SUCCESS';
+      step.execution_log = `Action completed successfully at ${new Date().toISOString()} (${duration}ms${attemptsNote}). RLHF Score: ${step.rlhf_score}. No validation script provided.${actionLog}`;
+      await this.savePlan();
+    }
+  }
+
+  /**
+   * Files a step writes, as declared by its plugin for plugin step types
+   */
+  private getTargetPaths(step: Step): string[] {
+    const definition = this.stepTypes.get(step.type);
+    return definition?.paths ? definition.paths(step as unknown as PluginStep) : getStepPaths(step);
+  }
+
+  /**
+   * What plugin handlers know about the run
+   */
+  private getStepTypeContext(): StepTypeContext {
+    return {
+      layerInfo: this.layerInfo,
+      metadata: this.plan.metadata ?? {},
+      log: message => {
+        this.output.info(chalk.gray(`   ${message}`));
+        this.logger.log(message);
+      },
+    };
+  }
+
+  /**
+   * Register the step types of the project plugins and commit them under their declared type
+   * @throws {ExecutionError} If a plugin fails to load
+   */
+  private async loadStepTypes(): Promise<void> {
+    if (this.loadsStepPlugins) {
+      this.loadsStepPlugins = false;
+      try {
+        const plugins = await loadStepPlugins(this.stepTypes, findProjectRoot(this.implementationPath));
+        if (plugins.length > 0) {
+          this.output.info(chalk.cyan(`🧩 Loaded step plugins: ${plugins.join(', ')}`));
+        }
+      } catch (error) {
+        this.output.error(chalk.red(`❌ ${extractErrorMessage(error)}`));
+        throw new ExecutionError(extractErrorMessage(error));
+      }
+    }
+
+    // The type_mapping of execute.yml takes precedence over the plugin declarations
+    const conventionalCommits = this.commitConfig.conventionalCommits;
+    this.commitConfig = {
+      ...this.commitConfig,
+      conventionalCommits: {
+        ...conventionalCommits,
+        typeMapping: { ...this.stepTypes.getCommitTypeMapping(), ...conventionalCommits.typeMapping },
+      },
+    };
+  }
+
+  /**
+   * Remember the content of the files a step writes, so a failed attempt can be undone
+   */
+  private async snapshotStepFiles(step: Step): Promise<FileSnapshot[]> {
+    return this.snapshotFiles(this.getTargetPaths(step));
+  }
+
+  private async snapshotFiles(paths: string[]): Promise<FileSnapshot[]> {
+    const snapshots: FileSnapshot[] = [];
+
+    for (const filePath of paths) {
+      const stat = await fs.stat(filePath).catch(() => null);
+      if (stat && !stat.isFile()) continue;
+      snapshots.push({ path: filePath, content: stat ? await fs.readFile(filePath) : null, mode: stat?.mode });
+    }
+
+    return snapshots;
+  }
+
+  /**
+   * Put the files of a step back as they were before the first attempt,
+   * including every file a move touched
+   */
+  private async restoreStepFiles(step: Step, snapshots: FileSnapshot[] | null): Promise<void> {
+    const moveSnapshot = this.moveSnapshots.get(step.id);
+    this.moveSnapshots.delete(step.id);
+    await this.restoreFiles([...(moveSnapshot || []), ...(snapshots || [])]);
+    await this.stepTypes.get(step.type)?.rollback?.(step as unknown as PluginStep, this.getStepTypeContext());
+  }
+
+  private async restoreFiles(snapshots: FileSnapshot[]): Promise<void> {
+    for (const snapshot of snapshots) {
+      if (snapshot.content === null) {
+        await fs.remove(snapshot.path);
+      } else {
+        await fs.outputFile(snapshot.path, snapshot.content);
+        if (snapshot.mode !== undefined) {
+          await fs.chmod(snapshot.path, snapshot.mode);
+        }
+      }
+    }
+  }
+
+  /**
+   * Paths a step wrote, including every file a move touched
+   */
+  private getWrittenPaths(step: Step): string[] {
+    const movedPaths = (this.moveSnapshots.get(step.id) || []).map(snapshot => snapshot.path);
+    return [...new Set([...this.getTargetPaths(step), ...movedPaths])];
+  }
+
+  /**
+   * Mark a step as FAILED with a layer-aware score and error log
+   * @param quality - Failed quality gates: the highest score the step keeps, and its issues by gate
+   */
+  private async recordStepFailure(
+    step: Step,
+    steps: Step[],
+    error: unknown,
+    startTime: number,
+    quality?: { maxScore?: number; issues?: Record<string, QualityIssue[]> }
+  ): Promise<void> {
+    const duration = Date.now() - startTime;
+
+    step.status = 'FAILED';
+    const errorMessage = this.enhanceErrorMessageWithLayerContext(error, step);
+
+    // Calculate RLHF score with layer-specific penalties
+    step.rlhf_score = await this.calculateLayerAwareScore(step, false, errorMessage, quality);
+
+    step.execution_log = `Failed at ${new Date().toISOString()} (${duration}ms).\nRLHF Score: ${step.rlhf_score}\n\n--- ERROR LOG ---\n${errorMessage}`;
+    await this.savePlan();
+
+    const scoreEmoji = this.getScoreEmoji(step.rlhf_score || 0);
+    const scoreColor = this.getScoreColor(step.rlhf_score || 0);
+
+    this.output.error(scoreColor(`\n${scoreEmoji} ERROR: Step '${this.getStepLabel(step, steps)}' failed. RLHF Score: ${step.rlhf_score}`));
+    this.output.error(chalk.red(errorMessage));
+    this.emit('stepFailed', { step: this.toExecutedStep(step), error: errorMessage, durationMs: duration });
+  }
+
+  /**
+   * Stop execution after a step failure, running RLHF analysis first
+   * @throws {ExecutionError} Always, turned into a FAILED result by run()
+   */
+  private async abortExecution(step: Step): Promise<never> {
+    // Layer-specific guidance
+    this.provideLayerSpecificGuidance();
+
+    this.output.error(chalk.red.bold('Aborting execution. The YAML file has been updated with the failure details.'));
+
+    // Trigger RLHF analysis with layer context
+    await this.rlhf.analyzeExecution(this.implementationPath, this.layerInfo || undefined);
+
+    throw new ExecutionError(`Step '${step.id}' failed`, step.id);
+  }
+
+  /**
+   * Remember what a step looked like when it ran, so later edits are detected
+   */
+  private recordStepContent(step: Step): void {
+    step.content_hash = hashStep(step);
+    delete step.stale;
+    this.plan.step_order = getStepOrder(this.steps);
+  }
+
+  /**
+   * Detect steps edited, deleted or reordered since they last ran
+   * Interactive runs choose to re-execute edited steps, mark them stale or abort;
+   * --strict aborts, --yes re-executes and other non-interactive runs mark them stale
+   * @throws {ExecutionError} If the run is aborted
+   */
+  private async verifyPlanIntegrity(steps: Step[]): Promise<void> {
+    const issues = checkPlanIntegrity(steps, this.plan.step_order);
+    if (issues.length === 0) return;
+
+    this.output.info(chalk.yellow('\n⚠️  The plan changed since its steps last ran:'));
+    for (const issue of issues) {
+      this.output.info(chalk.yellow(`   • ${issue.stepId}: ${issue.message}`));
+    }
+
+    if (this.executionOptions.dryRun) {
+      this.output.info(chalk.gray('   ℹ️  Dry run: edited steps are neither re-executed nor marked stale'));
+      return;
+    }
+
+    const RE_EXECUTE = 'Re-execute the edited steps';
+    const MARK_STALE = 'Mark them stale and continue';
+    let action: string;
+    if (this.executionOptions.strict) {
+      this.output.info(chalk.red('   ❌ Strict mode: The plan changed since its last run'));
+      this.output.info(chalk.gray('   Revert the edits, or run without --strict to re-execute or mark the steps stale'));
+      action = 'Abort';
+    } else if (!this.executionOptions.nonInteractive && this.commitConfig.interactiveSafety !== false) {
+      const { chooseOption } = await import('./utils/prompt-utils.js');
+      action = await chooseOption('How do you want to handle the changed steps?', [RE_EXECUTE, MARK_STALE, 'Abort'], RE_EXECUTE);
+    } else if (this.executionOptions.autoConfirm) {
+      this.output.info(chalk.yellow('   ✅ Re-executing the edited steps (--yes flag)'));
+      action = RE_EXECUTE;
+    } else {
+      this.output.info(chalk.yellow('   ▶️  Marking the edited steps stale (non-interactive mode)'));
+      action = MARK_STALE;
+    }
+
+    this.logAuditEvent('plan_integrity_changed', {
+      issues: issues.map(issue => `${issue.kind}: ${issue.stepId}`),
+      action,
+    });
+
+    if (action === 'Abort') {
+      this.output.info(chalk.yellow('⏸️  Execution aborted: the plan changed since its last run.'));
+      throw new ExecutionError(`Plan changed since its last run: ${[...new Set(issues.map(issue => issue.stepId))].join(', ')}`);
+    }
+
+    const timestamp = new Date().toISOString();
+    for (const issue of issues.filter(issue => issue.kind === 'edited_after_success')) {
+      const step = steps.find(candidate => candidate.id === issue.stepId)!;
+      if (action === RE_EXECUTE) {
+        step.execution_log = `Queued again at ${timestamp}: step ${issue.message}.`;
+        step.status = 'PENDING';
+        step.rlhf_score = null;
+        delete step.stale;
+      } else if (!step.stale) {
+        step.execution_log = `Marked stale at ${timestamp}: step ${issue.message} and was not executed again.\n\n${step.execution_log}`;
+        step.stale = true;
+      }
+    }
+
+    // The current content and order are accepted from now on, except for stale steps:
+    // their hash keeps the content that ran, so later runs still report them
+    for (const step of steps.filter(step => step.content_hash && !step.stale)) {
+      step.content_hash = hashStep(step);
+    }
+    this.plan.step_order = getStepOrder(steps);
+    this.recordStaleSteps(steps);
+    await this.savePlan();
+  }
+
+  /**
+   * List the stale steps in the plan evaluation
+   */
+  private recordStaleSteps(steps: Step[]): void {
+    const staleSteps = steps.filter(step => step.stale).map(step => step.id);
+    if (staleSteps.length > 0) {
+      this.plan.evaluation = { ...this.plan.evaluation, stale_steps: staleSteps };
+    } else if (this.plan.evaluation) {
+      delete this.plan.evaluation.stale_steps;
+    }
+  }
+
+  /**
+   * Why a step is not executed in this run, or null when it should run
+   * Steps selected on the command line run whatever their status
+   */
+  private getSkipReason(step: Step, steps: Step[]): string | null {
+    // Dependents of a step that failed under a skip_dependents policy
+    const blockedReason = this.blockedSteps.get(step);
+    if (blockedReason) {
+      return blockedReason;
+    }
+
+    if (this.selectedSteps) {
+      return this.selectedSteps.has(steps.indexOf(step)) ? null : 'Not selected for this run.';
+    }
+
+    // Skip completed steps
+    if (step.status === 'SUCCESS' || step.status === 'SKIPPED') {
+      return `Skipping step with status '${step.status}'.`;
+    }
+
+    return null;
+  }
+
+  /**
+   * Show a step and its pending diff and ask whether to run it (--interactive-steps)
+   * Editing the template saves it to the plan and shows the step again
+   * @returns Whether the step should run; skipped steps are marked SKIPPED
+   * @throws {ExecutionError} If the user aborts the run
+   */
+  private async reviewStep(step: Step): Promise<boolean> {
+    const { chooseOption, confirmAction } = await import('./utils/prompt-utils.js');
+
+    for (;;) {
+      const targets = this.getTargetPaths(step);
+      this.output.info(chalk.cyan(`   🔍 ${step.id} (${step.type})${targets.length > 0 ? ` → ${targets.join(', ')}` : ''}`));
+
+      try {
+        const changes = await this.previewStepAction(step, new Map());
+        if (changes === null) {
+          this.output.info(chalk.gray(`   ⏭️  Condition not met (${step.condition})`));
+        }
+        for (const change of changes || []) {
+          if (!change.diff) {
+            this.output.info(chalk.gray(`   📄 ${change.path}: no changes`));
+            continue;
+          }
+          const { additions, deletions } = summarizeDiff(change.diff);
+          this.output.info(chalk.cyan(`   📄 ${change.path} (+${additions}/-${deletions})`));
+          this.output.info(colorizeDiff(change.diff).split('\n').map(line => `      ${line}`).join('\n'));
+        }
+      } catch (error) {
+        this.output.info(chalk.red(`   ❌ Step would fail: ${extractErrorMessage(error)}`));
+      }
+
+      const choices = ['Approve', 'Skip', ...(typeof step.template === 'string' ? ['Edit template'] : []), 'Abort'];
+      const choice = await chooseOption(`What do you want to do with step '${step.id}'?`, choices, 'Approve');
+
+      switch (choice) {
+        case 'Approve':
+          return true;
+        case 'Skip':
+          this.recordStepContent(step);
+          step.status = 'SKIPPED';
+          step.execution_log = `Skipped at ${new Date().toISOString()}: skipped during interactive review.`;
+          await this.savePlan();
+          this.logAuditEvent('interactive_step_skipped', { stepId: step.id });
+          this.output.info(chalk.gray('   ⏭️  Skipped by user'));
+          return false;
+        case 'Edit template':
+          step.template = await this.editStepTemplate(step);
+          await this.savePlan();
+          this.logAuditEvent('interactive_step_edited', { stepId: step.id });
+          break;
+        default:
+          if (await confirmAction('Abort the execution? Steps already committed are kept.', false)) {
+            this.output.info(chalk.yellow('⏸️  Execution aborted by user.'));
+            throw new ExecutionError(`Execution aborted by user at step '${step.id}'`, step.id);
+          }
+      }
+    }
+  }
+
+  /**
+   * Open the template of a step in $VISUAL/$EDITOR (vi when unset) and return the saved text
+   */
+  private async editStepTemplate(step: Step): Promise<string> {
+    const directory = await fs.mkdtemp(path.join(os.tmpdir(), 'regent-step-'));
+    const file = path.join(directory, path.basename(step.path || `${step.id}.txt`));
+    const editor = process.env.VISUAL || process.env.EDITOR || 'vi';
+
+    try {
+      await fs.writeFile(file, step.template || '');
+      // Editors such as `code --wait` carry their own arguments, so run through the shell
+      const result = spawnSync(`${editor} "${file}"`, { stdio: 'inherit', shell: true });
+      if (result.error || result.status !== 0) {
+        this.output.info(chalk.yellow(`   ⚠️  Editor '${editor}' exited with an error, keeping the template unchanged`));
+        return step.template || '';
+      }
+      return await fs.readFile(file, 'utf-8');
+    } finally {
+      await fs.remove(directory);
+    }
+  }
+
+  /**
+   * Display name of a step (falls back to its position in the plan)
+   */
+  private getStepLabel(step: Step, steps: Step[]): string {
+    return step.id || `Unnamed Step ${steps.indexOf(step) + 1}`;
+  }
+
+  /**
+   * Preview every pending step without touching disk or git
+   * File changes are applied to an in-memory overlay so later steps
+   * (e.g. a refactor of a file created earlier in the plan) preview correctly
+   */
+  private async previewSteps(steps: Step[], planSteps: Step[] = steps): Promise<void> {
+    this.output.info(chalk.magenta.bold('\n🔎 Dry run: previewing changes (nothing will be written, executed or committed)'));
+
+    const overlay = new Map<string, string | null>();
+    let previewed = 0;
+    let failing = 0;
+    let commits = 0;
+    const totals = { files: 0, additions: 0, deletions: 0 };
+
+    for (const [index, step] of steps.entries()) {
+      const stepId = step.id || `Unnamed Step ${index + 1}`;
+      this.output.info(chalk.blue.bold(`\n▶️  Step ${index + 1}/${steps.length}: ${stepId} (${step.type})`));
+
+      const skipReason = this.getSkipReason(step, planSteps);
+      if (skipReason) {
+        this.output.info(chalk.gray(`   ⏭️  Would skip: ${skipReason}`));
+        continue;
+      }
+
+      previewed++;
+
+      try {
+        const changes = await this.previewStepAction(step, overlay);
+        if (changes === null) {
+          this.output.info(chalk.gray(`   ⏭️  Would skip: condition not met (${step.condition})`));
+          continue;
+        }
+
+        for (const change of changes) {
+          if (!change.diff) {
+            this.output.info(chalk.gray(`   📄 ${change.path}: no changes`));
+            continue;
+          }
+          const { additions, deletions } = summarizeDiff(change.diff);
+          totals.files++;
+          totals.additions += additions;
+          totals.deletions += deletions;
+          this.output.info(chalk.cyan(`   📄 ${change.path} (+${additions}/-${deletions})`));
+          this.output.info(colorizeDiff(change.diff).split('\n').map(line => `      ${line}`).join('\n'));
+        }
+
+        const hooks = this.getStepHooks(step);
+        if (hooks.before.length > 0) {
+          this.output.info(chalk.gray(`   🪝 Would run before hooks: ${hooks.before.join(', ')}`));
+        }
+        if (hooks.after.length > 0) {
+          this.output.info(chalk.gray(`   🪝 Would run after hooks: ${hooks.after.join(', ')}`));
+        }
+
+        if (step.validation_script) {
+          const lineCount = step.validation_script.trim().split('\n').length;
+          this.output.info(chalk.gray(`   🧪 Would run validation script (${lineCount} line${lineCount === 1 ? '' : 's'})`));
+        }
+
+        const commitMessage = shouldCommitStep(step.type, this.commitConfig)
+          ? generateCommitMessage(step.type, step.id || stepId, this.getTargetPaths(step)[0], this.commitConfig)
+          : null;
+
+        if (commitMessage) {
+          commits++;
+          this.output.info(chalk.blue('   💾 Would commit:'));
+          this.output.info(chalk.gray(commitMessage.split('\n').map(line => (line ? `      ${line}` : '')).join('\n')));
+        } else {
+          this.output.info(chalk.gray(`   ⏭️  Step type '${step.type}' would not be committed`));
+        }
+      } catch (error) {
+        failing++;
+        this.output.info(chalk.red(`   ❌ Step would fail: ${extractErrorMessage(error)}`));
+      }
+    }
+
+    this.output.info(chalk.cyan.bold('\n📊 Dry-run Summary:'));
+    this.output.info(chalk.blue(`   📋 Steps previewed: ${previewed}`));
+    this.output.info(chalk.blue(`   📄 Files changed: ${totals.files} (+${totals.additions}/-${totals.deletions})`));
+    this.output.info(chalk.blue(`   💾 Commits: ${commits}`));
+    if (failing > 0) {
+      this.output.info(chalk.red(`   ❌ Steps that would fail: ${failing}`));
+    }
+  }
+
+  /**
+   * Compute the changes a step would make, reading through the dry-run overlay
+   * @returns One diff per file the step would write or delete, or null when a
+   * conditional step would be skipped
+   */
+  private async previewStepAction(
+    step: Step,
+    overlay: Map<string, string | null>
+  ): Promise<Array<{ path: string; diff: string }> | null> {
+    const readCurrent = async (filePath: string): Promise<string | null> => {
+      if (overlay.has(filePath)) return overlay.get(filePath) ?? null;
+      return (await fs.pathExists(filePath)) ? fs.readFile(filePath, 'utf-8') : null;
+    };
+
+    if (step.files && (step.type === 'create_file' || step.type === 'refactor_file')) {
+      const changes: Array<{ path: string; diff: string }> = [];
+      for (const fileStep of expandStepFiles(step)) {
+        changes.push(...(await this.previewStepAction(fileStep, overlay)) || []);
+      }
+      return changes;
+    }
+
+    switch (step.type) {
+      case 'create_file': {
+        if (!step.path) throw new Error("Create file step is missing 'path'.");
+        const current = await readCurrent(step.path);
+        const next = step.template || '';
+        overlay.set(step.path, next);
+        return [{ path: step.path, diff: createUnifiedDiff(step.path, current, next) }];
+      }
+      case 'refactor_file': {
+        if (!step.path) throw new Error("Refactor file step is missing 'path'.");
+        const current = await readCurrent(step.path);
+        if (current === null) {
+          throw new Error(`File to refactor does not exist at path: ${step.path}`);
+        }
+        const next = await this.computeRefactoredContent(step, current);
+        overlay.set(step.path, next);
+        return [{ path: step.path, diff: createUnifiedDiff(step.path, current, next) }];
+      }
+      case 'move_file': {
+        const projectFiles = new Set(await listProjectFiles());
+        for (const [filePath, content] of overlay) {
+          if (content === null) projectFiles.delete(filePath);
+          else projectFiles.add(filePath);
+        }
+
+        const changes = await this.planMoveStep(step, [...projectFiles].sort(), readCurrent);
+        const diffs: Array<{ path: string; diff: string }> = [];
+        for (const [index, change] of changes.entries()) {
+          if (change.movedTo !== undefined && change.current === null) {
+            // Not a source file: moved as it is
+            this.output.info(chalk.gray(`   📦 Would move ${change.path} → ${change.movedTo}`));
+            overlay.set(change.movedTo, await readCurrent(change.path));
+            overlay.set(change.path, null);
+            continue;
+          }
+          overlay.set(change.path, change.next);
+          if (change.current !== null && change.next !== null) {
+            diffs.push({ path: change.path, diff: createUnifiedDiff(change.path, change.current, change.next) });
+          } else if (change.next === null) {
+            // A moved file is listed as its old path followed by its new one
+            const target = changes[index + 1];
+            this.output.info(chalk.gray(`   📦 Would move ${change.path} → ${target.path}`));
+            if (target.next !== change.current) {
+              diffs.push({ path: target.path, diff: createUnifiedDiff(target.path, change.current, target.next) });
+            }
+          }
+        }
+        return diffs;
+      }
+      case 'patch': {
+        const changes = await this.computePatchedFiles(step, readCurrent);
+        for (const change of changes) {
+          overlay.set(change.path, change.next);
+        }
+        return changes.map(change => ({ path: change.path, diff: createUnifiedDiff(change.path, change.current, change.next) }));
+      }
+      case 'delete_file': {
+        if (!step.path) throw new Error("Delete file step is missing 'path'.");
+        const current = await readCurrent(step.path);
+        if (current === null) {
+          this.output.warn(chalk.yellow(`   ⚠️  File to delete at ${step.path} does not exist. Would skip.`));
+          return [];
+        }
+        overlay.set(step.path, null);
+        return [{ path: step.path, diff: createUnifiedDiff(step.path, current, null) }];
+      }
+      case 'folder': {
+        const basePath = step.action?.create_folders?.basePath;
+        const folders = step.action?.create_folders?.folders || [];
+        if (!basePath) throw new Error("Folder step is missing 'basePath'.");
+        for (const folder of folders) {
+          const fullPath = `${basePath}/${folder}`;
+          if (await fs.pathExists(fullPath)) {
+            this.output.info(chalk.gray(`   📁 ${fullPath} (already exists)`));
+          } else {
+            this.output.info(chalk.cyan(`   📁 Would create directory: ${fullPath}`));
+          }
+        }
+        return [];
+      }
+      case 'branch':
+        // Branch and PR handlers only validate configuration, so they are safe to run
+        await this.handleBranchStep(step);
+        return [];
+      case 'pull_request':
+        await this.handlePullRequestStep(step);
+        return [];
+      case 'test': {
+        if (!step.path) throw new Error("Test step is missing 'path'.");
+        const changes = step.template !== undefined
+          ? await this.previewStepAction({ ...step, type: 'create_file' }, overlay)
+          : [];
+        const expectation = step.expected_result === 'fail' ? ' (expected to fail)' : '';
+        this.output.info(chalk.gray(`   🧪 Would run targeted test: ${step.path}${expectation}`));
+        return changes;
+      }
+      case 'validation': {
+        const scripts = step.run_scripts?.scripts || [];
+        if (!step.validation_script && scripts.length === 0) {
+          throw new Error("Validation step is missing 'validation_script' or 'run_scripts'.");
+        }
+        for (const [index, script] of scripts.entries()) {
+          const location = script.workingDirectory ? ` in ${script.workingDirectory}` : '';
+          this.output.info(chalk.gray(`   🧪 Would run: ${script.name || `script ${index + 1}`}${location}`));
+        }
+        return [];
+      }
+      case 'conditional_file': {
+        if (!this.evaluateStepCondition(step)) return null;
+        const actionType = step.template?.includes('<<<REPLACE>>>') ? 'refactor_file' : 'create_file';
+        return this.previewStepAction({ ...step, type: actionType }, overlay);
+      }
+      default: {
+        if (!this.stepTypes.get(step.type)) {
+          throw new Error(`Unknown step type: '${step.type}'`);
+        }
+        // Plugin handlers cannot be previewed without running them
+        const paths = this.getTargetPaths(step);
+        this.output.info(chalk.gray(`   🧩 Would run plugin step type '${step.type}'${paths.length > 0 ? ` on ${paths.join(', ')}` : ''}`));
+        return [];
+      }
+    }
+  }
+
+  /**
+   * Destructor pattern - cleanup all resources
+   * Should be called when execution completes or errors
+   * Ensures no resource leaks (signal handlers, file descriptors, etc)
+   */
+  public destroy(): void {
+    // Remove signal handlers to prevent memory leaks
+    this.removeCleanupHandlers();
+
+    // Stop validation scripts still running
+    this.killActiveScripts();
+
+    // Close logger file descriptors
+    this.logger.close();
+
+    // Clear caches
+    this.executionCache.clear();
+    this.cachedPackageManager = null;
+    this.lastKnownCommitHash = null;
+
+    // Clear commit hashes
+    this.commitHashes = [];
+
+    // Let other runs start
+    this.executionLock?.release();
+    this.executionLock = null;
+  }
+
+  /**
+   * Validate step based on architectural layer rules
+   */
+  private validateStepForLayer(step: Step): void {
+    if (!this.layerInfo || step.type !== 'create_file') return;
+
+    const template = (step.files ? step.files.map(file => file.template || '').join('\n') : step.template) || '';
+
+    switch (this.layerInfo.layer) {
       case 'data':
         // Data layer: Should implement domain interfaces
         if (!template.includes('implements') && !template.includes('extends')) {
-          console.warn(chalk.yellow(`⚠️  Data layer warning: Step '${step.id}' should implement domain interfaces`));
+          this.output.warn(chalk.yellow(`⚠️  Data layer warning: Step '${step.id}' should implement domain interfaces`));
         }
         break;
 
       case 'infra':
         // Infrastructure: Should have error handling
         if (!template.includes('try') || !template.includes('catch')) {
-          console.warn(chalk.yellow(`⚠️  Infrastructure warning: Step '${step.id}' should include error handling`));
+          this.output.warn(chalk.yellow(`⚠️  Infrastructure warning: Step '${step.id}' should include error handling`));
         }
         break;
 
@@ -1009,7 +2591,7 @@ class EnhancedStepExecutor {
       case 'main':
         // Main layer: Should use factories
         if (!template.match(/factory|Factory|make[A-Z]/)) {
-          console.warn(chalk.yellow(`⚠️  Main layer warning: Step '${step.id}' should use factory pattern`));
+          this.output.warn(chalk.yellow(`⚠️  Main layer warning: Step '${step.id}' should use factory pattern`));
         }
         break;
     }
@@ -1022,18 +2604,33 @@ class EnhancedStepExecutor {
   private async calculateLayerAwareScore(
     step: Step,
     success: boolean,
-    output?: string
+    output?: string,
+    quality?: { maxScore?: number; issues?: Record<string, QualityIssue[]> }
   ): Promise<number> {
     // Use the centralized layer-aware scoring from EnhancedRLHFSystem
     // This eliminates duplication and ensures consistency
-    const score = await this.rlhf.calculateLayerScore(
+    let score = await this.rlhf.calculateLayerScore(
       step.type,
       success,
       this.layerInfo || undefined,
       output,
-      step
+      step,
+      quality?.issues
     );
 
+    // Plugin step types may adjust the score of their steps
+    const scoreHook = this.stepTypes.get(step.type)?.score;
+    if (scoreHook) {
+      const context = { ...this.getStepTypeContext(), success, output };
+      score = Math.max(-2, Math.min(2, scoreHook(score, step as unknown as PluginStep, context)));
+    }
+
+    // Failed quality gates cap the score
+    if (quality?.maxScore !== undefined) {
+      score = Math.min(score, quality.maxScore);
+    }
+
+    this.emit('scoreCalculated', { step: this.toExecutedStep(step), score });
     return score;
   }
 
@@ -1127,54 +2724,68 @@ class EnhancedStepExecutor {
   private provideLayerSpecificGuidance(): void {
     if (!this.layerInfo) return;
 
-    console.error(chalk.yellow.bold(`\n💡 ${this.layerInfo.layer.toUpperCase()} Layer Guidance:`));
+    this.output.error(chalk.yellow.bold(`\n💡 ${this.layerInfo.layer.toUpperCase()} Layer Guidance:`));
 
     switch (this.layerInfo.layer) {
       case 'domain':
-        console.error(chalk.yellow('• Domain layer must have no external dependencies'));
-        console.error(chalk.yellow('• Use only pure TypeScript/JavaScript'));
-        console.error(chalk.yellow('• Define interfaces and types only'));
-        console.error(chalk.yellow('• No implementation details'));
+        this.output.error(chalk.yellow('• Domain layer must have no external dependencies'));
+        this.output.error(chalk.yellow('• Use only pure TypeScript/JavaScript'));
+        this.output.error(chalk.yellow('• Define interfaces and types only'));
+        this.output.error(chalk.yellow('• No implementation details'));
         break;
 
       case 'data':
-        console.error(chalk.yellow('• Implement domain interfaces'));
-        console.error(chalk.yellow('• Transform external data to domain models'));
-        console.error(chalk.yellow('• Use repository protocols'));
-        console.error(chalk.yellow('• No direct database access'));
+        this.output.error(chalk.yellow('• Implement domain interfaces'));
+        this.output.error(chalk.yellow('• Transform external data to domain models'));
+        this.output.error(chalk.yellow('• Use repository protocols'));
+        this.output.error(chalk.yellow('• No direct database access'));
         break;
 
       case 'infra':
-        console.error(chalk.yellow('• Implement data layer protocols'));
-        console.error(chalk.yellow('• Handle external services (DB, APIs, Cache)'));
-        console.error(chalk.yellow('• Include proper error handling'));
-        console.error(chalk.yellow('• Use adapter pattern'));
+        this.output.error(chalk.yellow('• Implement data layer protocols'));
+        this.output.error(chalk.yellow('• Handle external services (DB, APIs, Cache)'));
+        this.output.error(chalk.yellow('• Include proper error handling'));
+        this.output.error(chalk.yellow('• Use adapter pattern'));
         break;
 
       case 'presentation':
-        console.error(chalk.yellow('• Keep controllers/components thin'));
-        console.error(chalk.yellow('• Delegate to use cases'));
-        console.error(chalk.yellow('• Handle only UI concerns'));
-        console.error(chalk.yellow('• No business logic'));
+        this.output.error(chalk.yellow('• Keep controllers/components thin'));
+        this.output.error(chalk.yellow('• Delegate to use cases'));
+        this.output.error(chalk.yellow('• Handle only UI concerns'));
+        this.output.error(chalk.yellow('• No business logic'));
         break;
 
       case 'main':
-        console.error(chalk.yellow('• Use factory pattern'));
-        console.error(chalk.yellow('• Wire up dependencies'));
-        console.error(chalk.yellow('• Configure application'));
-        console.error(chalk.yellow('• No business logic'));
+        this.output.error(chalk.yellow('• Use factory pattern'));
+        this.output.error(chalk.yellow('• Wire up dependencies'));
+        this.output.error(chalk.yellow('• Configure application'));
+        this.output.error(chalk.yellow('• No business logic'));
         break;
     }
   }
 
   // Keep existing methods from original execute-steps.ts
-  private async executeStepAction(step: Step): Promise<void> {
+  /**
+   * Execute the action of a step
+   * @returns Output worth recording in the execution log (e.g. targeted test output)
+   */
+  private async executeStepAction(step: Step, signal?: AbortSignal): Promise<string | undefined> {
     switch (step.type) {
       case 'create_file':
-        await this.handleCreateFileStep(step);
-        break;
       case 'refactor_file':
-        await this.handleRefactorFileStep(step);
+        if (step.files) {
+          await this.handleMultiFileStep(step);
+        } else if (step.type === 'create_file') {
+          await this.handleCreateFileStep(step);
+        } else {
+          await this.handleRefactorFileStep(step);
+        }
+        break;
+      case 'patch':
+        await this.handlePatchStep(step);
+        break;
+      case 'move_file':
+        await this.handleMoveFileStep(step);
         break;
       case 'delete_file':
         await this.handleDeleteFileStep(step);
@@ -1188,85 +2799,431 @@ class EnhancedStepExecutor {
       case 'pull_request':
         await this.handlePullRequestStep(step);
         break;
-      default:
-        throw new Error(`Unknown step type: '${step.type}'`);
+      case 'validation':
+        return this.handleValidationStep(step, signal);
+      case 'test':
+        return this.handleTestStep(step, signal);
+      case 'conditional_file':
+        await this.handleConditionalFileStep(step);
+        break;
+      default: {
+        const definition = this.stepTypes.get(step.type);
+        if (!definition) {
+          throw new Error(`Unknown step type: '${step.type}'`);
+        }
+        return (await definition.execute(step as unknown as PluginStep, this.getStepTypeContext())) || undefined;
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * Evaluate the condition of a conditional_file step against the project and plan metadata
+   */
+  private evaluateStepCondition(step: Step): boolean {
+    if (!step.condition) {
+      throw new Error(`Conditional file step '${step.id}' is missing 'condition'.`);
+    }
+
+    return evaluateCondition(step.condition, {
+      projectRoot: process.cwd(),
+      metadata: this.plan.metadata as Record<string, unknown> | undefined,
+    });
+  }
+
+  /**
+   * Create (or refactor, for <<<REPLACE>>> templates) the file of a conditional step
+   * The condition itself is evaluated before the action runs
+   */
+  private async handleConditionalFileStep(step: Step): Promise<void> {
+    this.output.info(chalk.gray(`   ✔️  Condition met: ${step.condition}`));
+
+    if (step.template?.includes('<<<REPLACE>>>')) {
+      await this.handleRefactorFileStep(step);
+    } else {
+      await this.handleCreateFileStep(step);
+    }
+  }
+
+  /**
+   * Write a test file and run only that file through the configured test script
+   * TDD RED steps declare `expected_result: fail`, so a failing run is the success case
+   */
+  private async handleTestStep(step: Step, signal?: AbortSignal): Promise<string> {
+    const testPath = step.path;
+    if (!testPath) throw new Error("Test step is missing 'path'.");
+
+    if (step.template !== undefined) {
+      await this.handleCreateFileStep(step);
+    } else if (!await fs.pathExists(testPath)) {
+      throw new Error(`Test file does not exist at path: ${testPath}`);
+    }
+
+    const pathValidation = validateFilePath(testPath);
+    if (!pathValidation.valid) {
+      throw new Error(`Invalid test path '${testPath}': ${pathValidation.error}`);
+    }
+
+    const scriptName = this.commitConfig.qualityChecks.testCommand || 'test --run';
+    const { command, args } = await this.getPackageManagerCommand(scriptName);
+    const targetedArgs = command === 'npm' && !args.includes('--')
+      ? [...args, '--', testPath]
+      : [...args, testPath];
+
+    this.output.info(chalk.blue(`   🧪 Running targeted test: ${testPath}`));
+
+    const expectFailure = step.expected_result === 'fail';
+    let passed: boolean;
+    let output: string;
+
+    try {
+      $.verbose = false;
+      const result = await $({ timeout: this.getStepPolicy(step).timeoutMs, signal })`${[command, ...targetedArgs]}`;
+      passed = true;
+      output = result.stdout + result.stderr;
+    } catch (error) {
+      passed = false;
+      output = extractCommandOutput(error);
+    } finally {
+      $.verbose = true;
+    }
+
+    if (passed === expectFailure) {
+      if (expectFailure) {
+        throw new Error(`Targeted test passed but was expected to fail (TDD RED): ${testPath}`);
+      }
+      const failures = parseGateErrors(output, 'vitest');
+      throw new Error(`Targeted test failed: ${testPath}\n${failures.join('\n')}`);
+    }
+
+    this.output.info(chalk.green(`   ✅ Targeted test ${passed ? 'passed' : 'failed as expected (TDD RED)'}`));
+    return output;
+  }
+
+  /**
+   * Validation steps have no file action: `validation_script` runs through the
+   * normal script pipeline and each `run_scripts` entry runs here in its working directory
+   */
+  private async handleValidationStep(step: Step, signal?: AbortSignal): Promise<string | undefined> {
+    const scripts = step.run_scripts?.scripts || [];
+    if (!step.validation_script && scripts.length === 0) {
+      throw new Error("Validation step is missing 'validation_script' or 'run_scripts'.");
+    }
+
+    let output = '';
+    for (const [index, script] of scripts.entries()) {
+      const name = script.name || `script ${index + 1}`;
+
+      this.output.info(chalk.blue(`   🧪 Running: ${name}`));
+      const scriptOutput = await this.runValidationScript(script.command, `${step.id}:${name}`, {
+        timeoutMs: this.getScriptTimeout(step),
+        workingDirectory: script.workingDirectory,
+        signal,
+      });
+      output += `# ${name}\n${scriptOutput}`;
+    }
+
+    return output || undefined;
+  }
+
+  // Include all the handle* methods from original execute-steps.ts
+  private async handleDeleteFileStep(step: Step): Promise<void> {
+    const { path } = step;
+    if (!path) throw new Error("Delete file step is missing 'path'.");
+
+    this.output.info(chalk.red(`   🗑️ Deleting file: ${path}`));
+
+    if (await fs.pathExists(path)) {
+      await fs.remove(path);
+      this.output.info(chalk.green(`   ✅ File successfully deleted.`));
+    } else {
+      this.output.warn(chalk.yellow(`   ⚠️  Warning: File to delete at ${path} does not exist. Skipping.`));
+    }
+  }
+
+  private async handleCreateFileStep(step: Step): Promise<void> {
+    const { path, template = '' } = step;
+    if (!path) throw new Error("Create file step is missing 'path'.");
+    this.output.info(chalk.cyan(`   📄 Creating file: ${path}`));
+    await this.enforceImportBoundaries(step, path, template);
+    await fs.ensureDir(path.substring(0, path.lastIndexOf('/')));
+    await fs.writeFile(path, template);
+  }
+
+  private async handleFolderStep(step: Step): Promise<void> {
+    const basePath = step.action?.create_folders?.basePath;
+    const folders = step.action?.create_folders?.folders || [];
+    if (!basePath) throw new Error("Folder step is missing 'basePath'.");
+
+    for (const folder of folders) {
+      const fullPath = `${basePath}/${folder}`;
+      this.output.info(chalk.cyan(`   📁 Creating directory: ${fullPath}`));
+      await fs.ensureDir(fullPath);
+    }
+  }
+
+  private async handleRefactorFileStep(step: Step): Promise<void> {
+    const { path } = step;
+    if (!path) throw new Error("Refactor file step is missing 'path'.");
+
+    this.output.info(chalk.cyan(`   🔧 Refactoring file: ${path}`));
+
+    if (!await fs.pathExists(path)) {
+      throw new Error(`File to refactor does not exist at path: ${path}`);
+    }
+    const fileContent = await fs.readFile(path, 'utf-8');
+
+    const newFileContent = await this.computeRefactoredContent(step, fileContent);
+
+    await this.enforceImportBoundaries(step, path, newFileContent);
+    await fs.writeFile(path, newFileContent);
+    this.output.info(chalk.green(`   ✅ Successfully applied refactoring to ${path}`));
+  }
+
+  /**
+   * Create or refactor every file of a step atomically
+   * All contents are computed and checked before the first write, and a failed
+   * write puts back the files already written
+   */
+  private async handleMultiFileStep(step: Step): Promise<void> {
+    const changes: Array<{ path: string; content: string }> = [];
+
+    for (const fileStep of expandStepFiles(step)) {
+      const filePath = fileStep.path!;
+      let content = fileStep.template || '';
+
+      if (step.type === 'refactor_file') {
+        if (!await fs.pathExists(filePath)) {
+          throw new Error(`File to refactor does not exist at path: ${filePath}`);
+        }
+        content = await this.computeRefactoredContent(fileStep, await fs.readFile(filePath, 'utf-8'));
+      }
+
+      await this.enforceImportBoundaries(step, filePath, content);
+      changes.push({ path: filePath, content });
+    }
+
+    for (const change of changes) {
+      this.output.info(chalk.cyan(`   ${step.type === 'create_file' ? '📄 Creating' : '🔧 Refactoring'} file: ${change.path}`));
+    }
+    await this.writeStepFiles(changes);
+    this.output.info(chalk.green(`   ✅ Wrote ${changes.length} files atomically`));
+  }
+
+  /**
+   * Apply the unified diff of a patch step to every file it names
+   * Hunks may have moved (offset) or have changed outer context (fuzz); any hunk
+   * that does not apply fails the step before a file is written
+   */
+  private async handlePatchStep(step: Step): Promise<void> {
+    this.output.info(chalk.cyan(`   🩹 Patching: ${this.getTargetPaths(step).join(', ')}`));
+
+    const changes = await this.computePatchedFiles(step, readFileIfExists);
+    for (const change of changes) {
+      if (change.next !== null) {
+        await this.enforceImportBoundaries(step, change.path, change.next);
+      }
+    }
+
+    await this.writeStepFiles(changes.map(change => ({ path: change.path, content: change.next })));
+    this.output.info(chalk.green(`   ✅ Patched ${changes.length} file(s)`));
+  }
+
+  /**
+   * Move a file or folder and rewrite every relative and aliased import pointing at it
+   * Every touched file is recorded, so retries and rollbacks put all of them back
+   */
+  private async handleMoveFileStep(step: Step): Promise<void> {
+    const { path: source, destination } = step;
+    if (!source || !destination) throw new Error("Move file step needs both 'path' and 'destination'.");
+    this.output.info(chalk.cyan(`   📦 Moving ${source} → ${destination}`));
+
+    const changes = await this.planMoveStep(step, await listProjectFiles(), readFileIfExists);
+    for (const change of changes) {
+      if (change.next !== null) {
+        await this.enforceImportBoundaries(step, change.path, change.next);
+      }
+    }
+
+    // Files are moved as they are, keeping binary content and permissions;
+    // only the imports of source files are rewritten as text
+    const moves = changes.filter(change => change.movedTo !== undefined);
+    const snapshots = await this.snapshotFiles([...new Set(changes.flatMap(change => [change.path, ...(change.movedTo ? [change.movedTo] : [])]))]);
+    try {
+      for (const move of moves) {
+        await fs.move(move.path, move.movedTo!);
+      }
+      for (const change of changes) {
+        if (change.next === null) continue;
+        const moved = moves.find(move => move.movedTo === change.path);
+        if (!moved || moved.current !== change.next) {
+          await fs.writeFile(change.path, change.next);
+        }
+      }
+    } catch (error) {
+      await this.restoreFiles(snapshots);
+      throw error;
     }
-  }
+    this.moveSnapshots.set(step.id, snapshots);
 
-  // Include all the handle* methods from original execute-steps.ts
-  private async handleDeleteFileStep(step: Step): Promise<void> {
-    const { path } = step;
-    if (!path) throw new Error("Delete file step is missing 'path'.");
+    // A moved folder leaves its empty directories behind
+    if (await isEmptyDirectory(source)) {
+      await fs.remove(source);
+    }
 
-    console.log(chalk.red(`   🗑️ Deleting file: ${path}`));
+    const rewritten = changes.filter(change => change.current !== null && change.next !== null).length;
+    this.output.info(chalk.green(`   ✅ Moved ${moves.length} file(s), rewrote imports in ${rewritten} other file(s)`));
+  }
 
-    if (await fs.pathExists(path)) {
-      await fs.remove(path);
-      console.log(chalk.green(`   ✅ File successfully deleted.`));
-    } else {
-      console.warn(chalk.yellow(`   ⚠️  Warning: File to delete at ${path} does not exist. Skipping.`));
-    }
+  /**
+   * Changes of a move_file step, shared by the real handler and the dry-run preview
+   */
+  private async planMoveStep(
+    step: Step,
+    projectFiles: string[],
+    readCurrent: (filePath: string) => Promise<string | null>
+  ): Promise<MoveChange[]> {
+    if (!step.path || !step.destination) throw new Error("Move file step needs both 'path' and 'destination'.");
+    // Project files skip dot directories, but a moved folder takes all of its files along
+    const files = [...new Set([...projectFiles, ...await listFolderFiles(step.path)])].sort();
+    return planMove(step.path, step.destination, files, readCurrent, this.architecturePolicy.pathAliases);
   }
 
-  private async handleCreateFileStep(step: Step): Promise<void> {
-    const { path, template = '' } = step;
-    if (!path) throw new Error("Create file step is missing 'path'.");
-    console.log(chalk.cyan(`   📄 Creating file: ${path}`));
-    await fs.ensureDir(path.substring(0, path.lastIndexOf('/')));
-    await fs.writeFile(path, template);
+  /**
+   * Write (or delete, for null content) the files of a step, putting every file
+   * back as it was when one write fails
+   * @returns The files as they were before
+   */
+  private async writeStepFiles(changes: Array<{ path: string; content: string | null }>): Promise<FileSnapshot[]> {
+    const snapshots = await this.snapshotFiles(changes.map(change => change.path));
+    try {
+      for (const change of changes) {
+        if (change.content === null) {
+          await fs.remove(change.path);
+        } else {
+          await fs.outputFile(change.path, change.content);
+        }
+      }
+    } catch (error) {
+      await this.restoreFiles(snapshots);
+      throw error;
+    }
+
+    return snapshots;
   }
 
-  private async handleFolderStep(step: Step): Promise<void> {
-    const basePath = step.action?.create_folders?.basePath;
-    const folders = step.action?.create_folders?.folders || [];
-    if (!basePath) throw new Error("Folder step is missing 'basePath'.");
+  /**
+   * Resolve every import of a file about to be written to its layer and reject
+   * imports that break the dependency rule (external dependencies in the domain layer,
+   * relative paths or aliases climbing into an outer layer, re-exports, dynamic imports)
+   * @throws {Error} With a report listing each violating import
+   */
+  private async enforceImportBoundaries(step: Step, filePath: string, content: string): Promise<void> {
+    if (!this.architecturePolicy.enforceImports) return;
 
-    for (const folder of folders) {
-      const fullPath = `${basePath}/${folder}`;
-      console.log(chalk.cyan(`   📁 Creating directory: ${fullPath}`));
-      await fs.ensureDir(fullPath);
+    let violations: ImportViolation[];
+    try {
+      violations = await analyzeImports(content, filePath, this.architecturePolicy, this.layerInfo?.layer);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      this.output.warn(chalk.yellow(`   ⚠️  Skipping import analysis for ${filePath}: ${message}`));
+      return;
+    }
+
+    if (violations.length > 0) {
+      this.logAuditEvent('import_boundary_violation', {
+        stepId: step.id,
+        path: filePath,
+        imports: violations.map(violation => `${violation.specifier}:${violation.line}`),
+      });
+      throw new Error(formatViolationReport(filePath, violations));
     }
   }
 
-  private async handleRefactorFileStep(step: Step): Promise<void> {
-    const { path, template = '' } = step;
-    if (!path) throw new Error("Refactor file step is missing 'path'.");
+  /**
+   * Apply the <<<REPLACE>>>/<<<WITH>>> blocks and TypeScript operations of a refactor step
+   * Does not touch disk, so it is shared by the real handler and the dry-run preview
+   */
+  private async computeRefactoredContent(step: Step, fileContent: string): Promise<string> {
+    const { path = '', template = '' } = step;
+    const operations = step.operations || [];
 
-    console.log(chalk.cyan(`   🔧 Refactoring file: ${path}`));
+    let newFileContent = fileContent;
 
-    const replaceMatch = template.match(/<<<REPLACE>>>(.*?)<<<\/REPLACE>>>/s);
-    const withMatch = template.match(/<<<WITH>>>(.*?)<<<\/WITH>>>/s);
+    // Text blocks first, then TypeScript-aware operations on the result
+    if (template.trim() || operations.length === 0) {
+      newFileContent = applyRefactorBlocks(newFileContent, parseRefactorBlocks(template, step.id), path);
+    }
+    if (operations.length > 0) {
+      newFileContent = await applyRefactorOperations(newFileContent, operations, path);
+    }
 
-    if (!replaceMatch || !withMatch) {
-      throw new Error(`Invalid refactor template for step ${step.id}. Missing <<<REPLACE>>> or <<<WITH>>> blocks.`);
+    if (newFileContent === fileContent) {
+      throw new Error(`Refactoring of ${path} produced no changes.`);
     }
 
-    const oldCode = replaceMatch[1].trim();
-    const newCode = withMatch[1].trim();
+    return newFileContent;
+  }
 
-    if (!await fs.pathExists(path)) {
-      throw new Error(`File to refactor does not exist at path: ${path}`);
-    }
-    const fileContent = await fs.readFile(path, 'utf-8');
+  /**
+   * Apply the unified diff of a patch step to the files it names
+   * Reads through `readCurrent`, so it is shared by the real handler and the dry-run preview
+   * @returns Content before and after the patch for each file, null when the file is absent or deleted
+   * @throws {Error} Listing every hunk that did not apply
+   */
+  private async computePatchedFiles(
+    step: Step,
+    readCurrent: (filePath: string) => Promise<string | null>
+  ): Promise<Array<{ path: string; current: string | null; next: string | null }>> {
+    const originals = new Map<string, string | null>();
+    const patched = new Map<string, string | null>();
+    const read = async (filePath: string): Promise<string | null> => {
+      if (patched.has(filePath)) return patched.get(filePath) ?? null;
+      if (!originals.has(filePath)) originals.set(filePath, await readCurrent(filePath));
+      return originals.get(filePath) ?? null;
+    };
 
-    const newFileContent = fileContent.replace(oldCode, newCode);
+    const failures: string[] = [];
+    for (const filePatch of parsePatch(step.template || '', step.path)) {
+      const sourcePath = filePatch.oldPath ?? filePatch.newPath!;
+      const current = filePatch.oldPath === null ? await read(sourcePath) : await read(filePatch.oldPath);
+      if (filePatch.oldPath !== null && current === null) {
+        throw new Error(`File to patch does not exist at path: ${filePatch.oldPath}`);
+      }
 
-    if (newFileContent === fileContent) {
-      throw new Error(`Could not find the OLD code block in ${path}. Refactoring failed.`);
+      const result = applyFilePatch(current, filePatch);
+      if (result.hunks.some(hunk => !hunk.applied)) {
+        failures.push(formatHunkFailures(sourcePath, result.hunks));
+        continue;
+      }
+      for (const hunk of result.hunks.filter(hunk => hunk.offset !== 0 || hunk.fuzz > 0)) {
+        this.output.info(chalk.gray(`   ↕️  ${sourcePath}: hunk ${hunk.index} applied with offset ${hunk.offset} and fuzz ${hunk.fuzz}`));
+      }
+
+      // A rename reads the old path and writes the new one
+      if (filePatch.oldPath !== null && filePatch.newPath !== null && filePatch.oldPath !== filePatch.newPath) {
+        await read(filePatch.newPath);
+        patched.set(filePatch.oldPath, null);
+      }
+      patched.set(filePatch.newPath ?? sourcePath, result.content);
     }
 
-    await fs.writeFile(path, newFileContent);
-    console.log(chalk.green(`   ✅ Successfully applied refactoring to ${path}`));
+    if (failures.length > 0) {
+      throw new Error(failures.join('\n'));
+    }
+
+    return [...patched].map(([filePath, next]) => ({ path: filePath, current: originals.get(filePath) ?? null, next }));
   }
 
+
   private async handleBranchStep(step: Step): Promise<void> {
     const branchName = step.action?.branch_name;
     if (!branchName) {
       throw new Error("Branch step is missing 'action.branch_name'.");
     }
 
-    console.log(chalk.cyan(`   🌿 Managing branch: ${branchName}`));
-    console.log(chalk.blue(`   📝 Branch configuration validated. Will be created/checked out by validation script.`));
+    this.output.info(chalk.cyan(`   🌿 Managing branch: ${branchName}`));
+    this.output.info(chalk.blue(`   📝 Branch configuration validated. Will be created/checked out by validation script.`));
   }
 
   private async handlePullRequestStep(step: Step): Promise<void> {
@@ -1276,13 +3233,13 @@ class EnhancedStepExecutor {
       throw new Error("Pull request step is missing required 'action.target_branch' or 'action.source_branch'.");
     }
 
-    console.log(chalk.cyan(`   🔄 Preparing pull request from ${source_branch} to ${target_branch}`));
+    this.output.info(chalk.cyan(`   🔄 Preparing pull request from ${source_branch} to ${target_branch}`));
 
     if (title) {
-      console.log(chalk.blue(`   📋 PR Title: ${title}`));
+      this.output.info(chalk.blue(`   📋 PR Title: ${title}`));
     }
 
-    console.log(chalk.blue(`   📝 PR configuration validated. Will be created by validation script.`));
+    this.output.info(chalk.blue(`   📝 PR configuration validated. Will be created by validation script.`));
   }
 
   private getScoreEmoji(score: number): string {
@@ -1318,154 +3275,235 @@ class EnhancedStepExecutor {
   }
 
   /**
-   * Parse and extract specific errors from lint/test output
+   * Errors of each failed gate, by gate name (empty for the gates that passed)
    */
-  private parseQualityCheckErrors(output: string, type: 'lint' | 'test'): string[] {
-    const errors: string[] = [];
-    const lines = output.split('\n');
+  private getQualityGateErrors(result: QualityCheckResult): Record<string, string[]> {
+    const parsers = new Map(this.getQualityGates().map(gate => [gate.name, gate.parser]));
+    return Object.fromEntries(result.gates.map(gate => [
+      gate.name,
+      gate.passed ? [] : gate.issues?.map(formatQualityIssue) ?? parseGateErrors(gate.output || '', parsers.get(gate.name) || 'text'),
+    ]));
+  }
 
-    if (type === 'lint') {
-      // Parse ESLint/TSLint errors
-      for (const line of lines) {
-        // Match pattern: file:line:col error message
-        if (line.match(/^\s*\d+:\d+\s+(error|warning)/)) {
-          errors.push(line.trim());
-        }
-        // Match pattern: /path/file.ts
-        if (line.match(/^\/.*\.(ts|js|tsx|jsx)$/)) {
-          errors.push(line.trim());
-        }
-      }
-    } else if (type === 'test') {
-      // Parse test failures
-      let inFailure = false;
-      for (const line of lines) {
-        // Vitest/Jest failure patterns
-        if (line.match(/FAIL|✕|×|failed/i)) {
-          inFailure = true;
-          errors.push(line.trim());
-        } else if (inFailure && line.trim()) {
-          errors.push(line.trim());
-          if (errors.length >= 10) break; // Limit to 10 lines
-        } else if (line.match(/Tests:.*failed/i)) {
-          errors.push(line.trim());
-        }
-      }
+  /**
+   * Issues of the failed gates each step is responsible for, by gate name
+   */
+  private attributeQualityIssues(result: QualityCheckResult, steps: Step[]): Record<string, QualityIssue[]>[] {
+    const stepFiles = steps.map(step => this.getTargetPaths(step));
+    const issuesByStep = steps.map(() => ({} as Record<string, QualityIssue[]>));
+
+    for (const gate of result.gates) {
+      if (gate.passed || !gate.issues) continue;
+      attributeQualityIssues(gate.issues, stepFiles).forEach((issues, index) => {
+        if (issues.length > 0) issuesByStep[index][gate.name] = issues;
+      });
     }
+    return issuesByStep;
+  }
 
-    return errors.slice(0, 10); // Limit to 10 most relevant errors
+  /**
+   * Execution log sections of the failed gates: the step's issues for gates with a
+   * JSON report, the errors parsed from the output for the others
+   */
+  private formatQualityGateFailures(
+    result: QualityCheckResult,
+    gateErrors: Record<string, string[]>,
+    issues: Record<string, QualityIssue[]>
+  ): string {
+    return result.gates
+      .filter(gate => !gate.passed)
+      .map(gate => {
+        if (gate.issues) {
+          return issues[gate.name] ? `\n\n${formatQualityIssueLog(gate.name, issues[gate.name])}` : '';
+        }
+        return gateErrors[gate.name].length > 0 ? `\n\n--- ${gate.name.toUpperCase()} ERRORS ---\n${gateErrors[gate.name].join('\n')}` : '';
+      })
+      .join('');
   }
 
   /**
-   * Run quality checks (lint and test) based on configuration
-   * Runs checks in parallel for better performance
-   * Includes error boundary to prevent execution crashes
+   * One line per gate, e.g. "lint: ✅, typecheck: ❌, format: ❌ (optional)"
+   */
+  private formatQualityGateStatus(result: QualityCheckResult, separator: string): string {
+    return result.gates
+      .map(gate => `${gate.name}: ${gate.passed ? '✅' : '❌'}${gate.required ? '' : ' (optional)'}`)
+      .join(separator);
+  }
+
+  /**
+   * Gates configured in execute.yml; an invalid gate is reported as a failed check
    */
-  private async runQualityChecks(): Promise<QualityCheckResult> {
+  private getQualityGates(): QualityGate[] {
     try {
-      const checks: Promise<{ type: 'lint' | 'test'; passed: boolean; output: string }>[] = [];
+      return resolveQualityGates(this.commitConfig.qualityChecks);
+    } catch {
+      return [];
+    }
+  }
 
-      // Detect package manager for commands
-      const pm = await this.detectPackageManager();
-      console.log(chalk.gray(`   ℹ️  Using package manager: ${pm}`));
+  /**
+   * Get the command running a gate: its package.json script, or a binary of the project
+   * In incremental mode lint and test get the changed files instead
+   * @returns The command, and whether it asks the tool for its JSON report
+   */
+  private async getQualityGateCommand(gate: QualityGate, files?: string[]): Promise<{ command: string; args: string[]; jsonReporter: boolean }> {
+    // 'auto' only adds the reporter options when they reach the tool itself
+    const getReporterArgs = (commandLine: string) => {
+      const jsonReporter = gate.jsonReporter === 'auto' ? runsGateTool(commandLine, gate.parser) : gate.jsonReporter;
+      return jsonReporter ? JSON_REPORTER_ARGS[gate.parser] || [] : [];
+    };
+    const execFiles = async (commandLine: string, fileArgs: string[]) => {
+      const reporterArgs = getReporterArgs(commandLine);
+      return { ...await this.getPackageManagerExecCommand(commandLine, [...reporterArgs, ...fileArgs]), jsonReporter: reporterArgs.length > 0 };
+    };
 
-    // Run lint if enabled
-    if (this.commitConfig.qualityChecks.lint) {
-      console.log(chalk.blue('   🔍 Running lint check...'));
-      checks.push(
-        (async () => {
-          try {
-            $.verbose = false;
-            const scriptName = this.commitConfig.qualityChecks.lintCommand || 'lint';
-            const { command, args } = await this.getPackageManagerCommand(scriptName);
-            const lintResult = await $`${[command, ...args]}`;
-            $.verbose = true;
-            console.log(chalk.green('   ✅ Lint check passed'));
-            return { type: 'lint' as const, passed: true, output: lintResult.stdout + lintResult.stderr };
-          } catch (error) {
-            $.verbose = true;
-            const output = extractCommandOutput(error);
-            console.log(chalk.red('   ❌ Lint check failed'));
-
-            // Parse and display specific errors
-            const errors = this.parseQualityCheckErrors(output, 'lint');
-            if (errors.length > 0) {
-              console.log(chalk.red('   📋 Lint errors:'));
-              errors.forEach(err => console.log(chalk.red(`      ${err}`)));
-            }
+    if (files && gate.name === 'lint') {
+      return execFiles(this.commitConfig.qualityChecks.lintFilesCommand || 'eslint', files);
+    }
+    if (files && gate.name === 'test') {
+      return execFiles(this.commitConfig.qualityChecks.relatedTestsCommand || 'vitest related --run', files);
+    }
 
-            return { type: 'lint' as const, passed: false, output };
-          }
-        })()
-      );
+    const [scriptName] = gate.command.split(/\s+/);
+    const packageJson = await fs.readJson('package.json').catch(() => ({}));
+    const script: unknown = packageJson.scripts?.[scriptName];
+    if (typeof script !== 'string') {
+      return execFiles(gate.command, []);
     }
 
-    // Run tests if enabled
-    if (this.commitConfig.qualityChecks.test) {
-      console.log(chalk.blue('   🧪 Running tests...'));
-      checks.push(
-        (async () => {
-          try {
-            $.verbose = false;
-            const scriptName = this.commitConfig.qualityChecks.testCommand || 'test --run';
-            const { command, args } = await this.getPackageManagerCommand(scriptName);
-            const testResult = await $`${[command, ...args]}`;
-            $.verbose = true;
-            console.log(chalk.green('   ✅ Tests passed'));
-            return { type: 'test' as const, passed: true, output: testResult.stdout + testResult.stderr };
-          } catch (error) {
-            $.verbose = true;
-            const output = extractCommandOutput(error);
-            console.log(chalk.red('   ❌ Tests failed'));
-
-            // Parse and display specific failures
-            const errors = this.parseQualityCheckErrors(output, 'test');
-            if (errors.length > 0) {
-              console.log(chalk.red('   📋 Test failures:'));
-              errors.forEach(err => console.log(chalk.red(`      ${err}`)));
-            }
+    // npm only forwards script arguments placed after `--`
+    const reporterArgs = getReporterArgs(script);
+    const { command, args } = await this.getPackageManagerCommand(gate.command);
+    const separator = command === 'npm' && !args.includes('--') && reporterArgs.length > 0 ? ['--'] : [];
+    return { command, args: [...args, ...separator, ...reporterArgs], jsonReporter: reporterArgs.length > 0 };
+  }
 
-            return { type: 'test' as const, passed: false, output };
-          }
-        })()
-      );
-    }
+  /**
+   * Run one quality gate within its timeout
+   * A tool rejecting its JSON reporter options runs again with its plain output
+   */
+  private async runQualityGate(gate: QualityGate, files?: string[]): Promise<QualityGateResult> {
+    const scope = files && (gate.name === 'lint' || gate.name === 'test') ? ` on ${files.length} changed file(s)` : '';
+    this.output.info(chalk.blue(`   🔍 Running ${gate.name} gate${scope}...`));
 
-    // Wait for all checks to complete
-    const results = await Promise.allSettled(checks);
+    let jsonReporter = false;
+    try {
+      $.verbose = false;
+      const gateCommand = await this.getQualityGateCommand(gate, files);
+      jsonReporter = gateCommand.jsonReporter;
+      const result = await $({ cwd: process.cwd(), timeout: gate.timeoutMs })`${[gateCommand.command, ...gateCommand.args]}`;
+      this.output.info(chalk.green(`   ✅ ${gate.name} gate passed`));
+      return { name: gate.name, passed: true, required: gate.required, output: result.stdout + result.stderr, maxScore: gate.maxScore };
+    } catch (error) {
+      const output = extractCommandOutput(error);
 
-    // Process results
-    let lintPassed = true;
-    let lintOutput = '';
-    let testPassed = true;
-    let testOutput = '';
+      // Prefer the JSON report, and fall back to the human-readable output
+      const issues = jsonReporter ? parseGateReport(output, gate.parser) : undefined;
+      if (jsonReporter && !issues && isRejectedOptionOutput(output)) {
+        this.output.info(chalk.gray(`   ℹ️  The ${gate.name} command does not take the JSON reporter options: running it without them`));
+        return this.runQualityGate({ ...gate, jsonReporter: false }, files);
+      }
 
-      for (const result of results) {
-        if (result.status === 'fulfilled') {
-          if (result.value.type === 'lint') {
-            lintPassed = result.value.passed;
-            lintOutput = result.value.output;
-          } else if (result.value.type === 'test') {
-            testPassed = result.value.passed;
-            testOutput = result.value.output;
-          }
-        }
+      const failure = gate.required ? chalk.red : chalk.yellow;
+      this.output.info(failure(`   ❌ ${gate.name} gate failed${gate.required ? '' : ' (optional)'}`));
+      const errors = issues ? issues.slice(0, 10).map(formatQualityIssue) : parseGateErrors(output, gate.parser);
+      if (errors.length > 0) {
+        this.output.info(failure(`   📋 ${gate.name} errors:`));
+        errors.forEach(err => this.output.info(failure(`      ${err}`)));
       }
 
-      return createQualityCheckResult(lintPassed, testPassed, lintOutput, testOutput);
+      return { name: gate.name, passed: false, required: gate.required, output, maxScore: gate.maxScore, ...(issues && { issues }) };
+    } finally {
+      $.verbose = true;
+    }
+  }
+
+  /**
+   * Run the quality gates (lint, test and the configured ones) based on configuration
+   * Runs gates in parallel for better performance
+   * Includes error boundary to prevent execution crashes
+   */
+  private async runQualityChecks(options: { skipTests?: boolean; files?: string[] } = {}): Promise<QualityCheckResult> {
+    try {
+      // Detect package manager for commands
+      const pm = await this.detectPackageManager();
+      this.output.info(chalk.gray(`   ℹ️  Using package manager: ${pm}`));
+
+      // Incremental checks limit lint and test to the changed JS/TS files; the other gates check the project
+      const files = options.files && selectCheckableFiles(options.files);
+      const getGateFiles = (gate: QualityGate) => (gate.name === 'lint' ? files?.lint : gate.name === 'test' ? files?.test : undefined);
+
+      const gates = resolveQualityGates(this.commitConfig.qualityChecks)
+        .filter(gate => !(options.skipTests && gate.name === 'test'))
+        .filter(gate => {
+          if (getGateFiles(gate)?.length !== 0) return true;
+          this.output.info(chalk.gray(`   ⏭️  No changed JavaScript or TypeScript files: skipping the ${gate.name} gate`));
+          return false;
+        });
+
+      return createQualityCheckResult(await Promise.all(gates.map(gate => this.runQualityGate(gate, getGateFiles(gate)))));
     } catch (error) {
       // Error boundary: If quality checks crash, treat as failed
       const message = error instanceof Error ? error.message : String(error);
-      console.log(chalk.red(`   ❌ Quality checks crashed: ${message}`));
-      console.log(chalk.yellow('   ℹ️  Treating as failed quality check'));
-
-      const errMsg = error instanceof Error ? error.message : String(error);
-      return createQualityCheckResult(
-        false,
-        false,
-        `Quality check system error: ${errMsg}`,
-        `Quality check system error: ${errMsg}`
-      );
+      this.output.info(chalk.red(`   ❌ Quality checks crashed: ${message}`));
+      this.output.info(chalk.yellow('   ℹ️  Treating as failed quality check'));
+
+      const output = `Quality check system error: ${message}`;
+      const gates = this.getQualityGates();
+      return createQualityCheckResult(gates.length > 0
+        ? gates.map(gate => ({ name: gate.name, passed: false, required: true, output, maxScore: gate.maxScore }))
+        : [{ name: 'quality_checks', passed: false, required: true, output, maxScore: -1 }]);
+    }
+  }
+
+  /**
+   * Files the steps wrote, for incremental checks: their paths, the files named by a
+   * patch and every file a move touched, deleted ones included
+   * Uncommitted work of the user is left out; git is only asked when a step names no
+   * file (e.g. a plugin step without `paths`)
+   */
+  private async getStepChangedFiles(steps: Step[]): Promise<string[] | undefined> {
+    const writtenPaths = steps.map(step => this.getWrittenPaths(step));
+    // Folder steps only create directories
+    if (writtenPaths.some((paths, index) => paths.length === 0 && steps[index].type !== 'folder')) {
+      return this.getChangedFiles();
+    }
+    return [...new Set(writtenPaths.flat().map(filePath => path.normalize(filePath)))].sort();
+  }
+
+  /**
+   * Files changed since the last commit according to git: modified, staged or untracked
+   * @returns undefined when git cannot tell (e.g. no commit yet), so the full checks run
+   */
+  private async getChangedFiles(): Promise<string[] | undefined> {
+    try {
+      const tracked = await this.git.run(['diff', '--name-only', 'HEAD']);
+      const untracked = await this.git.run(['ls-files', '--others', '--exclude-standard']);
+      return parseChangedFiles(tracked, untracked).filter(filePath => !isStateFile(filePath));
+    } catch {
+      this.output.info(chalk.yellow('   ⚠️  Could not list changed files, running the full quality checks'));
+      return undefined;
+    }
+  }
+
+  /**
+   * Run the full quality gates once the steps of the layer are committed
+   * Incremental checks only looked at the files of each step, not at how they fit together
+   * @throws {ExecutionError} If the checks fail (the step commits are kept)
+   */
+  private async runLayerEndChecks(): Promise<void> {
+    const { mode, fullSuiteAtLayerEnd } = this.commitConfig.qualityChecks;
+    if (mode !== 'incremental' || fullSuiteAtLayerEnd === false || this.commitHashes.length === 0) {
+      return;
+    }
+
+    this.output.info(chalk.blue.bold('\n🔍 Running the full quality checks at the end of the layer...'));
+    const result = await this.runQualityChecks();
+    this.emit('qualityCheck', { steps: [], result, errors: this.getQualityGateErrors(result) });
+
+    if (!result.overallPassed) {
+      this.output.error(chalk.red('❌ The full quality checks failed: the step commits are kept, fix the issues and commit the fix'));
+      throw new ExecutionError(`Full quality checks failed at the end of the layer (${this.formatQualityGateStatus(result, ', ')})`);
     }
   }
 
@@ -1475,7 +3513,7 @@ class EnhancedStepExecutor {
   private async commitStep(step: Step, stepId: string): Promise<void> {
     // Check if this step type should be committed
     if (!shouldCommitStep(step.type, this.commitConfig)) {
-      console.log(chalk.gray(`   ⏭️  Step type '${step.type}' does not require commit`));
+      this.output.info(chalk.gray(`   ⏭️  Step type '${step.type}' does not require commit`));
       return;
     }
 
@@ -1483,12 +3521,12 @@ class EnhancedStepExecutor {
     const commitMessage = generateCommitMessage(
       step.type,
       step.id || stepId,
-      step.path,
+      this.getTargetPaths(step)[0],
       this.commitConfig
     );
 
     if (!commitMessage) {
-      console.log(chalk.gray(`   ⏭️  No commit message generated for step`));
+      this.output.info(chalk.gray(`   ⏭️  No commit message generated for step`));
       return;
     }
 
@@ -1497,28 +3535,32 @@ class EnhancedStepExecutor {
       await this.rateLimitGitOperation();
 
       // Verify git index is clean before staging
-      const cachedResult = await $`git diff --cached --name-only`;
-      const alreadyStaged = cachedResult.stdout.trim().split('\n').filter(f => f.length > 0);
+      const cachedOutput = await this.git.run(['diff', '--cached', '--name-only']);
+      const alreadyStaged = cachedOutput.trim().split('\n').filter(f => f.length > 0);
 
       if (alreadyStaged.length > 0) {
-        console.log(chalk.yellow('   ⚠️  Warning: Git index has staged changes from previous operations'));
-        console.log(chalk.gray(`   📋 Staged files: ${alreadyStaged.join(', ')}`));
+        this.output.info(chalk.yellow('   ⚠️  Warning: Git index has staged changes from previous operations'));
+        this.output.info(chalk.gray(`   📋 Staged files: ${alreadyStaged.join(', ')}`));
       }
 
       // Add files to git - be specific about what to stage
-      console.log(chalk.blue('   📝 Staging changes...'));
-      if (step.path && fs.existsSync(step.path)) {
+      this.output.info(chalk.blue('   📝 Staging changes...'));
+      const writtenPaths = this.getWrittenPaths(step);
+      const stepPaths = writtenPaths.filter(filePath => fs.existsSync(filePath));
+      if (stepPaths.length > 0) {
         // Rate limit before staging
         await this.rateLimitGitOperation();
-        // Stage the specific file from the step
-        await $`git add ${step.path}`;
+        // Stage the specific files from the step
+        await this.git.run(['add', ...stepPaths]);
+        // A move also stages the removal of the old paths
+        const removedPaths = step.type === 'move_file' ? writtenPaths.filter(filePath => !stepPaths.includes(filePath)) : [];
+        if (removedPaths.length > 0) {
+          await this.git.run(['rm', '--cached', '--quiet', '--ignore-unmatch', '--', ...removedPaths]);
+        }
       } else {
         // For non-file steps (like folder), check git status and stage tracked files
-        const statusResult = await $`git status --porcelain`;
-        const changedFiles = statusResult.stdout
-          .split('\n')
-          .filter(line => line.trim())
-          .map(line => line.substring(3).trim());
+        const statusOutput = await this.git.run(['status', '--porcelain']);
+        const changedFiles = parsePorcelainPaths(statusOutput).filter(filePath => !isStateFile(filePath));
 
         if (changedFiles.length > 0) {
           // Batch check file existence for performance
@@ -1526,28 +3568,28 @@ class EnhancedStepExecutor {
 
           if (existingFiles.length > 0) {
             // Stage all existing files in one command
-            await $`git add ${existingFiles}`;
+            await this.git.run(['add', ...existingFiles]);
           }
         }
       }
 
       // Commit with generated message
-      console.log(chalk.blue('   💾 Creating commit...'));
-      await $`git commit -m ${commitMessage}`;
+      this.output.info(chalk.blue('   💾 Creating commit...'));
+      await this.git.run(['commit', '-m', commitMessage]);
 
       // Get the commit hash
-      const hashResult = await $`git rev-parse --short HEAD`;
-      const commitHash = hashResult.stdout.trim();
+      const commitHash = (await this.git.run(['rev-parse', '--short', 'HEAD'])).trim();
       this.commitHashes.push(commitHash);
+      this.emit('commit', { step: this.toExecutedStep(step), hash: commitHash, message: commitMessage });
 
-      console.log(chalk.green(`   ✅ Committed: ${commitHash}`));
-      console.log(chalk.gray(`   📋 ${commitMessage.split('\n')[0]}`));
+      this.output.info(chalk.green(`   ✅ Committed: ${commitHash}`));
+      this.output.info(chalk.gray(`   📋 ${commitMessage.split('\n')[0]}`));
     } catch (error) {
       // If commit fails, it might be because there are no changes or other git issues
       const errorMsg = extractErrorMessage(error, 'Unknown git error');
 
       if (errorMsg.includes('nothing to commit')) {
-        console.log(chalk.yellow('   ⚠️  No changes to commit'));
+        this.output.info(chalk.yellow('   ⚠️  No changes to commit'));
       } else {
         throw new Error(`Git commit failed: ${errorMsg}`);
       }
@@ -1586,7 +3628,7 @@ class EnhancedStepExecutor {
 
         if (attempt < maxRetries) {
           const delayMs = TIMING.GIT_RETRY_DELAY * Math.pow(2, attempt - 1);
-          console.log(
+          this.output.info(
             chalk.yellow(
               `   ⏳ ${operationName} failed (attempt ${attempt}/${maxRetries}), retrying in ${delayMs}ms...`
             )
@@ -1606,9 +3648,10 @@ class EnhancedStepExecutor {
    * Only rolls back files modified by this step, preserving user's uncommitted changes
    * Verifies git state hasn't changed to prevent unsafe rollbacks
    * Uses retry logic with exponential backoff for transient git failures
+   * @param snapshot - Files of the step before it ran; without it, step paths are restored from HEAD
    */
-  private async rollbackStep(step: Step): Promise<void> {
-    console.log(chalk.yellow('   🔄 Rolling back changes...'));
+  private async rollbackStep(step: Step, snapshot?: FileSnapshot[]): Promise<void> {
+    this.output.info(chalk.yellow('   🔄 Rolling back changes...'));
 
     // Audit log: Rollback initiated
     this.logAuditEvent('rollback_started', {
@@ -1621,10 +3664,7 @@ class EnhancedStepExecutor {
       // Verify git state hasn't been manually modified since step start
       if (this.lastKnownCommitHash) {
         const currentHash = await this.retryGitOperation(
-          async () => {
-            const result = await $`git rev-parse HEAD`;
-            return result.stdout.trim();
-          },
+          async () => (await this.git.run(['rev-parse', 'HEAD'])).trim(),
           'Git state verification'
         );
 
@@ -1639,48 +3679,66 @@ class EnhancedStepExecutor {
       // Get list of files staged for commit (files modified by this step)
       const stagedFiles = await this.retryGitOperation(
         async () => {
-          const result = await $`git diff --cached --name-only`;
-          return result.stdout.trim().split('\n').filter(f => f.length > 0);
+          const output = await this.git.run(['diff', '--cached', '--name-only']);
+          return output.trim().split('\n').filter(f => f.length > 0);
         },
         'Get staged files'
       );
 
       // Reset staged changes first
       await this.retryGitOperation(
-        async () => await $`git reset HEAD`,
+        async () => await this.git.run(['reset', 'HEAD']),
         'Reset staged changes'
       );
 
-      // Handle the specific step path
-      if (step.path) {
-        const fileExists = fs.existsSync(step.path);
+      // A move touches files across the project: put each one back as it was
+      const writtenPaths = this.getWrittenPaths(step);
+      const moveSnapshot = this.moveSnapshots.get(step.id);
+      this.moveSnapshots.delete(step.id);
+      if (moveSnapshot) {
+        await this.restoreFiles(moveSnapshot);
+        this.output.info(chalk.yellow(`   ↩️  Restored ${moveSnapshot.length} file(s) touched by the move`));
+      }
+
+      // Files are not staged before they are committed: put the step's files back from
+      // its snapshot, which also keeps edits the user had not committed
+      if (snapshot && snapshot.length > 0) {
+        await this.restoreFiles(snapshot);
+        this.output.info(chalk.yellow(`   ↩️  Restored ${snapshot.length} file(s) as they were before the step`));
+      }
+
+      // Handle the specific step paths the snapshot does not cover
+      const snapshotPaths = new Set((snapshot || []).map(file => file.path));
+      const stepPaths = moveSnapshot ? [] : this.getTargetPaths(step).filter(stepPath => !snapshotPaths.has(stepPath));
+      for (const stepPath of stepPaths) {
+        const fileExists = fs.existsSync(stepPath);
 
         if (fileExists) {
           // Check if this file existed in the last commit
           try {
             await this.retryGitOperation(
-              async () => await $`git cat-file -e HEAD:${step.path}`,
+              async () => await this.git.run(['cat-file', '-e', `HEAD:${stepPath}`]),
               'Check file existence in HEAD'
             );
             // File existed before - restore it from git (only if it was staged)
-            if (stagedFiles.includes(step.path)) {
+            if (stagedFiles.includes(stepPath)) {
               await this.retryGitOperation(
-                async () => await $`git checkout HEAD -- ${step.path}`,
+                async () => await this.git.run(['checkout', 'HEAD', '--', stepPath]),
                 'Restore file from HEAD'
               );
-              console.log(chalk.yellow(`   ↩️  Restored ${step.path} from last commit`));
+              this.output.info(chalk.yellow(`   ↩️  Restored ${stepPath} from last commit`));
             }
           } catch {
             // File did not exist before - it's new, remove it
-            await fs.remove(step.path);
-            console.log(chalk.yellow(`   ↩️  Removed newly created ${step.path}`));
+            await fs.remove(stepPath);
+            this.output.info(chalk.yellow(`   ↩️  Removed newly created ${stepPath}`));
           }
         }
       }
 
       // Restore only files that were staged (modified by this step)
-      // Exclude the step.path since we already handled it
-      const filesToRestore = stagedFiles.filter(f => f !== step.path);
+      // Exclude the step paths since we already handled them
+      const filesToRestore = stagedFiles.filter(f => !writtenPaths.includes(f));
 
       if (filesToRestore.length > 0) {
         // Separate files into: existing in HEAD vs new files
@@ -1691,7 +3749,7 @@ class EnhancedStepExecutor {
           try {
             // Check if file exists in HEAD
             await this.retryGitOperation(
-              async () => await $`git cat-file -e HEAD:${file}`,
+              async () => await this.git.run(['cat-file', '-e', `HEAD:${file}`]),
               `Check file ${file} in HEAD`
             );
             filesToCheckout.push(file);
@@ -1703,10 +3761,10 @@ class EnhancedStepExecutor {
         // Batch restore files that exist in HEAD
         if (filesToCheckout.length > 0) {
           await this.retryGitOperation(
-            async () => await $`git checkout HEAD -- ${filesToCheckout}`,
+            async () => await this.git.run(['checkout', 'HEAD', '--', ...filesToCheckout]),
             'Restore files from HEAD'
           );
-          console.log(chalk.gray(`   ↩️  Restored ${filesToCheckout.length} file(s) from HEAD`));
+          this.output.info(chalk.gray(`   ↩️  Restored ${filesToCheckout.length} file(s) from HEAD`));
         }
 
         // Remove new files (batch check existence first)
@@ -1716,22 +3774,25 @@ class EnhancedStepExecutor {
             await fs.remove(file);
           }
           if (existingFilesToRemove.length > 0) {
-            console.log(chalk.gray(`   ↩️  Removed ${existingFilesToRemove.length} new file(s)`));
+            this.output.info(chalk.gray(`   ↩️  Removed ${existingFilesToRemove.length} new file(s)`));
           }
         }
       }
 
-      console.log(chalk.green('   ✅ Rollback complete'));
+      await this.stepTypes.get(step.type)?.rollback?.(step as unknown as PluginStep, this.getStepTypeContext());
+
+      this.output.info(chalk.green('   ✅ Rollback complete'));
 
       // Audit log: Rollback completed successfully
       this.logAuditEvent('rollback_success', {
         stepId: step.id,
         stepType: step.type,
       });
+      this.emit('rollback', { step: this.toExecutedStep(step), success: true });
     } catch (error) {
       const message = error instanceof Error ? error.message : String(error);
-      console.log(chalk.red(`   ⚠️  Rollback failed: ${message}`));
-      console.log(chalk.yellow('   ℹ️  Manual cleanup may be required'));
+      this.output.info(chalk.red(`   ⚠️  Rollback failed: ${message}`));
+      this.output.info(chalk.yellow('   ℹ️  Manual cleanup may be required'));
 
       // Audit log: Rollback failed
       this.logAuditEvent('rollback_failed', {
@@ -1739,44 +3800,90 @@ class EnhancedStepExecutor {
         stepType: step.type,
         error: message,
       });
+      this.emit('rollback', { step: this.toExecutedStep(step), success: false });
     }
   }
 
-  private async runValidationScript(scriptContent: string, stepId: string): Promise<string> {
+  /**
+   * Run a validation script under the script policy (timeout, env allowlist,
+   * cwd confined to the project root, output cap and command denylist)
+   * Policy violations are recorded in the audit log
+   */
+  private async runValidationScript(
+    scriptContent: string,
+    stepId: string,
+    options: { timeoutMs?: number; workingDirectory?: string; signal?: AbortSignal } = {}
+  ): Promise<string> {
     this.logger.log(`--- Running validation script for '${stepId}' ---`);
 
+    const policy: ScriptPolicy = {
+      ...this.scriptPolicy,
+      timeoutMs: options.timeoutMs ?? this.scriptPolicy.timeoutMs,
+    };
+
+    const denied = findDeniedCommands(scriptContent, policy.deniedCommands);
+    if (denied.length > 0) {
+      this.logAuditEvent('validation_script_denied', { stepId, commands: denied });
+      throw new Error(`Validation script for '${stepId}' uses denied command(s): ${denied.join(', ')}`);
+    }
+
+    let cwd: string;
+    try {
+      cwd = resolveScriptCwd(process.cwd(), options.workingDirectory);
+    } catch (error) {
+      this.logAuditEvent('validation_script_cwd_rejected', { stepId, workingDirectory: options.workingDirectory });
+      throw error;
+    }
+
     const tempScriptPath = path.join(os.tmpdir(), `step-${crypto.randomUUID()}.sh`);
-    let fullOutput = '';
+    const controller = new AbortController();
+    const abort = () => controller.abort();
+    if (options.signal?.aborted) {
+      abort();
+    } else {
+      options.signal?.addEventListener('abort', abort, { once: true });
+    }
+    this.activeScripts.add(controller);
 
     try {
       const normalizedScript = scriptContent.replace(/\r\n/g, '\n');
       await fs.writeFile(tempScriptPath, normalizedScript);
       await fs.chmod(tempScriptPath, '755');
 
-      $.verbose = false;
-      const processPromise = $`bash ${tempScriptPath}`;
-
-      processPromise.stdout.on('data', (chunk) => {
-        const data = chunk.toString();
-        this.logger.log(data.trim());
-        fullOutput += data;
-      });
-      processPromise.stderr.on('data', (chunk) => {
-        const data = chunk.toString();
-        this.logger.error(data.trim());
-        fullOutput += data;
+      const result = await runSandboxedScript(tempScriptPath, policy, {
+        cwd,
+        signal: controller.signal,
+        onOutput: (chunk, stream) => {
+          if (stream === 'stdout') {
+            this.logger.log(chunk.trim());
+          } else {
+            this.logger.error(chunk.trim());
+          }
+        },
       });
 
-      await processPromise;
+      if (result.truncated) {
+        this.logAuditEvent('validation_script_output_truncated', { stepId, maxOutputSize: policy.maxOutputSize });
+      }
 
-      $.verbose = true;
-      this.logger.log(`--- Script finished successfully ---`);
-      return fullOutput;
+      if (result.timedOut) {
+        this.logAuditEvent('validation_script_timeout', { stepId, timeoutMs: policy.timeoutMs });
+        throw new Error(`Validation script for '${stepId}' timed out after ${policy.timeoutMs}ms\n${result.output}`);
+      }
 
-    } catch (error) {
-      $.verbose = true;
-      throw error;
+      if (result.aborted) {
+        throw new Error(`Validation script for '${stepId}' was aborted\n${result.output}`);
+      }
+
+      if (result.exitCode !== 0) {
+        throw new Error(`Validation script for '${stepId}' failed with exit code ${result.exitCode}\n${result.output}`);
+      }
+
+      this.logger.log(`--- Script finished successfully ---`);
+      return result.output;
     } finally {
+      options.signal?.removeEventListener('abort', abort);
+      this.activeScripts.delete(controller);
       if (await fs.pathExists(tempScriptPath)) {
         await fs.remove(tempScriptPath);
       }
@@ -1784,8 +3891,25 @@ class EnhancedStepExecutor {
   }
 }
 
+/**
+ * Tell the user an execution lock left by another run is being removed
+ */
+function warnLockTakeOver(holder: LockHolder | null, reason: string, output: OutputAdapter = consoleOutput): void {
+  output.warn(chalk.yellow(`⚠️  Removing the execution lock${holder ? ` of ${formatLockHolder(holder)}` : ''}: ${reason}`));
+}
+
 // Batch execution support
-async function executeBatch(pattern: string, options: ExecutionOptions): Promise<void> {
+// Returns whether every template executed successfully
+/**
+ * Execute the templates matching a batch pattern, layer by layer
+ * @param errorMode - What a failed or low-scoring template does to the rest of the batch
+ * @returns Whether every template ran without failing
+ */
+async function executeBatch(
+  pattern: string,
+  options: ExecutionOptions,
+  errorMode: BatchErrorMode = 'layer'
+): Promise<boolean> {
   console.log(chalk.cyan.bold(`\n🚀 Batch execution mode: ${pattern}`));
 
   let templates: string[] = [];
@@ -1811,9 +3935,11 @@ async function executeBatch(pattern: string, options: ExecutionOptions): Promise
 
   if (templates.length === 0) {
     console.error(chalk.red(`No templates found matching pattern: ${pattern}`));
-    return;
+    return false;
   }
 
+  // readdir order is arbitrary: run domain before data, infra, presentation and main
+  templates = orderTemplatesByLayer(templates);
   console.log(chalk.blue(`Found ${templates.length} templates to execute`));
 
   // Security warning for batch operations with auto-confirm
@@ -1827,30 +3953,112 @@ async function executeBatch(pattern: string, options: ExecutionOptions): Promise
     await new Promise(resolve => setTimeout(resolve, 3000));
   }
 
-  let succeeded = 0;
-  let failed = 0;
+  // One lock for the whole batch, handed to the executors it starts
+  let lock: ExecutionLock | null = null;
+  if (!options.dryRun) {
+    excludeStateDirectory(findProjectRoot(templates[0]));
+    try {
+      lock = acquireExecutionLock(getLockPath(templates[0]), pattern, {
+        force: options.forceUnlock,
+        onTakeOver: (holder, reason) => warnLockTakeOver(holder, reason),
+      });
+    } catch (error) {
+      if (!(error instanceof ExecutionLockError)) throw error;
+      console.error(chalk.red(`❌ ${error.message}`));
+      return false;
+    }
+  }
+
+  const minScore = loadMinFinalScore();
+  const outcomes: BatchOutcome[] = [];
 
   for (const template of templates) {
+    const layerInfo = parseTemplateLayer(template);
+    const stopped = errorMode === 'fail-fast' && outcomes.some(outcome => outcome.status === 'FAILED');
+    const reason = stopped
+      ? 'stopped by --fail-fast'
+      : errorMode === 'layer' ? getBlockingReason(layerInfo, outcomes, minScore) : null;
+    if (reason) {
+      console.log(chalk.yellow(`\n⏭️  Not starting ${path.basename(template)}: ${reason}`));
+      outcomes.push({ template, layerInfo, status: 'BLOCKED', finalScore: null, commits: 0, reason });
+      continue;
+    }
+
     console.log(chalk.blue.bold(`\n📄 Executing: ${path.basename(template)}`));
     console.log('─'.repeat(50));
 
     try {
-      const executor = new EnhancedStepExecutor(template, options);
-      await executor.run();
-      succeeded++;
+      const executor = new EnhancedStepExecutor(template, options, lock ? { executionLock: lock } : {});
+      const result = await executor.run();
+      outcomes.push({
+        template,
+        layerInfo,
+        status: result.status,
+        finalScore: result.finalScore,
+        commits: result.commitHashes.length,
+        reason: result.error,
+      });
+      if (result.status === 'FAILED') {
+        console.error(chalk.red(`❌ Failed: ${path.basename(template)}`));
+        console.error(chalk.red(`   Error: ${result.error}`));
+        continue;
+      }
       console.log(chalk.green(`✅ Success: ${path.basename(template)}`));
     } catch (error) {
       const message = error instanceof Error ? error.message : String(error);
-      failed++;
+      outcomes.push({ template, layerInfo, status: 'FAILED', finalScore: null, commits: 0, reason: message });
       console.error(chalk.red(`❌ Failed: ${path.basename(template)}`));
       console.error(chalk.red(`   Error: ${message}`));
     }
   }
 
+  lock?.release();
+
+  const failed = outcomes.filter(outcome => outcome.status === 'FAILED').length;
+  const blocked = outcomes.filter(outcome => outcome.status === 'BLOCKED').length;
+
   console.log(chalk.cyan.bold('\n📊 Batch Execution Summary:'));
-  console.log(chalk.green(`   ✅ Succeeded: ${succeeded}`));
+  for (const line of formatBatchSummary(outcomes)) {
+    console.log(`   ${line}`);
+  }
+  console.log(chalk.green(`\n   ✅ Succeeded: ${outcomes.length - failed - blocked}`));
   console.log(chalk.red(`   ❌ Failed: ${failed}`));
+  if (blocked > 0) {
+    console.log(chalk.yellow(`   ⏭️  Not started: ${blocked}`));
+  }
   console.log(chalk.blue(`   📋 Total: ${templates.length}`));
+
+  return failed === 0 && blocked === 0;
+}
+
+/**
+ * Execute an implementation plan without exiting the process
+ * Library entry point: listen to lifecycle events through `onEvent` or use
+ * `EnhancedStepExecutor` directly to subscribe to individual events
+ *
+ * @example
+ * ```typescript
+ * const result = await executePlan('spec/001-auth/domain/implementation.yaml', {
+ *   options: { nonInteractive: true, autoConfirm: true },
+ *   dependencies: { handleSignals: false },
+ * });
+ * ```
+ */
+async function executePlan(
+  implementationPath: string,
+  config: {
+    options?: ExecutionOptions;
+    dependencies?: ExecutorDependencies;
+    listeners?: Partial<{ [E in keyof ExecutorEvents]: (...args: ExecutorEvents[E]) => void }>;
+  } = {}
+): Promise<ExecutionResult> {
+  const executor = new EnhancedStepExecutor(implementationPath, config.options, config.dependencies);
+
+  for (const [event, listener] of Object.entries(config.listeners || {})) {
+    executor.on(event as keyof ExecutorEvents, listener as (...args: unknown[]) => void);
+  }
+
+  return executor.run();
 }
 
 async function main() {
@@ -1863,10 +4071,23 @@ async function main() {
     console.error(chalk.gray('  --all              Execute all templates'));
     console.error(chalk.gray('  --layer=<layer>    Execute templates for specific layer'));
     console.error(chalk.gray('  --target=<target>  Execute templates for specific target'));
+    console.error(chalk.gray('  --fail-fast        Stop the batch at the first failed template'));
+    console.error(chalk.gray('  --continue-on-error  Run every template, even after failures or low layer scores'));
     console.error(chalk.gray('\nExecution Mode Flags:'));
     console.error(chalk.gray('  --non-interactive  No prompts, fail on uncommitted changes'));
     console.error(chalk.gray('  --yes              Auto-confirm all prompts'));
     console.error(chalk.gray('  --strict           Fail on any warnings or uncommitted changes'));
+    console.error(chalk.gray('  --dry-run          Preview diffs and commit messages without changing anything'));
+    console.error(chalk.gray('  --output=<format>  human (default), json or ndjson records on stdout'));
+    console.error(chalk.gray('  --isolated         Run in a temporary git worktree and merge back on success'));
+    console.error(chalk.gray('  --interactive-steps  Show each step diff, then approve, skip, edit or abort it'));
+    console.error(chalk.gray('  --write-state      Write the sidecar run state (.regent/state) into the plan and exit'));
+    console.error(chalk.gray('  --force-unlock     Remove the execution lock left by another run before starting'));
+    console.error(chalk.gray('\nStep Selection Flags:'));
+    console.error(chalk.gray('  --from=<stepId>    Run steps starting at <stepId>'));
+    console.error(chalk.gray('  --until=<stepId>   Run steps up to and including <stepId>'));
+    console.error(chalk.gray('  --only=<id,id>     Run only the listed steps'));
+    console.error(chalk.gray('  --retry-failed     Run only steps with status FAILED'));
     console.error(chalk.gray('\nEnvironment Variables:'));
     console.error(chalk.gray('  REGENT_NON_INTERACTIVE=1  Enable non-interactive mode'));
     console.error(chalk.gray('  REGENT_AUTO_CONFIRM=1     Auto-confirm all prompts'));
@@ -1876,14 +4097,50 @@ async function main() {
     console.error(chalk.gray('  npx tsx execute-steps.ts templates/backend-domain-template.regent'));
     console.error(chalk.gray('  npx tsx execute-steps.ts --all --non-interactive'));
     console.error(chalk.gray('  npx tsx execute-steps.ts --layer=domain --strict'));
+    console.error(chalk.gray('  npx tsx execute-steps.ts --target=backend --non-interactive --fail-fast'));
+    console.error(chalk.gray('  npx tsx execute-steps.ts templates/backend-domain-template.regent --dry-run'));
+    console.error(chalk.gray('  npx tsx execute-steps.ts implementation.yaml --from=create-use-case --until=create-errors'));
+    console.error(chalk.gray('  npx tsx execute-steps.ts implementation.yaml --retry-failed'));
+    console.error(chalk.gray('  npx tsx execute-steps.ts implementation.yaml --interactive-steps'));
+    console.error(chalk.gray('  npx tsx execute-steps.ts implementation.yaml --non-interactive --output=ndjson'));
     console.error(chalk.gray('  REGENT_NON_INTERACTIVE=1 npx tsx execute-steps.ts template.regent'));
-    process.exit(1);
+    console.error(chalk.gray('\nExit Codes:'));
+    console.error(chalk.gray('  0  Success (including partial selections and dry runs)'));
+    console.error(chalk.gray('  1  A step or the plan failed'));
+    console.error(chalk.gray('  2  Invalid arguments'));
+    process.exit(EXIT_CODES.INVALID_USAGE);
   }
 
   // Validate template path type
   if (typeof args[0] !== 'string') {
     console.error(chalk.red.bold('Error: Template path must be a string'));
-    process.exit(EXIT_CODES.ERROR);
+    process.exit(EXIT_CODES.INVALID_USAGE);
+  }
+
+  // Move the sidecar run state of a plan into its YAML instead of executing it
+  if (argv['write-state']) {
+    if (args[0].startsWith('--')) {
+      console.error(chalk.red.bold('Error: --write-state applies to a single implementation file'));
+      process.exit(EXIT_CODES.INVALID_USAGE);
+    }
+    try {
+      const statePath = await writeStateIntoPlan(args[0]);
+      console.log(statePath
+        ? chalk.green(`✅ Wrote the run state of ${statePath} into ${args[0]}`)
+        : chalk.yellow(`⚠️  No sidecar run state found for ${args[0]}`));
+    } catch (error) {
+      console.error(chalk.red.bold(`Error: ${extractErrorMessage(error)}`));
+      process.exit(EXIT_CODES.ERROR);
+    }
+    return;
+  }
+
+  let outputFormat: OutputFormat;
+  try {
+    outputFormat = parseOutputFormat(argv.output);
+  } catch (error) {
+    console.error(chalk.red.bold(`Error: ${extractErrorMessage(error)}`));
+    process.exit(EXIT_CODES.INVALID_USAGE);
   }
 
   // Parse execution options from CLI flags
@@ -1891,23 +4148,77 @@ async function main() {
     nonInteractive: argv['non-interactive'] || argv.nonInteractive || false,
     autoConfirm: argv.yes || argv.y || false,
     strict: argv.strict || false,
+    dryRun: argv['dry-run'] || argv.dryRun || false,
+    isolated: argv.isolated || false,
+    interactiveSteps: argv['interactive-steps'] || argv.interactiveSteps || false,
+    forceUnlock: argv['force-unlock'] || argv.forceUnlock || false,
   };
 
+  try {
+    options.stepSelection = parseStepSelectionArgs(argv);
+  } catch (error) {
+    console.error(chalk.red.bold(`Error: ${extractErrorMessage(error)}`));
+    process.exit(EXIT_CODES.INVALID_USAGE);
+  }
+
   const arg = args[0];
 
   // Check for batch execution
   if (arg.startsWith('--')) {
-    await executeBatch(arg, options);
+    if (options.stepSelection) {
+      console.error(chalk.red.bold('Error: --from, --only, --until and --retry-failed apply to a single implementation file'));
+      process.exit(EXIT_CODES.INVALID_USAGE);
+    }
+    if (outputFormat !== 'human') {
+      console.error(chalk.red.bold('Error: --output=json and --output=ndjson apply to a single implementation file'));
+      process.exit(EXIT_CODES.INVALID_USAGE);
+    }
+
+    const failFast = argv['fail-fast'] || argv.failFast || false;
+    const continueOnError = argv['continue-on-error'] || argv.continueOnError || false;
+    if (failFast && continueOnError) {
+      console.error(chalk.red.bold('Error: --fail-fast and --continue-on-error cannot be combined'));
+      process.exit(EXIT_CODES.INVALID_USAGE);
+    }
+    const errorMode: BatchErrorMode = failFast ? 'fail-fast' : continueOnError ? 'continue-on-error' : 'layer';
+
+    if (!await executeBatch(arg, options, errorMode)) {
+      process.exit(EXIT_CODES.ERROR);
+    }
   } else {
-    // Single file execution
-    const executor = new EnhancedStepExecutor(arg, options);
-    await executor.run();
+    // Single file execution: machine-readable records own stdout, human output moves to stderr
+    const reporter = outputFormat === 'human'
+      ? null
+      : new MachineOutputReporter(outputFormat, redirectStdoutToStderr());
+
+    const executor = new EnhancedStepExecutor(arg, options, reporter ? { output: stderrOutput } : {});
+    reporter?.attach(executor);
+
+    const result = await executor.run();
+    const exitCode = getExitCode(result);
+    reporter?.finish(result, exitCode);
+
+    // Let stdout drain before exiting: process.exit() can cut off piped records
+    process.exitCode = exitCode;
+  }
+}
+
+// Run the CLI only when executed directly, not when imported as a library
+function isDirectRun(): boolean {
+  if (!process.argv[1]) return false;
+  try {
+    return fs.realpathSync(process.argv[1]) === fs.realpathSync(fileURLToPath(import.meta.url));
+  } catch {
+    return false;
   }
 }
 
-main().catch(err => {
-  console.error(chalk.red.bold('Execution failed:'), err);
-  process.exit(1);
-});
+if (isDirectRun()) {
+  main().catch(err => {
+    console.error(chalk.red.bold('Execution failed:'), err);
+    process.exit(1);
+  });
+}
 
-export { EnhancedStepExecutor, LayerInfo };
\ No newline at end of file
+export { EnhancedStepExecutor, LayerInfo, executePlan, ExecutionError };
+export type { ExecutionResult, ExecutionStatus, ExecutorDependencies, ExecutorEvents };
\ No newline at end of file
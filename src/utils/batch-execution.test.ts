@@ -0,0 +1,94 @@
+/**
+ * Unit tests for batch ordering and layer gates
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  formatBatchSummary,
+  getBlockingReason,
+  orderTemplatesByLayer,
+  parseTemplateLayer,
+  type BatchOutcome,
+} from './batch-execution';
+
+function outcome(template: string, status: BatchOutcome['status'], finalScore: number | null = null): BatchOutcome {
+  return { template: `templates/${template}`, layerInfo: parseTemplateLayer(template), status, finalScore, commits: 0 };
+}
+
+describe('parseTemplateLayer', () => {
+  it('should read the target and layer from the template name', () => {
+    expect(parseTemplateLayer('templates/backend-domain-template.regent')).toEqual({ target: 'backend', layer: 'domain' });
+    expect(parseTemplateLayer('templates/custom-template.regent')).toBeNull();
+  });
+});
+
+describe('orderTemplatesByLayer', () => {
+  it('should run layers from domain to main and unknown templates last', () => {
+    const templates = [
+      'templates/backend-main-template.regent',
+      'templates/custom-template.regent',
+      'templates/frontend-domain-template.regent',
+      'templates/backend-infra-template.regent',
+      'templates/backend-domain-template.regent',
+      'templates/backend-data-template.regent',
+    ];
+
+    expect(orderTemplatesByLayer(templates)).toEqual([
+      'templates/backend-domain-template.regent',
+      'templates/frontend-domain-template.regent',
+      'templates/backend-data-template.regent',
+      'templates/backend-infra-template.regent',
+      'templates/backend-main-template.regent',
+      'templates/custom-template.regent',
+    ]);
+  });
+});
+
+describe('getBlockingReason', () => {
+  const data = parseTemplateLayer('backend-data-template.regent');
+
+  it('should block later layers of the same target after a failure or a low score', () => {
+    expect(getBlockingReason(data, [outcome('backend-domain-template.regent', 'FAILED')])).toBe(
+      'domain layer did not complete (backend-domain-template.regent FAILED)'
+    );
+    expect(getBlockingReason(data, [outcome('backend-domain-template.regent', 'SUCCESS', 0.5)], 1)).toBe(
+      'domain layer scored 0.5 in backend-domain-template.regent, below the minimum of 1'
+    );
+  });
+
+  it('should block later layers after a partial layer or a layer that ran without a score', () => {
+    expect(getBlockingReason(data, [outcome('backend-domain-template.regent', 'PARTIAL')])).toBe(
+      'domain layer did not complete (backend-domain-template.regent PARTIAL)'
+    );
+    expect(getBlockingReason(data, [outcome('backend-domain-template.regent', 'PARTIAL', 1.5)], 1)).toBe(
+      'domain layer did not complete (backend-domain-template.regent PARTIAL)'
+    );
+    expect(getBlockingReason(data, [outcome('backend-domain-template.regent', 'SUCCESS')], 1)).toBe(
+      'domain layer has no final RLHF score (backend-domain-template.regent)'
+    );
+  });
+
+  it('should let other targets, the same layer and passing layers start', () => {
+    expect(getBlockingReason(data, [outcome('frontend-domain-template.regent', 'FAILED')])).toBeNull();
+    expect(getBlockingReason(data, [outcome('backend-data-template.regent', 'FAILED')])).toBeNull();
+    expect(getBlockingReason(data, [outcome('backend-domain-template.regent', 'SUCCESS', 1.5)], 1)).toBeNull();
+    expect(getBlockingReason(data, [outcome('backend-domain-template.regent', 'NOTHING_TO_DO')], 1)).toBeNull();
+    expect(getBlockingReason(null, [outcome('backend-domain-template.regent', 'FAILED')])).toBeNull();
+  });
+});
+
+describe('formatBatchSummary', () => {
+  it('should align template, layer, status, score and commits in columns', () => {
+    const lines = formatBatchSummary([
+      { ...outcome('backend-domain-template.regent', 'SUCCESS', 1.5), commits: 4 },
+      outcome('backend-data-template.regent', 'BLOCKED'),
+    ]);
+
+    expect(lines).toEqual([
+      'Template                        Layer           Status   Score  Commits',
+      '──────────────────────────────  ──────────────  ───────  ─────  ───────',
+      'backend-domain-template.regent  backend/domain  SUCCESS  1.5/2  4',
+      'backend-data-template.regent    backend/data    BLOCKED  -      0',
+    ]);
+  });
+});
@@ -0,0 +1,141 @@
+/**
+ * Batch Execution
+ * Orders batch templates by architectural layer and decides which templates may start
+ *
+ * Within a target (backend, frontend, fullstack) each layer builds on the ones before it,
+ * so a later layer does not start while an earlier one failed, ended PARTIAL (steps
+ * failed under a tolerant policy) or scored below the configured minimum `final_rlhf_score`.
+ */
+
+import fs from 'fs-extra';
+import * as path from 'path';
+import * as yaml from 'yaml';
+import type { ExecutionStatus } from '../core/executor-api';
+import type { LayerInfo } from '../core/rlhf-system';
+import { validateConfig } from './config-validator';
+
+/**
+ * Execution order of the layers of a target
+ */
+export const LAYER_ORDER: LayerInfo['layer'][] = ['domain', 'data', 'infra', 'presentation', 'main'];
+
+/**
+ * Default minimum final RLHF score (0-2) a layer needs before the next layer starts
+ */
+export const DEFAULT_MIN_FINAL_RLHF_SCORE = 1;
+
+/**
+ * What a failed or low-scoring template does to the rest of the batch
+ * - layer: later layers of the same target do not start (default)
+ * - fail-fast: nothing starts after the first failed template (--fail-fast)
+ * - continue-on-error: every template runs (--continue-on-error)
+ */
+export type BatchErrorMode = 'layer' | 'fail-fast' | 'continue-on-error';
+
+/**
+ * Outcome of one template of a batch
+ * BLOCKED templates did not start because of an earlier template
+ */
+export interface BatchOutcome {
+  template: string;
+  layerInfo: LayerInfo | null;
+  status: ExecutionStatus | 'BLOCKED';
+  finalScore: number | null;
+  commits: number;
+  /** Why the template failed or did not start */
+  reason?: string;
+}
+
+/**
+ * Detect target and layer from a template file name
+ * @example parseTemplateLayer('templates/backend-domain-template.regent') // { target: 'backend', layer: 'domain' }
+ */
+export function parseTemplateLayer(templatePath: string): LayerInfo | null {
+  const fileName = path.basename(templatePath, '.regent');
+  const match = fileName.match(/^(backend|frontend|fullstack)-(domain|data|infra|presentation|main)-template$/);
+
+  if (!match) {
+    return null;
+  }
+  return { target: match[1] as LayerInfo['target'], layer: match[2] as LayerInfo['layer'] };
+}
+
+/**
+ * Sort templates by layer, then by name; templates without a known layer run last
+ */
+export function orderTemplatesByLayer(templates: string[]): string[] {
+  const rank = (template: string) => {
+    const layerInfo = parseTemplateLayer(template);
+    return layerInfo ? LAYER_ORDER.indexOf(layerInfo.layer) : LAYER_ORDER.length;
+  };
+  return [...templates].sort((a, b) => rank(a) - rank(b) || path.basename(a).localeCompare(path.basename(b)));
+}
+
+/**
+ * Why a template may not start after the given outcomes, or null when it may
+ * Only earlier layers of the same target block a template
+ */
+export function getBlockingReason(
+  layerInfo: LayerInfo | null,
+  outcomes: BatchOutcome[],
+  minScore: number = DEFAULT_MIN_FINAL_RLHF_SCORE
+): string | null {
+  if (!layerInfo) {
+    return null;
+  }
+
+  const layerIndex = LAYER_ORDER.indexOf(layerInfo.layer);
+  for (const outcome of outcomes) {
+    if (outcome.layerInfo?.target !== layerInfo.target || LAYER_ORDER.indexOf(outcome.layerInfo.layer) >= layerIndex) {
+      continue;
+    }
+
+    const name = path.basename(outcome.template);
+    if (outcome.status === 'FAILED' || outcome.status === 'BLOCKED' || outcome.status === 'PARTIAL') {
+      return `${outcome.layerInfo.layer} layer did not complete (${name} ${outcome.status})`;
+    }
+    // A layer that ran its steps is scored: without a score it cannot be trusted
+    if (outcome.status === 'SUCCESS' && outcome.finalScore === null) {
+      return `${outcome.layerInfo.layer} layer has no final RLHF score (${name})`;
+    }
+    if (outcome.finalScore !== null && outcome.finalScore < minScore) {
+      return `${outcome.layerInfo.layer} layer scored ${outcome.finalScore} in ${name}, below the minimum of ${minScore}`;
+    }
+  }
+  return null;
+}
+
+/**
+ * Lines of the batch summary table: template, layer, status, score and commits
+ */
+export function formatBatchSummary(outcomes: BatchOutcome[]): string[] {
+  const rows = outcomes.map(outcome => [
+    path.basename(outcome.template),
+    outcome.layerInfo ? `${outcome.layerInfo.target}/${outcome.layerInfo.layer}` : '-',
+    outcome.status,
+    outcome.finalScore === null ? '-' : `${outcome.finalScore}/2`,
+    String(outcome.commits),
+  ]);
+  const header = ['Template', 'Layer', 'Status', 'Score', 'Commits'];
+  const widths = header.map((title, column) => Math.max(title.length, ...rows.map(row => row[column].length)));
+  const format = (row: string[]) => row.map((cell, column) => cell.padEnd(widths[column])).join('  ').trimEnd();
+
+  return [format(header), widths.map(width => '─'.repeat(width)).join('  '), ...rows.map(format)];
+}
+
+/**
+ * Load the minimum final RLHF score from the `batch` section of execute.yml
+ * Validation errors are reported by the executors, so the default is used silently
+ */
+export function loadMinFinalScore(configPath: string = '.regent/config/execute.yml'): number {
+  try {
+    if (!fs.existsSync(configPath)) {
+      return DEFAULT_MIN_FINAL_RLHF_SCORE;
+    }
+
+    const validation = validateConfig(yaml.parse(fs.readFileSync(configPath, 'utf-8')));
+    return (validation.success ? validation.data!.batch?.min_final_rlhf_score : undefined) ?? DEFAULT_MIN_FINAL_RLHF_SCORE;
+  } catch {
+    return DEFAULT_MIN_FINAL_RLHF_SCORE;
+  }
+}
@@ -297,47 +297,65 @@ describe('formatCommitMessageForShell', () => {
 });
 
 describe('createQualityCheckResult', () => {
+  const gate = (name: string, passed: boolean, output?: string, required = true) => ({ name, passed, required, output, maxScore: -1 });
+
   it('should create result with both passing', () => {
-    const result = createQualityCheckResult(true, true, 'lint ok', 'test ok');
+    const result = createQualityCheckResult([gate('lint', true, 'lint ok'), gate('test', true, 'test ok')]);
 
-    expect(result.lint.passed).toBe(true);
-    expect(result.test.passed).toBe(true);
+    expect(result.gates[0]).toMatchObject({ name: 'lint', passed: true, output: 'lint ok' });
+    expect(result.gates[1]).toMatchObject({ name: 'test', passed: true, output: 'test ok' });
     expect(result.overallPassed).toBe(true);
-    expect(result.lint.output).toBe('lint ok');
-    expect(result.test.output).toBe('test ok');
   });
 
   it('should create result with lint failing', () => {
-    const result = createQualityCheckResult(false, true, 'lint error', 'test ok');
+    const result = createQualityCheckResult([gate('lint', false, 'lint error'), gate('test', true, 'test ok')]);
 
-    expect(result.lint.passed).toBe(false);
-    expect(result.test.passed).toBe(true);
+    expect(result.gates[0]).toMatchObject({ name: 'lint', passed: false, output: 'lint error' });
+    expect(result.gates[1]).toMatchObject({ name: 'test', passed: true, output: 'test ok' });
     expect(result.overallPassed).toBe(false);
   });
 
   it('should create result with test failing', () => {
-    const result = createQualityCheckResult(true, false, 'lint ok', 'test error');
+    const result = createQualityCheckResult([gate('lint', true, 'lint ok'), gate('test', false, 'test error')]);
 
-    expect(result.lint.passed).toBe(true);
-    expect(result.test.passed).toBe(false);
+    expect(result.gates[0]).toMatchObject({ name: 'lint', passed: true, output: 'lint ok' });
+    expect(result.gates[1]).toMatchObject({ name: 'test', passed: false, output: 'test error' });
     expect(result.overallPassed).toBe(false);
   });
 
   it('should create result with both failing', () => {
-    const result = createQualityCheckResult(false, false, 'lint error', 'test error');
+    const result = createQualityCheckResult([gate('lint', false, 'lint error'), gate('test', false, 'test error')]);
 
-    expect(result.lint.passed).toBe(false);
-    expect(result.test.passed).toBe(false);
+    expect(result.gates[0]).toMatchObject({ name: 'lint', passed: false, output: 'lint error' });
+    expect(result.gates[1]).toMatchObject({ name: 'test', passed: false, output: 'test error' });
     expect(result.overallPassed).toBe(false);
   });
 
   it('should handle undefined output', () => {
-    const result = createQualityCheckResult(true, true);
+    const result = createQualityCheckResult([gate('lint', true), gate('test', true)]);
 
-    expect(result.lint.output).toBeUndefined();
-    expect(result.test.output).toBeUndefined();
+    expect(result.gates[0].output).toBeUndefined();
+    expect(result.gates[1].output).toBeUndefined();
     expect(result.overallPassed).toBe(true);
   });
+
+  it('should fail when any required gate fails', () => {
+    const result = createQualityCheckResult([gate('lint', true), gate('test', true), gate('typecheck', false, 'error TS2322')]);
+
+    expect(result.gates[2]).toMatchObject({ name: 'typecheck', passed: false, output: 'error TS2322' });
+    expect(result.overallPassed).toBe(false);
+  });
+
+  it('should pass when only optional gates fail', () => {
+    const result = createQualityCheckResult([gate('lint', true), gate('format', false, 'src/user.ts', false)]);
+
+    expect(result.gates[1]).toMatchObject({ name: 'format', passed: false, required: false, output: 'src/user.ts' });
+    expect(result.overallPassed).toBe(true);
+  });
+
+  it('should pass when no gate ran', () => {
+    expect(createQualityCheckResult([]).overallPassed).toBe(true);
+  });
 });
 
 describe('DEFAULT_COMMIT_CONFIG', () => {
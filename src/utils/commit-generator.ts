@@ -4,8 +4,15 @@
  */
 
 import { extractScope } from './scope-extractor';
+import type { BuiltInStepType } from '../core/step-registry';
+import type { QualityCheckMode } from './incremental-checks';
+import type { QualityGateOptions } from './quality-gates';
+import type { QualityIssue } from './quality-reports';
 
-export type StepType = 'create_file' | 'refactor_file' | 'delete_file' | 'folder' | 'branch' | 'pull_request' | 'validation' | 'test' | 'conditional_file';
+/**
+ * Built-in step types, or a type registered by a step plugin
+ */
+export type StepType = BuiltInStepType | (string & {});
 export type ConventionalCommitType = 'regent' | 'feat' | 'refactor' | 'chore' | 'fix' | 'test' | 'docs' | null;
 
 /**
@@ -18,6 +25,15 @@ export interface CommitConfig {
     lintCommand?: string;
     test: boolean;
     testCommand?: string;
+    mode?: QualityCheckMode;
+    /** Linter run on the changed files in incremental mode */
+    lintFilesCommand?: string;
+    /** Test runner command taking changed files and running the tests related to them */
+    relatedTestsCommand?: string;
+    /** Run the full lint and test scripts once the last step of the layer is committed (incremental mode) */
+    fullSuiteAtLayerEnd?: boolean;
+    /** Gates besides lint and test (typecheck, arch, format or custom ones), and lint/test overrides */
+    gates?: Record<string, QualityGateOptions>;
   };
   conventionalCommits: {
     enabled: boolean;
@@ -52,12 +68,18 @@ export const DEFAULT_COMMIT_CONFIG: CommitConfig = {
     lintCommand: 'lint',
     test: true,
     testCommand: 'test --run',
+    mode: 'full',
+    lintFilesCommand: 'eslint',
+    relatedTestsCommand: 'vitest related --run',
+    fullSuiteAtLayerEnd: true,
   },
   conventionalCommits: {
     enabled: true,
     typeMapping: {
       create_file: 'regent',
       refactor_file: 'regent',
+      patch: 'regent',
+      move_file: 'regent',
       delete_file: 'regent',
       folder: 'regent',
       branch: null,
@@ -313,40 +335,36 @@ export function formatCommitMessageForShell(message: string): string {
   return message.replace(/'/g, "'\\''");
 }
 
+/**
+ * Outcome of one quality gate
+ */
+export interface QualityGateResult {
+  name: string;
+  passed: boolean;
+  required: boolean;
+  output?: string;
+  /** Highest RLHF score a step keeps when the gate fails */
+  maxScore: number;
+  /** Issues read from the JSON report of a failed gate */
+  issues?: QualityIssue[];
+}
+
 /**
  * Result of quality check execution
  */
 export interface QualityCheckResult {
-  lint: {
-    passed: boolean;
-    output?: string;
-  };
-  test: {
-    passed: boolean;
-    output?: string;
-  };
+  /** Gates that ran, in order */
+  gates: QualityGateResult[];
+  /** Whether every required gate passed */
   overallPassed: boolean;
 }
 
 /**
- * Dummy quality check - actual implementation will be in execute-steps.ts
- * This is just the interface
+ * Combine the gate outcomes; only required gates decide whether the steps can be committed
  */
-export function createQualityCheckResult(
-  lintPassed: boolean,
-  testPassed: boolean,
-  lintOutput?: string,
-  testOutput?: string
-): QualityCheckResult {
+export function createQualityCheckResult(gates: QualityGateResult[]): QualityCheckResult {
   return {
-    lint: {
-      passed: lintPassed,
-      output: lintOutput,
-    },
-    test: {
-      passed: testPassed,
-      output: testOutput,
-    },
-    overallPassed: lintPassed && testPassed,
+    gates,
+    overallPassed: gates.every(gate => gate.passed || !gate.required),
   };
-}
\ No newline at end of file
+}
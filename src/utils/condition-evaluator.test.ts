@@ -0,0 +1,127 @@
+/**
+ * Unit tests for condition-evaluator utility
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import fs from 'fs-extra';
+import * as os from 'os';
+import * as path from 'path';
+import { evaluateCondition, type ConditionContext } from './condition-evaluator';
+
+describe('evaluateCondition', () => {
+  let projectRoot: string;
+  let context: ConditionContext;
+
+  beforeEach(async () => {
+    projectRoot = await fs.mkdtemp(path.join(os.tmpdir(), 'regent-condition-'));
+    await fs.writeJson(path.join(projectRoot, 'package.json'), {
+      dependencies: { zod: '^3.0.0' },
+      devDependencies: { vitest: '^3.0.0' },
+    });
+    await fs.ensureDir(path.join(projectRoot, 'src/shared'));
+    context = {
+      projectRoot,
+      metadata: { project_type: 'frontend', needs_refactoring: true, legacy: false },
+    };
+  });
+
+  afterEach(async () => {
+    await fs.remove(projectRoot);
+  });
+
+  describe('file existence', () => {
+    it('should be true when the path exists', () => {
+      expect(evaluateCondition('file_exists:src/shared', context)).toBe(true);
+    });
+
+    it('should be false when the path does not exist', () => {
+      expect(evaluateCondition('file_exists:src/missing.ts', context)).toBe(false);
+    });
+
+    it('should support negation', () => {
+      expect(evaluateCondition('!file_exists:src/missing.ts', context)).toBe(true);
+    });
+  });
+
+  describe('package.json dependencies', () => {
+    it('should detect runtime dependencies', () => {
+      expect(evaluateCondition('has_dependency:zod', context)).toBe(true);
+    });
+
+    it('should detect dev dependencies', () => {
+      expect(evaluateCondition('has_dependency:vitest', context)).toBe(true);
+    });
+
+    it('should be false for missing dependencies', () => {
+      expect(evaluateCondition('has_dependency:axios', context)).toBe(false);
+    });
+
+    it('should be false when package.json does not exist', async () => {
+      await fs.remove(path.join(projectRoot, 'package.json'));
+      expect(evaluateCondition('has_dependency:zod', context)).toBe(false);
+    });
+  });
+
+  describe('metadata flags', () => {
+    it('should evaluate truthy flags', () => {
+      expect(evaluateCondition('metadata:needs_refactoring', context)).toBe(true);
+      expect(evaluateCondition('metadata:legacy', context)).toBe(false);
+      expect(evaluateCondition('metadata:unknown', context)).toBe(false);
+    });
+
+    it('should compare metadata values', () => {
+      expect(evaluateCondition('metadata:project_type=frontend', context)).toBe(true);
+      expect(evaluateCondition('metadata:project_type=backend', context)).toBe(false);
+    });
+
+    it('should compare metadata against literals', () => {
+      expect(evaluateCondition("metadata:project_type === 'frontend'", context)).toBe(true);
+    });
+  });
+
+  describe('literal comparisons', () => {
+    it('should evaluate substituted placeholder comparisons', () => {
+      expect(evaluateCondition('"backend" !== "frontend"', context)).toBe(true);
+      expect(evaluateCondition('"frontend" === "frontend" || "frontend" === "fullstack"', context)).toBe(true);
+      expect(evaluateCondition('"backend" === "frontend" || "backend" === "fullstack"', context)).toBe(false);
+    });
+
+    it('should evaluate boolean literals', () => {
+      expect(evaluateCondition('true', context)).toBe(true);
+      expect(evaluateCondition('false', context)).toBe(false);
+    });
+  });
+
+  describe('combinations', () => {
+    it('should respect && precedence over ||', () => {
+      expect(evaluateCondition('false && true || true', context)).toBe(true);
+      expect(evaluateCondition('false && (true || true)', context)).toBe(false);
+    });
+
+    it('should combine different predicates', () => {
+      expect(evaluateCondition('has_dependency:zod && !file_exists:src/missing.ts', context)).toBe(true);
+    });
+  });
+
+  describe('errors', () => {
+    it('should reject empty conditions', () => {
+      expect(() => evaluateCondition('  ', context)).toThrow('Condition cannot be empty');
+    });
+
+    it('should reject unsupported conditions', () => {
+      expect(() => evaluateCondition('check_if_shared_model_needed', context))
+        .toThrow("Unsupported condition 'check_if_shared_model_needed'");
+    });
+
+    it('should reject unreplaced placeholders', () => {
+      expect(() => evaluateCondition('__NEEDS_REFACTORING__', context))
+        .toThrow('unreplaced placeholder');
+    });
+
+    it('should reject malformed expressions', () => {
+      expect(() => evaluateCondition('(true', context)).toThrow('Missing closing parenthesis');
+      expect(() => evaluateCondition('"open', context)).toThrow('Unterminated string literal');
+      expect(() => evaluateCondition('true true', context)).toThrow('Unexpected token');
+    });
+  });
+});
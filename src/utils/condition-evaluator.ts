@@ -0,0 +1,259 @@
+/**
+ * Condition Evaluator
+ * Evaluates the `condition` of conditional_file steps
+ *
+ * Supported forms (combinable with !, &&, || and parentheses):
+ * - file_exists:<path>         File or folder exists (relative to project root)
+ * - has_dependency:<package>   package.json lists the package in any dependency section
+ * - metadata:<key>             Plan metadata flag is truthy
+ * - metadata:<key>=<value>     Plan metadata value equals <value>
+ * - "a" === "b", 'a' !== 'b'   Literal comparison (placeholders already substituted)
+ * - true / false
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+
+/**
+ * Context a condition is evaluated against
+ */
+export interface ConditionContext {
+  /** Directory that relative paths and package.json are resolved from */
+  projectRoot: string;
+  /** Plan metadata used by metadata:<key> predicates */
+  metadata?: Record<string, unknown>;
+}
+
+type Token =
+  | { kind: 'op'; value: '!' | '&&' | '||' | '(' | ')' }
+  | { kind: 'cmp'; value: '===' | '!==' | '==' | '!=' }
+  | { kind: 'string'; value: string }
+  | { kind: 'word'; value: string };
+
+const SUPPORTED_FORMS = 'file_exists:<path>, has_dependency:<package>, metadata:<key>[=<value>], "a" === "b", true, false';
+
+/**
+ * Split a condition into tokens
+ */
+function tokenize(condition: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < condition.length) {
+    const char = condition[i];
+
+    if (/\s/.test(char)) {
+      i++;
+      continue;
+    }
+
+    const three = condition.slice(i, i + 3);
+    const two = condition.slice(i, i + 2);
+
+    if (three === '===' || three === '!==') {
+      tokens.push({ kind: 'cmp', value: three });
+      i += 3;
+    } else if (two === '==' || two === '!=') {
+      tokens.push({ kind: 'cmp', value: two });
+      i += 2;
+    } else if (two === '&&' || two === '||') {
+      tokens.push({ kind: 'op', value: two });
+      i += 2;
+    } else if (char === '!' || char === '(' || char === ')') {
+      tokens.push({ kind: 'op', value: char });
+      i++;
+    } else if (char === '"' || char === "'") {
+      const end = condition.indexOf(char, i + 1);
+      if (end === -1) {
+        throw new Error(`Unterminated string literal in condition: ${condition}`);
+      }
+      tokens.push({ kind: 'string', value: condition.slice(i + 1, end) });
+      i = end + 1;
+    } else {
+      let end = i;
+      while (end < condition.length && !/[\s()]/.test(condition[end]) && !['&&', '||', '==', '!='].includes(condition.slice(end, end + 2))) {
+        end++;
+      }
+      tokens.push({ kind: 'word', value: condition.slice(i, end) });
+      i = end;
+    }
+  }
+
+  return tokens;
+}
+
+/**
+ * Check whether package.json in the project root declares a dependency
+ */
+function hasDependency(projectRoot: string, name: string): boolean {
+  const packageJsonPath = path.join(projectRoot, 'package.json');
+  if (!fs.existsSync(packageJsonPath)) return false;
+
+  const packageJson = JSON.parse(fs.readFileSync(packageJsonPath, 'utf-8'));
+  const sections = ['dependencies', 'devDependencies', 'peerDependencies', 'optionalDependencies'];
+
+  return sections.some(section => Boolean(packageJson[section]?.[name]));
+}
+
+/**
+ * Recursive descent parser/evaluator over the token list
+ */
+class ConditionParser {
+  private position = 0;
+
+  constructor(
+    private readonly tokens: Token[],
+    private readonly context: ConditionContext,
+    private readonly source: string
+  ) {}
+
+  evaluate(): boolean {
+    const result = this.parseOr();
+    if (this.position < this.tokens.length) {
+      throw new Error(`Unexpected token '${this.tokens[this.position].value}' in condition: ${this.source}`);
+    }
+    return result;
+  }
+
+  private peek(): Token | undefined {
+    return this.tokens[this.position];
+  }
+
+  private parseOr(): boolean {
+    let result = this.parseAnd();
+    while (this.peek()?.value === '||') {
+      this.position++;
+      const right = this.parseAnd();
+      result = result || right;
+    }
+    return result;
+  }
+
+  private parseAnd(): boolean {
+    let result = this.parseUnary();
+    while (this.peek()?.value === '&&') {
+      this.position++;
+      const right = this.parseUnary();
+      result = result && right;
+    }
+    return result;
+  }
+
+  private parseUnary(): boolean {
+    const token = this.peek();
+    if (!token) {
+      throw new Error(`Unexpected end of condition: ${this.source}`);
+    }
+
+    if (token.kind === 'op' && token.value === '!') {
+      this.position++;
+      return !this.parseUnary();
+    }
+
+    if (token.kind === 'op' && token.value === '(') {
+      this.position++;
+      const result = this.parseOr();
+      if (this.peek()?.value !== ')') {
+        throw new Error(`Missing closing parenthesis in condition: ${this.source}`);
+      }
+      this.position++;
+      return result;
+    }
+
+    return this.parseComparison();
+  }
+
+  private parseComparison(): boolean {
+    const left = this.consumeOperand();
+    const next = this.peek();
+
+    if (next?.kind === 'cmp') {
+      this.position++;
+      const right = this.consumeOperand();
+      const equal = this.resolveValue(left) === this.resolveValue(right);
+      return next.value === '===' || next.value === '==' ? equal : !equal;
+    }
+
+    return this.resolvePredicate(left);
+  }
+
+  private consumeOperand(): Token {
+    const token = this.peek();
+    if (!token || (token.kind !== 'string' && token.kind !== 'word')) {
+      throw new Error(`Expected a value in condition: ${this.source}`);
+    }
+    this.position++;
+    return token;
+  }
+
+  /**
+   * Value of an operand used in a comparison
+   */
+  private resolveValue(token: Token): string {
+    if (token.kind === 'word' && token.value.startsWith('metadata:')) {
+      const value = this.context.metadata?.[token.value.slice('metadata:'.length)];
+      return value === undefined || value === null ? '' : String(value);
+    }
+    return token.value;
+  }
+
+  /**
+   * Truth value of a standalone operand
+   */
+  private resolvePredicate(token: Token): boolean {
+    if (token.kind === 'string') {
+      return token.value.length > 0;
+    }
+
+    const word = token.value;
+
+    if (word === 'true') return true;
+    if (word === 'false') return false;
+
+    if (word.startsWith('file_exists:')) {
+      const target = word.slice('file_exists:'.length);
+      return fs.existsSync(path.resolve(this.context.projectRoot, target));
+    }
+
+    if (word.startsWith('has_dependency:')) {
+      return hasDependency(this.context.projectRoot, word.slice('has_dependency:'.length));
+    }
+
+    if (word.startsWith('metadata:')) {
+      const expression = word.slice('metadata:'.length);
+      const separator = expression.indexOf('=');
+      if (separator !== -1) {
+        const value = this.context.metadata?.[expression.slice(0, separator)];
+        return String(value) === expression.slice(separator + 1);
+      }
+      const value = this.context.metadata?.[expression];
+      return Boolean(value) && value !== 'false';
+    }
+
+    if (/__[A-Z_]+__/.test(word)) {
+      throw new Error(`Condition contains unreplaced placeholder '${word}'`);
+    }
+
+    throw new Error(`Unsupported condition '${word}'. Supported forms: ${SUPPORTED_FORMS}`);
+  }
+}
+
+/**
+ * Evaluate a conditional_file condition
+ * @param condition - Condition expression declared on the step
+ * @param context - Project root and plan metadata
+ * @returns true when the file should be created
+ * @throws {Error} If the condition is empty, malformed or uses an unsupported form
+ *
+ * @example
+ * evaluateCondition('!file_exists:src/shared/domain/models', { projectRoot: process.cwd() })
+ * evaluateCondition('has_dependency:zod && metadata:project_type=frontend', { projectRoot, metadata })
+ */
+export function evaluateCondition(condition: string, context: ConditionContext): boolean {
+  if (!condition || condition.trim().length === 0) {
+    throw new Error('Condition cannot be empty');
+  }
+
+  const tokens = tokenize(condition.trim());
+  return new ConditionParser(tokens, context, condition).evaluate();
+}
@@ -93,6 +93,86 @@ describe('validateConfig', () => {
     const result = validateConfig(config);
     expect(result.success).toBe(false);
   });
+
+  it('should validate the validation_scripts policy', () => {
+    const valid = validateConfig({
+      commit: { enabled: true },
+      validation_scripts: {
+        timeout_ms: 30000,
+        env_allowlist: ['PATH', 'HOME'],
+        max_output_size: 5000,
+        denied_commands: ['curl', 'rm'],
+      },
+    });
+    const invalid = validateConfig({
+      commit: { enabled: true },
+      validation_scripts: { timeout_ms: -1 },
+    });
+
+    expect(valid.success).toBe(true);
+    expect(valid.data?.validation_scripts?.denied_commands).toEqual(['curl', 'rm']);
+    expect(invalid.success).toBe(false);
+    expect(invalid.errors![0]).toContain('validation_scripts.timeout_ms');
+  });
+
+  it('should validate the architecture import rules', () => {
+    const valid = validateConfig({
+      commit: { enabled: true },
+      architecture: {
+        enforce_imports: true,
+        allowed_dependencies: { domain: ['domain'], data: ['data', 'domain'] },
+        forbidden_packages: { domain: ['axios'] },
+        path_aliases: { '@/': 'src/' },
+      },
+    });
+    const invalid = validateConfig({
+      commit: { enabled: true },
+      architecture: { allowed_dependencies: { domain: ['database'] } },
+    });
+
+    expect(valid.success).toBe(true);
+    expect(valid.data?.architecture?.allowed_dependencies?.data).toEqual(['data', 'domain']);
+    expect(invalid.success).toBe(false);
+    expect(invalid.errors![0]).toContain('architecture.allowed_dependencies.domain');
+  });
+
+  it('should validate the execution state store', () => {
+    const valid = validateConfig({ commit: { enabled: true }, state: { store: 'sidecar' } });
+    const invalid = validateConfig({ commit: { enabled: true }, state: { store: 'database' } });
+
+    expect(valid.data?.state?.store).toBe('sidecar');
+    expect(invalid.success).toBe(false);
+    expect(invalid.errors![0]).toContain('state.store');
+  });
+
+  it('should validate the quality check mode', () => {
+    const valid = validateConfig({ commit: { enabled: true, quality_checks: { lint: true, test: true, mode: 'incremental', full_suite_at_layer_end: false } } });
+    const invalid = validateConfig({ commit: { enabled: true, quality_checks: { lint: true, test: true, mode: 'changed' } } });
+
+    expect(valid.data?.commit.quality_checks).toMatchObject({ mode: 'incremental', full_suite_at_layer_end: false });
+    expect(invalid.success).toBe(false);
+    expect(invalid.errors![0]).toContain('commit.quality_checks.mode');
+  });
+
+  it('should validate quality gates and require a command for custom ones', () => {
+    const valid = validateConfig({
+      commit: { enabled: true, quality_checks: { lint: true, test: true, gates: { typecheck: { timeout_ms: 60000 }, licenses: { command: 'license-check', required: false } } } },
+    });
+    const invalid = validateConfig({ commit: { enabled: true, quality_checks: { lint: true, test: true, gates: { licenses: { required: false } } } } });
+
+    expect(valid.success).toBe(true);
+    expect(invalid.success).toBe(false);
+    expect(invalid.errors).toEqual(["commit.quality_checks.gates.licenses.command: Quality gate 'licenses' is not built in and needs a command"]);
+  });
+
+  it('should validate the batch minimum final RLHF score', () => {
+    const valid = validateConfig({ commit: { enabled: true }, batch: { min_final_rlhf_score: 1.5 } });
+    const invalid = validateConfig({ commit: { enabled: true }, batch: { min_final_rlhf_score: 3 } });
+
+    expect(valid.data?.batch?.min_final_rlhf_score).toBe(1.5);
+    expect(invalid.success).toBe(false);
+    expect(invalid.errors![0]).toContain('batch.min_final_rlhf_score');
+  });
 });
 
 describe('validateCommitMessage', () => {
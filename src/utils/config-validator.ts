@@ -6,6 +6,7 @@
 import { z } from 'zod';
 import * as path from 'path';
 import { OUTPUT_LIMITS } from './constants';
+import { BUILT_IN_QUALITY_GATES, QUALITY_GATE_PARSERS } from './quality-gates';
 
 /**
  * Zod schema for commit configuration
@@ -15,6 +16,8 @@ const CommitTypeEnum = z.enum(['feat', 'fix', 'chore', 'refactor', 'test', 'docs
 const TypeMappingSchema = z.object({
   create_file: z.union([CommitTypeEnum, z.null()]).optional(),
   refactor_file: z.union([CommitTypeEnum, z.null()]).optional(),
+  patch: z.union([CommitTypeEnum, z.null()]).optional(),
+  move_file: z.union([CommitTypeEnum, z.null()]).optional(),
   delete_file: z.union([CommitTypeEnum, z.null()]).optional(),
   folder: z.union([CommitTypeEnum, z.null()]).optional(),
   branch: z.union([CommitTypeEnum, z.null()]).optional(),
@@ -22,8 +25,35 @@ const TypeMappingSchema = z.object({
   validation: z.union([CommitTypeEnum, z.null()]).optional(),
   test: z.union([CommitTypeEnum, z.null()]).optional(),
   conditional_file: z.union([CommitTypeEnum, z.null()]).optional(),
+}).catchall(z.union([CommitTypeEnum, z.null()])); // Step types registered by plugins
+
+/**
+ * Architectural layers used by the import boundary rules
+ */
+const ArchitecturalLayerSchema = z.enum(['domain', 'data', 'infra', 'presentation', 'main', 'core']);
+
+/**
+ * A quality gate run before each commit; gates that are not built in need a command
+ */
+const QualityGateSchema = z.object({
+  enabled: z.boolean().optional(),
+  command: z.string().min(1).optional(),
+  parser: z.enum(QUALITY_GATE_PARSERS).optional(),
+  json_reporter: z.boolean().optional(),
+  timeout_ms: z.number().int().positive().optional(),
+  required: z.boolean().optional(),
+  max_score: z.number().min(-2).max(2).optional(),
 });
 
+const QualityGatesSchema = z.record(z.string().regex(/^[a-z][a-z0-9_-]*$/, 'Gate names use lowercase letters, digits, hyphens and underscores'), QualityGateSchema)
+  .superRefine((gates, ctx) => {
+    for (const [name, gate] of Object.entries(gates)) {
+      if (!gate.command && !BUILT_IN_QUALITY_GATES[name]) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, path: [name, 'command'], message: `Quality gate '${name}' is not built in and needs a command` });
+      }
+    }
+  });
+
 /**
  * Email regex pattern for co-author validation
  * Format: "Name <email@example.com>"
@@ -38,6 +68,11 @@ const CommitConfigSchema = z.object({
       lint_command: z.string().default('lint').optional(),
       test: z.boolean().default(true),
       test_command: z.string().default('test --run').optional(),
+      mode: z.enum(['full', 'incremental']).optional(),
+      lint_files_command: z.string().min(1).optional(),
+      related_tests_command: z.string().min(1).optional(),
+      full_suite_at_layer_end: z.boolean().optional(),
+      gates: QualityGatesSchema.optional(),
     }).default({ lint: true, test: true }),
     conventional_commits: z.object({
       enabled: z.boolean().default(true),
@@ -52,6 +87,24 @@ const CommitConfigSchema = z.object({
     }).optional(),
     interactive_safety: z.boolean().default(true).optional(),
   }),
+  validation_scripts: z.object({
+    timeout_ms: z.number().int().positive().optional(),
+    env_allowlist: z.array(z.string().min(1)).optional(),
+    max_output_size: z.number().int().positive().optional(),
+    denied_commands: z.array(z.string().min(1)).optional(),
+  }).optional(),
+  architecture: z.object({
+    enforce_imports: z.boolean().optional(),
+    allowed_dependencies: z.record(ArchitecturalLayerSchema, z.array(ArchitecturalLayerSchema)).optional(),
+    forbidden_packages: z.record(ArchitecturalLayerSchema, z.array(z.string().min(1))).optional(),
+    path_aliases: z.record(z.string().min(1), z.string()).optional(),
+  }).optional(),
+  state: z.object({
+    store: z.enum(['plan', 'sidecar']).optional(),
+  }).optional(),
+  batch: z.object({
+    min_final_rlhf_score: z.number().min(0).max(2).optional(),
+  }).optional(),
 });
 
 export type ValidatedConfig = z.infer<typeof CommitConfigSchema>;
@@ -15,6 +15,12 @@ export const TIMING = {
 
   /** Delay before retrying failed git operations */
   GIT_RETRY_DELAY: 1000,
+
+  /** Default maximum run time of a validation script */
+  VALIDATION_SCRIPT_TIMEOUT: 120000, // 2 minutes
+
+  /** Maximum time to wait for a timed-out step attempt to stop before restoring its files */
+  TIMED_OUT_ATTEMPT_GRACE: 5000,
 } as const;
 
 /**
@@ -42,6 +48,14 @@ export const RATE_LIMITS = {
   MIN_GIT_DELAY: 100,
 } as const;
 
+/**
+ * Step scheduling configuration
+ */
+export const SCHEDULING = {
+  /** Maximum number of independent steps (no depends_on between them) executed at once */
+  MAX_PARALLEL_STEPS: 4,
+} as const;
+
 /**
  * Output limits
  */
@@ -69,6 +83,9 @@ export const EXIT_CODES = {
   /** General error */
   ERROR: 1,
 
+  /** Invalid command-line arguments */
+  INVALID_USAGE: 2,
+
   /** Interrupted by user (Ctrl+C) */
   SIGINT: 130,
 
@@ -0,0 +1,110 @@
+/**
+ * Unit tests for diff-preview utility
+ */
+
+import { describe, it, expect } from 'vitest';
+import { createUnifiedDiff, summarizeDiff, colorizeDiff } from './diff-preview';
+
+describe('createUnifiedDiff', () => {
+  it('should return empty string when content is unchanged', () => {
+    expect(createUnifiedDiff('a.ts', 'const a = 1\n', 'const a = 1\n')).toBe('');
+  });
+
+  it('should render new files against /dev/null', () => {
+    const diff = createUnifiedDiff('src/domain/user.ts', null, 'line 1\nline 2\n');
+
+    expect(diff).toBe([
+      '--- /dev/null',
+      '+++ b/src/domain/user.ts',
+      '@@ -0,0 +1,2 @@',
+      '+line 1',
+      '+line 2',
+    ].join('\n'));
+  });
+
+  it('should render deleted files against /dev/null', () => {
+    const diff = createUnifiedDiff('old.ts', 'gone\n', null);
+
+    expect(diff).toBe([
+      '--- a/old.ts',
+      '+++ /dev/null',
+      '@@ -1 +0,0 @@',
+      '-gone',
+    ].join('\n'));
+  });
+
+  it('should include surrounding context lines for modifications', () => {
+    const oldContent = ['a', 'b', 'c', 'd', 'e', 'f', 'g', 'h'].join('\n');
+    const newContent = ['a', 'b', 'c', 'd', 'E', 'f', 'g', 'h'].join('\n');
+
+    const diff = createUnifiedDiff('file.ts', oldContent, newContent);
+
+    expect(diff).toContain('@@ -2,7 +2,7 @@');
+    expect(diff).toContain('-e');
+    expect(diff).toContain('+E');
+    expect(diff.split('\n')).toContain(' b');
+    expect(diff.split('\n')).not.toContain(' a');
+  });
+
+  it('should split distant changes into separate hunks', () => {
+    const oldLines = Array.from({ length: 20 }, (_, i) => `line ${i + 1}`);
+    const newLines = [...oldLines];
+    newLines[1] = 'changed 2';
+    newLines[18] = 'changed 19';
+
+    const diff = createUnifiedDiff('file.ts', oldLines.join('\n'), newLines.join('\n'));
+    const hunkHeaders = diff.split('\n').filter(line => line.startsWith('@@'));
+
+    expect(hunkHeaders).toHaveLength(2);
+  });
+
+  it('should diff only the changed lines of a large file', () => {
+    const oldLines = Array.from({ length: 50000 }, (_, i) => `line ${i + 1}`);
+    const newLines = [...oldLines];
+    newLines[25000] = 'changed 25001';
+
+    const diff = createUnifiedDiff('file.ts', oldLines.join('\n'), newLines.join('\n'));
+
+    expect(diff.split('\n').slice(2)).toEqual([
+      '@@ -24998,7 +24998,7 @@',
+      ' line 24998', ' line 24999', ' line 25000', '-line 25001', '+changed 25001', ' line 25002', ' line 25003', ' line 25004',
+    ]);
+  });
+
+  it('should show a change too large to diff as the old lines replaced by the new ones', () => {
+    const oldLines = Array.from({ length: 3000 }, (_, i) => `old ${i}`);
+    const newLines = ['header', ...Array.from({ length: 3000 }, (_, i) => `new ${i}`)];
+
+    const diff = createUnifiedDiff('file.ts', oldLines.join('\n'), newLines.join('\n'));
+
+    expect(summarizeDiff(diff)).toEqual({ additions: 3001, deletions: 3000 });
+    expect(diff.split('\n')[2]).toBe('@@ -1,3000 +1,3001 @@');
+  });
+
+  it('should ignore CRLF differences in line endings', () => {
+    expect(createUnifiedDiff('file.ts', 'a\r\nb\r\n', 'a\nb\n')).toBe('');
+  });
+});
+
+describe('summarizeDiff', () => {
+  it('should count additions and deletions, ignoring headers', () => {
+    const diff = createUnifiedDiff('file.ts', 'a\nb\n', 'a\nc\nd\n');
+
+    expect(summarizeDiff(diff)).toEqual({ additions: 2, deletions: 1 });
+  });
+
+  it('should return zero counts for empty diff', () => {
+    expect(summarizeDiff('')).toEqual({ additions: 0, deletions: 0 });
+  });
+});
+
+describe('colorizeDiff', () => {
+  it('should preserve diff text and line count', () => {
+    const diff = createUnifiedDiff('file.ts', 'a\nb\n', 'a\nc\n');
+    const colored = colorizeDiff(diff);
+
+    expect(colored.split('\n')).toHaveLength(diff.split('\n').length);
+    expect(colored).toContain('+c');
+    expect(colored).toContain('-b');
+  });
+});
@@ -0,0 +1,231 @@
+/**
+ * Diff Preview
+ * Builds unified diffs used to preview step changes without touching disk
+ */
+
+import chalk from 'chalk';
+
+/**
+ * Single line operation produced by the line diff
+ */
+interface DiffLine {
+  type: 'context' | 'add' | 'remove';
+  text: string;
+}
+
+/**
+ * Default number of context lines around each change (same as `git diff`)
+ */
+const DEFAULT_CONTEXT_LINES = 3;
+
+/**
+ * Split content into lines, ignoring the empty line produced by a trailing newline
+ */
+function splitLines(content: string | null): string[] {
+  if (content === null || content === '') return [];
+  const lines = content.replace(/\r\n/g, '\n').split('\n');
+  if (lines[lines.length - 1] === '') {
+    lines.pop();
+  }
+  return lines;
+}
+
+/**
+ * Largest LCS table (changed old lines × changed new lines) the diff computes;
+ * bigger changes are shown as the old lines replaced by the new ones
+ */
+const MAX_LCS_CELLS = 4_000_000;
+
+/**
+ * Compute line operations using a longest common subsequence table
+ * The common prefix and suffix are taken out first, so a small edit of a large
+ * file only diffs the lines around it
+ */
+function diffLines(oldLines: string[], newLines: string[]): DiffLine[] {
+  let prefix = 0;
+  while (prefix < oldLines.length && prefix < newLines.length && oldLines[prefix] === newLines[prefix]) {
+    prefix++;
+  }
+  let suffix = 0;
+  while (
+    suffix < oldLines.length - prefix && suffix < newLines.length - prefix
+    && oldLines[oldLines.length - 1 - suffix] === newLines[newLines.length - 1 - suffix]
+  ) {
+    suffix++;
+  }
+
+  const oldMiddle = oldLines.slice(prefix, oldLines.length - suffix);
+  const newMiddle = newLines.slice(prefix, newLines.length - suffix);
+  const middle = oldMiddle.length * newMiddle.length > MAX_LCS_CELLS
+    ? [
+      ...oldMiddle.map(text => ({ type: 'remove' as const, text })),
+      ...newMiddle.map(text => ({ type: 'add' as const, text })),
+    ]
+    : diffLinesLcs(oldMiddle, newMiddle);
+
+  return [
+    ...oldLines.slice(0, prefix).map(text => ({ type: 'context' as const, text })),
+    ...middle,
+    ...oldLines.slice(oldLines.length - suffix).map(text => ({ type: 'context' as const, text })),
+  ];
+}
+
+function diffLinesLcs(oldLines: string[], newLines: string[]): DiffLine[] {
+  const rows = oldLines.length;
+  const cols = newLines.length;
+
+  // lcs[i * (cols + 1) + j] = length of LCS between oldLines[i..] and newLines[j..]
+  const width = cols + 1;
+  const lcs = new Uint32Array((rows + 1) * width);
+  for (let i = rows - 1; i >= 0; i--) {
+    for (let j = cols - 1; j >= 0; j--) {
+      lcs[i * width + j] = oldLines[i] === newLines[j]
+        ? lcs[(i + 1) * width + j + 1] + 1
+        : Math.max(lcs[(i + 1) * width + j], lcs[i * width + j + 1]);
+    }
+  }
+
+  const result: DiffLine[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < rows && j < cols) {
+    if (oldLines[i] === newLines[j]) {
+      result.push({ type: 'context', text: oldLines[i] });
+      i++;
+      j++;
+    } else if (lcs[(i + 1) * width + j] >= lcs[i * width + j + 1]) {
+      result.push({ type: 'remove', text: oldLines[i] });
+      i++;
+    } else {
+      result.push({ type: 'add', text: newLines[j] });
+      j++;
+    }
+  }
+  while (i < rows) result.push({ type: 'remove', text: oldLines[i++] });
+  while (j < cols) result.push({ type: 'add', text: newLines[j++] });
+
+  return result;
+}
+
+/**
+ * Format a hunk range the way `git diff` does (`start,count`, omitting count when 1)
+ */
+function formatRange(start: number, count: number): string {
+  if (count === 0) return `${Math.max(start - 1, 0)},0`;
+  if (count === 1) return `${start}`;
+  return `${start},${count}`;
+}
+
+/**
+ * Create a unified diff between two versions of a file
+ * @param filePath - Path shown in the diff headers
+ * @param oldContent - Current content, or null when the file does not exist
+ * @param newContent - Resulting content, or null when the file is deleted
+ * @param contextLines - Number of unchanged lines shown around each change
+ * @returns Unified diff text, or an empty string when nothing changes
+ *
+ * @example
+ * createUnifiedDiff('src/domain/models/user.ts', null, 'export type User = {}\n')
+ * // --- /dev/null
+ * // +++ b/src/domain/models/user.ts
+ * // @@ -0,0 +1 @@
+ * // +export type User = {}
+ */
+export function createUnifiedDiff(
+  filePath: string,
+  oldContent: string | null,
+  newContent: string | null,
+  contextLines: number = DEFAULT_CONTEXT_LINES
+): string {
+  if (oldContent === newContent) return '';
+
+  const lines = diffLines(splitLines(oldContent), splitLines(newContent));
+  if (!lines.some(line => line.type !== 'context')) return '';
+
+  const output: string[] = [
+    `--- ${oldContent === null ? '/dev/null' : `a/${filePath}`}`,
+    `+++ ${newContent === null ? '/dev/null' : `b/${filePath}`}`,
+  ];
+
+  // Group changed lines into hunks, merging hunks whose context overlaps
+  const changeIndexes = lines
+    .map((line, index) => (line.type === 'context' ? -1 : index))
+    .filter(index => index !== -1);
+
+  const ranges: Array<{ start: number; end: number }> = [];
+  for (const index of changeIndexes) {
+    const start = Math.max(0, index - contextLines);
+    const end = Math.min(lines.length - 1, index + contextLines);
+    const last = ranges[ranges.length - 1];
+    if (last && start <= last.end + 1) {
+      last.end = Math.max(last.end, end);
+    } else {
+      ranges.push({ start, end });
+    }
+  }
+
+  for (const range of ranges) {
+    // Line numbers before the hunk start
+    let oldStart = 1;
+    let newStart = 1;
+    for (let k = 0; k < range.start; k++) {
+      if (lines[k].type !== 'add') oldStart++;
+      if (lines[k].type !== 'remove') newStart++;
+    }
+
+    const hunk = lines.slice(range.start, range.end + 1);
+    const oldCount = hunk.filter(line => line.type !== 'add').length;
+    const newCount = hunk.filter(line => line.type !== 'remove').length;
+
+    output.push(`@@ -${formatRange(oldStart, oldCount)} +${formatRange(newStart, newCount)} @@`);
+    for (const line of hunk) {
+      const prefix = line.type === 'add' ? '+' : line.type === 'remove' ? '-' : ' ';
+      output.push(`${prefix}${line.text}`);
+    }
+  }
+
+  return output.join('\n');
+}
+
+/**
+ * Count added and removed lines in a unified diff
+ * @param diff - Unified diff produced by createUnifiedDiff
+ * @returns Number of added and removed lines
+ */
+export function summarizeDiff(diff: string): { additions: number; deletions: number } {
+  let additions = 0;
+  let deletions = 0;
+
+  let inHunk = false;
+
+  for (const line of diff.split('\n')) {
+    // File headers (---/+++) only appear before the first hunk
+    if (line.startsWith('@@')) {
+      inHunk = true;
+      continue;
+    }
+    if (!inHunk) continue;
+    if (line.startsWith('+')) additions++;
+    else if (line.startsWith('-')) deletions++;
+  }
+
+  return { additions, deletions };
+}
+
+/**
+ * Colourise a unified diff for terminal output
+ * @param diff - Unified diff produced by createUnifiedDiff
+ * @returns Diff with headers, hunks, additions and deletions coloured
+ */
+export function colorizeDiff(diff: string): string {
+  return diff
+    .split('\n')
+    .map(line => {
+      if (line.startsWith('+++') || line.startsWith('---')) return chalk.bold(line);
+      if (line.startsWith('@@')) return chalk.cyan(line);
+      if (line.startsWith('+')) return chalk.green(line);
+      if (line.startsWith('-')) return chalk.red(line);
+      return chalk.gray(line);
+    })
+    .join('\n');
+}
@@ -0,0 +1,87 @@
+/**
+ * Unit tests for the execution lock
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import fs from 'fs-extra';
+import os from 'os';
+import path from 'path';
+import {
+  acquireExecutionLock,
+  ExecutionLockError,
+  getLockPath,
+  getStaleReason,
+  LOCK_MAX_AGE_MS,
+  type LockHolder,
+} from './execution-lock';
+
+function holder(extra: Partial<LockHolder> = {}): LockHolder {
+  return { pid: 4242, host: os.hostname(), started_at: new Date().toISOString(), plan: 'implementation.yaml', ...extra };
+}
+
+describe('getStaleReason', () => {
+  it('should only treat locks of dead processes or past the maximum age as stale', () => {
+    const alive = () => true;
+    const dead = () => false;
+
+    expect(getStaleReason(holder(), Date.now(), alive)).toBeNull();
+    expect(getStaleReason(holder(), Date.now(), dead)).toBe('process 4242 is no longer running');
+    // Processes of other hosts cannot be checked
+    expect(getStaleReason(holder({ host: 'other-host' }), Date.now(), dead)).toBeNull();
+    expect(getStaleReason(holder({ host: 'other-host' }), Date.now() + LOCK_MAX_AGE_MS + 1, alive)).toBe('it is older than 24 hours');
+    expect(getStaleReason(null)).toBe('the lock file is unreadable');
+  });
+});
+
+describe('acquireExecutionLock', () => {
+  let tempDir: string;
+  let lockPath: string;
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'execution-lock-'));
+    await fs.ensureDir(path.join(tempDir, '.regent'));
+    lockPath = getLockPath(path.join(tempDir, 'spec/implementation.yaml'));
+  });
+
+  afterEach(async () => {
+    await fs.remove(tempDir);
+  });
+
+  it('should keep the lock file in the project state directory', () => {
+    expect(lockPath).toBe(path.join(tempDir, '.regent/state/execute.lock'));
+  });
+
+  it('should refuse a lock held by a running process and name the holder', async () => {
+    await fs.outputJson(lockPath, holder({ pid: process.ppid }));
+
+    expect(() => acquireExecutionLock(lockPath, 'implementation.yaml')).toThrow(ExecutionLockError);
+    expect(() => acquireExecutionLock(lockPath, 'implementation.yaml')).toThrow(`PID ${process.ppid} on ${os.hostname()}`);
+  });
+
+  it('should take over stale and forced locks', async () => {
+    const onTakeOver = vi.fn();
+    await fs.outputJson(lockPath, holder({ pid: process.ppid, started_at: '2020-01-01T00:00:00.000Z' }));
+
+    acquireExecutionLock(lockPath, 'implementation.yaml', { onTakeOver }).release();
+    expect(onTakeOver).toHaveBeenCalledWith(expect.objectContaining({ started_at: '2020-01-01T00:00:00.000Z' }), 'it is older than 24 hours');
+
+    await fs.outputJson(lockPath, holder({ pid: process.ppid }));
+    const lock = acquireExecutionLock(lockPath, 'implementation.yaml', { force: true, onTakeOver });
+    expect(onTakeOver).toHaveBeenLastCalledWith(expect.objectContaining({ pid: process.ppid }), 'unlock was forced');
+    expect((await fs.readJson(lockPath)).pid).toBe(process.pid);
+    lock.release();
+  });
+
+  it('should refuse a second run of the same process, even when forced', async () => {
+    const lock = acquireExecutionLock(lockPath, 'templates/*.yaml');
+
+    expect(() => acquireExecutionLock(lockPath, 'implementation.yaml')).toThrow(ExecutionLockError);
+    expect(() => acquireExecutionLock(lockPath, 'implementation.yaml', { force: true })).toThrow(`PID ${process.pid} on ${os.hostname()}`);
+    expect(await fs.readJson(lockPath)).toMatchObject({ pid: process.pid, host: os.hostname(), plan: 'templates/*.yaml' });
+
+    lock.release();
+    lock.release();
+    expect(await fs.pathExists(lockPath)).toBe(false);
+    acquireExecutionLock(lockPath, 'implementation.yaml').release();
+  });
+});
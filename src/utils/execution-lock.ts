@@ -0,0 +1,194 @@
+/**
+ * Execution Lock
+ * Advisory lock file keeping two executor processes from committing and saving
+ * plans in the same project at once
+ *
+ * The lock lives in `.regent/state/execute.lock` and records who holds it. A lock
+ * whose process is gone (same host) or that is older than the maximum age (any host)
+ * is stale and taken over. The lock is not re-entrant: a second run in the same
+ * process is refused like any other, and a batch run hands its own lock to the
+ * executors it starts instead.
+ */
+
+import fs from 'fs-extra';
+import * as os from 'os';
+import * as path from 'path';
+import { findProjectRoot, STATE_DIRECTORY } from './execution-state';
+
+/**
+ * Content of a lock file
+ */
+export interface LockHolder {
+  pid: number;
+  host: string;
+  started_at: string;
+  /** Plan or batch pattern being executed */
+  plan: string;
+}
+
+/**
+ * A held lock, released once by its owner
+ */
+export interface ExecutionLock {
+  path: string;
+  release(): void;
+}
+
+/**
+ * Thrown when another run holds the lock
+ */
+export class ExecutionLockError extends Error {
+  constructor(message: string, public readonly holder: LockHolder | null) {
+    super(message);
+    this.name = 'ExecutionLockError';
+  }
+}
+
+/**
+ * Locks older than this are stale even when their process cannot be checked
+ */
+export const LOCK_MAX_AGE_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Locks held by this process
+ */
+const heldLocks = new Set<string>();
+let exitHandlerInstalled = false;
+
+/**
+ * Path of the lock file of the project a plan belongs to
+ */
+export function getLockPath(planPath: string): string {
+  return path.join(findProjectRoot(planPath), STATE_DIRECTORY, 'execute.lock');
+}
+
+/**
+ * Whether a process is running on this host
+ */
+export function isProcessAlive(pid: number): boolean {
+  try {
+    process.kill(pid, 0);
+    return true;
+  } catch (error) {
+    // EPERM: the process exists but belongs to another user
+    return (error as NodeJS.ErrnoException).code === 'EPERM';
+  }
+}
+
+/**
+ * Why a lock no longer protects a run, or null when its holder may still be running
+ */
+export function getStaleReason(
+  holder: LockHolder | null,
+  now: number = Date.now(),
+  isAlive: (pid: number) => boolean = isProcessAlive
+): string | null {
+  if (!holder) {
+    return 'the lock file is unreadable';
+  }
+  if (holder.host === os.hostname() && !isAlive(holder.pid)) {
+    return `process ${holder.pid} is no longer running`;
+  }
+  const startedAt = Date.parse(holder.started_at);
+  if (Number.isNaN(startedAt) || now - startedAt > LOCK_MAX_AGE_MS) {
+    return `it is older than ${LOCK_MAX_AGE_MS / 3600000} hours`;
+  }
+  return null;
+}
+
+/**
+ * Describe the holder of a lock for error messages
+ * @example formatLockHolder(holder) // 'PID 4242 on ci-runner-3 since 2025-10-19T12:00:00.000Z (spec/001-auth/domain/implementation.yaml)'
+ */
+export function formatLockHolder(holder: LockHolder): string {
+  return `PID ${holder.pid} on ${holder.host} since ${holder.started_at} (${holder.plan})`;
+}
+
+function readHolder(lockPath: string): LockHolder | null {
+  try {
+    const holder = JSON.parse(fs.readFileSync(lockPath, 'utf-8'));
+    return typeof holder?.pid === 'number' && typeof holder?.host === 'string' ? holder : null;
+  } catch {
+    return null;
+  }
+}
+
+function installExitHandler(): void {
+  if (exitHandlerInstalled) return;
+  exitHandlerInstalled = true;
+  // Signals end the process with process.exit(): never leave a lock behind
+  process.once('exit', () => {
+    for (const lockPath of heldLocks) {
+      if (readHolder(lockPath)?.pid === process.pid) fs.rmSync(lockPath, { force: true });
+    }
+    heldLocks.clear();
+  });
+}
+
+/**
+ * Take the execution lock of a project
+ * @param lockPath - Lock file, see getLockPath
+ * @param plan - What this run executes, shown to runs that find the lock held
+ * @param options.force - Take the lock even when another process holds it (--force-unlock)
+ * @param options.onTakeOver - Told about each stale or forced lock that is removed
+ * @throws {ExecutionLockError} If another run holds the lock, in this process or another one
+ */
+export function acquireExecutionLock(
+  lockPath: string,
+  plan: string,
+  options: { force?: boolean; onTakeOver?: (holder: LockHolder | null, reason: string) => void } = {}
+): ExecutionLock {
+  if (heldLocks.has(lockPath)) {
+    // Never forced: a run of this process is alive by definition
+    const current = readHolder(lockPath);
+    throw new ExecutionLockError(
+      `Another execution in this process holds the lock ${lockPath}: ${current ? formatLockHolder(current) : 'unknown holder'}. ` +
+      'Wait for it to finish.',
+      current
+    );
+  }
+
+  const holder: LockHolder = { pid: process.pid, host: os.hostname(), started_at: new Date().toISOString(), plan };
+  fs.ensureDirSync(path.dirname(lockPath));
+
+  for (let attempt = 0; ; attempt++) {
+    try {
+      // 'wx' fails when the file exists, so only one process can create it
+      fs.writeFileSync(lockPath, `${JSON.stringify(holder, null, 2)}\n`, { flag: 'wx' });
+      break;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'EEXIST') throw error;
+
+      const current = readHolder(lockPath);
+      // A lock recreated right after a take-over belongs to a run that won the race
+      const reason = attempt > 0 ? null : options.force ? 'unlock was forced' : getStaleReason(current);
+      if (!reason) {
+        throw new ExecutionLockError(
+          `Another execution holds the lock ${lockPath}: ${current ? formatLockHolder(current) : 'unknown holder'}. ` +
+          'Wait for it to finish, or pass --force-unlock if it is no longer running.',
+          current
+        );
+      }
+      options.onTakeOver?.(current, reason);
+      fs.rmSync(lockPath, { force: true });
+    }
+  }
+
+  heldLocks.add(lockPath);
+  installExitHandler();
+
+  let released = false;
+  return {
+    path: lockPath,
+    release(): void {
+      if (released) return;
+      released = true;
+
+      heldLocks.delete(lockPath);
+      // Only remove the file while it is still ours (it may have been forced away)
+      if (readHolder(lockPath)?.pid === process.pid) {
+        fs.rmSync(lockPath, { force: true });
+      }
+    },
+  };
+}
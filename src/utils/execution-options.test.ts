@@ -201,6 +201,28 @@ describe('parseExecutionOptions', () => {
       parseExecutionOptions({ nonInteractive: false });
       expect(console.log).not.toHaveBeenCalled();
     });
+
+    it('should log dry-run mode in any interaction mode', () => {
+      const options = parseExecutionOptions({ nonInteractive: false, dryRun: true });
+      expect(options.dryRun).toBe(true);
+      expect(console.log).toHaveBeenCalledWith(
+        expect.stringContaining('Dry-run mode')
+      );
+    });
+
+    it('should disable isolation in dry-run mode', () => {
+      expect(parseExecutionOptions({ isolated: true }).isolated).toBe(true);
+      expect(parseExecutionOptions({ isolated: true, dryRun: true }).isolated).toBe(false);
+    });
+
+    it('should only pause between steps when prompts can be answered', () => {
+      expect(parseExecutionOptions({ nonInteractive: false, interactiveSteps: true }).interactiveSteps).toBe(true);
+      expect(console.log).toHaveBeenCalledWith(expect.stringContaining('Interactive steps'));
+
+      expect(parseExecutionOptions({ nonInteractive: true, interactiveSteps: true }).interactiveSteps).toBe(false);
+      expect(parseExecutionOptions({ nonInteractive: false, autoConfirm: true, interactiveSteps: true }).interactiveSteps).toBe(true);
+      expect(parseExecutionOptions({ nonInteractive: false, dryRun: true, interactiveSteps: true }).interactiveSteps).toBe(false);
+    });
   });
 
   describe('Default behavior', () => {
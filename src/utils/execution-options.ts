@@ -3,11 +3,20 @@
  */
 
 import chalk from 'chalk';
+import type { StepSelection } from './step-selection';
+import { consoleOutput, type OutputAdapter } from '../core/executor-api';
 
 export interface ExecutionOptions {
   nonInteractive?: boolean;
   autoConfirm?: boolean;
   strict?: boolean;
+  dryRun?: boolean;
+  isolated?: boolean;
+  /** Pause before each step to approve, skip, edit or abort it */
+  interactiveSteps?: boolean;
+  /** Remove the execution lock of another run before starting */
+  forceUnlock?: boolean;
+  stepSelection?: StepSelection;
 }
 
 /**
@@ -49,9 +58,13 @@ function isEnvSet(varName: string): boolean {
  * Priority: CLI flags > Environment variables > Config file
  *
  * @param options - Options provided from CLI
+ * @param output - Where the mode notices are reported (default: the console)
  * @returns Parsed execution options with defaults applied
  */
-export function parseExecutionOptions(options: ExecutionOptions): ExecutionOptions {
+export function parseExecutionOptions(
+  options: ExecutionOptions,
+  output: OutputAdapter = consoleOutput
+): ExecutionOptions {
   // Start with provided options (from CLI)
   const parsed: ExecutionOptions = { ...options };
 
@@ -74,18 +87,43 @@ export function parseExecutionOptions(options: ExecutionOptions): ExecutionOptio
 
   // Validate conflicting flags
   if (parsed.strict && parsed.autoConfirm) {
-    console.warn(chalk.yellow`   ⚠️  --strict overrides --yes flag`);
+    output.warn(chalk.yellow`   ⚠️  --strict overrides --yes flag`);
     parsed.autoConfirm = false;
   }
 
   // Log execution mode
   if (parsed.nonInteractive) {
-    console.log(chalk.cyan`   ℹ️  Running in non-interactive mode`);
+    output.info(chalk.cyan`   ℹ️  Running in non-interactive mode`);
     if (parsed.strict) {
-      console.log(chalk.yellow`   ⚠️  Strict mode: Will fail on warnings`);
+      output.info(chalk.yellow`   ⚠️  Strict mode: Will fail on warnings`);
     }
     if (parsed.autoConfirm) {
-      console.log(chalk.yellow`   ⚠️  Auto-confirm mode: All prompts auto-approved`);
+      output.info(chalk.yellow`   ⚠️  Auto-confirm mode: All prompts auto-approved`);
+    }
+  }
+
+  if (parsed.dryRun) {
+    output.info(chalk.cyan`   ℹ️  Dry-run mode: No files, plans or commits will be changed`);
+    if (parsed.isolated) {
+      output.info(chalk.gray`   ℹ️  --isolated has no effect in dry-run mode`);
+      parsed.isolated = false;
+    }
+  }
+
+  if (parsed.isolated) {
+    output.info(chalk.cyan`   ℹ️  Isolated mode: Plan runs in a temporary git worktree`);
+  }
+
+  if (parsed.forceUnlock) {
+    output.info(chalk.yellow`   ⚠️  Force unlock: An execution lock held by another run will be removed`);
+  }
+
+  if (parsed.interactiveSteps) {
+    if (parsed.dryRun || parsed.nonInteractive) {
+      output.info(chalk.gray`   ℹ️  --interactive-steps has no effect with --dry-run or --non-interactive`);
+      parsed.interactiveSteps = false;
+    } else {
+      output.info(chalk.cyan`   ℹ️  Interactive steps: Each step waits for approval before it runs`);
     }
   }
 
@@ -0,0 +1,151 @@
+/**
+ * Unit tests for execution state storage
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import fs from 'fs-extra';
+import os from 'os';
+import path from 'path';
+import {
+  applyExecutionState,
+  collectExecutionState,
+  excludeStateDirectory,
+  getStatePath,
+  isRunStatePath,
+  isStateFile,
+  parsePlanDocument,
+  readExecutionState,
+  updatePlanDocument,
+  writeExecutionState,
+  writeStateIntoPlan,
+} from './execution-state';
+
+const PLAN = `# User domain plan
+metadata:
+  layer: domain # detected from the file name too
+steps:
+  # Entity first
+  - id: create-user
+    type: create_file
+    template: |
+      export type User = { id: string };
+    status: PENDING
+    rlhf_score: null
+    execution_log: ''
+`;
+
+describe('updatePlanDocument', () => {
+  it('should only rewrite changed values and keep comments', () => {
+    const document = parsePlanDocument(PLAN);
+    const plan = document.toJS();
+    plan.steps[0].status = 'SUCCESS';
+    plan.steps[0].execution_log = 'Completed.\nRLHF Score: 2';
+
+    updatePlanDocument(document, plan);
+
+    const written = String(document);
+    expect(written).toContain('# User domain plan');
+    expect(written).toContain('  # Entity first');
+    expect(written).toContain('layer: domain # detected from the file name too');
+    expect(written).toContain('status: SUCCESS');
+    expect(written).toContain('execution_log: |-\n      Completed.\n      RLHF Score: 2');
+  });
+
+  it('should leave skipped paths as they are', () => {
+    const document = parsePlanDocument(PLAN);
+    const plan = document.toJS();
+    plan.steps[0].status = 'SUCCESS';
+    plan.steps[0].template = 'export type User = { id: number };\n';
+    plan.evaluation = { final_status: 'SUCCESS' };
+
+    updatePlanDocument(document, plan, isRunStatePath);
+
+    expect(document.toJS().steps[0]).toMatchObject({ status: 'PENDING', template: 'export type User = { id: number };\n' });
+    expect(document.toJS().evaluation).toBeUndefined();
+  });
+});
+
+describe('collectExecutionState / applyExecutionState', () => {
+  it('should move run state between a plan and a state by step id', () => {
+    const plan = {
+      steps: [{ id: 'a', type: 'create_file', status: 'SUCCESS', rlhf_score: 2, execution_log: 'done', attempts: 2 }],
+      domain_steps: [{ id: 'b', type: 'folder', status: 'FAILED', rlhf_score: -1, execution_log: 'boom' }],
+      evaluation: { final_status: 'PARTIAL' },
+    };
+
+    const state = collectExecutionState(plan, 'spec/domain/implementation.yaml');
+    expect(state.steps).toEqual({
+      a: { status: 'SUCCESS', rlhf_score: 2, execution_log: 'done', attempts: 2 },
+      b: { status: 'FAILED', rlhf_score: -1, execution_log: 'boom' },
+    });
+
+    const fresh: Record<string, unknown> = {
+      steps: [{ id: 'a', type: 'create_file', status: 'PENDING', attempts: 3 }, { id: 'new', status: 'PENDING' }],
+      domain_steps: [{ id: 'b', type: 'folder', status: 'PENDING' }],
+    };
+    applyExecutionState(fresh, state);
+
+    expect(fresh).toEqual({
+      steps: [
+        { id: 'a', type: 'create_file', status: 'SUCCESS', rlhf_score: 2, execution_log: 'done', attempts: 2 },
+        { id: 'new', status: 'PENDING' },
+      ],
+      domain_steps: [{ id: 'b', type: 'folder', status: 'FAILED', rlhf_score: -1, execution_log: 'boom' }],
+      evaluation: { final_status: 'PARTIAL' },
+    });
+  });
+});
+
+describe('state files', () => {
+  let tempDir: string;
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'execution-state-'));
+    await fs.ensureDir(path.join(tempDir, '.regent'));
+  });
+
+  afterEach(async () => {
+    await fs.remove(tempDir);
+  });
+
+  it('should name the state file after the plan path in the project', () => {
+    expect(getStatePath(path.join(tempDir, 'spec/001-user/domain/implementation.yaml'))).toBe(
+      path.join(tempDir, '.regent/state/spec__001-user__domain__implementation.state.json')
+    );
+  });
+
+  it('should recognise the state files and the execution lock in git paths', () => {
+    expect(isStateFile('.regent/state/implementation.state.json')).toBe(true);
+    expect(isStateFile('packages/api/.regent/state/')).toBe(true);
+    expect(isStateFile('.regent/config/execute.yml')).toBe(false);
+    expect(isStateFile('src/state/user.ts')).toBe(false);
+  });
+
+  it('should exclude the state directory once, from the main repository of a worktree', async () => {
+    const mainGitDir = path.join(tempDir, 'main/.git');
+    const worktree = path.join(tempDir, 'worktree');
+    await fs.outputFile(path.join(mainGitDir, 'worktrees/feature/commondir'), '../..\n');
+    await fs.outputFile(path.join(worktree, '.git'), `gitdir: ${path.join(mainGitDir, 'worktrees/feature')}\n`);
+
+    excludeStateDirectory(path.join(worktree, 'packages/api'));
+    excludeStateDirectory(worktree);
+
+    expect(await fs.readFile(path.join(mainGitDir, 'info/exclude'), 'utf-8')).toBe('.regent/state/\n');
+  });
+
+  it('should write the state back into the plan and remove the state file', async () => {
+    const planPath = path.join(tempDir, 'spec/implementation.yaml');
+    await fs.outputFile(planPath, PLAN);
+    const plan = parsePlanDocument(PLAN).toJS();
+    plan.steps[0].status = 'SUCCESS';
+    await writeExecutionState(getStatePath(planPath), collectExecutionState(plan, 'spec/implementation.yaml'));
+
+    expect(await writeStateIntoPlan(planPath)).toBe(getStatePath(planPath));
+
+    const written = await fs.readFile(planPath, 'utf-8');
+    expect(written).toContain('  # Entity first');
+    expect(written).toContain('status: SUCCESS');
+    expect(await readExecutionState(getStatePath(planPath))).toBeNull();
+    expect(await writeStateIntoPlan(planPath)).toBeNull();
+  });
+});
@@ -0,0 +1,309 @@
+/**
+ * Execution State
+ * Run state of a plan (step status, RLHF score, execution log and evaluation),
+ * either written back into the plan YAML or kept in a sidecar file
+ * `.regent/state/<plan>.state.json` so the plan itself is never rewritten
+ *
+ * Writes into the YAML go through the yaml Document API: only changed values are
+ * replaced, so comments, anchors and formatting of the rest of the plan are kept.
+ */
+
+import fs from 'fs-extra';
+import { isDeepStrictEqual } from 'util';
+import * as path from 'path';
+import * as yaml from 'yaml';
+
+/**
+ * Where a run keeps its state
+ * - plan: written back into the implementation YAML
+ * - sidecar: `.regent/state/<plan>.state.json`, the YAML only changes when the plan content does
+ */
+export type StateStore = 'plan' | 'sidecar';
+
+/**
+ * Step fields that record a run rather than describe the plan
+ */
+export const STEP_STATE_KEYS = ['status', 'rlhf_score', 'execution_log', 'attempts', 'content_hash', 'stale'] as const;
+
+/**
+ * Plan fields that record a run
+ */
+export const PLAN_STATE_KEYS = ['evaluation', 'execution_log', 'step_order'] as const;
+
+export type StepState = Partial<Record<typeof STEP_STATE_KEYS[number], unknown>>;
+
+/**
+ * Content of a sidecar state file
+ */
+export interface ExecutionState {
+  /** Plan the state belongs to, relative to the project root */
+  plan: string;
+  updated_at: string;
+  /** Run state of each step, by step id */
+  steps: Record<string, StepState>;
+  evaluation?: Record<string, unknown>;
+  /** Plan-wide log (e.g. step selections) */
+  execution_log?: string;
+  /** Ids of the steps that ran, in plan order */
+  step_order?: string[];
+}
+
+/**
+ * Directory holding the sidecar state files, relative to the project root
+ */
+export const STATE_DIRECTORY = '.regent/state';
+
+type PlanObject = Record<string, unknown>;
+type KeyPath = Array<string | number>;
+
+/**
+ * Project a plan belongs to: the closest folder above it holding `.regent`,
+ * or the working directory when there is none
+ */
+export function findProjectRoot(planPath: string): string {
+  let directory = path.dirname(path.resolve(planPath));
+  for (;;) {
+    if (fs.existsSync(path.join(directory, '.regent'))) return directory;
+    const parent = path.dirname(directory);
+    if (parent === directory) return process.cwd();
+    directory = parent;
+  }
+}
+
+/**
+ * Path of a plan relative to the project root, naming its state
+ * Plans outside the project are named by their file name
+ */
+export function getPlanKey(planPath: string, root: string = findProjectRoot(planPath)): string {
+  const relative = path.relative(root, path.resolve(planPath));
+  return (relative.startsWith('..') || path.isAbsolute(relative) ? path.basename(planPath) : relative).replace(/\\/g, '/');
+}
+
+/**
+ * Path of the state file of a plan
+ * Plans in different folders get different files: the folders are part of the name
+ * @example getStatePath('/repo/spec/001-auth/domain/implementation.yaml') // with /repo/.regent
+ * // '/repo/.regent/state/spec__001-auth__domain__implementation.state.json'
+ */
+export function getStatePath(planPath: string, root: string = findProjectRoot(planPath)): string {
+  const name = getPlanKey(planPath, root).replace(/\.(ya?ml|regent)$/i, '').replace(/\//g, '__');
+  return path.join(path.resolve(root), STATE_DIRECTORY, `${name}.state.json`);
+}
+
+const STATE_FILE_PATTERN = /(^|\/)\.regent\/state(\/|$)/;
+
+/**
+ * Whether a path reported by git, relative to the repository root, is run state:
+ * a sidecar state file or the execution lock
+ */
+export function isStateFile(filePath: string): boolean {
+  return STATE_FILE_PATTERN.test(filePath.replace(/\\/g, '/'));
+}
+
+/**
+ * Git directory shared by all worktrees of the repository holding a directory
+ * @returns undefined outside a git repository
+ */
+function findGitCommonDir(directory: string): string | undefined {
+  for (let current = path.resolve(directory); ; current = path.dirname(current)) {
+    const dotGit = path.join(current, '.git');
+    const stat = fs.statSync(dotGit, { throwIfNoEntry: false });
+    if (stat?.isDirectory()) return dotGit;
+    if (stat?.isFile()) {
+      // Linked worktree: `.git` names its own git dir, whose `commondir` is the main one
+      const gitDir = path.resolve(current, fs.readFileSync(dotGit, 'utf-8').replace(/^gitdir:/, '').trim());
+      const commonDir = path.join(gitDir, 'commondir');
+      return fs.existsSync(commonDir) ? path.resolve(gitDir, fs.readFileSync(commonDir, 'utf-8').trim()) : gitDir;
+    }
+    if (path.dirname(current) === current) return undefined;
+  }
+}
+
+/**
+ * List the state directory in the repository's `info/exclude`, so the execution lock
+ * and sidecar state files stay out of `git status` in projects whose .gitignore predates them
+ * Best effort: the git safety checks and staging skip state files anyway (see isStateFile)
+ */
+export function excludeStateDirectory(root: string): void {
+  try {
+    const gitDir = findGitCommonDir(root);
+    if (!gitDir) return;
+
+    const excludePath = path.join(gitDir, 'info', 'exclude');
+    const pattern = `${STATE_DIRECTORY}/`;
+    const content = fs.existsSync(excludePath) ? fs.readFileSync(excludePath, 'utf-8') : '';
+    if (content.split('\n').some(line => line.trim().replace(/^\//, '') === pattern)) return;
+
+    fs.outputFileSync(excludePath, `${content}${content && !content.endsWith('\n') ? '\n' : ''}${pattern}\n`);
+  } catch {
+    // Read-only repository: nothing to do
+  }
+}
+
+/**
+ * Lists of steps in a plan: `steps` and the layer lists (`domain_steps`, ...)
+ */
+function getStepLists(plan: PlanObject): Array<[string, PlanObject[]]> {
+  return Object.entries(plan)
+    .filter(([key, value]) => (key === 'steps' || key.endsWith('_steps')) && Array.isArray(value))
+    .map(([key, value]) => [key, (value as unknown[]).filter((step): step is PlanObject => typeof step === 'object' && step !== null)]);
+}
+
+/**
+ * Whether a key path of the plan holds run state (`<list>[i].status`, `evaluation`, ...)
+ */
+export function isRunStatePath(keyPath: KeyPath): boolean {
+  if ((PLAN_STATE_KEYS as readonly unknown[]).includes(keyPath[0])) return true;
+  return keyPath.length === 3
+    && typeof keyPath[0] === 'string'
+    && (keyPath[0] === 'steps' || keyPath[0].endsWith('_steps'))
+    && (STEP_STATE_KEYS as readonly unknown[]).includes(keyPath[2]);
+}
+
+/**
+ * Take the run state out of a plan
+ * @param planPath - Plan path relative to the project root
+ */
+export function collectExecutionState(plan: PlanObject, planPath: string): ExecutionState {
+  const steps: Record<string, StepState> = {};
+
+  for (const [, list] of getStepLists(plan)) {
+    for (const step of list) {
+      if (typeof step.id !== 'string') continue;
+      const state: StepState = {};
+      for (const key of STEP_STATE_KEYS) {
+        if (step[key] !== undefined) state[key] = step[key];
+      }
+      steps[step.id] = state;
+    }
+  }
+
+  return {
+    plan: planPath,
+    updated_at: new Date().toISOString(),
+    steps,
+    ...Object.fromEntries(PLAN_STATE_KEYS.filter(key => plan[key] !== undefined).map(key => [key, plan[key]])),
+  };
+}
+
+/**
+ * Put saved run state back on the steps of a plan, matching steps by id
+ * Steps missing from the state keep the values of the plan
+ */
+export function applyExecutionState(plan: PlanObject, state: ExecutionState): void {
+  for (const [, list] of getStepLists(plan)) {
+    for (const step of list) {
+      const saved = typeof step.id === 'string' ? state.steps[step.id] : undefined;
+      if (!saved) continue;
+      for (const key of STEP_STATE_KEYS) {
+        if (key in saved) {
+          step[key] = saved[key];
+        } else {
+          delete step[key];
+        }
+      }
+    }
+  }
+
+  for (const key of PLAN_STATE_KEYS) {
+    if (state[key] !== undefined) plan[key] = state[key];
+  }
+}
+
+/**
+ * Read the state file of a plan
+ * @returns The saved state, or null when there is none
+ * @throws {Error} If the file is not a state file
+ */
+export async function readExecutionState(statePath: string): Promise<ExecutionState | null> {
+  if (!await fs.pathExists(statePath)) return null;
+
+  const state = await fs.readJson(statePath);
+  if (typeof state !== 'object' || state === null || typeof state.steps !== 'object' || state.steps === null) {
+    throw new Error(`Invalid execution state file: ${statePath}`);
+  }
+  return state as ExecutionState;
+}
+
+export async function writeExecutionState(statePath: string, state: ExecutionState): Promise<void> {
+  await fs.outputFile(statePath, `${JSON.stringify(state, null, 2)}\n`, 'utf-8');
+}
+
+/**
+ * Parse a plan keeping comments and formatting for later writes
+ * @throws {Error} If the YAML is invalid
+ */
+export function parsePlanDocument(content: string): yaml.Document {
+  const document = yaml.parseDocument(content);
+  if (document.errors.length > 0) {
+    throw document.errors[0];
+  }
+  return document;
+}
+
+
+/**
+ * Write the values of a plan into its YAML document, touching only what changed
+ * so comments, anchors and formatting of the untouched parts survive
+ * @param skip - Key paths left as they are in the document
+ */
+export function updatePlanDocument(document: yaml.Document, plan: PlanObject, skip: (keyPath: KeyPath) => boolean = () => false): void {
+  const toPlainValue = (node: unknown): unknown => (yaml.isNode(node) ? node.toJS(document) : node);
+
+  const update = (keyPath: KeyPath, value: unknown): void => {
+    if (skip(keyPath)) return;
+
+    const node = keyPath.length === 0 ? document.contents : document.getIn(keyPath, true);
+    if (isDeepStrictEqual(toPlainValue(node), value)) return;
+
+    if (yaml.isMap(node) && typeof value === 'object' && value !== null && !Array.isArray(value)) {
+      const entries = value as PlanObject;
+      for (const pair of [...node.items]) {
+        const key = toPlainValue(pair.key);
+        if ((typeof key === 'string' || typeof key === 'number') && entries[key] === undefined && !skip([...keyPath, key])) {
+          node.delete(pair.key);
+        }
+      }
+      for (const [key, entry] of Object.entries(entries)) {
+        if (entry !== undefined) update([...keyPath, key], entry);
+      }
+      return;
+    }
+
+    if (yaml.isSeq(node) && Array.isArray(value) && node.items.length === value.length) {
+      value.forEach((item, index) => update([...keyPath, index], item));
+      return;
+    }
+
+    // Multi-line strings get a new node so they are written as block scalars
+    const replacement = yaml.isScalar(node) && (typeof value !== 'string' || !value.includes('\n'))
+      ? value
+      : document.createNode(value);
+    if (keyPath.length === 0) {
+      document.contents = document.createNode(value);
+    } else {
+      document.setIn(keyPath, replacement);
+    }
+  };
+
+  update([], plan);
+}
+
+/**
+ * Move the sidecar state of a plan into the plan YAML, keeping its comments and formatting
+ * The state file is removed afterwards: the plan holds the same results
+ * @returns The state file that was written back, or null when the plan has none
+ */
+export async function writeStateIntoPlan(planPath: string): Promise<string | null> {
+  const statePath = getStatePath(planPath);
+  const state = await readExecutionState(statePath);
+  if (!state) return null;
+
+  const document = parsePlanDocument(await fs.readFile(planPath, 'utf-8'));
+  const plan = document.toJS() as PlanObject;
+  applyExecutionState(plan, state);
+  updatePlanDocument(document, plan);
+  await fs.writeFile(planPath, String(document), 'utf-8');
+  await fs.remove(statePath);
+  return statePath;
+}
@@ -0,0 +1,126 @@
+/**
+ * Unit tests for the import analyzer
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  analyzeImports,
+  DEFAULT_ARCHITECTURE_POLICY,
+  findImports,
+  formatViolationReport,
+  isAnalyzableFile,
+  resolveImportLayer,
+} from './import-analyzer';
+
+const DOMAIN_FILE = 'src/features/user/domain/usecases/add-user.ts';
+
+describe('resolveImportLayer', () => {
+  it('should resolve relative paths that climb into another layer', () => {
+    expect(resolveImportLayer('../../data/protocols/hasher', DOMAIN_FILE)).toBe('data');
+    expect(resolveImportLayer('../models/user', DOMAIN_FILE)).toBe('domain');
+  });
+
+  it('should resolve path aliases into the project', () => {
+    expect(resolveImportLayer('@/infra/db/client', DOMAIN_FILE)).toBe('infra');
+    expect(resolveImportLayer('#app/main/config', DOMAIN_FILE, { '#app/': 'src/' })).toBe('main');
+  });
+
+  it('should treat bare specifiers as external packages', () => {
+    expect(resolveImportLayer('axios', DOMAIN_FILE)).toBeNull();
+    expect(resolveImportLayer('@prisma/client', DOMAIN_FILE)).toBeNull();
+  });
+});
+
+describe('isAnalyzableFile', () => {
+  it('should only accept source files', () => {
+    expect(isAnalyzableFile('src/user.ts')).toBe(true);
+    expect(isAnalyzableFile('src/user-view.tsx')).toBe(true);
+    expect(isAnalyzableFile('src/user.d.ts')).toBe(false);
+    expect(isAnalyzableFile('README.md')).toBe(false);
+  });
+});
+
+describe('findImports', () => {
+  it('should find imports, re-exports, dynamic imports and require calls', async () => {
+    const source = [
+      "import type { User } from '../models/user';",
+      "import * as http from 'axios';",
+      "export { Hasher } from '../../data/protocols/hasher';",
+      'const load = () => import("@/infra/db/client");',
+      "const fs = require('fs');",
+      "import legacy = require('legacy-lib');",
+    ].join('\n');
+
+    expect(await findImports(source, DOMAIN_FILE)).toEqual([
+      { specifier: '../models/user', kind: 'import', line: 1 },
+      { specifier: 'axios', kind: 'import', line: 2 },
+      { specifier: '../../data/protocols/hasher', kind: 'export', line: 3 },
+      { specifier: '@/infra/db/client', kind: 'dynamic-import', line: 4 },
+      { specifier: 'fs', kind: 'require', line: 5 },
+      { specifier: 'legacy-lib', kind: 'require', line: 6 },
+    ]);
+  });
+
+  it('should ignore import-like text in strings and comments', async () => {
+    const source = "// import axios from 'axios'\nconst text = \"import { db } from '../../infra/db'\";\n";
+
+    expect(await findImports(source, DOMAIN_FILE)).toEqual([]);
+  });
+});
+
+describe('analyzeImports', () => {
+  it('should report imports that break the dependency rule', async () => {
+    const source = [
+      "import { User } from '../models/user';",
+      "import { Hasher } from '../../data/protocols/hasher';",
+      "export * from '@/infra/db/client';",
+      "import { default as client } from 'axios';",
+    ].join('\n');
+
+    const violations = await analyzeImports(source, DOMAIN_FILE);
+
+    expect(violations.map(v => [v.line, v.targetLayer])).toEqual([[2, 'data'], [3, 'infra'], [4, null]]);
+    expect(violations[2].reason).toBe("package 'axios' is not allowed in the domain layer");
+  });
+
+  it('should allow dependencies pointing inwards', async () => {
+    const source = "import { User } from '../../domain/models/user';\nimport { hash } from 'bcrypt';\n";
+
+    expect(await analyzeImports(source, 'src/features/user/infra/crypto/bcrypt-hasher.ts')).toEqual([]);
+  });
+
+  it('should use the fallback layer when the path does not reveal one', async () => {
+    const source = "import { db } from '@/infra/db/client';\n";
+
+    expect(await analyzeImports(source, 'src/shared/user.ts')).toEqual([]);
+    expect(await analyzeImports(source, 'src/shared/user.ts', DEFAULT_ARCHITECTURE_POLICY, 'data')).toHaveLength(1);
+  });
+
+  it('should apply a custom dependency matrix', async () => {
+    const policy = {
+      ...DEFAULT_ARCHITECTURE_POLICY,
+      allowedDependencies: { presentation: ['presentation' as const, 'domain' as const] },
+    };
+    const source = "import { AddUser } from '../../data/usecases/add-user';\n";
+
+    const violations = await analyzeImports(source, 'src/features/user/presentation/controllers/add-user.ts', policy);
+
+    expect(violations).toHaveLength(1);
+    expect(violations[0].reason).toBe('presentation layer may only depend on: presentation, domain');
+  });
+
+  it('should skip files that are not source files', async () => {
+    expect(await analyzeImports("import axios from 'axios'", 'src/domain/README.md')).toEqual([]);
+  });
+});
+
+describe('formatViolationReport', () => {
+  it('should list each violation with its location', async () => {
+    const violations = await analyzeImports("\nimport { Db } from '../../infra/db';\n", DOMAIN_FILE);
+
+    expect(formatViolationReport(DOMAIN_FILE, violations)).toBe([
+      'Architecture violation: 1 import(s) break the layer dependency rule',
+      `  ${DOMAIN_FILE}:2 import '../../infra/db' (infra): domain layer may only depend on: domain, core`,
+    ].join('\n'));
+  });
+});
@@ -0,0 +1,284 @@
+/**
+ * Import Analyzer
+ * Enforces Clean Architecture dependency rules on generated source files by parsing
+ * their imports with the TypeScript compiler and resolving each one to a layer
+ */
+
+import type * as TypeScript from 'typescript';
+import * as path from 'path';
+import { extractScope, type ArchitecturalScope } from './scope-extractor';
+
+/**
+ * Layers each layer may import from
+ * Layers missing from the matrix are not checked
+ */
+export type LayerDependencyMatrix = Partial<Record<ArchitecturalScope, ArchitecturalScope[]>>;
+
+/**
+ * Import boundary policy applied to files written by create_file and refactor_file steps
+ */
+export interface ArchitecturePolicy {
+  /** Run the analysis at all */
+  enforceImports: boolean;
+  /** Allowed dependencies per layer */
+  allowedDependencies: LayerDependencyMatrix;
+  /** External packages a layer may not import (a trailing `/*` also matches subpaths) */
+  forbiddenPackages: Partial<Record<ArchitecturalScope, string[]>>;
+  /** Import prefixes that point into the project, mapped to the directory they stand for */
+  pathAliases: Record<string, string>;
+}
+
+/**
+ * Default dependency rule: domain ← data ← infra/presentation ← main
+ * `core` (shared code outside the layer folders) may be imported by every layer
+ */
+export const DEFAULT_LAYER_DEPENDENCIES: LayerDependencyMatrix = {
+  domain: ['domain', 'core'],
+  data: ['data', 'domain', 'core'],
+  infra: ['infra', 'data', 'domain', 'core'],
+  presentation: ['presentation', 'data', 'domain', 'core'],
+  main: ['main', 'infra', 'presentation', 'data', 'domain', 'core'],
+};
+
+/**
+ * Default policy used when execute.yml has no `architecture` section
+ */
+export const DEFAULT_ARCHITECTURE_POLICY: ArchitecturePolicy = {
+  enforceImports: true,
+  allowedDependencies: DEFAULT_LAYER_DEPENDENCIES,
+  forbiddenPackages: {
+    domain: [
+      'axios', 'node-fetch', '@prisma/client', 'prisma', 'redis', 'ioredis',
+      'mongodb', 'mongoose', 'pg', 'mysql', 'mysql2', 'typeorm', 'express',
+    ],
+  },
+  pathAliases: {
+    '@/': 'src/',
+    '~/': 'src/',
+  },
+};
+
+/**
+ * A module reference found in a source file
+ */
+export interface ImportReference {
+  specifier: string;
+  kind: 'import' | 'export' | 'dynamic-import' | 'require';
+  /** 1-based line of the reference */
+  line: number;
+}
+
+/**
+ * A module reference with the position of its string literal, quotes included
+ */
+export interface ImportLocation extends ImportReference {
+  start: number;
+  end: number;
+}
+
+/**
+ * An import that breaks the dependency rule
+ */
+export interface ImportViolation extends ImportReference {
+  /** Layer of the file being analyzed */
+  sourceLayer: ArchitecturalScope;
+  /** Layer the import resolves to, or null for external packages */
+  targetLayer: ArchitecturalScope | null;
+  reason: string;
+}
+
+/**
+ * Project path a specifier points to, or null when it names a package
+ */
+export function resolveProjectPath(specifier: string, filePath: string, pathAliases: Record<string, string>): string | null {
+  if (specifier.startsWith('./') || specifier.startsWith('../') || specifier === '.' || specifier === '..') {
+    return path.posix.join(path.posix.dirname(filePath.replace(/\\/g, '/')), specifier);
+  }
+
+  const alias = Object.keys(pathAliases)
+    .sort((a, b) => b.length - a.length)
+    .find(prefix => specifier.startsWith(prefix));
+
+  return alias === undefined ? null : pathAliases[alias] + specifier.slice(alias.length);
+}
+
+/**
+ * Resolve an import specifier to the architectural layer it points to
+ * @param specifier - Module specifier as written in the source
+ * @param filePath - Path of the importing file (relative specifiers resolve against it)
+ * @param pathAliases - Project import prefixes (e.g. `@/` → `src/`)
+ * @returns The layer, or null when the specifier is an external package
+ *
+ * @example
+ * resolveImportLayer('../../domain/models/user', 'src/data/usecases/add-user.ts') // 'domain'
+ * resolveImportLayer('@/infra/db/client', 'src/domain/models/user.ts') // 'infra'
+ * resolveImportLayer('axios', 'src/infra/http/client.ts') // null
+ */
+export function resolveImportLayer(
+  specifier: string,
+  filePath: string,
+  pathAliases: Record<string, string> = DEFAULT_ARCHITECTURE_POLICY.pathAliases
+): ArchitecturalScope | null {
+  const projectPath = resolveProjectPath(specifier, filePath, pathAliases);
+  return projectPath === null ? null : extractScope(`/${projectPath}/`);
+}
+
+/**
+ * Package name of a bare specifier (`@scope/pkg/sub` → `@scope/pkg`)
+ */
+function packageName(specifier: string): string {
+  const parts = specifier.split('/');
+  return specifier.startsWith('@') ? parts.slice(0, 2).join('/') : parts[0];
+}
+
+function isForbiddenPackage(specifier: string, forbidden: string[]): boolean {
+  const name = packageName(specifier.replace(/^node:/, ''));
+  return forbidden.some(entry => {
+    if (entry.endsWith('/*')) {
+      return name === entry.slice(0, -2) || specifier.startsWith(entry.slice(0, -1));
+    }
+    return name === entry || specifier === entry;
+  });
+}
+
+/**
+ * Whether a file is a source file the compiler can parse
+ */
+export function isAnalyzableFile(filePath: string): boolean {
+  return /\.(?:[cm]?[jt]s|[jt]sx)$/.test(filePath) && !/\.d\.[cm]?ts$/.test(filePath);
+}
+
+/**
+ * Load the TypeScript compiler only when a file needs analysis
+ */
+async function loadTypeScript(): Promise<typeof TypeScript> {
+  try {
+    const module = await import('typescript');
+    return (module.default ?? module) as typeof TypeScript;
+  } catch {
+    throw new Error('Import boundary analysis requires the "typescript" package to be installed in the project.');
+  }
+}
+
+/**
+ * Collect every static import, re-export, dynamic import and require call of a file
+ * Type-only imports are included: they still couple the layers at compile time
+ */
+export async function findImports(content: string, filePath: string): Promise<ImportReference[]> {
+  return (await findImportLocations(content, filePath)).map(({ specifier, kind, line }) => ({ specifier, kind, line }));
+}
+
+/**
+ * Same as findImports, with the position of each specifier so it can be rewritten
+ */
+export async function findImportLocations(content: string, filePath: string): Promise<ImportLocation[]> {
+  const ts = await loadTypeScript();
+  const scriptKind = /\.tsx$/.test(filePath)
+    ? ts.ScriptKind.TSX
+    : /\.jsx?$/.test(filePath)
+      ? ts.ScriptKind.JSX
+      : ts.ScriptKind.TS;
+  const sourceFile = ts.createSourceFile(filePath, content, ts.ScriptTarget.Latest, true, scriptKind);
+  const references: ImportLocation[] = [];
+
+  const add = (node: TypeScript.Node, specifier: TypeScript.Expression | undefined, kind: ImportReference['kind']) => {
+    if (specifier && ts.isStringLiteralLike(specifier)) {
+      const { line } = sourceFile.getLineAndCharacterOfPosition(node.getStart(sourceFile));
+      references.push({
+        specifier: specifier.text,
+        kind,
+        line: line + 1,
+        start: specifier.getStart(sourceFile),
+        end: specifier.getEnd(),
+      });
+    }
+  };
+
+  const visit = (node: TypeScript.Node): void => {
+    if (ts.isImportDeclaration(node)) {
+      add(node, node.moduleSpecifier, 'import');
+    } else if (ts.isExportDeclaration(node)) {
+      add(node, node.moduleSpecifier, 'export');
+    } else if (ts.isImportEqualsDeclaration(node) && ts.isExternalModuleReference(node.moduleReference)) {
+      add(node, node.moduleReference.expression, 'require');
+    } else if (ts.isImportTypeNode(node) && ts.isLiteralTypeNode(node.argument)) {
+      add(node, node.argument.literal as TypeScript.Expression, 'import');
+    } else if (ts.isCallExpression(node)) {
+      if (node.expression.kind === ts.SyntaxKind.ImportKeyword) {
+        add(node, node.arguments[0], 'dynamic-import');
+      } else if (ts.isIdentifier(node.expression) && node.expression.text === 'require' && node.arguments.length === 1) {
+        add(node, node.arguments[0], 'require');
+      }
+    }
+    ts.forEachChild(node, visit);
+  };
+
+  visit(sourceFile);
+  return references;
+}
+
+/**
+ * Check the imports of a file against the dependency rule
+ * @param content - Source about to be written
+ * @param filePath - Path of the file (decides its layer and resolves relative imports)
+ * @param policy - Allowed dependencies, forbidden packages and path aliases
+ * @param fallbackLayer - Layer to assume when the path does not reveal one (e.g. the plan's layer)
+ * @returns Violations in source order (empty when the file is not analyzable or its layer is unchecked)
+ */
+export async function analyzeImports(
+  content: string,
+  filePath: string,
+  policy: ArchitecturePolicy = DEFAULT_ARCHITECTURE_POLICY,
+  fallbackLayer?: ArchitecturalScope
+): Promise<ImportViolation[]> {
+  if (!isAnalyzableFile(filePath)) {
+    return [];
+  }
+
+  const pathLayer = extractScope(`/${filePath.replace(/\\/g, '/')}`);
+  const sourceLayer = pathLayer === 'core' && fallbackLayer ? fallbackLayer : pathLayer;
+  const allowed = policy.allowedDependencies[sourceLayer];
+  const forbidden = policy.forbiddenPackages[sourceLayer] || [];
+
+  if (!allowed && forbidden.length === 0) {
+    return [];
+  }
+
+  const violations: ImportViolation[] = [];
+
+  for (const reference of await findImports(content, filePath)) {
+    const targetLayer = resolveImportLayer(reference.specifier, filePath, policy.pathAliases);
+
+    if (targetLayer === null) {
+      if (isForbiddenPackage(reference.specifier, forbidden)) {
+        violations.push({
+          ...reference,
+          sourceLayer,
+          targetLayer,
+          reason: `package '${packageName(reference.specifier)}' is not allowed in the ${sourceLayer} layer`,
+        });
+      }
+    } else if (allowed && !allowed.includes(targetLayer)) {
+      violations.push({
+        ...reference,
+        sourceLayer,
+        targetLayer,
+        reason: `${sourceLayer} layer may only depend on: ${allowed.join(', ')}`,
+      });
+    }
+  }
+
+  return violations;
+}
+
+/**
+ * Human-readable report of the violations found in a file
+ */
+export function formatViolationReport(filePath: string, violations: ImportViolation[]): string {
+  const lines = violations.map(violation => {
+    const target = violation.targetLayer ? ` (${violation.targetLayer})` : '';
+    return `  ${filePath}:${violation.line} ${violation.kind} '${violation.specifier}'${target}: ${violation.reason}`;
+  });
+
+  return [`Architecture violation: ${violations.length} import(s) break the layer dependency rule`, ...lines].join('\n');
+}
@@ -0,0 +1,157 @@
+/**
+ * Unit tests for the import rewriter
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import fs from 'fs-extra';
+import os from 'os';
+import path from 'path';
+import { expandMove, listFolderFiles, listProjectFiles, planMove, rewriteImports } from './import-rewriter';
+
+const ALIASES = { '@/': 'src/' };
+
+const FILES = [
+  'src/domain/models/user.ts',
+  'src/domain/models/index.ts',
+  'src/domain/usecases/add-user.ts',
+  'src/main/factories/add-user.ts',
+  'src/users/index.ts',
+  'src/users/list.ts',
+];
+
+describe('expandMove', () => {
+  it('should move a single file or every file of a folder', () => {
+    expect(expandMove('src/domain/models/user.ts', 'src/features/user/domain/user.ts', FILES)).toEqual([
+      { from: 'src/domain/models/user.ts', to: 'src/features/user/domain/user.ts' },
+    ]);
+    expect(expandMove('./src/users/', 'src/features/users', FILES)).toEqual([
+      { from: 'src/users/index.ts', to: 'src/features/users/index.ts' },
+      { from: 'src/users/list.ts', to: 'src/features/users/list.ts' },
+    ]);
+  });
+
+  it('should reject missing sources and existing destinations', () => {
+    expect(() => expandMove('src/nope.ts', 'src/yes.ts', FILES)).toThrow('Nothing to move at path: src/nope.ts');
+    expect(() => expandMove('src/users', 'src/domain', FILES)).toThrow('Destination already exists: src/domain');
+  });
+});
+
+describe('rewriteImports', () => {
+  const moves = [{ from: 'src/domain/models/user.ts', to: 'src/features/user/domain/user.ts' }];
+
+  it('should rewrite relative, aliased and re-exported imports of a moved file', async () => {
+    const source = [
+      "import { User } from '../../domain/models/user';",
+      "import type { UserId } from '@/domain/models/user';",
+      "export * from './user';",
+      "const lazy = () => import('../models/user.js');",
+    ].join('\n');
+
+    expect(await rewriteImports(source, 'src/main/factories/add-user.ts', moves, FILES, ALIASES)).toContain(
+      "import { User } from '../../features/user/domain/user';"
+    );
+    expect(await rewriteImports(source, 'src/main/factories/add-user.ts', moves, FILES, ALIASES)).toContain(
+      "import type { UserId } from '@/features/user/domain/user';"
+    );
+    expect(await rewriteImports(source, 'src/domain/models/index.ts', moves, FILES, ALIASES)).toContain(
+      "export * from '../../features/user/domain/user';"
+    );
+    expect(await rewriteImports(source, 'src/domain/usecases/add-user.ts', moves, FILES, ALIASES)).toContain(
+      "import('../../features/user/domain/user.js')"
+    );
+  });
+
+  it('should rewrite the relative imports of the moved file itself', async () => {
+    const source = "import { Id } from './index';\nimport { db } from 'db';\n";
+
+    expect(await rewriteImports(source, 'src/domain/models/user.ts', moves, FILES, ALIASES)).toBe(
+      "import { Id } from '../../../domain/models/index';\nimport { db } from 'db';\n"
+    );
+  });
+
+  it('should keep naming a moved folder through its index file', async () => {
+    const folderMoves = expandMove('src/users', 'src/features/users', FILES);
+
+    expect(await rewriteImports("import { list } from '../../users';", 'src/main/factories/add-user.ts', folderMoves, FILES, ALIASES))
+      .toBe("import { list } from '../../features/users';");
+    expect(await rewriteImports("export * from './list';", 'src/users/index.ts', folderMoves, FILES, ALIASES))
+      .toBe("export * from './list';");
+  });
+
+  it('should leave unrelated imports untouched', async () => {
+    const source = "import { addUser } from '../usecases/add-user';\n";
+
+    expect(await rewriteImports(source, 'src/domain/models/index.ts', moves, FILES, ALIASES)).toBe(source);
+  });
+});
+
+describe('planMove', () => {
+  it('should list the moved files and the rewritten importers', async () => {
+    const contents: Record<string, string> = {
+      'src/domain/models/user.ts': 'export type User = { id: string };\n',
+      'src/domain/models/index.ts': "export * from './user';\n",
+      'src/domain/usecases/add-user.ts': "import type { Order } from '../models/order';\n",
+    };
+
+    const changes = await planMove(
+      'src/domain/models/user.ts',
+      'src/features/user/domain/user.ts',
+      FILES,
+      async filePath => contents[filePath] ?? '',
+      ALIASES
+    );
+
+    expect(changes).toEqual([
+      { path: 'src/domain/models/user.ts', current: contents['src/domain/models/user.ts'], next: null, movedTo: 'src/features/user/domain/user.ts' },
+      { path: 'src/features/user/domain/user.ts', current: null, next: contents['src/domain/models/user.ts'] },
+      { path: 'src/domain/models/index.ts', current: "export * from './user';\n", next: "export * from '../../features/user/domain/user';\n" },
+    ]);
+  });
+
+  it('should move files that are not source code without reading them', async () => {
+    const read: string[] = [];
+
+    const changes = await planMove(
+      'src/users',
+      'src/features/users',
+      ['src/users/avatar.png', 'src/users/list.ts'],
+      async filePath => {
+        read.push(filePath);
+        return 'export const list = [];\n';
+      },
+      ALIASES
+    );
+
+    expect(read).toEqual(['src/users/list.ts']);
+    expect(changes[0]).toEqual({ path: 'src/users/avatar.png', current: null, next: null, movedTo: 'src/features/users/avatar.png' });
+  });
+});
+
+describe('listProjectFiles', () => {
+  let tempDir: string;
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'import-rewriter-'));
+  });
+
+  afterEach(async () => {
+    await fs.remove(tempDir);
+  });
+
+  it('should skip dependencies, build output and dot directories', async () => {
+    for (const file of ['src/a.ts', 'src/.gitkeep', 'node_modules/x/index.js', 'dist/a.js', '.git/HEAD', 'package.json']) {
+      await fs.outputFile(path.join(tempDir, file), '');
+    }
+
+    expect(await listProjectFiles(tempDir)).toEqual(['package.json', 'src/.gitkeep', 'src/a.ts']);
+  });
+
+  it('should list every file of a folder, dot directories included', async () => {
+    for (const file of ['src/assets/logo.png', 'src/assets/.cache/meta.json', 'src/a.ts']) {
+      await fs.outputFile(path.join(tempDir, file), '');
+    }
+
+    expect(await listFolderFiles('./src/assets/', tempDir)).toEqual(['src/assets/.cache/meta.json', 'src/assets/logo.png']);
+    expect(await listFolderFiles('src/a.ts', tempDir)).toEqual([]);
+  });
+});
@@ -0,0 +1,313 @@
+/**
+ * Import Rewriter
+ * Plans move_file steps: relocates a file or folder and rewrites the relative and
+ * path-alias imports pointing at it, including re-exports in index.ts barrels
+ *
+ * Specifiers keep their style: aliased imports stay aliased while the target is
+ * still under the alias directory, extensionless imports stay extensionless, and
+ * imports of a folder (resolved through its index file) keep naming the folder.
+ */
+
+import fs from 'fs-extra';
+import * as path from 'path';
+import { findImportLocations, isAnalyzableFile, resolveProjectPath } from './import-analyzer';
+
+/**
+ * One file relocated by a move
+ */
+export interface FileMove {
+  from: string;
+  to: string;
+}
+
+/**
+ * Content of a file before and after a move, null when the file is absent or removed
+ */
+export interface MoveChange {
+  path: string;
+  current: string | null;
+  next: string | null;
+  /**
+   * New path of a moved file. Files that are not source code are moved as they are:
+   * their content is not read (current and next are null) and no entry lists the new path
+   */
+  movedTo?: string;
+}
+
+/**
+ * Directories never searched for importers
+ */
+const IGNORED_DIRECTORIES = new Set(['node_modules', 'dist', 'build', 'coverage']);
+
+/**
+ * Extensions tried, in order, for extensionless specifiers and folder index files
+ */
+const SOURCE_EXTENSIONS = ['.ts', '.tsx', '.mts', '.cts', '.js', '.jsx', '.mjs', '.cjs'];
+
+/**
+ * TypeScript sources an ESM specifier with a JavaScript extension stands for
+ */
+const EMITTED_EXTENSIONS: Record<string, string[]> = {
+  '.js': ['.ts', '.tsx'],
+  '.jsx': ['.tsx'],
+  '.mjs': ['.mts'],
+  '.cjs': ['.cts'],
+};
+
+/**
+ * How a specifier names the file it resolves to
+ * - exact: the full file name (`./user.ts`, `./data.json`)
+ * - emitted: the JavaScript file the source compiles to (`./user.js` for user.ts)
+ * - bare: no extension (`./user`)
+ * - index: the folder holding an index file (`./users` for users/index.ts)
+ */
+type SpecifierForm = 'exact' | 'emitted' | 'bare' | 'index';
+
+function normalizePath(filePath: string): string {
+  return path.posix.normalize(filePath.replace(/\\/g, '/')).replace(/^\.\//, '').replace(/\/$/, '');
+}
+
+/**
+ * List the files under a directory of `root`, walking the subdirectories `enter` accepts
+ */
+async function walkFiles(root: string, start: string, enter: (name: string) => boolean): Promise<string[]> {
+  const files: string[] = [];
+
+  const walk = async (directory: string): Promise<void> => {
+    for (const entry of await fs.readdir(path.join(root, directory), { withFileTypes: true })) {
+      const relativePath = directory ? `${directory}/${entry.name}` : entry.name;
+      if (entry.isDirectory()) {
+        if (enter(entry.name)) {
+          await walk(relativePath);
+        }
+      } else if (entry.isFile()) {
+        files.push(relativePath);
+      }
+    }
+  };
+
+  await walk(start);
+  return files.sort();
+}
+
+/**
+ * List the files of a project, skipping dependencies, build output and dot directories
+ * @returns Paths relative to `root`, with forward slashes
+ */
+export async function listProjectFiles(root: string = '.'): Promise<string[]> {
+  return walkFiles(root, '', name => !name.startsWith('.') && !IGNORED_DIRECTORIES.has(name));
+}
+
+/**
+ * List every file inside a folder, dot directories included, so moving the folder
+ * leaves nothing behind
+ * @returns Paths relative to `root`, with forward slashes (none when `folder` is not a directory)
+ */
+export async function listFolderFiles(folder: string, root: string = '.'): Promise<string[]> {
+  const stat = await fs.stat(path.join(root, folder)).catch(() => null);
+  if (!stat?.isDirectory()) return [];
+
+  return walkFiles(root, normalizePath(folder), () => true);
+}
+
+/**
+ * Whether a directory holds no files at any depth
+ */
+export async function isEmptyDirectory(directory: string): Promise<boolean> {
+  const stat = await fs.stat(directory).catch(() => null);
+  if (!stat?.isDirectory()) return false;
+
+  for (const entry of await fs.readdir(directory, { withFileTypes: true })) {
+    if (!entry.isDirectory() || !(await isEmptyDirectory(path.join(directory, entry.name)))) {
+      return false;
+    }
+  }
+  return true;
+}
+
+/**
+ * Turn a file or folder move into one move per file
+ * @throws {Error} If there is nothing at `source` or something already at `destination`
+ */
+export function expandMove(source: string, destination: string, projectFiles: string[]): FileMove[] {
+  const from = normalizePath(source);
+  const to = normalizePath(destination);
+
+  if (projectFiles.some(file => file === to || file.startsWith(`${to}/`))) {
+    throw new Error(`Destination already exists: ${to}`);
+  }
+  if (projectFiles.includes(from)) {
+    return [{ from, to }];
+  }
+
+  const moves = projectFiles
+    .filter(file => file.startsWith(`${from}/`))
+    .map(file => ({ from: file, to: to + file.slice(from.length) }));
+  if (moves.length === 0) {
+    throw new Error(`Nothing to move at path: ${from}`);
+  }
+  return moves;
+}
+
+/**
+ * Project file a specifier resolves to, and how the specifier names it
+ */
+function resolveFile(projectPath: string, files: Set<string>): { file: string; form: SpecifierForm } | null {
+  const target = normalizePath(projectPath);
+  if (files.has(target)) {
+    return { file: target, form: 'exact' };
+  }
+
+  const extension = path.posix.extname(target);
+  for (const sourceExtension of EMITTED_EXTENSIONS[extension] || []) {
+    const file = target.slice(0, -extension.length) + sourceExtension;
+    if (files.has(file)) return { file, form: 'emitted' };
+  }
+  for (const sourceExtension of SOURCE_EXTENSIONS) {
+    if (files.has(target + sourceExtension)) return { file: target + sourceExtension, form: 'bare' };
+  }
+  for (const sourceExtension of SOURCE_EXTENSIONS) {
+    if (files.has(`${target}/index${sourceExtension}`)) return { file: `${target}/index${sourceExtension}`, form: 'index' };
+  }
+  return null;
+}
+
+/**
+ * Write the specifier naming `modulePath` from `filePath`, keeping the alias of the original when possible
+ */
+function formatSpecifier(modulePath: string, filePath: string, original: string, pathAliases: Record<string, string>): string {
+  const alias = Object.keys(pathAliases)
+    .sort((a, b) => b.length - a.length)
+    .find(prefix => original.startsWith(prefix));
+  if (alias !== undefined) {
+    const aliasDirectory = normalizePath(pathAliases[alias]);
+    if (modulePath.startsWith(`${aliasDirectory}/`)) {
+      return alias + modulePath.slice(aliasDirectory.length + 1);
+    }
+  }
+
+  const relative = path.posix.relative(path.posix.dirname(filePath), modulePath);
+  if (relative === '') return '.';
+  return relative === '..' || relative.startsWith('../') ? relative : `./${relative}`;
+}
+
+/**
+ * Path a specifier of the given form names for a file
+ */
+function toModulePath(file: string, form: SpecifierForm, original: string): string {
+  switch (form) {
+    case 'exact':
+      return file;
+    case 'index':
+      return path.posix.dirname(file);
+    case 'emitted':
+      return file.slice(0, -path.posix.extname(file).length) + path.posix.extname(original);
+    case 'bare':
+      return file.slice(0, -path.posix.extname(file).length);
+  }
+}
+
+/**
+ * Rewrite the imports of a file so they still point at the same files after the moves
+ * @param content - Source of the file
+ * @param filePath - Path of the file before the moves
+ * @param moves - Files being moved
+ * @param projectFiles - Every project file before the moves
+ * @param pathAliases - Project import prefixes (e.g. `@/` → `src/`)
+ * @returns The rewritten source (the same string when nothing changed)
+ *
+ * @example
+ * // src/main/factories/user.ts importing '../../domain/user' after src/domain/user.ts moved to src/features/user/domain/user.ts
+ * // import { User } from '../../features/user/domain/user';
+ */
+export async function rewriteImports(
+  content: string,
+  filePath: string,
+  moves: FileMove[],
+  projectFiles: string[],
+  pathAliases: Record<string, string>
+): Promise<string> {
+  const movedTo = new Map(moves.map(move => [move.from, move.to]));
+  const files = new Set(projectFiles);
+  const newFilePath = movedTo.get(filePath) ?? filePath;
+  const edits: Array<{ start: number; end: number; text: string }> = [];
+
+  for (const location of await findImportLocations(content, filePath)) {
+    const projectPath = resolveProjectPath(location.specifier, filePath, pathAliases);
+    if (projectPath === null) continue;
+
+    const target = resolveFile(projectPath, files);
+    let specifier: string;
+    if (target) {
+      if (newFilePath === filePath && !movedTo.has(target.file)) continue;
+      const modulePath = toModulePath(movedTo.get(target.file) ?? target.file, target.form, location.specifier);
+      specifier = formatSpecifier(modulePath, newFilePath, location.specifier, pathAliases);
+    } else {
+      // Unknown targets keep pointing at the same place from the new location
+      if (newFilePath === filePath || !location.specifier.startsWith('.')) continue;
+      specifier = formatSpecifier(normalizePath(projectPath), newFilePath, location.specifier, {});
+    }
+
+    if (specifier !== location.specifier) {
+      // Keep the quotes of the literal
+      edits.push({ start: location.start + 1, end: location.end - 1, text: specifier });
+    }
+  }
+
+  return edits
+    .sort((a, b) => b.start - a.start)
+    .reduce((source, edit) => source.slice(0, edit.start) + edit.text + source.slice(edit.end), content);
+}
+
+/**
+ * Every file change of a move: moved files removed from their old path and written
+ * to the new one, and the files whose imports pointed at them
+ * Source files are read as text to rewrite their imports; other moved files are only
+ * listed with their new path, so binaries are moved as they are
+ * Does not touch disk, so the executor and the dry-run preview share it
+ * @param readFile - Current content of a project file
+ * @throws {Error} If there is nothing at `source` or something already at `destination`
+ */
+export async function planMove(
+  source: string,
+  destination: string,
+  projectFiles: string[],
+  readFile: (filePath: string) => Promise<string | null>,
+  pathAliases: Record<string, string>
+): Promise<MoveChange[]> {
+  const moves = expandMove(source, destination, projectFiles);
+  const movedTo = new Map(moves.map(move => [move.from, move.to]));
+  // Cheap text filter: an importer must at least mention the name of a moved file or folder
+  const names = new Set(moves.flatMap(move => [
+    path.posix.basename(move.from).replace(/\.[^.]+$/, ''),
+    path.posix.basename(path.posix.dirname(move.from)),
+  ]));
+  names.add(path.posix.basename(normalizePath(source)));
+  const changes: MoveChange[] = [];
+
+  for (const file of projectFiles) {
+    const newPath = movedTo.get(file);
+    if (!isAnalyzableFile(file)) {
+      if (newPath !== undefined) {
+        changes.push({ path: file, current: null, next: null, movedTo: newPath });
+      }
+      continue;
+    }
+
+    const current = await readFile(file);
+    if (current === null) continue;
+
+    let next = current;
+    if (newPath !== undefined || [...names].some(name => current.includes(name))) {
+      next = await rewriteImports(current, file, moves, projectFiles, pathAliases);
+    }
+
+    if (newPath !== undefined) {
+      changes.push({ path: file, current, next: null, movedTo: newPath }, { path: newPath, current: null, next });
+    } else if (next !== current) {
+      changes.push({ path: file, current, next });
+    }
+  }
+
+  return changes;
+}
@@ -0,0 +1,27 @@
+/**
+ * Unit tests for incremental quality check helpers
+ */
+
+import { describe, it, expect } from 'vitest';
+import { parseChangedFiles, selectCheckableFiles } from './incremental-checks';
+
+describe('parseChangedFiles', () => {
+  it('should merge git outputs into unique sorted paths', () => {
+    expect(parseChangedFiles('src/b.ts\nsrc/a.ts\n', '\nsrc/c.ts\nsrc/a.ts\n')).toEqual(['src/a.ts', 'src/b.ts', 'src/c.ts']);
+    expect(parseChangedFiles('', '')).toEqual([]);
+  });
+});
+
+describe('selectCheckableFiles', () => {
+  it('should lint existing JavaScript and TypeScript files and test deleted ones too', () => {
+    const existing = new Set(['src/user.ts', 'src/view.tsx', 'scripts/build.mjs', 'README.md']);
+
+    expect(selectCheckableFiles(
+      ['README.md', 'scripts/build.mjs', 'src/deleted.ts', 'src/user.ts', 'src/view.tsx'],
+      filePath => existing.has(filePath)
+    )).toEqual({
+      lint: ['scripts/build.mjs', 'src/user.ts', 'src/view.tsx'],
+      test: ['scripts/build.mjs', 'src/deleted.ts', 'src/user.ts', 'src/view.tsx'],
+    });
+  });
+});
@@ -0,0 +1,50 @@
+/**
+ * Incremental Quality Checks
+ * Limits lint and tests to the files a step changed, instead of the whole project
+ *
+ * Changed files are the ones the steps wrote, or come from git (tracked files differing
+ * from HEAD, plus untracked files) when a step does not name its files.
+ * Only JavaScript and TypeScript files are linted or used to find related tests; the
+ * other gates (typecheck, arch, format, custom) always check the whole project, and the
+ * full suite runs once at the end of the layer.
+ */
+
+import fs from 'fs-extra';
+
+/**
+ * How quality checks run before each commit
+ * - full: the configured lint and test scripts on the whole project (default)
+ * - incremental: lint the changed files and run the tests related to them
+ */
+export type QualityCheckMode = 'full' | 'incremental';
+
+/**
+ * Files the linter and the test runner understand
+ */
+const CHECKABLE_FILE_PATTERN = /\.[cm]?[jt]sx?$/;
+
+/**
+ * Unique changed paths from the output of `git diff --name-only` and `git ls-files`
+ */
+export function parseChangedFiles(...outputs: string[]): string[] {
+  const files = outputs.flatMap(output => output.split('\n').map(line => line.trim()).filter(Boolean));
+  return [...new Set(files)].sort();
+}
+
+/**
+ * Changed files the lint and test gates get
+ */
+export interface CheckableFiles {
+  /** JS/TS files that still exist */
+  lint: string[];
+  /** Every changed JS/TS file: the tests of a deleted module must still run */
+  test: string[];
+}
+
+/**
+ * Changed files worth linting and finding related tests for
+ */
+export function selectCheckableFiles(files: string[], exists: (filePath: string) => boolean = fs.existsSync): CheckableFiles {
+  const test = files.filter(filePath => CHECKABLE_FILE_PATTERN.test(filePath));
+  return { lint: test.filter(filePath => exists(filePath)), test };
+}
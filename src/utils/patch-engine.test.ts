@@ -0,0 +1,139 @@
+/**
+ * Unit tests for the patch engine
+ */
+
+import { describe, it, expect } from 'vitest';
+import { applyFilePatch, checkPatchHeaders, formatHunkFailures, listPatchFiles, parsePatch } from './patch-engine';
+
+const USER = [
+  'export class User {',
+  '  constructor(',
+  '    readonly id: string,',
+  '    readonly name: string',
+  '  ) {}',
+  '',
+  '  rename(name: string): User {',
+  '    return new User(this.id, name);',
+  '  }',
+  '}',
+  '',
+].join('\n');
+
+const ADD_EMAIL = `diff --git a/src/user.ts b/src/user.ts
+index 1111111..2222222 100644
+--- a/src/user.ts
++++ b/src/user.ts
+@@ -2,4 +2,5 @@ export class User {
+   constructor(
+     readonly id: string,
+-    readonly name: string
++    readonly name: string,
++    readonly email: string
+   ) {}
+`;
+
+describe('parsePatch', () => {
+  it('should read file headers and hunks', () => {
+    const [patch] = parsePatch(ADD_EMAIL);
+
+    expect(patch.oldPath).toBe('src/user.ts');
+    expect(patch.newPath).toBe('src/user.ts');
+    expect(patch.hunks).toHaveLength(1);
+    expect(patch.hunks[0]).toMatchObject({ oldStart: 2, oldLines: 4, newStart: 2, newLines: 5, line: 5 });
+    expect(patch.hunks[0].lines).toHaveLength(6);
+  });
+
+  it('should use the step path for hunks without file headers', () => {
+    const [patch] = parsePatch('@@ -1 +1 @@\n-a\n+b\n', 'src/a.ts');
+
+    expect(patch).toMatchObject({ oldPath: 'src/a.ts', newPath: 'src/a.ts' });
+  });
+
+  it('should reject diffs without hunks or with malformed headers', () => {
+    expect(() => parsePatch('just some text')).toThrow('diff contains no hunks');
+    expect(() => parsePatch('--- a/x.ts\n+++ b/x.ts\n@@ -1 @@\n-a\n')).toThrow("Invalid patch at line 3: malformed hunk header '@@ -1 @@'");
+  });
+});
+
+describe('applyFilePatch', () => {
+  it('should apply a hunk at its header position', () => {
+    const result = applyFilePatch(USER, parsePatch(ADD_EMAIL)[0]);
+
+    expect(result.hunks).toEqual([{ index: 1, header: '@@ -2,4 +2,5 @@ export class User {', applied: true, offset: 0, fuzz: 0 }]);
+    expect(result.content).toContain('    readonly name: string,\n    readonly email: string\n  ) {}');
+  });
+
+  it('should apply a hunk whose lines moved', () => {
+    const result = applyFilePatch(`// header\n// comment\n\n${USER}`, parsePatch(ADD_EMAIL)[0]);
+
+    expect(result.hunks[0]).toMatchObject({ applied: true, offset: 3, fuzz: 0 });
+    expect(result.content).toContain('readonly email: string');
+  });
+
+  it('should apply a hunk whose outer context changed with fuzz', () => {
+    const result = applyFilePatch(USER.replace('  ) {}', '  ) { /* changed */ }'), parsePatch(ADD_EMAIL)[0]);
+
+    expect(result.hunks[0]).toMatchObject({ applied: true, fuzz: 1 });
+    expect(result.content).toContain('readonly email: string\n  ) { /* changed */ }');
+  });
+
+  it('should report hunks that do not apply and keep applying the others', () => {
+    const diff = `--- a/src/user.ts
++++ b/src/user.ts
+@@ -1,3 +1,3 @@
+-export class User {
++export class Account {
+   constructor(
+     readonly id: string,
+@@ -7,3 +7,3 @@
+   rename(name: string): User {
+-    return new Person(this.id, name);
++    return new Account(this.id, name);
+   }
+`;
+    const result = applyFilePatch(USER, parsePatch(diff)[0]);
+
+    expect(result.hunks.map(hunk => hunk.applied)).toEqual([true, false]);
+    expect(formatHunkFailures('src/user.ts', result.hunks)).toBe(
+      'Patch failed for src/user.ts: 1 of 2 hunk(s) did not apply\n  • hunk 2 @@ -7,3 +7,3 @@'
+    );
+  });
+
+  it('should create and delete files', () => {
+    const created = applyFilePatch(null, parsePatch('--- /dev/null\n+++ b/src/id.ts\n@@ -0,0 +1,2 @@\n+export type Id = string;\n+export type Ids = Id[];\n')[0]);
+    const deleted = applyFilePatch('a\nb\n', parsePatch('--- a/src/ab.ts\n+++ /dev/null\n@@ -1,2 +0,0 @@\n-a\n-b\n')[0]);
+
+    expect(created.content).toBe('export type Id = string;\nexport type Ids = Id[];\n');
+    expect(deleted).toEqual({ content: null, hunks: [expect.objectContaining({ applied: true })] });
+  });
+
+  it('should honour missing newlines at the end of file', () => {
+    const diff = '--- a/x.ts\n+++ b/x.ts\n@@ -1 +1 @@\n-a\n\\ No newline at end of file\n+b\n';
+
+    expect(applyFilePatch('a', parsePatch(diff)[0]).content).toBe('b\n');
+  });
+});
+
+describe('checkPatchHeaders', () => {
+  it('should warn about hunk counts that do not match the body', () => {
+    const issues = checkPatchHeaders('--- a/x.ts\n+++ b/x.ts\n@@ -1,3 +1,3 @@\n-a\n+b\n');
+
+    expect(issues).toEqual([
+      { line: 3, severity: 'warning', message: 'hunk header declares 3 old and 3 new lines but the hunk has 1 and 1' },
+    ]);
+  });
+
+  it('should flag hunks without a file to patch', () => {
+    expect(checkPatchHeaders('@@ -1 +1 @@\n-a\n+b\n')[0]).toMatchObject({ line: 1, severity: 'error' });
+    expect(checkPatchHeaders('@@ -1 +1 @@\n-a\n+b\n', 'src/a.ts')).toEqual([]);
+  });
+});
+
+describe('listPatchFiles', () => {
+  it('should list every file read or written by the diff', () => {
+    const diff = `${ADD_EMAIL}--- a/src/old.ts\n+++ b/src/new.ts\n@@ -1 +1 @@\n-a\n+b\n`;
+
+    expect(listPatchFiles(diff)).toEqual(['src/user.ts', 'src/old.ts', 'src/new.ts']);
+    expect(listPatchFiles('not a diff')).toEqual([]);
+  });
+});
@@ -0,0 +1,359 @@
+/**
+ * Patch Engine
+ * Parses unified diffs and applies them for `patch` steps
+ *
+ * Hunks are located like GNU patch: at the line their header names, then at
+ * growing offsets around it, then ignoring up to MAX_FUZZ context lines at each
+ * end. Trailing whitespace is ignored when comparing lines. Every hunk is tried,
+ * so a failure reports all the hunks that did not apply instead of the first one.
+ */
+
+/**
+ * Most context lines ignored at each end of a hunk to apply it
+ */
+export const MAX_FUZZ = 2;
+
+const HUNK_HEADER = /^@@ -(\d+)(?:,(\d+))? \+(\d+)(?:,(\d+))? @@/;
+
+/**
+ * One `@@ -a,b +c,d @@` hunk
+ */
+export interface PatchHunk {
+  /** The `@@ ... @@` line */
+  header: string;
+  /** 1-based line of the header in the diff */
+  line: number;
+  oldStart: number;
+  oldLines: number;
+  newStart: number;
+  newLines: number;
+  /** Body lines with their ' ', '-' or '+' prefix */
+  lines: string[];
+  /** The old side ends without a newline (`\ No newline at end of file`) */
+  oldNoNewline: boolean;
+  /** The new side ends without a newline */
+  newNoNewline: boolean;
+}
+
+/**
+ * Changes to one file
+ */
+export interface FilePatch {
+  /** Path before the change, null for a new file */
+  oldPath: string | null;
+  /** Path after the change, null for a deleted file */
+  newPath: string | null;
+  hunks: PatchHunk[];
+}
+
+/**
+ * Problem found in a diff without applying it
+ */
+export interface PatchIssue {
+  /** 1-based line in the diff */
+  line: number;
+  severity: 'error' | 'warning';
+  message: string;
+}
+
+/**
+ * Outcome of one hunk
+ */
+export interface HunkResult {
+  /** 1-based position of the hunk in its file patch */
+  index: number;
+  header: string;
+  applied: boolean;
+  /** Lines between where the header put the hunk and where it applied */
+  offset: number;
+  /** Context lines ignored at each end to apply the hunk */
+  fuzz: number;
+}
+
+/**
+ * Outcome of applying a file patch
+ */
+export interface PatchResult {
+  /** Patched content, null when the patch deletes the file */
+  content: string | null;
+  hunks: HunkResult[];
+}
+
+/**
+ * Path of a `---`/`+++` header without timestamp and `a/`/`b/` prefix, null for /dev/null
+ */
+function parseHeaderPath(raw: string, prefix: string): string | null {
+  let filePath = raw.split('\t')[0].trim();
+  if (filePath.startsWith('"') && filePath.endsWith('"')) {
+    filePath = filePath.slice(1, -1);
+  }
+  if (filePath === '/dev/null') return null;
+  return filePath.startsWith(prefix) ? filePath.slice(prefix.length) : filePath;
+}
+
+function isFileHeader(lines: string[], index: number): boolean {
+  return lines[index].startsWith('--- ') && (lines[index + 1]?.startsWith('+++ ') ?? false);
+}
+
+/**
+ * Read the body of the hunk whose header is at `start`
+ * The body ends at the next hunk, file header or line that is not part of a hunk,
+ * so hunks whose header counts are off can still be applied
+ * @returns The hunk and the index of the first line after it
+ */
+function readHunk(lines: string[], start: number, match: RegExpMatchArray): { hunk: PatchHunk; end: number } {
+  const hunk: PatchHunk = {
+    header: lines[start],
+    line: start + 1,
+    oldStart: Number(match[1]),
+    oldLines: match[2] === undefined ? 1 : Number(match[2]),
+    newStart: Number(match[3]),
+    newLines: match[4] === undefined ? 1 : Number(match[4]),
+    lines: [],
+    oldNoNewline: false,
+    newNoNewline: false,
+  };
+
+  let end = start + 1;
+  let trailingBlanks = 0;
+  for (; end < lines.length; end++) {
+    const line = lines[end];
+    if (line.startsWith('@@') || line.startsWith('diff ') || isFileHeader(lines, end)) break;
+
+    if (line === '') {
+      // Editors strip the space of empty context lines
+      hunk.lines.push(' ');
+      trailingBlanks++;
+      continue;
+    }
+    if (line.startsWith('\\')) {
+      const previous = hunk.lines[hunk.lines.length - 1]?.[0];
+      if (previous !== '+') hunk.oldNoNewline = true;
+      if (previous !== '-') hunk.newNoNewline = true;
+      trailingBlanks = 0;
+      continue;
+    }
+    if (!' +-'.includes(line[0])) break;
+
+    hunk.lines.push(line);
+    trailingBlanks = 0;
+  }
+
+  // Blank lines after the last hunk separate it from what follows
+  hunk.lines.splice(hunk.lines.length - trailingBlanks, trailingBlanks);
+  return { hunk, end: end - trailingBlanks };
+}
+
+/**
+ * Parse a diff, collecting problems instead of throwing
+ */
+function readPatch(diff: string, defaultPath?: string): { patches: FilePatch[]; issues: PatchIssue[] } {
+  const lines = diff.replace(/\r\n/g, '\n').split('\n');
+  const patches: FilePatch[] = [];
+  const issues: PatchIssue[] = [];
+  let current: FilePatch | null = null;
+
+  for (let index = 0; index < lines.length; index++) {
+    const line = lines[index];
+
+    if (isFileHeader(lines, index)) {
+      current = { oldPath: parseHeaderPath(line.slice(4), 'a/'), newPath: parseHeaderPath(lines[index + 1].slice(4), 'b/'), hunks: [] };
+      if (current.oldPath === null && current.newPath === null) {
+        issues.push({ line: index + 1, severity: 'error', message: 'both file headers are /dev/null' });
+      }
+      patches.push(current);
+      index++;
+      continue;
+    }
+
+    if (!line.startsWith('@@')) {
+      // diff --git, index and mode lines, or prose around the diff
+      continue;
+    }
+
+    const match = line.match(HUNK_HEADER);
+    if (!match) {
+      issues.push({ line: index + 1, severity: 'error', message: `malformed hunk header '${line}', expected '@@ -start,count +start,count @@'` });
+      continue;
+    }
+    if (!current) {
+      if (!defaultPath) {
+        issues.push({ line: index + 1, severity: 'error', message: "hunk has no '--- '/'+++ ' file header and the step has no 'path'" });
+        continue;
+      }
+      current = { oldPath: defaultPath, newPath: defaultPath, hunks: [] };
+      patches.push(current);
+    }
+
+    const { hunk, end } = readHunk(lines, index, match);
+    const oldCount = hunk.lines.filter(bodyLine => bodyLine[0] !== '+').length;
+    const newCount = hunk.lines.filter(bodyLine => bodyLine[0] !== '-').length;
+    if (oldCount !== hunk.oldLines || newCount !== hunk.newLines) {
+      issues.push({
+        line: hunk.line,
+        severity: 'warning',
+        message: `hunk header declares ${hunk.oldLines} old and ${hunk.newLines} new lines but the hunk has ${oldCount} and ${newCount}`,
+      });
+    }
+    if (hunk.lines.length === 0) {
+      issues.push({ line: hunk.line, severity: 'error', message: 'hunk has no lines' });
+    }
+
+    current.hunks.push(hunk);
+    index = end - 1;
+  }
+
+  if (patches.length === 0) {
+    issues.push({ line: 1, severity: 'error', message: 'diff contains no hunks' });
+  }
+  for (const patch of patches) {
+    if (patch.hunks.length === 0) {
+      issues.push({ line: 1, severity: 'error', message: `no hunks for ${patch.newPath ?? patch.oldPath}` });
+    }
+  }
+
+  return { patches, issues };
+}
+
+/**
+ * Parse a unified diff into one patch per file
+ * @param diff - Unified diff, as produced by `git diff` or `diff -u`
+ * @param defaultPath - File patched by hunks without a `---`/`+++` header
+ * @throws {Error} If the diff has no hunks or a malformed hunk header
+ */
+export function parsePatch(diff: string, defaultPath?: string): FilePatch[] {
+  const { patches, issues } = readPatch(diff, defaultPath);
+  const error = issues.find(issue => issue.severity === 'error');
+  if (error) {
+    throw new Error(`Invalid patch at line ${error.line}: ${error.message}`);
+  }
+  return patches;
+}
+
+/**
+ * Check the file and hunk headers of a diff without applying it
+ * Header counts that do not match the hunk body are warnings: hunks are read up to
+ * the next header, so they still apply
+ */
+export function checkPatchHeaders(diff: string, defaultPath?: string): PatchIssue[] {
+  return readPatch(diff, defaultPath).issues;
+}
+
+/**
+ * Files a diff reads or writes, without validating it
+ */
+export function listPatchFiles(diff: string, defaultPath?: string): string[] {
+  const files = new Set<string>();
+  for (const patch of readPatch(diff, defaultPath).patches) {
+    if (patch.oldPath) files.add(patch.oldPath);
+    if (patch.newPath) files.add(patch.newPath);
+  }
+  return [...files];
+}
+
+function linesMatchAt(fileLines: string[], pattern: string[], position: number): boolean {
+  return pattern.every((line, offset) => fileLines[position + offset].trimEnd() === line.trimEnd());
+}
+
+/**
+ * Closest position at or after `minimum` where `pattern` matches, searching outwards from `expected`
+ */
+function findPosition(fileLines: string[], pattern: string[], expected: number, minimum: number): number | null {
+  const last = fileLines.length - pattern.length;
+  if (pattern.length === 0) {
+    return Math.min(Math.max(expected, minimum), fileLines.length);
+  }
+
+  for (let distance = 0; distance <= Math.max(expected, fileLines.length); distance++) {
+    for (const candidate of distance === 0 ? [expected] : [expected + distance, expected - distance]) {
+      if (candidate >= minimum && candidate <= last && linesMatchAt(fileLines, pattern, candidate)) {
+        return candidate;
+      }
+    }
+  }
+  return null;
+}
+
+function countLeadingContext(lines: string[]): number {
+  const index = lines.findIndex(line => line[0] !== ' ');
+  return index === -1 ? lines.length : index;
+}
+
+/**
+ * Apply the hunks of a file patch to the current content of the file
+ * Hunks that do not apply are skipped and reported with `applied: false`
+ * @param content - Current content, null when the file does not exist
+ * @throws {Error} If the patch creates a file that already has content
+ */
+export function applyFilePatch(content: string | null, patch: FilePatch): PatchResult {
+  if (patch.oldPath === null && content) {
+    throw new Error(`File to create already exists at path: ${patch.newPath}`);
+  }
+
+  const eol = content?.includes('\r\n') ? '\r\n' : '\n';
+  const fileLines = content ? content.split(/\r?\n/) : [];
+  let endsWithNewline = !content || content.endsWith('\n');
+  if (content && endsWithNewline) fileLines.pop();
+
+  const results: HunkResult[] = [];
+  let delta = 0;
+  let appliedEnd = 0;
+
+  patch.hunks.forEach((hunk, index) => {
+    const oldSide = hunk.lines.filter(line => line[0] !== '+').map(line => line.slice(1));
+    const newSide = hunk.lines.filter(line => line[0] !== '-').map(line => line.slice(1));
+    const leading = countLeadingContext(hunk.lines);
+    const trailing = Math.min(countLeadingContext([...hunk.lines].reverse()), hunk.lines.length - leading);
+    // A hunk adding lines at the top has no line to anchor to: `-0,0` means "before line 1"
+    const expected = Math.max(0, (hunk.oldLines === 0 ? hunk.oldStart : hunk.oldStart - 1) + delta);
+
+    for (let fuzz = 0; fuzz <= Math.min(MAX_FUZZ, Math.max(leading, trailing)); fuzz++) {
+      const top = Math.min(fuzz, leading);
+      const bottom = Math.min(fuzz, trailing);
+      const pattern = oldSide.slice(top, oldSide.length - bottom);
+      if (pattern.length === 0 && oldSide.length > 0) break;
+
+      const position = findPosition(fileLines, pattern, expected + top, appliedEnd);
+      if (position === null) continue;
+
+      const replacement = newSide.slice(top, newSide.length - bottom);
+      fileLines.splice(position, pattern.length, ...replacement);
+
+      const offset = position - (expected + top);
+      delta += offset + replacement.length - pattern.length;
+      appliedEnd = position + replacement.length;
+      if (appliedEnd === fileLines.length && bottom === 0) {
+        if (hunk.newNoNewline) endsWithNewline = false;
+        else if (hunk.oldNoNewline) endsWithNewline = true;
+      }
+
+      results.push({ index: index + 1, header: hunk.header, applied: true, offset, fuzz });
+      return;
+    }
+
+    results.push({ index: index + 1, header: hunk.header, applied: false, offset: 0, fuzz: 0 });
+  });
+
+  if (patch.newPath === null) {
+    return { content: null, hunks: results };
+  }
+
+  const patched = fileLines.join(eol) + (endsWithNewline && fileLines.length > 0 ? eol : '');
+  return { content: patched, hunks: results };
+}
+
+/**
+ * Describe the hunks of a file that did not apply
+ *
+ * @example
+ * formatHunkFailures('src/user.ts', results)
+ * // Patch failed for src/user.ts: 1 of 2 hunk(s) did not apply
+ * //   • hunk 2 @@ -10,4 +10,5 @@
+ */
+export function formatHunkFailures(filePath: string, results: HunkResult[]): string {
+  const failed = results.filter(result => !result.applied);
+  return [
+    `Patch failed for ${filePath}: ${failed.length} of ${results.length} hunk(s) did not apply`,
+    ...failed.map(result => `  • hunk ${result.index} ${result.header}`),
+  ].join('\n');
+}
@@ -0,0 +1,101 @@
+/**
+ * Unit tests for placeholder-engine utility
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  convertCase,
+  normalizeVariableName,
+  computedValues,
+  findPlaceholders,
+  renderPlaceholders,
+} from './placeholder-engine';
+
+const NOW = new Date('2025-10-19T12:34:56.000Z');
+
+describe('convertCase', () => {
+  it.each([
+    ['PASCAL_CASE', 'UserAccount'],
+    ['CAMEL_CASE', 'userAccount'],
+    ['KEBAB_CASE', 'user-account'],
+    ['SNAKE_CASE', 'user_account'],
+    ['LOWER_CASE', 'user account'],
+    ['UPPER_CASE', 'USER_ACCOUNT'],
+  ] as const)('should convert to %s', (variant, expected) => {
+    expect(convertCase('user account', variant)).toBe(expected);
+  });
+
+  it('should split camel, Pascal and separated input', () => {
+    expect(convertCase('createUser', 'KEBAB_CASE')).toBe('create-user');
+    expect(convertCase('HTTPClient', 'KEBAB_CASE')).toBe('http-client');
+    expect(convertCase('load_user-profile', 'PASCAL_CASE')).toBe('LoadUserProfile');
+  });
+});
+
+describe('normalizeVariableName', () => {
+  it('should accept any casing', () => {
+    expect(normalizeVariableName('featureName')).toBe('FEATURE_NAME');
+    expect(normalizeVariableName('feature-name')).toBe('FEATURE_NAME');
+    expect(normalizeVariableName('FEATURE_NAME')).toBe('FEATURE_NAME');
+    expect(normalizeVariableName('INPUT_FIELD_1')).toBe('INPUT_FIELD_1');
+  });
+});
+
+describe('computedValues', () => {
+  it('should compute date values', () => {
+    expect(computedValues(NOW)).toEqual({
+      CURRENT_DATE: '2025-10-19',
+      CURRENT_DATETIME: '2025-10-19T12:34:56.000Z',
+      CURRENT_YEAR: '2025',
+    });
+  });
+});
+
+describe('findPlaceholders', () => {
+  it('should list distinct placeholders', () => {
+    expect(findPlaceholders('__A__ __B_PASCAL_CASE__ __A__ __dirname')).toEqual(['A', 'B_PASCAL_CASE']);
+  });
+
+  it('should stop at the first double underscore', () => {
+    expect(findPlaceholders("'__USE_CASE_NAME_UPPER_CASE___NOT_FOUND'")).toEqual(['USE_CASE_NAME_UPPER_CASE']);
+  });
+});
+
+describe('renderPlaceholders', () => {
+  it('should derive case variants from a base value', () => {
+    const result = renderPlaceholders(
+      "class __FEATURE_NAME_PASCAL_CASE__ {} // __FEATURE_NAME_KEBAB_CASE__\n'__FEATURE_NAME_UPPER_CASE___NOT_FOUND'",
+      { featureName: 'user account' },
+      NOW
+    );
+
+    expect(result.content).toBe("class UserAccount {} // user-account\n'USER_ACCOUNT_NOT_FOUND'");
+    expect(result.unresolved).toEqual([]);
+  });
+
+  it('should prefer explicit variables over derived variants', () => {
+    const result = renderPlaceholders('__NAME_PASCAL_CASE__', { name: 'user', NAME_PASCAL_CASE: 'Member' }, NOW);
+
+    expect(result.content).toBe('Member');
+  });
+
+  it('should fill computed values', () => {
+    expect(renderPlaceholders("lastUpdated: '__CURRENT_DATE__'", {}, NOW).content).toBe("lastUpdated: '2025-10-19'");
+  });
+
+  it('should report unresolved placeholders with occurrences', () => {
+    const result = renderPlaceholders('__A__ __B__ __A__ __C__', { c: 3 }, NOW);
+
+    expect(result.content).toBe('__A__ __B__ __A__ 3');
+    expect(result.resolved).toEqual(['C']);
+    expect(result.unresolved).toEqual([
+      { name: 'A', occurrences: 2 },
+      { name: 'B', occurrences: 1 },
+    ]);
+  });
+
+  it('should reject object values', () => {
+    expect(() => renderPlaceholders('__A__', { a: { nested: true } }, NOW))
+      .toThrow("Variable 'a' must be a string, number or boolean.");
+  });
+});
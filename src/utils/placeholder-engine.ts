@@ -0,0 +1,164 @@
+/**
+ * Placeholder Engine
+ * Substitutes `__PLACEHOLDER__` variables in .regent templates
+ *
+ * Case variants are derived from a single base value, e.g. with
+ * `FEATURE_NAME: user account`:
+ * - __FEATURE_NAME_PASCAL_CASE__  UserAccount
+ * - __FEATURE_NAME_CAMEL_CASE__   userAccount
+ * - __FEATURE_NAME_KEBAB_CASE__   user-account
+ * - __FEATURE_NAME_SNAKE_CASE__   user_account
+ * - __FEATURE_NAME_LOWER_CASE__   user account
+ * - __FEATURE_NAME_UPPER_CASE__   USER_ACCOUNT
+ */
+
+/**
+ * Supported case variants (placeholder suffix → converter name)
+ */
+export type CaseVariant = 'PASCAL_CASE' | 'CAMEL_CASE' | 'KEBAB_CASE' | 'SNAKE_CASE' | 'LOWER_CASE' | 'UPPER_CASE';
+
+const CASE_VARIANTS: CaseVariant[] = ['PASCAL_CASE', 'CAMEL_CASE', 'KEBAB_CASE', 'SNAKE_CASE', 'LOWER_CASE', 'UPPER_CASE'];
+
+/**
+ * Placeholder token: __NAME__ where NAME is UPPER_SNAKE_CASE without double underscores
+ * (so `__X_UPPER_CASE___NOT_FOUND` yields `X_UPPER_CASE`)
+ */
+const PLACEHOLDER_PATTERN = /__([A-Z][A-Z0-9]*(?:_[A-Z0-9]+)*)__/g;
+
+/**
+ * Result of rendering a template
+ */
+export interface RenderResult {
+  /** Content with every resolvable placeholder substituted */
+  content: string;
+  /** Placeholder names that were substituted */
+  resolved: string[];
+  /** Placeholders without a value, with their number of occurrences */
+  unresolved: Array<{ name: string; occurrences: number }>;
+}
+
+/**
+ * Split a value into words (handles spaces, separators and camel/Pascal case)
+ */
+function toWords(value: string): string[] {
+  return value
+    .replace(/([a-z0-9])([A-Z])/g, '$1 $2')
+    .replace(/([A-Z]+)([A-Z][a-z])/g, '$1 $2')
+    .split(/[^A-Za-z0-9]+/)
+    .filter(word => word.length > 0);
+}
+
+/**
+ * Convert a value to a case variant
+ * @example convertCase('create user', 'PASCAL_CASE') // 'CreateUser'
+ */
+export function convertCase(value: string, variant: CaseVariant): string {
+  const words = toWords(value).map(word => word.toLowerCase());
+  const capitalize = (word: string) => word.charAt(0).toUpperCase() + word.slice(1);
+
+  switch (variant) {
+    case 'PASCAL_CASE':
+      return words.map(capitalize).join('');
+    case 'CAMEL_CASE':
+      return words.map((word, index) => (index === 0 ? word : capitalize(word))).join('');
+    case 'KEBAB_CASE':
+      return words.join('-');
+    case 'SNAKE_CASE':
+      return words.join('_');
+    case 'LOWER_CASE':
+      return words.join(' ');
+    case 'UPPER_CASE':
+      return words.join('_').toUpperCase();
+  }
+}
+
+/**
+ * Normalize a variable name to the placeholder form
+ * @example normalizeVariableName('featureName') // 'FEATURE_NAME'
+ */
+export function normalizeVariableName(name: string): string {
+  return convertCase(name, 'UPPER_CASE');
+}
+
+/**
+ * Values computed at render time
+ * @param now - Render time (injectable for tests)
+ */
+export function computedValues(now: Date = new Date()): Record<string, string> {
+  const iso = now.toISOString();
+  return {
+    CURRENT_DATE: iso.slice(0, 10),
+    CURRENT_DATETIME: iso,
+    CURRENT_YEAR: String(now.getUTCFullYear()),
+  };
+}
+
+/**
+ * List the distinct placeholders used in content
+ */
+export function findPlaceholders(content: string): string[] {
+  return [...new Set([...content.matchAll(PLACEHOLDER_PATTERN)].map(match => match[1]))];
+}
+
+/**
+ * Resolve the value of one placeholder
+ * Explicit variables win over computed values, which win over derived case variants
+ */
+function resolvePlaceholder(name: string, variables: Map<string, string>, computed: Record<string, string>): string | undefined {
+  if (variables.has(name)) return variables.get(name);
+  if (name in computed) return computed[name];
+
+  const variant = CASE_VARIANTS.find(suffix => name.endsWith(`_${suffix}`));
+  if (variant) {
+    const base = variables.get(name.slice(0, -(variant.length + 1)));
+    if (base !== undefined) return convertCase(base, variant);
+  }
+
+  return undefined;
+}
+
+/**
+ * Substitute placeholders in a template
+ * @param content - Template content
+ * @param variables - Values by name (any casing: `featureName`, `feature-name`, `FEATURE_NAME`)
+ * @param now - Render time used for computed values
+ * @returns Rendered content plus resolved and unresolved placeholder names
+ * @throws {Error} If a variable value is an object or array
+ *
+ * @example
+ * renderPlaceholders("class __FEATURE_NAME_PASCAL_CASE__ {}", { featureName: 'user account' })
+ * // { content: 'class UserAccount {}', resolved: ['FEATURE_NAME_PASCAL_CASE'], unresolved: [] }
+ */
+export function renderPlaceholders(
+  content: string,
+  variables: Record<string, unknown>,
+  now: Date = new Date()
+): RenderResult {
+  const normalized = new Map<string, string>();
+  for (const [name, value] of Object.entries(variables)) {
+    if (value !== null && typeof value === 'object') {
+      throw new Error(`Variable '${name}' must be a string, number or boolean.`);
+    }
+    normalized.set(normalizeVariableName(name), value === null || value === undefined ? '' : String(value));
+  }
+
+  const computed = computedValues(now);
+  const resolved = new Set<string>();
+  const unresolved = new Map<string, number>();
+
+  const rendered = content.replace(PLACEHOLDER_PATTERN, (token, name: string) => {
+    const value = resolvePlaceholder(name, normalized, computed);
+    if (value === undefined) {
+      unresolved.set(name, (unresolved.get(name) || 0) + 1);
+      return token;
+    }
+    resolved.add(name);
+    return value;
+  });
+
+  return {
+    content: rendered,
+    resolved: [...resolved],
+    unresolved: [...unresolved.entries()].map(([name, occurrences]) => ({ name, occurrences })),
+  };
+}
@@ -0,0 +1,52 @@
+/**
+ * Unit tests for plan integrity checks
+ */
+
+import { describe, it, expect } from 'vitest';
+import { checkPlanIntegrity, getStepOrder, hashStep } from './plan-integrity';
+
+function ranStep(id: string, status: string, extra: Record<string, unknown> = {}) {
+  const step = { id, type: 'create_file', path: `src/${id}.ts`, template: `export const ${id} = 1;\n`, ...extra };
+  return { ...step, status, execution_log: 'done', content_hash: hashStep(step) };
+}
+
+describe('hashStep', () => {
+  it('should ignore run state and key order', () => {
+    const step = { id: 'a', type: 'create_file', template: 'x' };
+
+    expect(hashStep({ ...step, status: 'SUCCESS', rlhf_score: 2, execution_log: 'log', attempts: 2 })).toBe(hashStep(step));
+    expect(hashStep({ template: 'x', type: 'create_file', id: 'a' })).toBe(hashStep(step));
+    expect(hashStep({ ...step, template: 'y' })).not.toBe(hashStep(step));
+  });
+});
+
+describe('checkPlanIntegrity', () => {
+  it('should accept a plan unchanged since its last run', () => {
+    const steps = [ranStep('a', 'SUCCESS'), ranStep('b', 'FAILED'), { id: 'c', status: 'PENDING' }];
+
+    expect(checkPlanIntegrity(steps, getStepOrder(steps))).toEqual([]);
+    expect(getStepOrder(steps)).toEqual(['a', 'b']);
+  });
+
+  it('should report steps edited after they succeeded or while still pending', () => {
+    const steps = [
+      { ...ranStep('a', 'SUCCESS'), template: 'export const a = 2;\n' },
+      { ...ranStep('b', 'FAILED'), template: 'export const b = 2;\n' },
+    ];
+
+    expect(checkPlanIntegrity(steps, ['a', 'b'])).toEqual([
+      { kind: 'edited_after_success', stepId: 'a', message: 'edited after it was marked SUCCESS' },
+      { kind: 'edited_pending', stepId: 'b', message: 'edited since its last run (FAILED)' },
+    ]);
+  });
+
+  it('should report deleted and reordered steps', () => {
+    const steps = [ranStep('c', 'SUCCESS'), ranStep('a', 'SUCCESS')];
+
+    expect(checkPlanIntegrity(steps, ['a', 'b', 'c']).map(issue => [issue.kind, issue.stepId])).toEqual([
+      ['deleted', 'b'],
+      ['reordered', 'c'],
+      ['reordered', 'a'],
+    ]);
+  });
+});
@@ -0,0 +1,100 @@
+/**
+ * Plan Integrity
+ * Detects plan edits between partial runs: every step records a hash of its content
+ * when it runs, and the plan records the order of the steps that ran
+ */
+
+import * as crypto from 'crypto';
+import { STEP_STATE_KEYS } from './execution-state';
+
+/**
+ * How a step changed since it last ran
+ * - edited_after_success: content changed after the step succeeded (or was skipped),
+ *   so a resumed run would leave the committed code out of date
+ * - edited_pending: content changed after a run that failed or was rolled back
+ * - deleted: a step that ran is no longer in the plan
+ * - reordered: steps that ran now come in a different order
+ */
+export type IntegrityIssueKind = 'edited_after_success' | 'edited_pending' | 'deleted' | 'reordered';
+
+export interface IntegrityIssue {
+  kind: IntegrityIssueKind;
+  stepId: string;
+  message: string;
+}
+
+/**
+ * Step as far as integrity checks are concerned
+ */
+interface HashableStep {
+  id: string;
+  status?: string;
+  content_hash?: string;
+}
+
+function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(stableStringify).join(',')}]`;
+  }
+  if (typeof value === 'object' && value !== null) {
+    return `{${Object.keys(value)
+      .filter(key => (value as Record<string, unknown>)[key] !== undefined)
+      .sort()
+      .map(key => `${JSON.stringify(key)}:${stableStringify((value as Record<string, unknown>)[key])}`)
+      .join(',')}}`;
+  }
+  return JSON.stringify(value) ?? 'null';
+}
+
+/**
+ * Hash of what a step does: every field except the run state
+ * Key order and formatting of the YAML do not change the hash
+ */
+export function hashStep(step: object): string {
+  const content = Object.fromEntries(
+    Object.entries(step).filter(([key]) => !(STEP_STATE_KEYS as readonly string[]).includes(key))
+  );
+  return crypto.createHash('sha256').update(stableStringify(content)).digest('hex').slice(0, 16);
+}
+
+/**
+ * Ids of the steps that ran, in plan order
+ */
+export function getStepOrder(steps: HashableStep[]): string[] {
+  return steps.filter(step => step.content_hash).map(step => step.id);
+}
+
+/**
+ * Compare a plan with the hashes and order recorded by earlier runs
+ * @param previousOrder - `step_order` saved by the last run, if any
+ */
+export function checkPlanIntegrity(steps: HashableStep[], previousOrder: string[] = []): IntegrityIssue[] {
+  const issues: IntegrityIssue[] = [];
+
+  for (const step of steps) {
+    if (!step.content_hash || hashStep(step) === step.content_hash) continue;
+
+    if (step.status === 'SUCCESS' || step.status === 'SKIPPED') {
+      issues.push({ kind: 'edited_after_success', stepId: step.id, message: `edited after it was marked ${step.status}` });
+    } else {
+      issues.push({ kind: 'edited_pending', stepId: step.id, message: `edited since its last run (${step.status || 'PENDING'})` });
+    }
+  }
+
+  const currentIds = new Set(steps.map(step => step.id));
+  for (const id of previousOrder.filter(id => !currentIds.has(id))) {
+    issues.push({ kind: 'deleted', stepId: id, message: 'ran before but is no longer in the plan' });
+  }
+
+  // Compare the relative order of the steps that are still there
+  const previous = previousOrder.filter(id => currentIds.has(id));
+  const kept = new Set(previous);
+  const current = steps.map(step => step.id).filter(id => kept.has(id));
+  current.forEach((id, index) => {
+    if (previous[index] !== id) {
+      issues.push({ kind: 'reordered', stepId: id, message: `moved from position ${previous.indexOf(id) + 1} to ${index + 1} among the steps that ran` });
+    }
+  });
+
+  return issues;
+}
@@ -0,0 +1,89 @@
+/**
+ * Unit tests for quality gate resolution and error parsing
+ */
+
+import { describe, it, expect } from 'vitest';
+import { getFailedGatesMaxScore, isRejectedOptionOutput, parseGateErrors, resolveQualityGates, runsGateTool } from './quality-gates';
+
+describe('resolveQualityGates', () => {
+  it('should run lint and test with their configured commands by default', () => {
+    const gates = resolveQualityGates({ lint: true, lintCommand: 'lint:ci', test: true, testCommand: 'test --run' });
+
+    expect(gates).toEqual([
+      { name: 'lint', command: 'lint:ci', parser: 'eslint', jsonReporter: 'auto', timeoutMs: 300000, required: true, maxScore: -1 },
+      { name: 'test', command: 'test --run', parser: 'vitest', jsonReporter: 'auto', timeoutMs: 300000, required: true, maxScore: -1 },
+    ]);
+  });
+
+  it('should add the configured gates after lint and test, with built-in defaults', () => {
+    const gates = resolveQualityGates({
+      lint: false,
+      test: true,
+      gates: {
+        format: {},
+        typecheck: { timeoutMs: 60000 },
+        licenses: { command: 'license-check', required: false, maxScore: 0 },
+        arch: { enabled: false },
+        test: { required: false },
+      },
+    });
+
+    expect(gates.map(({ name, command, required }) => [name, command, required])).toEqual([
+      ['test', 'test --run', false],
+      ['format', 'prettier --check .', false],
+      ['typecheck', 'tsc --noEmit', true],
+      ['licenses', 'license-check', false],
+    ]);
+    expect(gates[2]).toMatchObject({ parser: 'tsc', jsonReporter: false, timeoutMs: 60000, maxScore: -1 });
+    expect(gates[3]).toMatchObject({ parser: 'text', maxScore: 0 });
+  });
+
+  it('should reject custom gates without a command', () => {
+    expect(() => resolveQualityGates({ lint: true, test: true, gates: { licenses: {} } })).toThrow("Quality gate 'licenses' has no command");
+  });
+});
+
+describe('runsGateTool', () => {
+  it('should only accept command lines running the tool of the parser on its own', () => {
+    expect(runsGateTool('eslint . --max-warnings 0', 'eslint')).toBe(true);
+    expect(runsGateTool('npx --no-install vitest run', 'vitest')).toBe(true);
+    expect(runsGateTool('NODE_OPTIONS=--max-old-space-size=4096 jest', 'jest')).toBe(true);
+    expect(runsGateTool('eslint . && tsc --noEmit', 'eslint')).toBe(false);
+    expect(runsGateTool('next lint', 'eslint')).toBe(false);
+    expect(runsGateTool('vitest run', 'jest')).toBe(false);
+  });
+});
+
+describe('isRejectedOptionOutput', () => {
+  it('should recognise tools rejecting an option', () => {
+    expect(isRejectedOptionOutput("error: unknown option '--format'")).toBe(true);
+    expect(isRejectedOptionOutput('Unknown arguments: reporter')).toBe(true);
+    expect(isRejectedOptionOutput('src/user.ts\n  1:1  error  Unexpected any')).toBe(false);
+  });
+});
+
+describe('parseGateErrors', () => {
+  it('should extract TypeScript compiler errors', () => {
+    const output = "src/user.ts(3,7): error TS2322: Type 'string' is not assignable to type 'number'.\n\nFound 1 error.";
+
+    expect(parseGateErrors(output, 'tsc')).toEqual(["src/user.ts(3,7): error TS2322: Type 'string' is not assignable to type 'number'."]);
+  });
+
+  it('should extract dependency-cruiser violations', () => {
+    const output = '\n  error domain-not-to-infra: src/domain/user.ts → src/infra/db.ts\n\nx 1 dependency violations (1 errors, 0 warnings).';
+
+    expect(parseGateErrors(output, 'dependency-cruiser')).toEqual(['error domain-not-to-infra: src/domain/user.ts → src/infra/db.ts']);
+  });
+
+  it('should extract ESLint errors and keep at most 10 lines of text output', () => {
+    expect(parseGateErrors('/src/user.ts\n  1:1  error  Unexpected any\n\n1 problem', 'eslint')).toEqual(['/src/user.ts', '1:1  error  Unexpected any']);
+    expect(parseGateErrors(Array.from({ length: 12 }, (_, index) => `line ${index}`).join('\n'), 'text')).toHaveLength(10);
+  });
+});
+
+describe('getFailedGatesMaxScore', () => {
+  it('should cap the score at the lowest maximum of the failed gates', () => {
+    expect(getFailedGatesMaxScore([{ passed: false, maxScore: 1 }, { passed: false, maxScore: -2 }, { passed: true, maxScore: -1 }])).toBe(-2);
+    expect(getFailedGatesMaxScore([{ passed: true, maxScore: -1 }])).toBeUndefined();
+  });
+});
@@ -0,0 +1,201 @@
+/**
+ * Quality Gates
+ * Named checks run before each commit: lint and test, plus opt-in gates such as
+ * typecheck, arch and format
+ *
+ * Each gate has a command, a parser extracting its errors, a timeout, a required flag
+ * and the highest RLHF score a step keeps when the gate fails. A failing required gate
+ * rolls the steps back; a failing optional gate only lowers their score.
+ */
+
+import * as path from 'path';
+import type { CommitConfig } from './commit-generator';
+import { JSON_REPORTER_ARGS } from './quality-reports';
+
+/**
+ * How the errors of a gate are extracted from its output
+ */
+export const QUALITY_GATE_PARSERS = ['eslint', 'vitest', 'jest', 'tsc', 'dependency-cruiser', 'text'] as const;
+
+export type QualityGateParser = typeof QUALITY_GATE_PARSERS[number];
+
+/**
+ * A check run before committing
+ */
+export interface QualityGate {
+  name: string;
+  /** package.json script and its arguments, or a binary of the project when no script has that name */
+  command: string;
+  parser: QualityGateParser;
+  /**
+   * Ask the tool for its JSON report (eslint, vitest and jest parsers)
+   * 'auto' only asks when the command runs that tool directly, see runsGateTool
+   */
+  jsonReporter: boolean | 'auto';
+  timeoutMs: number;
+  /** A failing required gate rolls the steps back; an optional one lets them commit */
+  required: boolean;
+  /** Highest RLHF score a step keeps when the gate fails */
+  maxScore: number;
+}
+
+/**
+ * Gate settings from `quality_checks.gates` in execute.yml, all optional
+ */
+export interface QualityGateOptions {
+  enabled?: boolean;
+  command?: string;
+  parser?: QualityGateParser;
+  jsonReporter?: boolean;
+  timeoutMs?: number;
+  required?: boolean;
+  maxScore?: number;
+}
+
+export const DEFAULT_QUALITY_GATE_TIMEOUT_MS = 300000;
+
+/**
+ * Gates known by name; lint and test run unless disabled, the others once listed in `gates`
+ */
+export const BUILT_IN_QUALITY_GATES: Record<string, Omit<QualityGate, 'name' | 'jsonReporter'>> = {
+  lint: { command: 'lint', parser: 'eslint', timeoutMs: DEFAULT_QUALITY_GATE_TIMEOUT_MS, required: true, maxScore: -1 },
+  test: { command: 'test --run', parser: 'vitest', timeoutMs: DEFAULT_QUALITY_GATE_TIMEOUT_MS, required: true, maxScore: -1 },
+  typecheck: { command: 'tsc --noEmit', parser: 'tsc', timeoutMs: DEFAULT_QUALITY_GATE_TIMEOUT_MS, required: true, maxScore: -1 },
+  // Architecture violations are scored like the other architecture errors of the RLHF system
+  arch: { command: 'arch:validate', parser: 'dependency-cruiser', timeoutMs: DEFAULT_QUALITY_GATE_TIMEOUT_MS, required: true, maxScore: -2 },
+  format: { command: 'prettier --check .', parser: 'text', timeoutMs: DEFAULT_QUALITY_GATE_TIMEOUT_MS, required: false, maxScore: 1 },
+};
+
+/**
+ * Settings of a gate that is not built in, besides its command
+ */
+const CUSTOM_GATE_DEFAULTS: Omit<QualityGate, 'name' | 'command' | 'jsonReporter'> = {
+  parser: 'text',
+  timeoutMs: DEFAULT_QUALITY_GATE_TIMEOUT_MS,
+  required: true,
+  maxScore: -1,
+};
+
+/**
+ * Most relevant lines of a gate output
+ */
+const MAX_GATE_ERRORS = 10;
+
+/**
+ * Gates to run before each commit, in order: lint, test, then the configured ones
+ * @throws {Error} If a gate that is not built in has no command
+ */
+export function resolveQualityGates(qualityChecks: CommitConfig['qualityChecks']): QualityGate[] {
+  const options = qualityChecks.gates || {};
+  const gates: QualityGate[] = [];
+
+  const addGate = (name: string, command?: string) => {
+    const { enabled, ...overrides } = options[name] || {};
+    if (enabled === false) return;
+
+    const gateCommand = overrides.command || command || BUILT_IN_QUALITY_GATES[name]?.command;
+    if (!gateCommand) {
+      throw new Error(`Quality gate '${name}' has no command`);
+    }
+    const defined = Object.fromEntries(Object.entries(overrides).filter(([, value]) => value !== undefined));
+    const gate = { ...(BUILT_IN_QUALITY_GATES[name] || CUSTOM_GATE_DEFAULTS), ...defined, name, command: gateCommand };
+    gates.push({ ...gate, jsonReporter: overrides.jsonReporter ?? (JSON_REPORTER_ARGS[gate.parser] ? 'auto' : false) });
+  };
+
+  if (qualityChecks.lint) addGate('lint', qualityChecks.lintCommand);
+  if (qualityChecks.test) addGate('test', qualityChecks.testCommand);
+  for (const name of Object.keys(options)) {
+    if (name !== 'lint' && name !== 'test') addGate(name);
+  }
+
+  return gates;
+}
+
+/**
+ * Words running a project binary rather than being the binary
+ */
+const BINARY_RUNNERS = new Set(['npx', 'pnpm', 'yarn', 'bunx', 'exec', '--no-install']);
+
+/**
+ * Whether a command line runs the tool of a parser on its own, so the tool gets the
+ * reporter options added after it: `eslint .` or `npx vitest run` does,
+ * `eslint . && tsc --noEmit` or `next lint` does not
+ */
+export function runsGateTool(commandLine: string, parser: QualityGateParser): boolean {
+  if (/[;&|]/.test(commandLine)) return false;
+  const tool = commandLine.trim().split(/\s+/).find(word => !BINARY_RUNNERS.has(word) && !/^[A-Za-z_][A-Za-z0-9_]*=/.test(word));
+  return tool !== undefined && path.posix.basename(tool) === parser;
+}
+
+/**
+ * Whether a failed gate output says the tool did not take one of its options,
+ * e.g. a JSON reporter option it does not know
+ */
+export function isRejectedOptionOutput(output: string): boolean {
+  return /\b(unknown|unrecognized|invalid) (option|argument|flag)|unknown arguments?:/i.test(output);
+}
+
+/**
+ * Extract the errors of a failed gate from its output, most relevant first
+ */
+export function parseGateErrors(output: string, parser: QualityGateParser): string[] {
+  const lines = output.split('\n');
+  const errors: string[] = [];
+
+  switch (parser) {
+    case 'eslint':
+      for (const line of lines) {
+        // Match pattern: line:col error message
+        if (line.match(/^\s*\d+:\d+\s+(error|warning)/)) {
+          errors.push(line.trim());
+        }
+        // Match pattern: /path/file.ts
+        if (line.match(/^\/.*\.(ts|js|tsx|jsx)$/)) {
+          errors.push(line.trim());
+        }
+      }
+      break;
+
+    case 'vitest':
+    case 'jest': {
+      let inFailure = false;
+      for (const line of lines) {
+        // Vitest/Jest failure patterns
+        if (line.match(/FAIL|✕|×|failed/i)) {
+          inFailure = true;
+          errors.push(line.trim());
+        } else if (inFailure && line.trim()) {
+          errors.push(line.trim());
+          if (errors.length >= MAX_GATE_ERRORS) break;
+        } else if (line.match(/Tests:.*failed/i)) {
+          errors.push(line.trim());
+        }
+      }
+      break;
+    }
+
+    case 'tsc':
+      // Match pattern: src/file.ts(12,5): error TS2322: message
+      errors.push(...lines.filter(line => /error TS\d+:/.test(line)).map(line => line.trim()));
+      break;
+
+    case 'dependency-cruiser':
+      // Match pattern: error no-circular: src/a.ts → src/b.ts
+      errors.push(...lines.filter(line => /^\s*(error|warn)\s+\S+:/.test(line)).map(line => line.trim()));
+      break;
+
+    case 'text':
+      errors.push(...lines.map(line => line.trim()).filter(Boolean));
+      break;
+  }
+
+  return errors.slice(0, MAX_GATE_ERRORS);
+}
+
+/**
+ * Highest RLHF score of a step whose checks ran, or undefined when every gate passed
+ */
+export function getFailedGatesMaxScore(gates: { passed: boolean; maxScore: number }[]): number | undefined {
+  const failed = gates.filter(gate => !gate.passed);
+  return failed.length > 0 ? Math.min(...failed.map(gate => gate.maxScore)) : undefined;
+}
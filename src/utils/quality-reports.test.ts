@@ -0,0 +1,95 @@
+/**
+ * Unit tests for JSON lint/test reports and their issue records
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  attributeQualityIssues,
+  formatQualityIssue,
+  formatQualityIssueLog,
+  getQualityErrorType,
+  parseGateReport,
+  parseQualityIssueLog,
+  type QualityIssue,
+} from './quality-reports';
+
+const ROOT = '/project';
+
+const issue = (file: string, rule: string | null = 'no-unused-vars'): QualityIssue => ({
+  file,
+  line: 3,
+  column: 7,
+  rule,
+  message: "'id' is defined but never used",
+  severity: 'error',
+});
+
+describe('parseGateReport', () => {
+  it('should normalise the ESLint JSON report after the package manager banner', () => {
+    const report = JSON.stringify([
+      { filePath: '/project/src/user.ts', messages: [{ ruleId: 'no-unused-vars', severity: 2, message: "'id' is defined but never used", line: 3, column: 7 }] },
+      { filePath: '/project/src/clean.ts', messages: [] },
+      { filePath: '/project/src/order.ts', messages: [{ ruleId: null, severity: 1, message: 'Unused eslint-disable directive' }] },
+    ]);
+
+    expect(parseGateReport(`\n> app@1.0.0 lint\n> eslint . --format json\n\n${report}\nnpm error Lifecycle script "lint" failed`, 'eslint', ROOT)).toEqual([
+      issue('src/user.ts'),
+      { file: 'src/order.ts', line: null, column: null, rule: null, message: 'Unused eslint-disable directive', severity: 'warning' },
+    ]);
+  });
+
+  it('should normalise failed tests and files that did not load from the Vitest/Jest JSON report', () => {
+    const report = JSON.stringify({
+      numFailedTests: 1,
+      testResults: [
+        {
+          name: '/project/src/user.test.ts',
+          status: 'failed',
+          assertionResults: [
+            { fullName: 'User should keep its id', status: 'failed', failureMessages: ['AssertionError: expected 1 to be 2\n    at user.test.ts:5:3'], location: { line: 5, column: 3 } },
+            { fullName: 'User should be created', status: 'passed', failureMessages: [] },
+          ],
+        },
+        { name: '/project/src/order.test.ts', status: 'failed', message: "Cannot find module './order'", assertionResults: [] },
+        { name: '/project/src/clean.test.ts', status: 'passed', assertionResults: [{ fullName: 'clean', status: 'passed' }] },
+      ],
+    }, null, 2);
+
+    expect(parseGateReport(report, 'vitest', ROOT)).toEqual([
+      { file: 'src/user.test.ts', line: 5, column: 3, rule: 'User should keep its id', message: 'AssertionError: expected 1 to be 2', severity: 'error' },
+      { file: 'src/order.test.ts', line: null, column: null, rule: null, message: "Cannot find module './order'", severity: 'error' },
+    ]);
+  });
+
+  it('should return undefined without a JSON report', () => {
+    expect(parseGateReport('/project/src/user.ts\n  3:7  error  unused', 'eslint', ROOT)).toBeUndefined();
+    expect(parseGateReport('{"testResults": [}', 'jest', ROOT)).toBeUndefined();
+    expect(parseGateReport('[]', 'tsc', ROOT)).toBeUndefined();
+  });
+});
+
+describe('attributeQualityIssues', () => {
+  it('should give each step the issues of its files and the issues no step owns', () => {
+    const shared = issue('src/shared.ts');
+
+    expect(attributeQualityIssues([issue('src/user.ts'), issue('src/order.ts'), shared], [['./src/user.ts'], ['src/order.ts']])).toEqual([
+      [issue('src/user.ts'), shared],
+      [issue('src/order.ts'), shared],
+    ]);
+  });
+});
+
+describe('quality issue logs', () => {
+  it('should store issues in the execution log and read them back by gate', () => {
+    const log = `Failed at 2025-01-01.\n\n${formatQualityIssueLog('lint', [issue('src/user.ts')])}\n\n--- TEST ERRORS ---\nFAIL src/user.test.ts`;
+
+    expect(parseQualityIssueLog(log)).toEqual({ lint: [issue('src/user.ts')] });
+    expect(formatQualityIssueLog('lint', Array.from({ length: 52 }, () => issue('src/user.ts'))).split('\n').slice(-1)).toEqual(['(2 more)']);
+  });
+
+  it('should format issues and derive their RLHF error type', () => {
+    expect(formatQualityIssue(issue('src/user.ts'))).toBe("src/user.ts:3:7 no-unused-vars: 'id' is defined but never used");
+    expect(getQualityErrorType('lint', issue('src/user.ts', '@typescript-eslint/no-explicit-any'))).toBe('lint:@typescript-eslint/no-explicit-any');
+    expect(getQualityErrorType('test', issue('src/user.test.ts', 'User should keep its id'))).toBe('test');
+  });
+});
@@ -0,0 +1,193 @@
+/**
+ * Quality Reports
+ * Machine-readable lint and test results, normalised to one record per issue
+ *
+ * Gates using the eslint, vitest or jest parser ask their tool for its JSON report.
+ * Issues are attributed to the steps that wrote their file and stored in the step
+ * execution log, where the RLHF system reads them back as typed errors.
+ */
+
+import * as path from 'path';
+import type { QualityGateParser } from './quality-gates';
+
+/**
+ * One lint error, lint warning or failed test
+ */
+export interface QualityIssue {
+  /** Relative to the project root */
+  file: string;
+  line: number | null;
+  column: number | null;
+  /** ESLint rule, or the full name of the failed test */
+  rule: string | null;
+  message: string;
+  severity: 'error' | 'warning';
+}
+
+/**
+ * Arguments asking a tool for its JSON report, by parser
+ */
+export const JSON_REPORTER_ARGS: Partial<Record<QualityGateParser, string[]>> = {
+  eslint: ['--format', 'json'],
+  vitest: ['--reporter=json'],
+  jest: ['--json'],
+};
+
+/**
+ * Issues of one gate kept in an execution log, the rest are counted
+ */
+const MAX_LOGGED_ISSUES = 50;
+
+const MAX_PARSE_ATTEMPTS = 20;
+
+interface EslintFileReport {
+  filePath: string;
+  messages: { ruleId: string | null; severity: number; message: string; line?: number; column?: number }[];
+}
+
+interface TestFileReport {
+  name: string;
+  status: string;
+  message?: string;
+  assertionResults?: {
+    fullName: string;
+    status: string;
+    failureMessages?: string[];
+    location?: { line: number; column: number } | null;
+  }[];
+}
+
+/**
+ * Find the JSON report in a command output, after any package manager banner
+ * and before any stderr text
+ */
+function extractJson(output: string): unknown {
+  const starts = [...output.matchAll(/^[[{]/gm)].map(match => match.index!);
+  const ends = [...output.matchAll(/[\]}][ \t]*$/gm)].map(match => match.index!).reverse();
+  let attempts = 0;
+
+  for (const start of starts) {
+    for (const end of ends.filter(end => end > start)) {
+      // Reports are large: give up rather than parsing every slice of a noisy output
+      if (++attempts > MAX_PARSE_ATTEMPTS) return undefined;
+      try {
+        return JSON.parse(output.slice(start, end + 1));
+      } catch {
+        // Not the report: try a shorter or a later slice
+      }
+    }
+  }
+  return undefined;
+}
+
+function toRelativePath(filePath: string, root: string): string {
+  return path.isAbsolute(filePath) ? path.relative(root, filePath) : path.normalize(filePath);
+}
+
+/**
+ * Issues of a gate output produced by its JSON reporter
+ * @returns undefined when the parser has no JSON report or the output does not contain one
+ */
+export function parseGateReport(output: string, parser: QualityGateParser, root: string = process.cwd()): QualityIssue[] | undefined {
+  if (!JSON_REPORTER_ARGS[parser]) return undefined;
+
+  const report = extractJson(output);
+
+  if (parser === 'eslint') {
+    if (!Array.isArray(report)) return undefined;
+    return (report as EslintFileReport[]).flatMap(file => (file.messages || []).map(message => ({
+      file: toRelativePath(file.filePath, root),
+      line: message.line ?? null,
+      column: message.column ?? null,
+      rule: message.ruleId,
+      message: message.message,
+      severity: message.severity === 2 ? 'error' as const : 'warning' as const,
+    })));
+  }
+
+  // Vitest and Jest share the Jest JSON report format
+  const testResults = (report as { testResults?: TestFileReport[] } | undefined)?.testResults;
+  if (!Array.isArray(testResults)) return undefined;
+
+  return testResults.flatMap((file): QualityIssue[] => {
+    const failed = (file.assertionResults || []).filter(test => test.status === 'failed');
+    // A file failing without a failed test did not load (syntax error, missing import...)
+    if (failed.length === 0) {
+      return file.status === 'failed'
+        ? [{ file: toRelativePath(file.name, root), line: null, column: null, rule: null, message: (file.message || 'Test file failed').trim(), severity: 'error' }]
+        : [];
+    }
+    return failed.map(test => ({
+      file: toRelativePath(file.name, root),
+      line: test.location?.line ?? null,
+      column: test.location?.column ?? null,
+      rule: test.fullName,
+      message: (test.failureMessages?.[0] || 'Test failed').split('\n')[0].trim(),
+      severity: 'error',
+    }));
+  });
+}
+
+/**
+ * e.g. "src/user.ts:3:7 no-unused-vars: 'id' is defined but never used"
+ */
+export function formatQualityIssue(issue: QualityIssue): string {
+  const location = [issue.file, issue.line, issue.column].filter(part => part !== null).join(':');
+  return `${location}${issue.rule ? ` ${issue.rule}` : ''}: ${issue.message}`;
+}
+
+/**
+ * Issues each step is responsible for: those in the files it wrote, plus the ones
+ * in files no step of the group wrote (e.g. a test of a changed module)
+ * @param stepFiles - Files written by each step
+ */
+export function attributeQualityIssues(issues: QualityIssue[], stepFiles: string[][]): QualityIssue[][] {
+  const normalized = stepFiles.map(files => new Set(files.map(file => path.normalize(file))));
+  const unattributed = issues.filter(issue => !normalized.some(files => files.has(issue.file)));
+
+  return normalized.map(files => [...issues.filter(issue => files.has(issue.file)), ...unattributed]);
+}
+
+/**
+ * Execution log section listing the issues of a gate, one JSON record per line
+ */
+export function formatQualityIssueLog(gate: string, issues: QualityIssue[]): string {
+  const lines = issues.slice(0, MAX_LOGGED_ISSUES).map(issue => JSON.stringify(issue));
+  if (issues.length > MAX_LOGGED_ISSUES) {
+    lines.push(`(${issues.length - MAX_LOGGED_ISSUES} more)`);
+  }
+  return `--- ${gate.toUpperCase()} ISSUES ---\n${lines.join('\n')}`;
+}
+
+/**
+ * Issues stored in an execution log by formatQualityIssueLog, by gate name
+ */
+export function parseQualityIssueLog(log: string): Record<string, QualityIssue[]> {
+  const issuesByGate: Record<string, QualityIssue[]> = {};
+
+  for (const section of log.split(/^--- /m).slice(1)) {
+    const [heading, ...lines] = section.split('\n');
+    const gate = heading.match(/^([A-Z0-9_-]+) ISSUES ---$/)?.[1];
+    if (!gate) continue;
+
+    issuesByGate[gate.toLowerCase()] = lines
+      .filter(line => line.startsWith('{'))
+      .flatMap(line => {
+        try {
+          return [JSON.parse(line) as QualityIssue];
+        } catch {
+          return [];
+        }
+      });
+  }
+
+  return issuesByGate;
+}
+
+/**
+ * Error type the RLHF system learns from, e.g. 'lint:no-unused-vars' or 'test'
+ */
+export function getQualityErrorType(gate: string, issue: QualityIssue): string {
+  // Test names are not error types, lint rules are
+  return issue.rule && /^[\w@/-]+$/.test(issue.rule) ? `${gate}:${issue.rule}` : gate;
+}
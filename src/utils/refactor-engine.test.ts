@@ -0,0 +1,167 @@
+/**
+ * Unit tests for refactor-engine utility
+ */
+
+import { describe, it, expect } from 'vitest';
+import { parseRefactorBlocks, applyRefactorBlocks, applyRefactorOperations } from './refactor-engine';
+
+const block = (search: string, replacement: string) =>
+  `<<<REPLACE>>>\n${search}\n<<</REPLACE>>>\n<<<WITH>>>\n${replacement}\n<<</WITH>>>`;
+
+describe('parseRefactorBlocks', () => {
+  it('should parse every REPLACE/WITH pair', () => {
+    const blocks = parseRefactorBlocks(`${block('a', 'b')}\n${block('c', 'd')}`, 'step-1');
+
+    expect(blocks).toHaveLength(2);
+    expect(blocks[1].search.trim()).toBe('c');
+    expect(blocks[1].replacement.trim()).toBe('d');
+  });
+
+  it('should reject templates without blocks', () => {
+    expect(() => parseRefactorBlocks('just text', 'step-1'))
+      .toThrow('Invalid refactor template for step step-1');
+  });
+
+  it('should reject incomplete pairs', () => {
+    expect(() => parseRefactorBlocks(`${block('a', 'b')}\n<<<REPLACE>>>\nc\n<<</REPLACE>>>`, 'step-1'))
+      .toThrow('Missing <<<REPLACE>>> or <<<WITH>>> blocks');
+  });
+});
+
+describe('applyRefactorBlocks', () => {
+  it('should apply an exact match', () => {
+    const blocks = parseRefactorBlocks(block('const a = 1;', 'const a = 2;'), 's');
+
+    expect(applyRefactorBlocks('const a = 1;\nconst b = 1;\n', blocks, 'file.ts')).toBe('const a = 2;\nconst b = 1;\n');
+  });
+
+  it('should apply several blocks in order', () => {
+    const blocks = parseRefactorBlocks(`${block('a = 1', 'a = 2')}\n${block('a = 2', 'a = 3')}`, 's');
+
+    expect(applyRefactorBlocks('let a = 1\n', blocks, 'file.ts')).toBe('let a = 3\n');
+  });
+
+  it('should match despite indentation and whitespace drift, keeping the file indentation', () => {
+    const content = [
+      'class A {',
+      '    run() {',
+      '        return   foo( 1,2 );',
+      '    }',
+      '}',
+    ].join('\n');
+    const blocks = parseRefactorBlocks(block('run() {\n  return foo(1, 2);\n}', 'run() {\n  return bar();\n}'), 's');
+
+    expect(applyRefactorBlocks(content, blocks, 'file.ts')).toBe([
+      'class A {',
+      '    run() {',
+      '      return bar();',
+      '    }',
+      '}',
+    ].join('\n'));
+  });
+
+  it('should ignore blank line differences', () => {
+    const blocks = parseRefactorBlocks(block('a();\nb();', 'c();'), 's');
+
+    expect(applyRefactorBlocks('a();\n\nb();\nd();\n', blocks, 'file.ts')).toBe('c();\nd();\n');
+  });
+
+  it('should preserve CRLF line endings on tolerant matches', () => {
+    const blocks = parseRefactorBlocks(block('  a();', 'b();\nc();'), 's');
+
+    expect(applyRefactorBlocks('x();\r\n    a( );\r\ny();', blocks, 'file.ts')).toBe('x();\r\n    b();\r\n    c();\r\ny();');
+  });
+
+  it('should report ambiguous exact matches with line numbers', () => {
+    const blocks = parseRefactorBlocks(block('return 1;', 'return 2;'), 's');
+
+    expect(() => applyRefactorBlocks('f() {\n  return 1;\n}\ng() {\n  return 1;\n}', blocks, 'file.ts'))
+      .toThrow('Ambiguous refactor block 1 in file.ts: the OLD code matches 2 locations (lines 2, 5)');
+  });
+
+  it('should report ambiguous tolerant matches', () => {
+    const blocks = parseRefactorBlocks(block('return  1;', 'return 2;'), 's');
+
+    expect(() => applyRefactorBlocks('return 1;\nreturn 1;\n', blocks, 'file.ts')).toThrow('lines 1, 2');
+  });
+
+  it('should fail when the code is not found', () => {
+    const blocks = parseRefactorBlocks(block('missing();', 'x();'), 's');
+
+    expect(() => applyRefactorBlocks('a();\n', blocks, 'file.ts'))
+      .toThrow('Could not find the OLD code block in file.ts');
+  });
+});
+
+describe('applyRefactorOperations', () => {
+  it('should add a method to a class using its indentation', async () => {
+    const content = 'export class UserService {\n    find() {\n        return 1;\n    }\n}\n';
+
+    const result = await applyRefactorOperations(content, [
+      { op: 'add_method', class: 'UserService', code: 'remove(id: string): void {\n  console.log(id);\n}' },
+    ], 'user-service.ts');
+
+    expect(result).toBe(
+      'export class UserService {\n    find() {\n        return 1;\n    }\n\n' +
+      '    remove(id: string): void {\n      console.log(id);\n    }\n}\n'
+    );
+  });
+
+  it('should add a method to an empty single-line class', async () => {
+    const result = await applyRefactorOperations('class A {}\n', [
+      { op: 'add_method', class: 'A', code: 'run() {}' },
+    ], 'a.ts');
+
+    expect(result).toBe('class A {\n  run() {}\n}\n');
+  });
+
+  it('should reject duplicate members and missing classes', async () => {
+    await expect(applyRefactorOperations('class A {\n  run() {}\n}\n', [
+      { op: 'add_method', class: 'A', code: 'run() {}' },
+    ], 'a.ts')).rejects.toThrow("already has a member named 'run'");
+
+    await expect(applyRefactorOperations('class A {}\n', [
+      { op: 'add_method', class: 'B', code: 'run() {}' },
+    ], 'a.ts')).rejects.toThrow("Class 'B' not found in a.ts");
+  });
+
+  it('should add a property to an interface', async () => {
+    const result = await applyRefactorOperations('export interface User {\n  id: string;\n}\n', [
+      { op: 'add_property', interface: 'User', code: 'email?: string' },
+    ], 'user.ts');
+
+    expect(result).toBe('export interface User {\n  id: string;\n\n  email?: string;\n}\n');
+  });
+
+  it('should add a new import after the existing imports', async () => {
+    const content = "import { a } from './a';\n\nexport const b = a;\n";
+
+    const result = await applyRefactorOperations(content, [
+      { op: 'add_import', module: '@/domain/models', named: ['UserModel'], type_only: true },
+    ], 'b.ts');
+
+    expect(result).toBe("import { a } from './a';\nimport type { UserModel } from '@/domain/models';\n\nexport const b = a;\n");
+  });
+
+  it('should merge named imports into an existing import', async () => {
+    const result = await applyRefactorOperations("import { a } from './a';\n", [
+      { op: 'add_import', module: './a', named: ['b', 'a'] },
+    ], 'x.ts');
+
+    expect(result).toBe("import { a, b } from './a';\n");
+  });
+
+  it('should add imports after directives in files without imports', async () => {
+    const result = await applyRefactorOperations("'use client';\n\nexport const x = 1;\n", [
+      { op: 'add_import', module: 'react', default: 'React' },
+    ], 'x.tsx');
+
+    expect(result).toBe("'use client';\nimport React from 'react';\n\nexport const x = 1;\n");
+  });
+
+  it('should reject invalid member code', async () => {
+    await expect(applyRefactorOperations('interface A {}\n', [
+      { op: 'add_property', interface: 'A', code: 'this is not valid' },
+    ], 'a.ts')).rejects.toThrow('Invalid property code');
+  });
+});
@@ -0,0 +1,431 @@
+/**
+ * Refactor Engine
+ * Applies refactor_file steps: <<<REPLACE>>>/<<<WITH>>> blocks and TypeScript-aware operations
+ *
+ * Blocks are matched exactly first, then line by line ignoring indentation and
+ * whitespace drift. A block matching more than one location is rejected instead
+ * of silently changing the first match.
+ */
+
+import type * as TypeScript from 'typescript';
+
+/**
+ * One <<<REPLACE>>>/<<<WITH>>> pair
+ */
+export interface RefactorBlock {
+  /** Code to find */
+  search: string;
+  /** Code to put in its place */
+  replacement: string;
+}
+
+/**
+ * TypeScript-aware refactor operation declared in a step's `operations` list
+ */
+export type RefactorOperation =
+  | {
+      op: 'add_import';
+      /** Module specifier, e.g. '@/domain/models' */
+      module: string;
+      /** Named imports to add */
+      named?: string[];
+      /** Default import name */
+      default?: string;
+      /** Emit `import type` */
+      type_only?: boolean;
+    }
+  | {
+      op: 'add_method';
+      /** Class receiving the method */
+      class: string;
+      /** Method source, e.g. `async load(): Promise<void> { ... }` */
+      code: string;
+    }
+  | {
+      op: 'add_property';
+      /** Interface receiving the property */
+      interface: string;
+      /** Property source, e.g. `email: string` */
+      code: string;
+    };
+
+const BLOCK_PATTERN = /<<<REPLACE>>>(.*?)<<<\/REPLACE>>>\s*<<<WITH>>>(.*?)<<<\/WITH>>>/gs;
+
+/**
+ * Parse every <<<REPLACE>>>/<<<WITH>>> pair of a refactor template
+ * @param template - Step template
+ * @param stepId - Step id used in error messages
+ * @returns Blocks in template order
+ * @throws {Error} If there are no pairs or a pair is incomplete
+ */
+export function parseRefactorBlocks(template: string, stepId: string): RefactorBlock[] {
+  const blocks = [...template.matchAll(BLOCK_PATTERN)].map(match => ({
+    search: match[1],
+    replacement: match[2],
+  }));
+
+  const replaceTags = template.match(/<<<REPLACE>>>/g)?.length ?? 0;
+  const withTags = template.match(/<<<WITH>>>/g)?.length ?? 0;
+
+  if (blocks.length === 0 || replaceTags !== blocks.length || withTags !== blocks.length) {
+    throw new Error(`Invalid refactor template for step ${stepId}. Missing <<<REPLACE>>> or <<<WITH>>> blocks.`);
+  }
+
+  return blocks;
+}
+
+/**
+ * Leading spaces/tabs of a line
+ */
+function indentationOf(line: string): string {
+  return line.match(/^[ \t]*/)?.[0] ?? '';
+}
+
+/**
+ * Remove blank lines at the start and end of a block
+ */
+function trimBlankLines(lines: string[]): string[] {
+  let start = 0;
+  let end = lines.length;
+  while (start < end && lines[start].trim() === '') start++;
+  while (end > start && lines[end - 1].trim() === '') end--;
+  return lines.slice(start, end);
+}
+
+/**
+ * Re-indent a code block so its least indented line starts at `indent`
+ */
+function reindent(code: string, indent: string): string[] {
+  const lines = trimBlankLines(code.replace(/\r\n/g, '\n').split('\n'));
+  const indents = lines.filter(line => line.trim()).map(line => indentationOf(line).length);
+  const common = indents.length > 0 ? Math.min(...indents) : 0;
+  return lines.map(line => (line.trim() ? indent + line.slice(common) : ''));
+}
+
+/**
+ * Normalize a line for tolerant comparison: collapse whitespace runs and drop
+ * whitespace around punctuation (`foo( a,b )` matches `foo(a, b)`)
+ */
+function normalizeLine(line: string): string {
+  return line
+    .trim()
+    .replace(/\s+/g, ' ')
+    .replace(/\s*([(){}[\],;:=<>+\-*/.!?&|])\s*/g, '$1');
+}
+
+/**
+ * 1-based line number of a character offset
+ */
+function lineNumberAt(content: string, offset: number): number {
+  return content.slice(0, offset).split('\n').length;
+}
+
+/**
+ * Error for a block matching several locations
+ */
+function ambiguityError(index: number, filePath: string, lines: number[]): Error {
+  return new Error(
+    `Ambiguous refactor block ${index + 1} in ${filePath}: the OLD code matches ${lines.length} locations ` +
+    `(lines ${lines.join(', ')}). Include more surrounding code so it matches exactly once.`
+  );
+}
+
+/**
+ * Apply one block, exactly first and then tolerant of whitespace and indentation
+ */
+function applyBlock(content: string, block: RefactorBlock, index: number, filePath: string): string {
+  const search = block.search.trim();
+  const replacement = block.replacement.trim();
+
+  if (search.length === 0) {
+    throw new Error(`Refactor block ${index + 1} for ${filePath} has an empty <<<REPLACE>>> section.`);
+  }
+
+  // Exact match
+  const exactOffsets: number[] = [];
+  for (let offset = content.indexOf(search); offset !== -1; offset = content.indexOf(search, offset + search.length)) {
+    exactOffsets.push(offset);
+  }
+
+  if (exactOffsets.length > 1) {
+    throw ambiguityError(index, filePath, exactOffsets.map(offset => lineNumberAt(content, offset)));
+  }
+  if (exactOffsets.length === 1) {
+    const [offset] = exactOffsets;
+    return content.slice(0, offset) + replacement + content.slice(offset + search.length);
+  }
+
+  // Tolerant match over non-blank lines
+  const eol = content.includes('\r\n') ? '\r\n' : '\n';
+  const fileLines = content.split('\n').map(line => line.replace(/\r$/, ''));
+  const searchLines = search.split('\n').map(normalizeLine).filter(line => line.length > 0);
+
+  const nonBlank = fileLines
+    .map((line, lineIndex) => ({ lineIndex, normalized: normalizeLine(line) }))
+    .filter(line => line.normalized.length > 0);
+
+  const matches: Array<{ start: number; end: number }> = [];
+  for (let i = 0; i + searchLines.length <= nonBlank.length; i++) {
+    if (searchLines.every((line, j) => nonBlank[i + j].normalized === line)) {
+      matches.push({ start: nonBlank[i].lineIndex, end: nonBlank[i + searchLines.length - 1].lineIndex });
+    }
+  }
+
+  if (matches.length === 0) {
+    throw new Error(`Could not find the OLD code block in ${filePath}. Refactoring failed.`);
+  }
+  if (matches.length > 1) {
+    throw ambiguityError(index, filePath, matches.map(match => match.start + 1));
+  }
+
+  const [match] = matches;
+  const newLines = reindent(block.replacement, indentationOf(fileLines[match.start]));
+  const result = [...fileLines.slice(0, match.start), ...newLines, ...fileLines.slice(match.end + 1)];
+
+  return result.join(eol);
+}
+
+/**
+ * Apply <<<REPLACE>>>/<<<WITH>>> blocks in order
+ * @param content - Current file content
+ * @param blocks - Blocks from parseRefactorBlocks
+ * @param filePath - Path used in error messages
+ * @returns Refactored content
+ * @throws {Error} If a block does not match, or matches more than one location
+ */
+export function applyRefactorBlocks(content: string, blocks: RefactorBlock[], filePath: string): string {
+  return blocks.reduce((current, block, index) => applyBlock(current, block, index, filePath), content);
+}
+
+/**
+ * Load the TypeScript compiler only when an operation needs it
+ */
+async function loadTypeScript(): Promise<typeof TypeScript> {
+  try {
+    const module = await import('typescript');
+    return (module.default ?? module) as typeof TypeScript;
+  } catch {
+    throw new Error('TypeScript refactor operations require the "typescript" package to be installed in the project.');
+  }
+}
+
+/**
+ * Syntax errors reported by the compiler for a piece of source
+ */
+function syntaxErrors(ts: typeof TypeScript, source: string, filePath: string): string[] {
+  const { diagnostics = [] } = ts.transpileModule(source, { fileName: filePath, reportDiagnostics: true });
+  return diagnostics.map(diagnostic => ts.flattenDiagnosticMessageText(diagnostic.messageText, '\n'));
+}
+
+/**
+ * Parse a source file, picking TSX/JSX parsing from the extension
+ */
+function parseSource(ts: typeof TypeScript, content: string, filePath: string): TypeScript.SourceFile {
+  const scriptKind = /\.tsx$/.test(filePath)
+    ? ts.ScriptKind.TSX
+    : /\.jsx?$/.test(filePath)
+      ? ts.ScriptKind.JSX
+      : ts.ScriptKind.TS;
+  return ts.createSourceFile(filePath, content, ts.ScriptTarget.Latest, true, scriptKind);
+}
+
+/**
+ * Name of the single member declared by a code snippet
+ */
+function memberName(ts: typeof TypeScript, code: string, container: 'class' | 'interface'): string {
+  const probe = `${container} __RefactorProbe {\n${code}\n}`;
+  const errors = syntaxErrors(ts, probe, 'probe.ts');
+  const sourceFile = ts.createSourceFile('probe.ts', probe, ts.ScriptTarget.Latest, true);
+  const declaration = sourceFile.statements[0];
+  const members = declaration && (ts.isClassDeclaration(declaration) || ts.isInterfaceDeclaration(declaration))
+    ? declaration.members
+    : undefined;
+
+  if (errors.length > 0 || !members || members.length !== 1 || !members[0].name) {
+    throw new Error(`Invalid ${container === 'class' ? 'method' : 'property'} code: expected a single member declaration.`);
+  }
+
+  return members[0].name.getText(sourceFile);
+}
+
+/**
+ * Insert a member before the closing brace of a class or interface
+ */
+function insertMember(
+  content: string,
+  sourceFile: TypeScript.SourceFile,
+  node: TypeScript.ClassDeclaration | TypeScript.InterfaceDeclaration,
+  code: string
+): string {
+  const closeBrace = node.getEnd() - 1;
+  const declarationLineStart = content.lastIndexOf('\n', node.getStart(sourceFile)) + 1;
+  const declarationIndent = indentationOf(content.slice(declarationLineStart));
+
+  const firstMember = node.members[0];
+  const memberIndent = firstMember
+    ? indentationOf(content.slice(content.lastIndexOf('\n', firstMember.getStart(sourceFile)) + 1))
+    : `${declarationIndent}  `;
+
+  const memberLines = reindent(code, memberIndent);
+  const closeLineStart = content.lastIndexOf('\n', closeBrace) + 1;
+  const closeOnOwnLine = content.slice(closeLineStart, closeBrace).trim() === '';
+
+  if (closeOnOwnLine) {
+    const separator = node.members.length > 0 ? '\n' : '';
+    return content.slice(0, closeLineStart) + separator + memberLines.join('\n') + '\n' + content.slice(closeLineStart);
+  }
+
+  // Declaration closed on the same line, e.g. `class Foo {}`
+  const before = content.slice(0, closeBrace).replace(/[ \t]+$/, '');
+  return `${before}\n${memberLines.join('\n')}\n${declarationIndent}${content.slice(closeBrace)}`;
+}
+
+/**
+ * Find a top-level declaration by name
+ */
+function findDeclaration<T extends TypeScript.Node>(
+  sourceFile: TypeScript.SourceFile,
+  guard: (node: TypeScript.Node) => node is T,
+  name: string
+): T | undefined {
+  return sourceFile.statements.find(
+    (statement): statement is TypeScript.Statement & T =>
+      guard(statement) && (statement as unknown as { name?: TypeScript.Identifier }).name?.text === name
+  );
+}
+
+/**
+ * Add (or merge into) an import declaration
+ */
+function addImport(
+  ts: typeof TypeScript,
+  content: string,
+  sourceFile: TypeScript.SourceFile,
+  operation: Extract<RefactorOperation, { op: 'add_import' }>
+): string {
+  const named = operation.named || [];
+  if (!operation.default && named.length === 0) {
+    throw new Error(`add_import for '${operation.module}' needs 'named' or 'default'.`);
+  }
+
+  const imports = sourceFile.statements.filter(ts.isImportDeclaration);
+  const quote = imports[0]?.moduleSpecifier.getText(sourceFile).startsWith('"') ? '"' : "'";
+  const semicolon = imports.length === 0 || imports[0].getText(sourceFile).trim().endsWith(';') ? ';' : '';
+  const typeOnly = Boolean(operation.type_only);
+
+  const build = (defaultName: string | undefined, names: string[], specifier: string): string => {
+    const parts = [defaultName, names.length > 0 ? `{ ${names.join(', ')} }` : undefined].filter(Boolean);
+    return `import ${typeOnly ? 'type ' : ''}${parts.join(', ')} from ${specifier}${semicolon}`;
+  };
+
+  const existing = imports.find(declaration => {
+    const clause = declaration.importClause;
+    return (declaration.moduleSpecifier as TypeScript.StringLiteral).text === operation.module &&
+      clause !== undefined &&
+      Boolean(clause.isTypeOnly) === typeOnly &&
+      (!clause.namedBindings || ts.isNamedImports(clause.namedBindings));
+  });
+
+  if (existing?.importClause) {
+    const clause = existing.importClause;
+    const currentDefault = clause.name?.text;
+    if (operation.default && currentDefault && currentDefault !== operation.default) {
+      throw new Error(`'${operation.module}' is already imported with default name '${currentDefault}'.`);
+    }
+
+    const currentNamed = clause.namedBindings && ts.isNamedImports(clause.namedBindings)
+      ? clause.namedBindings.elements.map(element => element.getText(sourceFile))
+      : [];
+    const currentNames = new Set(currentNamed.map(text => text.replace(/^type\s+/, '').split(/\s+as\s+/).pop()));
+    const missing = named.filter(name => !currentNames.has(name.split(/\s+as\s+/).pop()));
+
+    if (missing.length === 0 && (!operation.default || currentDefault)) {
+      return content;
+    }
+
+    const statement = build(currentDefault || operation.default, [...currentNamed, ...missing], existing.moduleSpecifier.getText(sourceFile));
+    return content.slice(0, existing.getStart(sourceFile)) + statement + content.slice(existing.getEnd());
+  }
+
+  const statement = build(operation.default, named, `${quote}${operation.module}${quote}`);
+
+  // After the last import, or after directives such as 'use client'
+  const anchor = imports[imports.length - 1] ??
+    [...sourceFile.statements]
+      .filter(node => ts.isExpressionStatement(node) && ts.isStringLiteral(node.expression))
+      .pop();
+
+  if (anchor) {
+    const end = anchor.getEnd();
+    return `${content.slice(0, end)}\n${statement}${content.slice(end)}`;
+  }
+
+  return `${statement}\n${content.length > 0 && !content.startsWith('\n') ? '\n' : ''}${content}`;
+}
+
+/**
+ * Apply TypeScript-aware operations in order
+ * @param content - Current file content
+ * @param operations - Operations declared on the step
+ * @param filePath - Path of the file (selects TS/TSX parsing, used in error messages)
+ * @returns Refactored content
+ * @throws {Error} If a target is missing, a member already exists or the result does not parse
+ *
+ * @example
+ * await applyRefactorOperations(source, [
+ *   { op: 'add_import', module: '@/domain/models', named: ['UserModel'], type_only: true },
+ *   { op: 'add_property', interface: 'User', code: 'email: string' },
+ * ], 'src/domain/models/user.ts')
+ */
+export async function applyRefactorOperations(
+  content: string,
+  operations: RefactorOperation[],
+  filePath: string
+): Promise<string> {
+  const ts = await loadTypeScript();
+  const initialErrors = syntaxErrors(ts, content, filePath).length;
+
+  let current = content;
+  for (const operation of operations) {
+    const sourceFile = parseSource(ts, current, filePath);
+
+    switch (operation.op) {
+      case 'add_import':
+        current = addImport(ts, current, sourceFile, operation);
+        break;
+
+      case 'add_method': {
+        const node = findDeclaration(sourceFile, ts.isClassDeclaration, operation.class);
+        if (!node) throw new Error(`Class '${operation.class}' not found in ${filePath}.`);
+        const name = memberName(ts, operation.code, 'class');
+        if (node.members.some(member => member.name?.getText(sourceFile) === name)) {
+          throw new Error(`Class '${operation.class}' in ${filePath} already has a member named '${name}'.`);
+        }
+        current = insertMember(current, sourceFile, node, operation.code);
+        break;
+      }
+
+      case 'add_property': {
+        const node = findDeclaration(sourceFile, ts.isInterfaceDeclaration, operation.interface);
+        if (!node) throw new Error(`Interface '${operation.interface}' not found in ${filePath}.`);
+        const code = /[;,]\s*$/.test(operation.code.trim()) ? operation.code : `${operation.code.trimEnd()};`;
+        const name = memberName(ts, code, 'interface');
+        if (node.members.some(member => member.name?.getText(sourceFile) === name)) {
+          throw new Error(`Interface '${operation.interface}' in ${filePath} already has a property named '${name}'.`);
+        }
+        current = insertMember(current, sourceFile, node, code);
+        break;
+      }
+
+      default:
+        throw new Error(`Unknown refactor operation '${(operation as { op: string }).op}'.`);
+    }
+  }
+
+  const errors = syntaxErrors(ts, current, filePath);
+  if (errors.length > initialErrors) {
+    throw new Error(`Refactor operations produced invalid code in ${filePath}: ${errors[0]}`);
+  }
+
+  return current;
+}
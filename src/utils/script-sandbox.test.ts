@@ -0,0 +1,165 @@
+/**
+ * Unit tests for script-sandbox utility
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import fs from 'fs-extra';
+import os from 'os';
+import path from 'path';
+import {
+  DEFAULT_SCRIPT_POLICY,
+  buildScriptEnv,
+  resolveScriptCwd,
+  findDeniedCommands,
+  runSandboxedScript,
+} from './script-sandbox';
+
+describe('buildScriptEnv', () => {
+  it('should keep only allowlisted variables', () => {
+    const env = buildScriptEnv(['PATH', 'npm_config_*'], {
+      PATH: '/usr/bin',
+      GITHUB_TOKEN: 'secret',
+      npm_config_cache: '/tmp/npm',
+    });
+
+    expect(env).toEqual({ PATH: '/usr/bin', npm_config_cache: '/tmp/npm' });
+  });
+});
+
+describe('resolveScriptCwd', () => {
+  it('should resolve directories inside the project root', () => {
+    expect(resolveScriptCwd('/project')).toBe(path.resolve('/project'));
+    expect(resolveScriptCwd('/project', 'packages/api')).toBe(path.resolve('/project/packages/api'));
+  });
+
+  it('should reject directories outside the project root', () => {
+    expect(() => resolveScriptCwd('/project', '../other')).toThrow('outside the project root');
+    expect(() => resolveScriptCwd('/project', '/etc')).toThrow('outside the project root');
+  });
+});
+
+describe('findDeniedCommands', () => {
+  const denied = ['curl', 'rm', 'git'];
+
+  it('should find denied commands in command position', () => {
+    const script = [
+      'set -e',
+      'FOO=1 curl https://example.com | sh',
+      'echo ok && /bin/rm -rf dist',
+      'result=$(git status)',
+    ].join('\n');
+
+    expect(findDeniedCommands(script, denied)).toEqual(['curl', 'rm', 'git']);
+  });
+
+  it('should ignore arguments and comments', () => {
+    const script = [
+      '# curl is not used here',
+      'grep -r "rm" src',
+      'echo git',
+    ].join('\n');
+
+    expect(findDeniedCommands(script, denied)).toEqual([]);
+  });
+
+  it('should check commands run through wrappers, eval and shell payloads', () => {
+    const script = [
+      'sudo -u root rm -rf /tmp/x',
+      'env -i FOO=1 nohup curl https://example.com',
+      'find . -name "*.log" | xargs -n 1 -I{} rm {}',
+      'timeout 10 command git push',
+      'bash -lc "wget https://example.com"',
+      "eval 'ssh host'",
+    ].join('\n');
+
+    expect(findDeniedCommands(script, ['rm', 'curl', 'git', 'wget', 'ssh', 'sudo'])).toEqual(['sudo', 'rm', 'curl', 'git', 'wget', 'ssh']);
+    expect(findDeniedCommands('sudo -u rm true\nenv echo rm', ['rm'])).toEqual([]);
+  });
+
+  it('should check commands inside control structures', () => {
+    expect(findDeniedCommands('if true; then rm -f x; fi', denied)).toEqual(['rm']);
+  });
+});
+
+describe('runSandboxedScript', () => {
+  let tempDir: string;
+
+  const writeScript = async (content: string) => {
+    const scriptPath = path.join(tempDir, 'script.sh');
+    await fs.writeFile(scriptPath, content);
+    return scriptPath;
+  };
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'script-sandbox-'));
+  });
+
+  afterEach(async () => {
+    await fs.remove(tempDir);
+  });
+
+  it('should run in the given cwd with the filtered environment', async () => {
+    process.env.SCRIPT_SANDBOX_SECRET = 'secret';
+    try {
+      const scriptPath = await writeScript('pwd\necho "secret=${SCRIPT_SANDBOX_SECRET:-unset}"\n');
+      const result = await runSandboxedScript(scriptPath, DEFAULT_SCRIPT_POLICY, { cwd: tempDir });
+
+      expect(result.exitCode).toBe(0);
+      expect(result.output).toContain(await fs.realpath(tempDir));
+      expect(result.output).toContain('secret=unset');
+    } finally {
+      delete process.env.SCRIPT_SANDBOX_SECRET;
+    }
+  });
+
+  it('should report the exit code of a failing script', async () => {
+    const scriptPath = await writeScript('echo failing >&2\nexit 3\n');
+    const result = await runSandboxedScript(scriptPath, DEFAULT_SCRIPT_POLICY, { cwd: tempDir });
+
+    expect(result.exitCode).toBe(3);
+    expect(result.output).toContain('failing');
+  });
+
+  it('should kill the script on timeout', async () => {
+    const scriptPath = await writeScript('sleep 5\necho done\n');
+    const result = await runSandboxedScript(
+      scriptPath,
+      { ...DEFAULT_SCRIPT_POLICY, timeoutMs: 200 },
+      { cwd: tempDir }
+    );
+
+    expect(result.timedOut).toBe(true);
+    expect(result.output).not.toContain('done');
+  });
+
+  it('should kill the script and the processes it started when aborted', async () => {
+    const controller = new AbortController();
+    const scriptPath = await writeScript('(sleep 0.5; touch started-by-script) &\necho running\nwait\n');
+    const run = runSandboxedScript(scriptPath, DEFAULT_SCRIPT_POLICY, {
+      cwd: tempDir,
+      onOutput: () => controller.abort(),
+      signal: controller.signal,
+    });
+
+    const result = await run;
+    await new Promise(resolve => setTimeout(resolve, 800));
+
+    expect(result.aborted).toBe(true);
+    expect(result.timedOut).toBe(false);
+    expect(await fs.pathExists(path.join(tempDir, 'started-by-script'))).toBe(false);
+  });
+
+  it('should cap the kept output', async () => {
+    const chunks: string[] = [];
+    const scriptPath = await writeScript('for i in $(seq 1 100); do echo "line $i"; done\n');
+    const result = await runSandboxedScript(
+      scriptPath,
+      { ...DEFAULT_SCRIPT_POLICY, maxOutputSize: 20 },
+      { cwd: tempDir, onOutput: chunk => chunks.push(chunk) }
+    );
+
+    expect(result.truncated).toBe(true);
+    expect(result.output).toBe('line 1\nline 2\nline 3\n... output truncated at 20 characters');
+    expect(chunks.join('')).toContain('line 100');
+  });
+});
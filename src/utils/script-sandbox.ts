@@ -0,0 +1,283 @@
+/**
+ * Script Sandbox
+ * Execution policy for `validation_script` and `run_scripts` bodies:
+ * timeout, environment allowlist, cwd confined to the project root,
+ * output size cap and an optional command denylist
+ */
+
+import { spawn } from 'child_process';
+import * as path from 'path';
+import { OUTPUT_LIMITS, TIMING } from './constants';
+
+/**
+ * Execution policy applied to every validation script
+ */
+export interface ScriptPolicy {
+  /** Kill the script after this many milliseconds */
+  timeoutMs: number;
+  /** Environment variables passed to the script (`PREFIX_*` allows a prefix) */
+  envAllowlist: string[];
+  /** Maximum number of output characters kept in memory (the log file still gets everything) */
+  maxOutputSize: number;
+  /** Commands that may not be invoked by the script */
+  deniedCommands: string[];
+}
+
+/**
+ * Default policy used when execute.yml has no `validation_scripts` section
+ */
+export const DEFAULT_SCRIPT_POLICY: ScriptPolicy = {
+  timeoutMs: TIMING.VALIDATION_SCRIPT_TIMEOUT,
+  envAllowlist: [
+    'PATH', 'HOME', 'USER', 'SHELL', 'LANG', 'LC_ALL', 'TERM', 'TMPDIR',
+    'CI', 'NODE_ENV', 'NODE_OPTIONS', 'npm_config_*',
+  ],
+  maxOutputSize: OUTPUT_LIMITS.MAX_OUTPUT_BUFFER_SIZE,
+  deniedCommands: [],
+};
+
+/**
+ * Result of a sandboxed script run
+ */
+export interface ScriptRunResult {
+  /** Combined stdout/stderr, capped at `maxOutputSize` */
+  output: string;
+  exitCode: number | null;
+  timedOut: boolean;
+  /** Killed through `signal` */
+  aborted: boolean;
+  truncated: boolean;
+}
+
+/**
+ * Options for a sandboxed script run
+ */
+export interface ScriptRunOptions {
+  /** Working directory (already confined with `resolveScriptCwd`) */
+  cwd: string;
+  /** Called with every stdout/stderr chunk, before the output cap applies */
+  onOutput?: (chunk: string, stream: 'stdout' | 'stderr') => void;
+  /** Kills the script and the processes it started when aborted */
+  signal?: AbortSignal;
+}
+
+/**
+ * Build the script environment from the allowlist
+ * @param allowlist - Variable names, or prefixes ending in `*`
+ * @param source - Environment to pick from
+ */
+export function buildScriptEnv(allowlist: string[], source: NodeJS.ProcessEnv = process.env): NodeJS.ProcessEnv {
+  const env: NodeJS.ProcessEnv = {};
+
+  for (const [name, value] of Object.entries(source)) {
+    const allowed = allowlist.some(entry => (
+      entry.endsWith('*') ? name.startsWith(entry.slice(0, -1)) : name === entry
+    ));
+    if (allowed && value !== undefined) {
+      env[name] = value;
+    }
+  }
+
+  return env;
+}
+
+/**
+ * Resolve the script working directory, confined to the project root
+ * @param projectRoot - Absolute project root
+ * @param requested - Directory relative to the project root (defaults to the root)
+ * @throws {Error} If the directory resolves outside the project root
+ */
+export function resolveScriptCwd(projectRoot: string, requested?: string): string {
+  const root = path.resolve(projectRoot);
+  const cwd = path.resolve(root, requested || '.');
+  const relative = path.relative(root, cwd);
+
+  if (relative.startsWith('..') || path.isAbsolute(relative)) {
+    throw new Error(`Working directory '${requested}' is outside the project root.`);
+  }
+
+  return cwd;
+}
+
+/**
+ * Commands that run the command after them, with their options taking a value
+ */
+const COMMAND_WRAPPERS = new Map<string, string[]>([
+  ['sudo', ['-u', '-g', '-h', '-p', '-C', '-D', '-r', '-t', '-U']],
+  ['doas', ['-u', '-C']],
+  ['env', ['-u', '-C', '--unset', '--chdir']],
+  ['nohup', []],
+  ['command', []],
+  ['builtin', []],
+  ['exec', ['-a']],
+  ['eval', []],
+  ['time', ['-f', '-o']],
+  ['nice', ['-n']],
+  ['ionice', ['-c', '-n']],
+  ['timeout', ['-s', '-k', '--signal', '--kill-after']],
+  ['stdbuf', ['-i', '-o', '-e']],
+  ['xargs', ['-a', '-d', '-E', '-I', '-L', '-n', '-P', '-s']],
+]);
+
+/**
+ * Shells whose `-c` argument is a script of its own
+ */
+const SHELLS = new Set(['sh', 'bash', 'dash', 'zsh', 'ksh']);
+
+/**
+ * Commands run by one simple command: its command word, then the command each
+ * wrapper (`sudo`, `env`, `xargs`...) or `sh -c` / `eval` payload runs
+ */
+function getCommandNames(words: string[]): string[] {
+  const names: string[] = [];
+  // Options of the wrapper being skipped, null when looking for the command word
+  let wrapperOptions: string[] | null = null;
+
+  for (let index = 0; index < words.length; index++) {
+    const word = words[index].replace(/^['"]+|['"]+$/g, '');
+    if (/^[A-Za-z_][A-Za-z0-9_]*=/.test(word)) continue;
+    if (wrapperOptions && word.startsWith('-')) {
+      if (wrapperOptions.includes(word)) index++;
+      continue;
+    }
+    // Durations and counts of `timeout 10`, `nice 5`...
+    if (wrapperOptions && /^\d+(\.\d+)?[smhd]?$/.test(word)) continue;
+
+    const name = path.posix.basename(word);
+    names.push(name);
+
+    const options = COMMAND_WRAPPERS.get(name);
+    if (options) {
+      wrapperOptions = options;
+      continue;
+    }
+    // `bash -c "rm -rf dist"`: the word after -c is the command
+    const scriptFlag = SHELLS.has(name) ? words.slice(index + 1).findIndex(next => /^-[a-z]*c[a-z]*$/.test(next)) : -1;
+    if (scriptFlag === -1) break;
+    index += scriptFlag + 1;
+    wrapperOptions = null;
+  }
+
+  return names;
+}
+
+/**
+ * Find denied commands invoked by a script
+ *
+ * Checks the command word of every simple command (after `;`, `&&`, `||`, `|`,
+ * newlines, subshells and command substitutions), skipping leading `VAR=value`
+ * assignments and comparing by basename, so `/bin/rm` matches `rm`. Commands run
+ * through a wrapper (`sudo rm`, `env rm`, `xargs rm`...), `eval` or `sh -c` are
+ * checked as well.
+ *
+ * The check reads the script text: commands built at run time (`$cmd`, aliases,
+ * other scripts it runs) are not seen, so the denylist is a guard against mistakes,
+ * not a security boundary.
+ *
+ * @returns Denied commands found, in order of first use
+ */
+export function findDeniedCommands(script: string, deniedCommands: string[]): string[] {
+  if (deniedCommands.length === 0) {
+    return [];
+  }
+
+  const denied = new Set(deniedCommands);
+  const found = new Set<string>();
+  const segments = script
+    .split('\n')
+    .map(line => line.replace(/(^|\s)#.*$/, ''))
+    .join('\n')
+    .split(/\n|;|&&|\|\||\||&|\$\(|`|\(|\)|\{|\}|\b(?:then|do|else)\b/);
+
+  for (const segment of segments) {
+    for (const name of getCommandNames(segment.trim().split(/\s+/).filter(Boolean))) {
+      if (denied.has(name)) {
+        found.add(name);
+      }
+    }
+  }
+
+  return [...found];
+}
+
+/**
+ * Run a bash script file under the policy
+ *
+ * The script runs in its own process group so a timeout or an abort also
+ * stops the processes it started. Exceeding the output cap does not stop the script;
+ * the kept output ends with a truncation marker instead.
+ */
+export function runSandboxedScript(
+  scriptPath: string,
+  policy: ScriptPolicy,
+  options: ScriptRunOptions
+): Promise<ScriptRunResult> {
+  return new Promise((resolve, reject) => {
+    const child = spawn('bash', [scriptPath], {
+      cwd: options.cwd,
+      env: buildScriptEnv(policy.envAllowlist),
+      detached: true,
+      stdio: ['ignore', 'pipe', 'pipe'],
+    });
+
+    let output = '';
+    let truncated = false;
+    let timedOut = false;
+    let aborted = false;
+
+    const killGroup = () => {
+      try {
+        process.kill(-child.pid!, 'SIGKILL');
+      } catch {
+        // Process group already exited
+      }
+    };
+
+    const collect = (stream: 'stdout' | 'stderr') => (chunk: Buffer) => {
+      const data = chunk.toString();
+      options.onOutput?.(data, stream);
+
+      if (truncated) return;
+      const remaining = policy.maxOutputSize - output.length;
+      if (data.length > remaining) {
+        output += data.slice(0, remaining);
+        truncated = true;
+      } else {
+        output += data;
+      }
+    };
+
+    child.stdout.on('data', collect('stdout'));
+    child.stderr.on('data', collect('stderr'));
+
+    const timer = setTimeout(() => {
+      timedOut = true;
+      killGroup();
+    }, policy.timeoutMs);
+
+    const abort = () => {
+      aborted = true;
+      killGroup();
+    };
+    if (options.signal?.aborted) {
+      abort();
+    } else {
+      options.signal?.addEventListener('abort', abort, { once: true });
+    }
+
+    child.on('error', (error) => {
+      clearTimeout(timer);
+      options.signal?.removeEventListener('abort', abort);
+      reject(error);
+    });
+
+    child.on('close', (exitCode) => {
+      clearTimeout(timer);
+      options.signal?.removeEventListener('abort', abort);
+      if (truncated) {
+        output += `\n... output truncated at ${policy.maxOutputSize} characters`;
+      }
+      resolve({ output, exitCode, timedOut, aborted, truncated });
+    });
+  });
+}
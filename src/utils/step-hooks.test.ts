@@ -0,0 +1,33 @@
+/**
+ * Unit tests for step hooks
+ */
+
+import { describe, it, expect } from 'vitest';
+import { hasHooks, resolveStepHooks } from './step-hooks';
+
+describe('resolveStepHooks', () => {
+  it('should wrap step hooks in the plan hooks', () => {
+    const hooks = resolveStepHooks(
+      { before: 'codegen', after: ['lint:fix', 'format'] },
+      { before_each: 'prisma:generate', after_each: ['docs:build'] }
+    );
+
+    expect(hooks).toEqual({
+      before: ['prisma:generate', 'codegen'],
+      after: ['lint:fix', 'format', 'docs:build'],
+    });
+  });
+
+  it('should return no hooks when nothing is declared', () => {
+    const hooks = resolveStepHooks();
+
+    expect(hooks).toEqual({ before: [], after: [] });
+    expect(hasHooks(hooks)).toBe(false);
+  });
+
+  it('should reject hooks that are not script names', () => {
+    expect(() => resolveStepHooks({ before: [42] })).toThrow("'hooks.before' must be a script name or a list of script names");
+    expect(() => resolveStepHooks(undefined, { after_each: '' })).toThrow("'hooks.after_each'");
+    expect(() => resolveStepHooks(['lint:fix'])).toThrow("'hooks' must be a mapping");
+  });
+});
@@ -0,0 +1,82 @@
+/**
+ * Step Hooks
+ * Package scripts run around steps: `hooks.before` / `hooks.after` on a step and
+ * `hooks.before_each` / `hooks.after_each` for every step of the plan
+ */
+
+/**
+ * Hooks declared on a step
+ */
+export interface StepHooksConfig {
+  before?: string | string[];
+  after?: string | string[];
+}
+
+/**
+ * Hooks declared for the whole plan
+ */
+export interface PlanHooksConfig {
+  before_each?: string | string[];
+  after_each?: string | string[];
+}
+
+/**
+ * Scripts to run around one step, in order
+ */
+export interface StepHooks {
+  before: string[];
+  after: string[];
+}
+
+export type HookPhase = keyof StepHooks;
+
+function toScriptList(value: unknown, field: string): string[] {
+  if (value === undefined || value === null) {
+    return [];
+  }
+
+  const scripts = Array.isArray(value) ? value : [value];
+  for (const script of scripts) {
+    if (typeof script !== 'string' || script.trim() === '') {
+      throw new Error(`'${field}' must be a script name or a list of script names`);
+    }
+  }
+
+  return scripts.map(script => script.trim());
+}
+
+function checkMapping(value: unknown, field: string): Record<string, unknown> {
+  if (value === undefined || value === null) {
+    return {};
+  }
+  if (typeof value !== 'object' || Array.isArray(value)) {
+    throw new Error(`'${field}' must be a mapping`);
+  }
+  return value as Record<string, unknown>;
+}
+
+/**
+ * Combine plan and step hooks
+ * Plan `before_each` scripts run first and plan `after_each` scripts run last
+ * @throws {Error} If a hook is not a script name or a list of script names
+ *
+ * @example
+ * resolveStepHooks({ after: 'lint:fix' }, { before_each: ['prisma:generate'] })
+ * // { before: ['prisma:generate'], after: ['lint:fix'] }
+ */
+export function resolveStepHooks(stepHooks?: unknown, planHooks?: unknown): StepHooks {
+  const step = checkMapping(stepHooks, 'hooks');
+  const plan = checkMapping(planHooks, 'hooks');
+
+  return {
+    before: [...toScriptList(plan.before_each, 'hooks.before_each'), ...toScriptList(step.before, 'hooks.before')],
+    after: [...toScriptList(step.after, 'hooks.after'), ...toScriptList(plan.after_each, 'hooks.after_each')],
+  };
+}
+
+/**
+ * Whether any hook runs around the step
+ */
+export function hasHooks(hooks: StepHooks): boolean {
+  return hooks.before.length > 0 || hooks.after.length > 0;
+}
@@ -0,0 +1,119 @@
+/**
+ * Unit tests for step policies
+ */
+
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import {
+  DEFAULT_STEP_POLICY,
+  findDependents,
+  getRetryDelay,
+  resolveStepPolicy,
+  summarizeStepOutcomes,
+  validateStepPolicy,
+  withTimeout,
+} from './step-policy';
+
+describe('resolveStepPolicy', () => {
+  it('should default to a single attempt that aborts the run', () => {
+    expect(resolveStepPolicy()).toEqual({ ...DEFAULT_STEP_POLICY, timeoutMs: undefined });
+  });
+
+  it('should let the step override the plan defaults field by field', () => {
+    const policy = resolveStepPolicy(
+      { retries: 3, on_failure: 'skip_dependents' },
+      { timeout_ms: 60000, retries: 1, backoff_ms: 250 }
+    );
+
+    expect(policy).toEqual({
+      timeoutMs: 60000,
+      retries: 3,
+      backoffMs: 250,
+      backoffMultiplier: 2,
+      onFailure: 'skip_dependents',
+    });
+  });
+});
+
+describe('validateStepPolicy', () => {
+  it('should reject invalid values', () => {
+    expect(() => validateStepPolicy({ retries: -1 })).toThrow("'retries' must be an integer >= 0");
+    expect(() => validateStepPolicy({ timeout_ms: 0 })).toThrow("'timeout_ms' must be an integer >= 1");
+    expect(() => validateStepPolicy({ backoff_multiplier: 0.5 })).toThrow("'backoff_multiplier' must be a number >= 1");
+    expect(() => validateStepPolicy({ on_failure: 'ignore' })).toThrow("'on_failure' must be one of: abort, continue, skip_dependents");
+    expect(() => validateStepPolicy(['abort'])).toThrow('policy must be a mapping');
+  });
+});
+
+describe('getRetryDelay', () => {
+  it('should grow the delay exponentially', () => {
+    const policy = { ...DEFAULT_STEP_POLICY, backoffMs: 500 };
+
+    expect([1, 2, 3].map(attempt => getRetryDelay(policy, attempt))).toEqual([500, 1000, 2000]);
+    expect(getRetryDelay({ ...policy, backoffMultiplier: 1 }, 3)).toBe(500);
+  });
+});
+
+describe('withTimeout', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should resolve work that finishes in time', async () => {
+    await expect(withTimeout(Promise.resolve('done'), 1000, 'too slow')).resolves.toBe('done');
+    await expect(withTimeout(Promise.resolve('done'), undefined, 'too slow')).resolves.toBe('done');
+  });
+
+  it('should reject work that does not finish in time', async () => {
+    vi.useFakeTimers();
+    const pending = withTimeout(new Promise(() => {}), 5000, 'Step timed out');
+    vi.advanceTimersByTime(5000);
+
+    await expect(pending).rejects.toThrow('Step timed out');
+  });
+
+  it('should abort the controller of work that does not finish in time', async () => {
+    vi.useFakeTimers();
+    const controller = new AbortController();
+    const pending = withTimeout(new Promise(() => {}), 5000, 'Step timed out', controller);
+    vi.advanceTimersByTime(5000);
+
+    await expect(pending).rejects.toThrow('Step timed out');
+    expect(controller.signal.aborted).toBe(true);
+    expect(() => controller.signal.throwIfAborted()).toThrow('Step timed out');
+  });
+});
+
+describe('findDependents', () => {
+  it('should find direct and transitive dependents', () => {
+    const steps = [
+      { id: 'entity' },
+      { id: 'usecase', depends_on: ['entity'] },
+      { id: 'controller', depends_on: ['usecase'] },
+      { id: 'readme' },
+    ];
+
+    expect(findDependents(steps, 'entity').map(step => step.id)).toEqual(['usecase', 'controller']);
+    expect(findDependents(steps, 'readme')).toEqual([]);
+  });
+});
+
+describe('summarizeStepOutcomes', () => {
+  it('should tell clean passes from retried passes', () => {
+    const summary = summarizeStepOutcomes([
+      { id: 'entity', status: 'SUCCESS' },
+      { id: 'usecase', status: 'SUCCESS', attempts: 3 },
+      { id: 'controller', status: 'FAILED', attempts: 2 },
+      { id: 'factory', status: 'PENDING' },
+      { id: 'optional', status: 'SKIPPED' },
+    ]);
+
+    expect(summary).toEqual({
+      passed: 1,
+      passed_after_retries: 1,
+      failed: 1,
+      skipped: 1,
+      pending: 1,
+      retried_steps: ['usecase'],
+    });
+  });
+});
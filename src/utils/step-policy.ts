@@ -0,0 +1,201 @@
+/**
+ * Step Policy
+ * Timeout, retry and failure handling declared per step (`policy`) or for the
+ * whole plan (`step_defaults.policy`)
+ */
+
+/**
+ * What happens to the run when a step fails after its last attempt
+ * - abort: stop the run (default)
+ * - continue: record the failure and keep running every other step
+ * - skip_dependents: record the failure and do not run the steps depending on it
+ */
+export type FailureAction = 'abort' | 'continue' | 'skip_dependents';
+
+const FAILURE_ACTIONS: FailureAction[] = ['abort', 'continue', 'skip_dependents'];
+
+/**
+ * Policy as written in the plan YAML
+ */
+export interface StepPolicyConfig {
+  timeout_ms?: number;
+  retries?: number;
+  backoff_ms?: number;
+  backoff_multiplier?: number;
+  on_failure?: FailureAction;
+}
+
+/**
+ * Effective policy of a step
+ */
+export interface StepPolicy {
+  /** Maximum run time of one attempt (undefined: no limit beyond the script policy) */
+  timeoutMs?: number;
+  /** Additional attempts after the first failure */
+  retries: number;
+  /** Delay before the first retry */
+  backoffMs: number;
+  /** Factor applied to the delay after every retry */
+  backoffMultiplier: number;
+  onFailure: FailureAction;
+}
+
+/**
+ * Policy of steps that declare nothing: one attempt, abort on failure
+ */
+export const DEFAULT_STEP_POLICY: StepPolicy = {
+  retries: 0,
+  backoffMs: 1000,
+  backoffMultiplier: 2,
+  onFailure: 'abort',
+};
+
+function checkNumber(value: unknown, field: string, min: number, integer: boolean): void {
+  if (value === undefined) return;
+  if (typeof value !== 'number' || !Number.isFinite(value) || value < min || (integer && !Number.isInteger(value))) {
+    throw new Error(`'${field}' must be ${integer ? 'an integer' : 'a number'} >= ${min} (got ${JSON.stringify(value)})`);
+  }
+}
+
+/**
+ * Validate a policy block from the plan
+ * @throws {Error} If a field has an invalid value
+ */
+export function validateStepPolicy(config: unknown): StepPolicyConfig {
+  if (config === undefined || config === null) {
+    return {};
+  }
+  if (typeof config !== 'object' || Array.isArray(config)) {
+    throw new Error('policy must be a mapping');
+  }
+
+  const policy = config as StepPolicyConfig;
+  checkNumber(policy.timeout_ms, 'timeout_ms', 1, true);
+  checkNumber(policy.retries, 'retries', 0, true);
+  checkNumber(policy.backoff_ms, 'backoff_ms', 0, true);
+  checkNumber(policy.backoff_multiplier, 'backoff_multiplier', 1, false);
+
+  if (policy.on_failure !== undefined && !FAILURE_ACTIONS.includes(policy.on_failure)) {
+    throw new Error(`'on_failure' must be one of: ${FAILURE_ACTIONS.join(', ')} (got ${JSON.stringify(policy.on_failure)})`);
+  }
+
+  return policy;
+}
+
+/**
+ * Merge a step policy over the plan defaults
+ * @param stepConfig - The step's `policy` block
+ * @param defaults - The plan's `step_defaults.policy` block
+ * @throws {Error} If either block is invalid
+ */
+export function resolveStepPolicy(stepConfig?: unknown, defaults?: unknown): StepPolicy {
+  const merged = { ...validateStepPolicy(defaults), ...validateStepPolicy(stepConfig) };
+
+  return {
+    timeoutMs: merged.timeout_ms,
+    retries: merged.retries ?? DEFAULT_STEP_POLICY.retries,
+    backoffMs: merged.backoff_ms ?? DEFAULT_STEP_POLICY.backoffMs,
+    backoffMultiplier: merged.backoff_multiplier ?? DEFAULT_STEP_POLICY.backoffMultiplier,
+    onFailure: merged.on_failure ?? DEFAULT_STEP_POLICY.onFailure,
+  };
+}
+
+/**
+ * Delay before retrying after the given failed attempt (1-based)
+ * @example getRetryDelay({ ...policy, backoffMs: 500, backoffMultiplier: 2 }, 3) // 2000
+ */
+export function getRetryDelay(policy: StepPolicy, attempt: number): number {
+  return Math.round(policy.backoffMs * Math.pow(policy.backoffMultiplier, attempt - 1));
+}
+
+/**
+ * Reject when a promise does not settle in time
+ * The work itself is only cancelled through `controller`, aborted with the timeout error
+ * @param timeoutMs - Limit in milliseconds (undefined: no limit)
+ * @param controller - Signals the work to stop its child processes and drop its results
+ */
+export async function withTimeout<T>(
+  promise: Promise<T>,
+  timeoutMs: number | undefined,
+  message: string,
+  controller?: AbortController
+): Promise<T> {
+  if (timeoutMs === undefined) {
+    return promise;
+  }
+
+  let timer: NodeJS.Timeout | undefined;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => {
+      const error = new Error(message);
+      controller?.abort(error);
+      reject(error);
+    }, timeoutMs);
+  });
+
+  try {
+    return await Promise.race([promise, timeout]);
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+/**
+ * Steps that depend on a step, directly or through other steps
+ */
+export function findDependents<T extends { id: string; depends_on?: string[] }>(steps: T[], stepId: string): T[] {
+  const blocked = new Set([stepId]);
+  let changed = true;
+
+  while (changed) {
+    changed = false;
+    for (const step of steps) {
+      if (!blocked.has(step.id) && (step.depends_on || []).some(id => blocked.has(id))) {
+        blocked.add(step.id);
+        changed = true;
+      }
+    }
+  }
+
+  return steps.filter(step => step.id !== stepId && blocked.has(step.id));
+}
+
+/**
+ * Step outcomes recorded in `plan.evaluation.step_summary`
+ */
+export interface StepOutcomeSummary {
+  /** Passed on the first attempt */
+  passed: number;
+  /** Passed after one or more retries */
+  passed_after_retries: number;
+  failed: number;
+  skipped: number;
+  pending: number;
+  retried_steps: string[];
+}
+
+/**
+ * Count step outcomes, telling clean passes from steps that needed retries
+ */
+export function summarizeStepOutcomes(
+  steps: Array<{ id: string; status: string; attempts?: number }>
+): StepOutcomeSummary {
+  const summary: StepOutcomeSummary = { passed: 0, passed_after_retries: 0, failed: 0, skipped: 0, pending: 0, retried_steps: [] };
+
+  for (const step of steps) {
+    if (step.status === 'SUCCESS' && (step.attempts ?? 1) > 1) {
+      summary.passed_after_retries++;
+      summary.retried_steps.push(step.id);
+    } else if (step.status === 'SUCCESS') {
+      summary.passed++;
+    } else if (step.status === 'FAILED') {
+      summary.failed++;
+    } else if (step.status === 'SKIPPED') {
+      summary.skipped++;
+    } else {
+      summary.pending++;
+    }
+  }
+
+  return summary;
+}
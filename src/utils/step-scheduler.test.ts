@@ -0,0 +1,146 @@
+/**
+ * Unit tests for step-scheduler utility
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  hasDependencies,
+  buildDependencyGraph,
+  buildExecutionWaves,
+  KeyedLock,
+  type SchedulableStep,
+} from './step-scheduler';
+
+const ids = (waves: SchedulableStep[][]): string[][] => waves.map(wave => wave.map(step => step.id));
+
+describe('hasDependencies', () => {
+  it('should be false when no step declares depends_on', () => {
+    expect(hasDependencies([{ id: 'a' }, { id: 'b', depends_on: [] }])).toBe(false);
+  });
+
+  it('should be true when a step declares depends_on', () => {
+    expect(hasDependencies([{ id: 'a' }, { id: 'b', depends_on: ['a'] }])).toBe(true);
+  });
+});
+
+describe('buildDependencyGraph', () => {
+  it('should map steps to their dependencies', () => {
+    const graph = buildDependencyGraph([{ id: 'a' }, { id: 'b', depends_on: ['a', 'a'] }]);
+
+    expect(graph.get('a')).toEqual([]);
+    expect(graph.get('b')).toEqual(['a']);
+  });
+
+  it('should reject unknown dependencies', () => {
+    expect(() => buildDependencyGraph([{ id: 'a', depends_on: ['missing'] }]))
+      .toThrow("Step 'a' depends on unknown step 'missing'");
+  });
+
+  it('should reject duplicate ids', () => {
+    expect(() => buildDependencyGraph([{ id: 'a' }, { id: 'a' }])).toThrow("Duplicate step id 'a'");
+  });
+
+  it('should reject steps without id', () => {
+    expect(() => buildDependencyGraph([{ id: '' }])).toThrow('Step 1 has no id');
+  });
+
+  it('should report the cycle path', () => {
+    expect(() => buildDependencyGraph([
+      { id: 'a', depends_on: ['c'] },
+      { id: 'b', depends_on: ['a'] },
+      { id: 'c', depends_on: ['b'] },
+    ])).toThrow('Dependency cycle detected: a -> c -> b -> a');
+  });
+
+  it('should reject self dependencies', () => {
+    expect(() => buildDependencyGraph([{ id: 'a', depends_on: ['a'] }]))
+      .toThrow('Dependency cycle detected: a -> a');
+  });
+});
+
+describe('buildExecutionWaves', () => {
+  it('should keep sequential order when no dependencies are declared', () => {
+    expect(ids(buildExecutionWaves([{ id: 'a' }, { id: 'b' }, { id: 'c' }]))).toEqual([['a'], ['b'], ['c']]);
+  });
+
+  it('should group independent steps and keep plan order inside a wave', () => {
+    const waves = buildExecutionWaves([
+      { id: 'errors', depends_on: ['model'] },
+      { id: 'model' },
+      { id: 'usecase', depends_on: ['model'] },
+      { id: 'index', depends_on: ['usecase', 'errors'] },
+    ]);
+
+    expect(ids(waves)).toEqual([['model'], ['errors', 'usecase'], ['index']]);
+  });
+
+  it('should run exclusive steps in a wave of their own', () => {
+    const waves = buildExecutionWaves(
+      [{ id: 'a' }, { id: 'folder' }, { id: 'b' }, { id: 'c', depends_on: ['a'] }],
+      { isExclusive: step => step.id === 'folder' }
+    );
+
+    expect(ids(waves)).toEqual([['a'], ['folder'], ['b'], ['c']]);
+  });
+
+  it('should split waves larger than the concurrency limit', () => {
+    const waves = buildExecutionWaves(
+      [{ id: 'root' }, ...['a', 'b', 'c'].map(id => ({ id, depends_on: ['root'] }))],
+      { maxConcurrency: 2 }
+    );
+
+    expect(ids(waves)).toEqual([['root'], ['a', 'b'], ['c']]);
+  });
+});
+
+describe('KeyedLock', () => {
+  const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+  it('should serialize work on the same key', async () => {
+    const lock = new KeyedLock();
+    const events: string[] = [];
+
+    await Promise.all([
+      lock.run(['file.ts'], async () => {
+        events.push('first:start');
+        await delay(10);
+        events.push('first:end');
+      }),
+      lock.run(['file.ts'], async () => {
+        events.push('second:start');
+        events.push('second:end');
+      }),
+    ]);
+
+    expect(events).toEqual(['first:start', 'first:end', 'second:start', 'second:end']);
+  });
+
+  it('should run work on different keys concurrently', async () => {
+    const lock = new KeyedLock();
+    const events: string[] = [];
+
+    await Promise.all([
+      lock.run(['a.ts'], async () => {
+        events.push('a:start');
+        await delay(10);
+        events.push('a:end');
+      }),
+      lock.run(['b.ts'], async () => {
+        events.push('b:start');
+        events.push('b:end');
+      }),
+    ]);
+
+    expect(events.indexOf('b:end')).toBeLessThan(events.indexOf('a:end'));
+  });
+
+  it('should release the lock when work fails', async () => {
+    const lock = new KeyedLock();
+
+    await expect(lock.run(['a.ts'], async () => {
+      throw new Error('boom');
+    })).rejects.toThrow('boom');
+
+    await expect(lock.run(['a.ts'], async () => 'ok')).resolves.toBe('ok');
+  });
+});
@@ -0,0 +1,209 @@
+/**
+ * Step Scheduler
+ * Orders plan steps by their `depends_on` declarations so independent steps can run together
+ */
+
+/**
+ * Minimal step shape needed for scheduling
+ */
+export interface SchedulableStep {
+  id: string;
+  depends_on?: string[];
+}
+
+/**
+ * Options for grouping steps into execution waves
+ */
+export interface WaveOptions<T extends SchedulableStep> {
+  /** Steps that must run in a wave of their own (e.g. steps that may touch any file) */
+  isExclusive?: (step: T) => boolean;
+  /** Maximum number of steps per wave */
+  maxConcurrency?: number;
+}
+
+/**
+ * Check whether any step declares dependencies
+ * Plans without `depends_on` keep their sequential array order
+ */
+export function hasDependencies(steps: SchedulableStep[]): boolean {
+  return steps.some(step => Array.isArray(step.depends_on) && step.depends_on.length > 0);
+}
+
+/**
+ * Find a dependency cycle using depth-first search
+ * @returns Step ids forming the cycle (first id repeated at the end), or null
+ */
+function findCycle(graph: Map<string, string[]>): string[] | null {
+  const state = new Map<string, 'visiting' | 'done'>();
+  const stack: string[] = [];
+
+  const visit = (id: string): string[] | null => {
+    state.set(id, 'visiting');
+    stack.push(id);
+
+    for (const dependency of graph.get(id) || []) {
+      if (state.get(dependency) === 'visiting') {
+        return [...stack.slice(stack.indexOf(dependency)), dependency];
+      }
+      if (!state.has(dependency)) {
+        const cycle = visit(dependency);
+        if (cycle) return cycle;
+      }
+    }
+
+    stack.pop();
+    state.set(id, 'done');
+    return null;
+  };
+
+  for (const id of graph.keys()) {
+    if (!state.has(id)) {
+      const cycle = visit(id);
+      if (cycle) return cycle;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Build the dependency graph of a plan
+ * @param steps - Plan steps in array order
+ * @returns Map of step id to the ids it depends on
+ * @throws {Error} If ids are missing or duplicated, a dependency is unknown, or the graph has a cycle
+ */
+export function buildDependencyGraph(steps: SchedulableStep[]): Map<string, string[]> {
+  const graph = new Map<string, string[]>();
+
+  for (const [index, step] of steps.entries()) {
+    if (!step.id) {
+      throw new Error(`Step ${index + 1} has no id. Every step needs an id when depends_on is used.`);
+    }
+    if (graph.has(step.id)) {
+      throw new Error(`Duplicate step id '${step.id}'. Step ids must be unique when depends_on is used.`);
+    }
+    graph.set(step.id, [...new Set(step.depends_on || [])]);
+  }
+
+  for (const [id, dependencies] of graph) {
+    for (const dependency of dependencies) {
+      if (!graph.has(dependency)) {
+        throw new Error(`Step '${id}' depends on unknown step '${dependency}'.`);
+      }
+    }
+  }
+
+  const cycle = findCycle(graph);
+  if (cycle) {
+    throw new Error(`Dependency cycle detected: ${cycle.join(' -> ')}`);
+  }
+
+  return graph;
+}
+
+/**
+ * Group steps into waves that can run concurrently
+ *
+ * A step joins the first wave after all of its dependencies. Steps keep their
+ * plan order inside a wave, so results (e.g. commits) are deterministic.
+ * Without any `depends_on`, every step gets its own wave in plan order.
+ *
+ * @param steps - Plan steps in array order
+ * @param options - Exclusive steps and concurrency limit
+ * @returns Waves of steps, in execution order
+ * @throws {Error} If the dependency graph is invalid (see buildDependencyGraph)
+ *
+ * @example
+ * buildExecutionWaves([
+ *   { id: 'model' },
+ *   { id: 'usecase', depends_on: ['model'] },
+ *   { id: 'errors', depends_on: ['model'] },
+ * ])
+ * // [[model], [usecase, errors]]
+ */
+export function buildExecutionWaves<T extends SchedulableStep>(steps: T[], options: WaveOptions<T> = {}): T[][] {
+  if (!hasDependencies(steps)) {
+    return steps.map(step => [step]);
+  }
+
+  const graph = buildDependencyGraph(steps);
+
+  // Level of a step = 1 + highest level among its dependencies
+  const levels = new Map<string, number>();
+  const levelOf = (id: string): number => {
+    const known = levels.get(id);
+    if (known !== undefined) return known;
+    const dependencies = graph.get(id) || [];
+    const level = dependencies.length === 0 ? 0 : Math.max(...dependencies.map(levelOf)) + 1;
+    levels.set(id, level);
+    return level;
+  };
+
+  const byLevel: T[][] = [];
+  for (const step of steps) {
+    const level = levelOf(step.id);
+    (byLevel[level] = byLevel[level] || []).push(step);
+  }
+
+  const maxConcurrency = Math.max(1, options.maxConcurrency ?? Infinity);
+  const waves: T[][] = [];
+
+  for (const levelSteps of byLevel) {
+    let current: T[] = [];
+    for (const step of levelSteps) {
+      if (options.isExclusive?.(step)) {
+        if (current.length > 0) waves.push(current);
+        waves.push([step]);
+        current = [];
+        continue;
+      }
+      current.push(step);
+      if (current.length >= maxConcurrency) {
+        waves.push(current);
+        current = [];
+      }
+    }
+    if (current.length > 0) waves.push(current);
+  }
+
+  return waves;
+}
+
+/**
+ * Mutual exclusion keyed by name (e.g. file path)
+ * Work holding the same key runs one at a time, in call order
+ */
+export class KeyedLock {
+  private tails = new Map<string, Promise<void>>();
+
+  /**
+   * Run a function while holding the lock for every key
+   * Keys are acquired in sorted order so overlapping key sets cannot deadlock
+   */
+  async run<T>(keys: string[], fn: () => Promise<T>): Promise<T> {
+    const uniqueKeys = [...new Set(keys)].sort();
+    const releases: Array<() => void> = [];
+
+    for (const key of uniqueKeys) {
+      const previous = this.tails.get(key) || Promise.resolve();
+      let release!: () => void;
+      const current = new Promise<void>(resolve => {
+        release = resolve;
+      });
+      const tail = previous.then(() => current);
+      this.tails.set(key, tail);
+      releases.push(() => {
+        release();
+        // Drop the entry once nobody is queued behind this holder
+        if (this.tails.get(key) === tail) this.tails.delete(key);
+      });
+      await previous;
+    }
+
+    try {
+      return await fn();
+    } finally {
+      releases.forEach(release => release());
+    }
+  }
+}
@@ -0,0 +1,98 @@
+/**
+ * Unit tests for step-selection utility
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  parseStepSelectionArgs,
+  hasStepSelection,
+  resolveStepSelection,
+  type SelectableStep,
+} from './step-selection';
+
+const steps: SelectableStep[] = [
+  { id: 'create-folders', status: 'SUCCESS' },
+  { id: 'create-model', status: 'SUCCESS' },
+  { id: 'create-usecase', status: 'FAILED' },
+  { id: 'create-errors', status: 'PENDING' },
+  { id: 'create-index', status: 'FAILED' },
+];
+
+const selectedIndexes = (result: { indexes: Set<number> }) => [...result.indexes];
+
+describe('parseStepSelectionArgs', () => {
+  it('should return undefined when no selection flag is present', () => {
+    expect(parseStepSelectionArgs({ _: [], yes: true })).toBeUndefined();
+  });
+
+  it('should split --only into ids', () => {
+    expect(parseStepSelectionArgs({ only: 'a, b,,a' })).toEqual({ only: ['a', 'b'] });
+  });
+
+  it('should accept repeated --only flags', () => {
+    expect(parseStepSelectionArgs({ only: ['a', 'b,c'] })).toEqual({ only: ['a', 'b', 'c'] });
+  });
+
+  it('should convert numeric ids to strings', () => {
+    expect(parseStepSelectionArgs({ from: 3, until: 5 })).toEqual({ from: '3', until: '5' });
+  });
+
+  it('should parse --retry-failed', () => {
+    expect(parseStepSelectionArgs({ 'retry-failed': true })).toEqual({ retryFailed: true });
+  });
+
+  it('should reject flags without a value', () => {
+    expect(() => parseStepSelectionArgs({ from: true })).toThrow('--from requires a step id');
+    expect(() => parseStepSelectionArgs({ only: true })).toThrow('--only requires');
+  });
+});
+
+describe('hasStepSelection', () => {
+  it('should detect empty selections', () => {
+    expect(hasStepSelection(undefined)).toBe(false);
+    expect(hasStepSelection({ only: [] })).toBe(false);
+    expect(hasStepSelection({ until: 'a' })).toBe(true);
+  });
+});
+
+describe('resolveStepSelection', () => {
+  it('should select listed steps in plan order with --only', () => {
+    const result = resolveStepSelection(steps, { only: ['create-index', 'create-model'] });
+
+    expect(selectedIndexes(result)).toEqual([1, 4]);
+    expect(result.description).toBe('--only create-index,create-model (2 of 5 steps)');
+  });
+
+  it('should select from a step to the end with --from', () => {
+    expect(selectedIndexes(resolveStepSelection(steps, { from: 'create-usecase' }))).toEqual([2, 3, 4]);
+  });
+
+  it('should select up to a step with --until', () => {
+    expect(selectedIndexes(resolveStepSelection(steps, { until: 'create-model' }))).toEqual([0, 1]);
+  });
+
+  it('should combine --from and --until into a range', () => {
+    const result = resolveStepSelection(steps, { from: 'create-model', until: 'create-errors' });
+    expect(selectedIndexes(result)).toEqual([1, 2, 3]);
+  });
+
+  it('should keep only failed steps with --retry-failed', () => {
+    expect(selectedIndexes(resolveStepSelection(steps, { retryFailed: true }))).toEqual([2, 4]);
+    expect(selectedIndexes(resolveStepSelection(steps, { retryFailed: true, until: 'create-errors' }))).toEqual([2]);
+  });
+
+  it('should reject unknown ids and list the available ones', () => {
+    expect(() => resolveStepSelection(steps, { from: 'missing' }))
+      .toThrow("Unknown step id 'missing' for --from. Available ids: create-folders, create-model");
+  });
+
+  it('should reject inverted ranges', () => {
+    expect(() => resolveStepSelection(steps, { from: 'create-index', until: 'create-model' }))
+      .toThrow("--from 'create-index' comes after --until 'create-model'");
+  });
+
+  it('should reject --only combined with a range', () => {
+    expect(() => resolveStepSelection(steps, { only: ['create-model'], from: 'create-model' }))
+      .toThrow('--only cannot be combined with --from or --until');
+  });
+});
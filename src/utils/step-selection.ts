@@ -0,0 +1,162 @@
+/**
+ * Step Selection
+ * Resolves --from, --only, --until and --retry-failed into the steps to run
+ */
+
+/**
+ * Steps requested on the command line
+ */
+export interface StepSelection {
+  /** Run steps starting at this id (inclusive) */
+  from?: string;
+  /** Run only these ids */
+  only?: string[];
+  /** Run steps up to this id (inclusive) */
+  until?: string;
+  /** Run only steps with status FAILED */
+  retryFailed?: boolean;
+}
+
+/**
+ * Minimal step shape needed for selection
+ */
+export interface SelectableStep {
+  id: string;
+  status: string;
+}
+
+/**
+ * Steps chosen by a selection
+ */
+export interface ResolvedStepSelection {
+  /** Plan indexes of the selected steps */
+  indexes: Set<number>;
+  /** Summary for logs, e.g. "--from create-user (4 of 10 steps)" */
+  description: string;
+}
+
+/**
+ * Convert a single CLI value to a step id
+ * minimist turns numeric values into numbers and bare flags into `true`
+ */
+function toStepId(flag: string, value: unknown): string | undefined {
+  if (value === undefined || value === false) return undefined;
+  if (value === true || String(value).trim() === '') {
+    throw new Error(`--${flag} requires a step id`);
+  }
+  return String(value).trim();
+}
+
+/**
+ * Parse step selection flags from parsed CLI arguments
+ * @param args - Parsed arguments (zx/minimist `argv`)
+ * @returns Selection, or undefined when no selection flag is present
+ * @throws {Error} If a flag is given without a value
+ *
+ * @example
+ * parseStepSelectionArgs({ only: 'create-user,update-user' })
+ * // { only: ['create-user', 'update-user'] }
+ */
+export function parseStepSelectionArgs(args: Record<string, unknown>): StepSelection | undefined {
+  const selection: StepSelection = {};
+
+  const from = toStepId('from', args.from);
+  const until = toStepId('until', args.until);
+  if (from) selection.from = from;
+  if (until) selection.until = until;
+
+  if (args.only !== undefined && args.only !== false) {
+    if (args.only === true) {
+      throw new Error('--only requires a comma-separated list of step ids');
+    }
+    const values = Array.isArray(args.only) ? args.only : [args.only];
+    const ids = values
+      .flatMap(value => String(value).split(','))
+      .map(id => id.trim())
+      .filter(id => id.length > 0);
+    if (ids.length === 0) {
+      throw new Error('--only requires a comma-separated list of step ids');
+    }
+    selection.only = [...new Set(ids)];
+  }
+
+  const retryFailed = args['retry-failed'] ?? args.retryFailed;
+  if (retryFailed === true || retryFailed === 'true') {
+    selection.retryFailed = true;
+  }
+
+  return hasStepSelection(selection) ? selection : undefined;
+}
+
+/**
+ * Check whether a selection restricts the steps to run
+ */
+export function hasStepSelection(selection?: StepSelection): selection is StepSelection {
+  return Boolean(
+    selection &&
+    (selection.from || selection.until || selection.retryFailed || (selection.only && selection.only.length > 0))
+  );
+}
+
+/**
+ * Describe a selection the way it was given on the command line
+ */
+function describeFlags(selection: StepSelection): string {
+  const flags: string[] = [];
+  if (selection.only) flags.push(`--only ${selection.only.join(',')}`);
+  if (selection.from) flags.push(`--from ${selection.from}`);
+  if (selection.until) flags.push(`--until ${selection.until}`);
+  if (selection.retryFailed) flags.push('--retry-failed');
+  return flags.join(' ');
+}
+
+/**
+ * Resolve a selection against the steps of a plan
+ *
+ * - `only` selects exactly the listed steps
+ * - `from` / `until` select an inclusive range in plan order (either bound may be omitted)
+ * - `retryFailed` keeps only FAILED steps (within the range, if one is given)
+ *
+ * Selected steps run whatever their status; every other step is left untouched.
+ *
+ * @param steps - Plan steps in array order
+ * @param selection - Selection from the command line
+ * @returns Plan indexes of the selected steps and a summary for logs
+ * @throws {Error} If an id does not exist, the range is inverted or flags conflict
+ */
+export function resolveStepSelection(steps: SelectableStep[], selection: StepSelection): ResolvedStepSelection {
+  if (selection.only && (selection.from || selection.until)) {
+    throw new Error('--only cannot be combined with --from or --until');
+  }
+
+  const indexOf = (flag: string, id: string): number => {
+    const index = steps.findIndex(step => step.id === id);
+    if (index === -1) {
+      const available = steps.map(step => step.id).filter(Boolean).join(', ');
+      throw new Error(`Unknown step id '${id}' for --${flag}. Available ids: ${available || '(none)'}`);
+    }
+    return index;
+  };
+
+  let candidates: number[];
+
+  if (selection.only) {
+    candidates = selection.only.map(id => indexOf('only', id)).sort((a, b) => a - b);
+  } else {
+    const start = selection.from ? indexOf('from', selection.from) : 0;
+    const end = selection.until ? indexOf('until', selection.until) : steps.length - 1;
+    if (start > end) {
+      throw new Error(`--from '${selection.from}' comes after --until '${selection.until}' in the plan`);
+    }
+    candidates = steps.map((_, index) => index).slice(start, end + 1);
+  }
+
+  if (selection.retryFailed) {
+    candidates = candidates.filter(index => steps[index].status === 'FAILED');
+  }
+
+  return {
+    indexes: new Set(candidates),
+    description: `${describeFlags(selection)} (${candidates.length} of ${steps.length} steps)`,
+  };
+}
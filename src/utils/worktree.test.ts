@@ -0,0 +1,117 @@
+/**
+ * Unit tests for worktree utility
+ * Uses real git repositories in temp directories
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import fs from 'fs-extra';
+import os from 'os';
+import path from 'path';
+import { $ } from 'zx';
+import {
+  buildWorktreeBranchName,
+  createWorktree,
+  linkDependencies,
+  mergeWorktreeBranch,
+  removeWorktree,
+  type GitRunner,
+  type WorktreeInfo,
+} from './worktree';
+
+const git: GitRunner = async (args) => (await $({ quiet: true })`git ${args}`).stdout;
+
+describe('buildWorktreeBranchName', () => {
+  it('should name the branch after the plan and time', () => {
+    const now = new Date('2025-10-19T12:34:56.000Z');
+
+    expect(buildWorktreeBranchName('spec/001-auth/domain/implementation.yaml', now))
+      .toBe('regent/isolated/domain-implementation-20251019123456');
+    expect(buildWorktreeBranchName('backend-domain-template.regent', now))
+      .toBe('regent/isolated/backend-domain-template-20251019123456');
+  });
+});
+
+describe('worktree lifecycle', () => {
+  let repo: string;
+  let worktree: WorktreeInfo | null;
+
+  const commitFile = async (cwd: string, file: string, content: string) => {
+    await fs.outputFile(path.join(cwd, file), content);
+    await git(['-C', cwd, 'add', file]);
+    await git(['-C', cwd, 'commit', '-q', '-m', `add ${file}`]);
+  };
+
+  beforeEach(async () => {
+    repo = await fs.realpath(await fs.mkdtemp(path.join(os.tmpdir(), 'worktree-test-')));
+    worktree = null;
+    await git(['-C', repo, 'init', '-q']);
+    await git(['-C', repo, 'config', 'user.email', 'test@example.com']);
+    await git(['-C', repo, 'config', 'user.name', 'Test']);
+    await commitFile(repo, 'README.md', 'base\n');
+  });
+
+  afterEach(async () => {
+    if (worktree) {
+      await fs.remove(worktree.container);
+    }
+    await fs.remove(repo);
+  });
+
+  it('should create a worktree on a new branch matching the caller cwd', async () => {
+    await fs.ensureDir(path.join(repo, 'packages/api'));
+    worktree = await createWorktree(git, 'implementation.yaml', path.join(repo, 'packages/api'));
+
+    expect(worktree.repoRoot).toBe(repo);
+    expect(await fs.pathExists(path.join(worktree.path, 'README.md'))).toBe(true);
+    expect(worktree.cwd).toBe(path.join(worktree.path, 'packages/api'));
+    expect((await git(['-C', worktree.path, 'branch', '--show-current'])).trim()).toBe(worktree.branch);
+  });
+
+  it('should fast-forward the main branch and remove the worktree', async () => {
+    worktree = await createWorktree(git, 'implementation.yaml', repo);
+    await commitFile(worktree.path, 'src/user.ts', 'export {};\n');
+
+    expect(await mergeWorktreeBranch(git, worktree)).toBe('fast-forward');
+    expect(await fs.pathExists(path.join(repo, 'src/user.ts'))).toBe(true);
+
+    await removeWorktree(git, worktree);
+    expect(await fs.pathExists(worktree.container)).toBe(false);
+    expect((await git(['-C', repo, 'branch', '--list', worktree.branch])).trim()).toBe('');
+  });
+
+  it('should create a merge commit when the main branch moved', async () => {
+    worktree = await createWorktree(git, 'implementation.yaml', repo);
+    await commitFile(worktree.path, 'src/user.ts', 'export {};\n');
+    await commitFile(repo, 'docs/notes.md', 'notes\n');
+
+    expect(await mergeWorktreeBranch(git, worktree)).toBe('merge');
+    expect(await fs.pathExists(path.join(repo, 'src/user.ts'))).toBe(true);
+    expect(await fs.pathExists(path.join(repo, 'docs/notes.md'))).toBe(true);
+  });
+
+  it('should report branches without new commits as up to date', async () => {
+    worktree = await createWorktree(git, 'implementation.yaml', repo);
+
+    expect(await mergeWorktreeBranch(git, worktree)).toBe('up-to-date');
+  });
+
+  it('should abort a conflicting merge and keep the branch', async () => {
+    worktree = await createWorktree(git, 'implementation.yaml', repo);
+    await commitFile(worktree.path, 'README.md', 'from plan\n');
+    await commitFile(repo, 'README.md', 'from developer\n');
+
+    await expect(mergeWorktreeBranch(git, worktree)).rejects.toThrow();
+    expect(await fs.readFile(path.join(repo, 'README.md'), 'utf-8')).toBe('from developer\n');
+    expect((await git(['-C', repo, 'status', '--porcelain'])).trim()).toBe('');
+  });
+
+  it('should link node_modules next to the worktree, outside git', async () => {
+    worktree = await createWorktree(git, 'implementation.yaml', repo);
+    expect(await linkDependencies(worktree)).toBe(false);
+
+    await fs.ensureDir(path.join(repo, 'node_modules/some-package'));
+    expect(await linkDependencies(worktree)).toBe(true);
+    expect(await fs.pathExists(path.join(worktree.container, 'node_modules/some-package'))).toBe(true);
+    expect((await git(['-C', worktree.path, 'status', '--porcelain'])).trim()).toBe('');
+  });
+});
@@ -0,0 +1,137 @@
+/**
+ * Git Worktree Isolation
+ * Runs a plan in a temporary worktree on its own branch, then merges it back
+ */
+
+import fs from 'fs-extra';
+import * as os from 'os';
+import * as path from 'path';
+
+/**
+ * Runs `git <args>` and returns stdout
+ */
+export type GitRunner = (args: string[]) => Promise<string>;
+
+/**
+ * A worktree created for an isolated run
+ */
+export interface WorktreeInfo {
+  /** Root of the main working tree */
+  repoRoot: string;
+  /** Temporary directory holding the worktree (and the dependencies link) */
+  container: string;
+  /** Root of the temporary worktree */
+  path: string;
+  /** Working directory inside the worktree matching the caller's cwd */
+  cwd: string;
+  branch: string;
+  /** Commit the worktree branch started from */
+  baseCommit: string;
+}
+
+/**
+ * How the worktree branch was brought back into the main working tree
+ */
+export type MergeOutcome = 'fast-forward' | 'merge' | 'up-to-date';
+
+/**
+ * Build the branch name for an isolated run
+ * @example buildWorktreeBranchName('spec/001-auth/domain/implementation.yaml')
+ * // 'regent/isolated/domain-implementation-20251019123456'
+ */
+export function buildWorktreeBranchName(planPath: string, now: Date = new Date()): string {
+  const parsed = path.parse(planPath);
+  const slug = [path.basename(parsed.dir), parsed.name]
+    .filter(Boolean)
+    .join('-')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '');
+  const timestamp = now.toISOString().replace(/\D/g, '').slice(0, 14);
+
+  return `regent/isolated/${slug || 'plan'}-${timestamp}`;
+}
+
+/**
+ * Create a worktree on a new branch from HEAD
+ * @param git - Runner used for all git commands (they target directories with `-C`)
+ * @param planPath - Plan being executed (used for the branch name)
+ * @param cwd - Caller's working directory inside the repository
+ * @throws {Error} If cwd is not inside a git repository with at least one commit
+ */
+export async function createWorktree(git: GitRunner, planPath: string, cwd: string = process.cwd()): Promise<WorktreeInfo> {
+  const repoRoot = (await git(['-C', cwd, 'rev-parse', '--show-toplevel'])).trim();
+  const baseCommit = (await git(['-C', repoRoot, 'rev-parse', 'HEAD'])).trim();
+  const branch = buildWorktreeBranchName(planPath);
+  const container = await fs.mkdtemp(path.join(os.tmpdir(), 'regent-worktree-'));
+  const worktreePath = path.join(container, path.basename(repoRoot));
+
+  await git(['-C', repoRoot, 'worktree', 'add', '-b', branch, worktreePath, baseCommit]);
+
+  // Keep the caller's position in the repository (e.g. a package of a monorepo)
+  const relativeCwd = path.relative(await fs.realpath(repoRoot), await fs.realpath(cwd));
+
+  return {
+    repoRoot,
+    container,
+    path: worktreePath,
+    cwd: path.join(worktreePath, relativeCwd),
+    branch,
+    baseCommit,
+  };
+}
+
+/**
+ * Make installed dependencies available in the worktree so quality checks can run
+ *
+ * Links the repository's `node_modules` next to the worktree rather than inside it:
+ * module resolution and package manager scripts look in parent directories, and
+ * git never sees the link, so steps that stage every changed file cannot commit it.
+ *
+ * @returns Whether dependencies were linked
+ */
+export async function linkDependencies(worktree: WorktreeInfo): Promise<boolean> {
+  const source = path.join(worktree.repoRoot, 'node_modules');
+  if (!await fs.pathExists(source)) {
+    return false;
+  }
+
+  await fs.ensureSymlink(source, path.join(worktree.container, 'node_modules'), 'dir');
+  return true;
+}
+
+/**
+ * Merge the worktree branch into the branch checked out in the main working tree
+ * Fast-forwards when possible, otherwise creates a merge commit
+ * @throws {Error} If the merge fails (a conflicting merge is aborted first)
+ */
+export async function mergeWorktreeBranch(git: GitRunner, worktree: WorktreeInfo): Promise<MergeOutcome> {
+  const branchHead = (await git(['-C', worktree.repoRoot, 'rev-parse', worktree.branch])).trim();
+  if (branchHead === worktree.baseCommit) {
+    return 'up-to-date';
+  }
+
+  try {
+    await git(['-C', worktree.repoRoot, 'merge', '--ff-only', worktree.branch]);
+    return 'fast-forward';
+  } catch {
+    // HEAD moved while the plan was running
+  }
+
+  try {
+    await git(['-C', worktree.repoRoot, 'merge', '--no-ff', '--no-edit', worktree.branch]);
+    return 'merge';
+  } catch (error) {
+    await git(['-C', worktree.repoRoot, 'merge', '--abort']).catch(() => undefined);
+    throw error;
+  }
+}
+
+/**
+ * Remove the worktree, its branch and the temporary directory holding it
+ */
+export async function removeWorktree(git: GitRunner, worktree: WorktreeInfo): Promise<void> {
+  await git(['-C', worktree.repoRoot, 'worktree', 'remove', '--force', worktree.path]);
+  await git(['-C', worktree.repoRoot, 'branch', '-D', worktree.branch]);
+  await fs.remove(worktree.container);
+}
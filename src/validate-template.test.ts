@@ -0,0 +1,52 @@
+/**
+ * Tests for plugin step types in the template validator
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import fs from 'fs-extra';
+import os from 'os';
+import path from 'path';
+import * as yaml from 'yaml';
+import { EnhancedTemplateValidator } from './validate-template';
+import { StepTypeRegistry } from './core/step-registry';
+
+describe('EnhancedTemplateValidator plugin step types', () => {
+  let tempDir: string;
+  let stepTypes: StepTypeRegistry;
+
+  beforeEach(async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'validate-template-'));
+    stepTypes = new StepTypeRegistry();
+    stepTypes.register({
+      type: 'seed_data',
+      schema: { type: 'object', required: ['table'], properties: { table: { type: 'string' } } },
+      execute: () => {},
+    });
+  });
+
+  afterEach(async () => {
+    await fs.remove(tempDir);
+    vi.restoreAllMocks();
+  });
+
+  const validate = async (steps: unknown[]) => {
+    const planPath = path.join(tempDir, 'implementation.yaml');
+    await fs.writeFile(planPath, yaml.stringify({ metadata: { layer: 'domain' }, steps }));
+    return new EnhancedTemplateValidator(stepTypes).validateTemplate(planPath);
+  };
+
+  it('should accept plugin steps matching their schema', async () => {
+    const result = await validate([{ id: 'seed-users', type: 'seed_data', table: 'users' }]);
+
+    expect(result.errors).toEqual([]);
+    expect(result.valid).toBe(true);
+  });
+
+  it('should report plugin steps that do not match their schema', async () => {
+    const result = await validate([{ id: 'seed-users', type: 'seed_data', table: 42 }]);
+
+    expect(result.valid).toBe(false);
+    expect(result.errors).toEqual(["Step 'seed-users' (seed_data): /table: must be string"]);
+  });
+});
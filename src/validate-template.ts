@@ -5,7 +5,7 @@
  * Uses the 16 JSON schemas created for each layer/target combination
  */
 
-import Ajv from 'ajv'
+import Ajv, { type ValidateFunction } from 'ajv'
 import addFormats from 'ajv-formats'
 // Using namespace import for native Node.js 'fs' module (not fs-extra)
 // This is correct and not affected by the ESM bug - native fs works fine with namespace imports
@@ -14,6 +14,8 @@ import * as fs from 'fs'
 import * as path from 'path'
 import * as yaml from 'js-yaml'
 import chalk from 'chalk'
+import { checkPatchHeaders } from './utils/patch-engine'
+import { loadStepPlugins, StepTypeRegistry } from './core/step-registry'
 
 interface ValidationResult {
   valid: boolean
@@ -32,12 +34,13 @@ interface LayerSchema {
 
 interface CompiledSchema {
   schema: unknown;
-  validate: (data: unknown) => boolean;
+  validate: ValidateFunction;
 }
 
 interface TemplateStep {
   id?: string;
   type?: string;
+  path?: string;
   template?: string;
 }
 
@@ -52,12 +55,26 @@ interface TemplateData {
   [key: string]: unknown;
 }
 
+/**
+ * Sections of a template holding steps
+ */
+const STEP_SECTIONS = ['steps', 'domain_steps', 'data_steps', 'infra_steps', 'presentation_steps', 'main_steps'] as const
+
 class EnhancedTemplateValidator {
   private ajv: Ajv
   private schemas: Map<string, CompiledSchema> = new Map()
   private layerSchemas: LayerSchema[] = []
+  private stepTypes: StepTypeRegistry
+  private pluginSchemas: Map<string, ValidateFunction> = new Map()
+  private pluginsLoaded: boolean
+
+  /**
+   * @param stepTypes - Plugin step types (default: the plugins in .regent/plugins of the current directory)
+   */
+  constructor(stepTypes?: StepTypeRegistry) {
+    this.stepTypes = stepTypes ?? new StepTypeRegistry()
+    this.pluginsLoaded = Boolean(stepTypes)
 
-  constructor() {
     // Initialize AJV with comprehensive settings
     this.ajv = new Ajv({
       allErrors: true,
@@ -165,6 +182,12 @@ class EnhancedTemplateValidator {
     }
 
     try {
+      // Plugin step types are validated against their own schema
+      if (!this.pluginsLoaded) {
+        this.pluginsLoaded = true
+        await loadStepPlugins(this.stepTypes)
+      }
+
       // Read template file
       const absolutePath = path.resolve(templatePath)
       const content = fs.readFileSync(absolutePath, 'utf-8')
@@ -193,12 +216,15 @@ class EnhancedTemplateValidator {
         schemaData = loadedSchema
       }
 
-      // Validate against schema
-      const valid = schemaData.validate(data)
+      // Validate against schema; the layer schemas do not know plugin step types
+      schemaData.validate(data)
+      const pluginSteps = this.getPluginStepPaths(data)
+      const errors = (schemaData.validate.errors || []).filter(error =>
+        !pluginSteps.some(stepPath => error.instancePath === stepPath || error.instancePath.startsWith(`${stepPath}/`))
+      )
 
-      if (!valid) {
+      if (errors.length > 0) {
         result.valid = false
-        const errors = this.ajv.errors || []
 
         errors.forEach(error => {
           const errorPath = error.instancePath || 'root'
@@ -215,6 +241,8 @@ class EnhancedTemplateValidator {
         })
       }
 
+      this.validatePluginSteps(data, result)
+
       // Layer-specific validations
       this.performLayerSpecificValidations(data, layerSchema, result)
 
@@ -320,12 +348,55 @@ class EnhancedTemplateValidator {
       }
     })
 
+    this.validatePluginSteps(data, result)
+
     // Check for common issues
     this.checkCommonIssues(data, result)
 
     return result
   }
 
+  /**
+   * JSON pointers of the steps whose type is registered by a plugin
+   */
+  private getPluginStepPaths(data: TemplateData): string[] {
+    return STEP_SECTIONS.flatMap(section =>
+      (data[section] || []).flatMap((step, index) =>
+        step?.type && this.stepTypes.get(step.type) ? [`/${section}/${index}`] : []
+      )
+    )
+  }
+
+  /**
+   * Validate plugin steps against the schema declared by their plugin
+   */
+  private validatePluginSteps(data: TemplateData, result: ValidationResult): void {
+    STEP_SECTIONS.forEach(section => {
+      const steps: TemplateStep[] = data[section] || []
+      steps.forEach(step => {
+        const definition = step?.type ? this.stepTypes.get(step.type) : undefined
+        if (!definition?.schema) {
+          return
+        }
+
+        let validate = this.pluginSchemas.get(definition.type)
+        if (!validate) {
+          validate = this.ajv.compile(definition.schema)
+          this.pluginSchemas.set(definition.type, validate)
+        }
+
+        const label = `Step '${step.id}' (${definition.type})`
+        if (!validate(step)) {
+          result.valid = false
+          const errors = validate.errors || []
+          errors.forEach(error => {
+            result.errors.push(`${label}: ${error.instancePath || 'root'}: ${error.message}`)
+          })
+        }
+      })
+    })
+  }
+
   /**
    * Check for common issues across all templates
    */
@@ -366,6 +437,25 @@ class EnhancedTemplateValidator {
         }
       }
     })
+
+    // Check file and hunk headers of unified diffs in patch steps
+    steps.filter(step => step.type === 'patch').forEach(step => {
+      if (!step.template) {
+        result.errors.push(`Step '${step.id}': patch step has no diff in 'template'`)
+        result.valid = false
+        return
+      }
+
+      checkPatchHeaders(step.template, step.path).forEach(issue => {
+        const message = `Step '${step.id}': patch line ${issue.line}: ${issue.message}`
+        if (issue.severity === 'error') {
+          result.errors.push(message)
+          result.valid = false
+        } else {
+          result.warnings.push(message)
+        }
+      })
+    })
   }
 
   /**